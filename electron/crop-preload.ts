@@ -1,9 +1,9 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron';
 
 // Expose crop-specific methods to the crop overlay window
-contextBridge.exposeInMainWorld('electronAPI', {
+const cropApi = {
     // Receive screenshot from main process
-    onCropScreenshot: (callback: (event: any, data: { screenshot: string }) => void) => {
+    onCropScreenshot: (callback: (event: IpcRendererEvent, data: { screenshot: string }) => void) => {
         ipcRenderer.on('crop-screenshot', callback);
     },
 
@@ -21,7 +21,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
     cropReady: (): void => {
         ipcRenderer.send('crop-ready');
     },
-});
+};
 
-// Note: Window.electronAPI types are defined in the main preload.ts
-// This file only exposes crop-specific methods which are a subset
+contextBridge.exposeInMainWorld('electronAPI', cropApi);
+
+// window.electronAPI in the crop window, which doesn't get the main preload
+export type CropElectronAPI = typeof cropApi;
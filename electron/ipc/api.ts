@@ -1,204 +1,47 @@
 /**
  * IPC handlers for API calls
- * Proxies requests from renderer to external APIs
+ * Proxies requests from renderer to external APIs using the shared provider module
  */
 
 import { ipcMain } from 'electron';
+import Store from 'electron-store';
 import type { AppConfig, ChatMessage } from '../../src/lib/types';
+import { executeApiCall, executeFetchModels, setKeyStateStorage, type ApiResponse, type ModelInfo } from '../../src/lib/providers';
 
-// Import API functions (we'll need to adapt these for Node.js context)
-// For now, we use fetch directly in the main process
+// Key rotation state (exhausted keys etc.), shared with the renderer through get/set-key-state
+const keyStateStore = new Store<{ keyState: Record<string, unknown> }>({
+    name: 'key-state',
+    defaults: { keyState: {} }
+});
 
-interface ApiResponse {
-    text: string;
-    error?: string;
-}
-
-function getDefaultBaseUrl(provider: string): string {
-    switch (provider) {
-        case 'openai': return 'https://api.openai.com/v1';
-        case 'google': return 'https://generativelanguage.googleapis.com/v1beta';
-        case 'anthropic': return 'https://api.anthropic.com/v1';
-        case 'openrouter': return 'https://openrouter.ai/api/v1';
-        case 'perplexity': return 'https://api.perplexity.ai';
-        default: return '';
-    }
-}
+const getKeyState = (key: string) => keyStateStore.get('keyState')[key] ?? null;
+const setKeyState = (key: string, value: unknown) => {
+    keyStateStore.set('keyState', { ...keyStateStore.get('keyState'), [key]: value });
+};
 
 export function registerApiHandlers() {
-    // Execute non-streaming API call
-    ipcMain.handle('execute-api-call', async (_event, { messages, config }: { messages: ChatMessage[]; config: AppConfig }): Promise<ApiResponse> => {
-        const provider = config.selectedProvider;
-        const apiKeys = config.apiKeys[provider];
-
-        if (!apiKeys || apiKeys.length === 0) {
-            return { text: '', error: `No API key found for ${provider}` };
-        }
+    setKeyStateStorage({
+        get: async <T>(key: string) => getKeyState(key) as T | null,
+        set: async (key, value) => setKeyState(key, value)
+    });
 
-        const apiKey = apiKeys[Math.floor(Math.random() * apiKeys.length)];
-        const baseUrl = config.customBaseUrls[provider] || getDefaultBaseUrl(provider);
-        const model = config.selectedModel[provider];
+    ipcMain.handle('get-key-state', (_event, key: string) => getKeyState(key));
+    ipcMain.handle('set-key-state', (_event, key: string, value: unknown) => {
+        setKeyState(key, value);
+    });
 
-        try {
-            switch (provider) {
-                case 'openai':
-                case 'openrouter':
-                    return await callOpenAI(apiKey, baseUrl, model, messages);
-                case 'google':
-                    return await callGoogle(apiKey, baseUrl, model, messages);
-                case 'anthropic':
-                    return await callAnthropic(apiKey, baseUrl, model, messages);
-                default:
-                    return await callOpenAI(apiKey, baseUrl, model, messages);
-            }
-        } catch (e: any) {
-            return { text: '', error: e.message || 'API call failed' };
-        }
+    // Execute non-streaming API call
+    ipcMain.handle('execute-api-call', async (_event, { messages, config }: { messages: ChatMessage[]; config: AppConfig }): Promise<ApiResponse> => {
+        return executeApiCall(messages, config);
     });
 
     // Fetch available models
-    ipcMain.handle('fetch-models', async (_event, { provider, apiKey, baseUrl }: { provider: string; apiKey: string; baseUrl?: string }): Promise<string[]> => {
-        const url = baseUrl || getDefaultBaseUrl(provider);
-
+    ipcMain.handle('fetch-models', async (_event, { provider, apiKey, baseUrl, config }: { provider: string; apiKey: string; baseUrl?: string; config?: AppConfig }): Promise<ModelInfo[]> => {
         try {
-            if (provider === 'google') {
-                const res = await fetch(`${url}/models?key=${apiKey}`);
-                if (!res.ok) throw new Error(res.statusText);
-                const data = await res.json() as { models?: Array<{ name: string }> };
-                return (data.models || [])
-                    .map((m) => m.name.replace('models/', ''))
-                    .sort();
-            } else if (provider === 'perplexity') {
-                return ['sonar-pro', 'sonar', 'sonar-reasoning-pro', 'sonar-reasoning'];
-            } else {
-                const res = await fetch(`${url}/models`, {
-                    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
-                });
-                if (!res.ok) throw new Error(res.statusText);
-                const data = await res.json() as { data?: Array<{ id: string }> };
-                return (data.data || []).map((m) => m.id).sort();
-            }
+            return await executeFetchModels(provider, apiKey, baseUrl, config);
         } catch (e: any) {
             console.error('Failed to fetch models:', e);
             return [];
         }
     });
 }
-
-// API call implementations
-
-async function callOpenAI(apiKey: string, baseUrl: string, model: string, messages: ChatMessage[]): Promise<ApiResponse> {
-    const url = `${baseUrl}/chat/completions`;
-
-    const msgs = messages.map(m => {
-        if (m.image) {
-            return {
-                role: m.role,
-                content: [
-                    { type: 'text', text: m.content },
-                    { type: 'image_url', image_url: { url: m.image } }
-                ]
-            };
-        }
-        return { role: m.role, content: m.content };
-    });
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({ model, messages: msgs })
-    });
-
-    if (!response.ok) {
-        const err = await response.json() as { error?: { message?: string } };
-        throw new Error(err.error?.message || response.statusText);
-    }
-
-    const data = await response.json() as { choices?: Array<{ message?: { content?: string }; text?: string }> };
-    return { text: data.choices?.[0]?.message?.content || data.choices?.[0]?.text || '' };
-}
-
-async function callGoogle(apiKey: string, baseUrl: string, model: string, messages: ChatMessage[]): Promise<ApiResponse> {
-    const url = `${baseUrl}/models/${model}:generateContent?key=${apiKey}`;
-
-    const contents = messages.map(m => {
-        const parts: Array<{ text: string } | { inlineData: { mimeType: string; data: string } }> = [{ text: m.content }];
-        if (m.image && m.image.startsWith('data:')) {
-            const [meta, data] = m.image.split(',');
-            const mimeType = meta.split(':')[1]?.split(';')[0];
-            if (mimeType && data) {
-                parts.push({ inlineData: { mimeType, data } });
-            }
-        }
-        return {
-            role: m.role === 'assistant' ? 'model' : 'user',
-            parts
-        };
-    });
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ contents })
-    });
-
-    if (!response.ok) {
-        const err = await response.json() as { error?: { message?: string } };
-        throw new Error(err.error?.message || response.statusText);
-    }
-
-    const data = await response.json() as { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> };
-    return { text: data.candidates?.[0]?.content?.parts?.[0]?.text || '' };
-}
-
-async function callAnthropic(apiKey: string, baseUrl: string, model: string, messages: ChatMessage[]): Promise<ApiResponse> {
-    const url = `${baseUrl}/messages`;
-
-    const systemMessage = messages.find(m => m.role === 'system');
-    const chatMessages = messages.filter(m => m.role !== 'system').map(m => {
-        if (m.image && m.image.startsWith('data:')) {
-            const [meta, data] = m.image.split(',');
-            const mimeType = meta.split(':')[1]?.split(';')[0];
-            return {
-                role: m.role,
-                content: [
-                    { type: 'image', source: { type: 'base64', media_type: mimeType, data } },
-                    { type: 'text', text: m.content }
-                ]
-            };
-        }
-        return { role: m.role, content: m.content };
-    });
-
-    const body: Record<string, unknown> = {
-        model,
-        max_tokens: 4096,
-        messages: chatMessages
-    };
-
-    if (systemMessage) {
-        body.system = systemMessage.content;
-    }
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': apiKey,
-            'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify(body)
-    });
-
-    if (!response.ok) {
-        const err = await response.json() as { error?: { message?: string } };
-        throw new Error(err.error?.message || response.statusText);
-    }
-
-    const data = await response.json() as { content?: Array<{ type?: string; text?: string }> };
-    const textContent = data.content?.find((c) => c.type === 'text');
-    return { text: textContent?.text || '' };
-}
@@ -0,0 +1,102 @@
+/**
+ * IPC handlers for conversation history
+ * Each thread is its own JSON file, with a small index store for the sidebar, so the saves
+ * made while a reply streams only write that thread and large chats don't slow down config reads
+ */
+
+import { app, ipcMain } from 'electron';
+import Store from 'electron-store';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { Conversation, ConversationSummary } from '../../src/lib/types';
+
+const indexStore = new Store<{ conversations: Record<string, ConversationSummary> }>({
+    name: 'conversation-index',
+    defaults: { conversations: {} }
+});
+
+const threadsDir = () => join(app.getPath('userData'), 'conversations');
+
+// Ids come from the renderer; anything but the generated form could point outside the folder
+const threadPath = (id: string) => {
+    if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid conversation id: ${id}`);
+    return join(threadsDir(), `${id}.json`);
+};
+
+const toSummary = (c: Conversation): ConversationSummary => ({
+    id: c.id,
+    title: c.title,
+    provider: c.provider,
+    model: c.model,
+    createdAt: c.createdAt,
+    updatedAt: c.updatedAt,
+    messageCount: c.messageCount,
+    personaId: c.personaId
+});
+
+// Writes run one at a time so two saves of a thread can't interleave their temp files
+let writes: Promise<unknown> = Promise.resolve();
+const queueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+    const run = writes.then(write);
+    writes = run.catch(() => { });
+    return run;
+};
+
+const writeThread = async (conversation: Conversation) => {
+    const file = threadPath(conversation.id);
+    await fs.mkdir(threadsDir(), { recursive: true });
+    // Written aside and renamed, so a crash mid-write leaves the previous copy intact
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(conversation));
+    await fs.rename(`${file}.tmp`, file);
+    indexStore.set('conversations', { ...indexStore.get('conversations'), [conversation.id]: toSummary(conversation) });
+};
+
+// Earlier versions kept every thread in one conversations.json; split it up once
+const migrateSingleStore = async () => {
+    const legacyStore = new Store<{ conversations: Record<string, Conversation> }>({
+        name: 'conversations',
+        defaults: { conversations: {} }
+    });
+    const conversations = Object.values(legacyStore.get('conversations'));
+    for (const conversation of conversations) await writeThread(conversation);
+    await fs.rm(legacyStore.path, { force: true });
+};
+
+export function registerConversationHandlers() {
+    const ready = queueWrite(migrateSingleStore).catch(error => console.error('Failed to migrate conversations:', error));
+
+    ipcMain.handle('list-conversations', async (): Promise<ConversationSummary[]> => {
+        await ready;
+        return Object.values(indexStore.get('conversations'));
+    });
+
+    ipcMain.handle('get-conversation-summary', async (_event, id: string): Promise<ConversationSummary | null> => {
+        await ready;
+        return indexStore.get('conversations')[id] || null;
+    });
+
+    ipcMain.handle('get-conversation', async (_event, id: string): Promise<Conversation | null> => {
+        await ready;
+        try {
+            return JSON.parse(await fs.readFile(threadPath(id), 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    });
+
+    ipcMain.handle('save-conversation', async (_event, conversation: Conversation) => {
+        await queueWrite(() => writeThread(conversation));
+        return true;
+    });
+
+    ipcMain.handle('delete-conversation', async (_event, id: string) => {
+        await queueWrite(async () => {
+            await fs.rm(threadPath(id), { force: true });
+            const conversations = { ...indexStore.get('conversations') };
+            delete conversations[id];
+            indexStore.set('conversations', conversations);
+        });
+        return true;
+    });
+}
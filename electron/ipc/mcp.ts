@@ -0,0 +1,138 @@
+/**
+ * IPC handlers for MCP servers
+ * Connections live in the main process (which can spawn stdio servers); the renderer
+ * gets their tools through status updates and calls them over IPC
+ */
+
+import { BrowserWindow, ipcMain } from 'electron';
+import type { McpServerConfig, McpServerStatus } from '../../src/lib/types';
+import { connectMcpServer, type McpClient } from '../mcp/client';
+
+interface Connection {
+    config: McpServerConfig;
+    status: McpServerStatus;
+    client?: McpClient;
+}
+
+const connections = new Map<string, Connection>();
+
+const getStatuses = (): McpServerStatus[] => Array.from(connections.values()).map(c => c.status);
+
+const broadcastStatus = () => {
+    const statuses = getStatuses();
+    BrowserWindow.getAllWindows().forEach(win => win.webContents.send('mcp-status', statuses));
+};
+
+const getClient = (serverId: string): McpClient => {
+    const client = connections.get(serverId)?.client;
+    if (!client) throw new Error('MCP server is not connected');
+    return client;
+};
+
+const emptyStatus = (config: McpServerConfig, state: McpServerStatus['state'], error?: string): McpServerStatus => ({
+    id: config.id,
+    name: config.name,
+    state,
+    error,
+    tools: [],
+    resources: [],
+    prompts: []
+});
+
+const connect = async (config: McpServerConfig) => {
+    const connection: Connection = { config, status: emptyStatus(config, 'connecting') };
+    connections.set(config.id, connection);
+    broadcastStatus();
+
+    // Config may change while we connect; only the latest connection may update the status
+    const isCurrent = () => connections.get(config.id) === connection;
+    const showLists = (client: McpClient) => {
+        connection.status = {
+            ...emptyStatus(config, 'connected'),
+            tools: client.tools,
+            resources: client.resources,
+            prompts: client.prompts
+        };
+    };
+
+    try {
+        const client = await connectMcpServer(config, {
+            onClose: (error) => {
+                if (!isCurrent()) return;
+                connection.client = undefined;
+                connection.status = emptyStatus(config, 'error', error?.message || 'Disconnected');
+                broadcastStatus();
+            },
+            onListChanged: () => {
+                connection.client?.refresh()
+                    .then(() => {
+                        if (!isCurrent() || !connection.client) return;
+                        showLists(connection.client);
+                        broadcastStatus();
+                    })
+                    .catch(error => console.error(`[MCP ${config.name}] Refresh failed:`, error));
+            }
+        });
+
+        if (!isCurrent()) {
+            client.close();
+            return;
+        }
+        connection.client = client;
+        showLists(client);
+    } catch (error) {
+        if (!isCurrent()) return;
+        console.error(`[MCP ${config.name}] Failed to connect:`, error);
+        connection.status = emptyStatus(config, 'error', (error as Error).message);
+    }
+    broadcastStatus();
+};
+
+const disconnect = (serverId: string) => {
+    connections.get(serverId)?.client?.close();
+    connections.delete(serverId);
+};
+
+// Bring connections in line with the configured servers: start new or changed ones,
+// stop removed or disabled ones, and leave the rest running
+export function syncMcpServers(servers: McpServerConfig[] = []) {
+    const wanted = new Map(servers.filter(s => s.enabled).map(s => [s.id, s]));
+    let changed = false;
+
+    for (const [id, connection] of connections) {
+        const config = wanted.get(id);
+        if (!config || JSON.stringify(config) !== JSON.stringify(connection.config)) {
+            disconnect(id);
+            changed = true;
+        }
+    }
+    for (const config of wanted.values()) {
+        if (!connections.has(config.id)) connect(config);
+    }
+
+    if (changed) broadcastStatus();
+}
+
+export function closeMcpServers() {
+    for (const id of Array.from(connections.keys())) disconnect(id);
+}
+
+export function registerMcpHandlers() {
+    ipcMain.handle('mcp-get-status', (): McpServerStatus[] => getStatuses());
+
+    ipcMain.handle('mcp-restart-server', (_event, serverId: string) => {
+        const config = connections.get(serverId)?.config;
+        if (!config) return;
+        disconnect(serverId);
+        connect(config);
+    });
+
+    ipcMain.handle('mcp-call-tool', (_event, serverId: string, name: string, args: Record<string, unknown>) =>
+        getClient(serverId).callTool(name, args));
+
+    ipcMain.handle('mcp-read-resource', (_event, serverId: string, uri: string) =>
+        getClient(serverId).readResource(uri));
+
+    ipcMain.handle('mcp-get-prompt', (_event, serverId: string, name: string, args: Record<string, string>) =>
+        getClient(serverId).getPrompt(name, args));
+}
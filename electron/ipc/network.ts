@@ -0,0 +1,252 @@
+/**
+ * IPC handlers and session setup for proxy and certificate settings
+ * Settings are applied to the default session, which carries the renderer's provider requests.
+ * Per-provider proxies are compiled into a generated PAC script so they apply there too.
+ */
+
+import { dialog, ipcMain, net, session, type Session } from 'electron';
+import { X509Certificate } from 'crypto';
+import { isIP } from 'net';
+import * as fs from 'fs';
+import type { AppConfig, NetworkSettings, NetworkTestResult, TrustedCertificate } from '../../src/lib/types';
+import { getDefaultBaseUrl, isProviderConfigured } from '../../src/lib/providers';
+
+// Chromium's net::ERR_CERT_AUTHORITY_INVALID, the only failure an imported root can fix
+const CERT_AUTHORITY_INVALID = -202;
+const MAX_CHAIN_LENGTH = 8;
+const TEST_TIMEOUT_MS = 10000;
+
+const DEFAULT_PROXY_PORTS: Record<string, string> = { 'http:': '80', 'https:': '443', 'socks:': '1080', 'socks4:': '1080', 'socks5:': '1080' };
+
+// Proxy URL to the PAC result that uses it
+const pacDirective = (proxyUrl: string) => {
+    if (proxyUrl.trim().toLowerCase() === 'direct') return 'DIRECT';
+    const url = new URL(proxyUrl.trim());
+    const hostPort = `${url.hostname}:${url.port || DEFAULT_PROXY_PORTS[url.protocol]}`;
+    switch (url.protocol) {
+        case 'http:': return `PROXY ${hostPort}`;
+        case 'https:': return `HTTPS ${hostPort}`;
+        case 'socks4:': return `SOCKS ${hostPort}`;
+        case 'socks:':
+        case 'socks5:': return `SOCKS5 ${hostPort}`;
+        default: throw new Error(`Unsupported proxy URL: ${proxyUrl}`);
+    }
+};
+
+const parseBypass = (bypass?: string) => (bypass || '').split(/[,;\s]+/).filter(Boolean);
+
+const providerBaseUrl = (config: AppConfig, provider: string) =>
+    config.customBaseUrls[provider] || getDefaultBaseUrl(provider);
+
+const hostOf = (url: string) => {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return '';
+    }
+};
+
+// What the session would otherwise do, as a PAC expression plus any code it needs
+const baseRoute = async (ses: Session, network: NetworkSettings): Promise<{ setup?: string; route: string }> => {
+    switch (network.proxyMode) {
+        case 'direct':
+            return { route: '"DIRECT"' };
+        case 'manual':
+            return { route: JSON.stringify(pacDirective(network.proxyUrl || '')) };
+        case 'pac': {
+            // Chromium fetches PAC scripts itself; here the script is embedded, so get it directly
+            await ses.setProxy({ mode: 'direct' });
+            const response = await ses.fetch(network.pacUrl || '', { cache: 'no-store' });
+            if (!response.ok) throw new Error(`Could not load the PAC script (HTTP ${response.status})`);
+            const script = await response.text();
+            // Wrapped so its FindProxyForURL doesn't clash with ours
+            return {
+                setup: `var baseFindProxyForURL = (function () {\n${script}\nreturn FindProxyForURL;\n})();`,
+                route: 'baseFindProxyForURL(url, host)'
+            };
+        }
+        default:
+            // A PAC script can't ask the OS, so the system proxy is sampled once
+            await ses.setProxy({ mode: 'system' });
+            return { route: JSON.stringify(await ses.resolveProxy('https://example.com')) };
+    }
+};
+
+// PAC script that sends each overridden provider's host its own way and everything else the usual way
+const buildPacScript = async (ses: Session, network: NetworkSettings, config: AppConfig) => {
+    const overrides: Record<string, string> = {};
+    Object.entries(network.providerProxies || {}).forEach(([provider, proxyUrl]) => {
+        const host = hostOf(providerBaseUrl(config, provider));
+        if (host && proxyUrl.trim()) overrides[host] = pacDirective(proxyUrl);
+    });
+    const bypass = network.proxyMode === 'manual' ? parseBypass(network.bypass) : [];
+    const bypassChecks = bypass.map(pattern => pattern === '<local>'
+        ? '    if (isPlainHostName(host)) return "DIRECT";'
+        : `    if (shExpMatch(host, ${JSON.stringify(pattern.startsWith('.') ? `*${pattern}` : pattern)})) return "DIRECT";`);
+
+    const { setup, route } = await baseRoute(ses, network);
+    return [
+        ...(setup ? [setup] : []),
+        'function FindProxyForURL(url, host) {',
+        `    var overrides = ${JSON.stringify(overrides)};`,
+        '    if (Object.prototype.hasOwnProperty.call(overrides, host)) return overrides[host];',
+        ...bypassChecks,
+        `    return ${route};`,
+        '}'
+    ].join('\n');
+};
+
+const proxyConfig = async (ses: Session, network: NetworkSettings, config: AppConfig): Promise<Electron.ProxyConfig> => {
+    if (Object.values(network.providerProxies || {}).some(proxyUrl => proxyUrl.trim())) {
+        const script = await buildPacScript(ses, network, config);
+        return { mode: 'pac_script', pacScript: `data:application/x-ns-proxy-autoconfig;base64,${Buffer.from(script).toString('base64')}` };
+    }
+    switch (network.proxyMode) {
+        case 'direct':
+            return { mode: 'direct' };
+        case 'manual':
+            pacDirective(network.proxyUrl || ''); // Validates the URL
+            return { mode: 'fixed_servers', proxyRules: network.proxyUrl!.trim(), proxyBypassRules: parseBypass(network.bypass).join(',') };
+        case 'pac':
+            return { mode: 'pac_script', pacScript: network.pacUrl || '' };
+        default:
+            return { mode: 'system' };
+    }
+};
+
+const isValidNow = (certificate: X509Certificate) => {
+    const now = Date.now();
+    return new Date(certificate.validFrom).getTime() <= now && now <= new Date(certificate.validTo).getTime();
+};
+
+// Whether the chain the server sent leads to one of the imported roots, with every link signed
+const chainsToTrustedRoot = (certificate: Electron.Certificate, hostname: string, roots: X509Certificate[]) => {
+    try {
+        let current = certificate;
+        let x509 = new X509Certificate(current.data);
+        if (!(isIP(hostname) ? x509.checkIP(hostname) : x509.checkHost(hostname))) return false;
+
+        for (let depth = 0; depth < MAX_CHAIN_LENGTH; depth++) {
+            if (!isValidNow(x509)) return false;
+            const issuer = x509;
+            const root = roots.find(r => issuer.checkIssued(r) && issuer.verify(r.publicKey));
+            if (root) return isValidNow(root);
+
+            const next = current.issuerCert;
+            if (!next || next === current || next.data === current.data) return false;
+            const nextX509 = new X509Certificate(next.data);
+            if (!nextX509.ca || !x509.checkIssued(nextX509) || !x509.verify(nextX509.publicKey)) return false;
+            current = next;
+            x509 = nextX509;
+        }
+        return false;
+    } catch {
+        return false;
+    }
+};
+
+const trustCertificates = (ses: Session, certificates: TrustedCertificate[]) => {
+    const roots = certificates.flatMap(c => {
+        try {
+            return [new X509Certificate(c.pem)];
+        } catch {
+            return [];
+        }
+    });
+    if (roots.length === 0) {
+        ses.setCertificateVerifyProc(null);
+        return;
+    }
+    ses.setCertificateVerifyProc((request, callback) => {
+        // -3 leaves the verdict to Chromium, 0 accepts
+        if (request.errorCode !== CERT_AUTHORITY_INVALID) return callback(-3);
+        callback(chainsToTrustedRoot(request.certificate, request.hostname, roots) ? 0 : -3);
+    });
+};
+
+const configureSession = async (ses: Session, config: AppConfig) => {
+    const network = config.network || { proxyMode: 'system' };
+    trustCertificates(ses, network.trustedCertificates || []);
+    try {
+        await ses.setProxy(await proxyConfig(ses, network, config));
+    } finally {
+        // Open connections would keep using the old route
+        await ses.closeAllConnections();
+    }
+};
+
+// Settings can change while a PAC script downloads; apply them one at a time
+let applying: Promise<void> = Promise.resolve();
+
+/** Apply the network settings to the default session. Invalid settings fall back to the system proxy. */
+export function applyNetworkSettings(config?: AppConfig) {
+    if (!config) return applying;
+    applying = applying.then(() => configureSession(session.defaultSession, config)).catch(async (e) => {
+        console.error('Failed to apply network settings:', e);
+        await session.defaultSession.setProxy({ mode: 'system' });
+    });
+    return applying;
+}
+
+// One certificate per PEM block; DER files hold a single certificate
+const readCertificates = (file: string): TrustedCertificate[] => {
+    const data = fs.readFileSync(file);
+    const blocks = data.toString('utf8').match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
+    return (blocks || [data]).map(block => {
+        const x509 = new X509Certificate(block);
+        const commonName = x509.subject.split('\n').find(part => part.startsWith('CN='))?.slice(3);
+        return {
+            id: x509.fingerprint256,
+            name: commonName || x509.subject.replace(/\n/g, ', '),
+            pem: x509.toString(),
+            fingerprint: x509.fingerprint256,
+            expires: x509.validTo
+        };
+    });
+};
+
+const testProvider = async (ses: Session, provider: string, url: string): Promise<NetworkTestResult> => {
+    const result: NetworkTestResult = { provider, url, route: '' };
+    const startedAt = Date.now();
+    try {
+        result.route = await ses.resolveProxy(url);
+        const response = await ses.fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(TEST_TIMEOUT_MS) });
+        result.status = response.status;
+        result.ms = Date.now() - startedAt;
+    } catch (e) {
+        const error = e as Error;
+        result.error = error.name === 'TimeoutError' ? `No response after ${TEST_TIMEOUT_MS / 1000}s` : error.message || String(e);
+    }
+    return result;
+};
+
+export function registerNetworkHandlers() {
+    // Main-process requests (IPC provider calls, MCP over HTTP) go through the session as well,
+    // so they get the same proxy and certificates as the windows
+    globalThis.fetch = (input, init) => net.fetch(input instanceof URL ? input.toString() : input, init);
+
+    ipcMain.handle('import-certificates', async (): Promise<TrustedCertificate[]> => {
+        const { canceled, filePaths } = await dialog.showOpenDialog({
+            title: 'Import CA Certificates',
+            properties: ['openFile', 'multiSelections'],
+            filters: [{ name: 'Certificates', extensions: ['pem', 'crt', 'cer', 'der'] }]
+        });
+        if (canceled) return [];
+        return filePaths.flatMap(readCertificates);
+    });
+
+    // Tests the given (possibly unsaved) settings in a throwaway session, one request per provider
+    ipcMain.handle('test-network', async (_event, config: AppConfig): Promise<NetworkTestResult[]> => {
+        const ses = session.fromPartition('network-test');
+        await configureSession(ses, config);
+
+        const providers = Object.keys(config.apiKeys).filter(p => isProviderConfigured(p, config));
+        Object.keys(config.network?.providerProxies || {}).forEach(p => {
+            if (!providers.includes(p)) providers.push(p);
+        });
+        return Promise.all(providers
+            .map(provider => ({ provider, url: providerBaseUrl(config, provider) }))
+            .filter(target => hostOf(target.url))
+            .map(target => testProvider(ses, target.provider, target.url)));
+    });
+}
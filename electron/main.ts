@@ -1,4 +1,4 @@
-import { app, BrowserWindow, globalShortcut, ipcMain, Menu, Tray, nativeImage, dialog, desktopCapturer, screen } from 'electron';
+import { app, BrowserWindow, globalShortcut, ipcMain, Menu, Tray, nativeImage, dialog, desktopCapturer, screen, systemPreferences } from 'electron';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import Store from 'electron-store';
@@ -9,6 +9,9 @@ import { createAppMenu, showAboutDialog } from './menu';
 import { registerApiHandlers } from './ipc/api';
 import { setupAutoUpdater } from './updater';
 import { registerScreenshotHandlers } from './ipc/screenshot';
+import { registerConversationHandlers } from './ipc/conversations';
+import { closeMcpServers, registerMcpHandlers, syncMcpServers } from './ipc/mcp';
+import { applyNetworkSettings, registerNetworkHandlers } from './ipc/network';
 
 // ESM __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
@@ -482,6 +485,27 @@ async function updateGlobalShortcuts(config: AppConfig) {
     }
   }
 
+  // 1.6 Register Voice Input Shortcut: the first press starts dictating, the next one stops it
+  if (config.voiceHotkey) {
+    const voiceAccelerator = getElectronAccelerator(config.voiceHotkey.key, config.voiceHotkey.modifiers);
+    try {
+      globalShortcut.register(voiceAccelerator, () => {
+        console.log('Voice input shortcut triggered');
+        if (mainWindow) {
+          mainWindow.show();
+          mainWindow.focus();
+          mainWindow.webContents.send('toggle-voice-input');
+        } else {
+          createMainWindow();
+          // Wait for window to load
+          setTimeout(() => mainWindow?.webContents.send('toggle-voice-input'), 500);
+        }
+      });
+    } catch (e) {
+      console.error(`Failed to register voice input shortcut: ${voiceAccelerator}`, e);
+    }
+  }
+
   // 2. Register Prompt Shortcuts
   for (const prompt of config.prompts) {
     if (prompt.hotkey && prompt.hotkey.key) {
@@ -631,8 +655,13 @@ app.whenReady().then(() => {
   if (config) {
     updateGlobalShortcuts(config);
   }
+  registerNetworkHandlers();
+  applyNetworkSettings(config);
   registerApiHandlers();
   registerScreenshotHandlers();
+  registerConversationHandlers();
+  registerMcpHandlers();
+  syncMcpServers(config?.mcpServers);
 
   // Window Resizing IPC
   ipcMain.handle('resize-window', async (_event, width, height) => {
@@ -669,6 +698,8 @@ app.on('before-quit', () => {
 app.on('will-quit', () => {
   // Unregister all shortcuts
   globalShortcut.unregisterAll();
+  // Stop spawned MCP servers
+  closeMcpServers();
 });
 
 // IPC Handlers
@@ -680,6 +711,8 @@ ipcMain.handle('set-config', async (_event, config: AppConfig) => {
   store.set('appConfig', config);
   // Re-register shortcuts with new config
   updateGlobalShortcuts(config);
+  syncMcpServers(config.mcpServers);
+  applyNetworkSettings(config);
   return true;
 });
 
@@ -696,6 +729,12 @@ ipcMain.handle('get-selected-text', async () => {
   }
 });
 
+// macOS asks once per app; elsewhere the OS setting applies to getUserMedia directly
+ipcMain.handle('request-microphone-access', async () => {
+  if (process.platform !== 'darwin') return true;
+  return systemPreferences.askForMediaAccess('microphone');
+});
+
 // Crop overlay IPC handlers
 ipcMain.on('crop-complete', (_event, data: { image: string }) => {
   console.log('[Main] Crop complete, received cropped image');
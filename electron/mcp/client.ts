@@ -0,0 +1,225 @@
+/**
+ * Minimal Model Context Protocol client: JSON-RPC requests over a transport, the
+ * initialize handshake, and the list/call methods the app needs
+ */
+
+import type { McpPromptInfo, McpResourceInfo, McpServerConfig, McpToolInfo } from '../../src/lib/types';
+import { createHttpTransport, createStdioTransport, type McpTransport, type TransportHandlers } from './transports';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const REQUEST_TIMEOUT = 60000;
+
+export interface McpClient {
+    tools: McpToolInfo[];
+    resources: McpResourceInfo[];
+    prompts: McpPromptInfo[];
+    refresh: () => Promise<void>;
+    callTool: (name: string, args: Record<string, unknown>) => Promise<{ text: string; isError: boolean }>;
+    readResource: (uri: string) => Promise<string>;
+    getPrompt: (name: string, args: Record<string, string>) => Promise<string>;
+    close: () => void;
+}
+
+interface Pending {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+// What the client reads from server results; servers may leave out anything optional
+interface ContentPart {
+    type: string;
+    text?: string;
+    mimeType?: string;
+    uri?: string;
+    name?: string;
+    resource?: { uri: string; text?: string; mimeType?: string };
+}
+
+interface InitializeResult {
+    protocolVersion?: string;
+    capabilities?: { tools?: object; resources?: object; prompts?: object };
+}
+
+interface CallToolResult {
+    content?: ContentPart[];
+    structuredContent?: unknown;
+    isError?: boolean;
+}
+
+interface ReadResourceResult {
+    contents?: Array<{ uri: string; text?: string; mimeType?: string }>;
+}
+
+interface GetPromptResult {
+    description?: string;
+    messages?: Array<{ role: string; content: ContentPart }>;
+}
+
+// Tool results and resources mix text with binary parts; the model only gets text
+const contentToText = (content: ContentPart[] = []): string => content.map(part => {
+    switch (part.type) {
+        case 'text':
+            return part.text;
+        case 'resource':
+            return part.resource?.text ?? `[Resource: ${part.resource?.uri}]`;
+        case 'resource_link':
+            return `[Resource: ${part.name || part.uri}] ${part.uri}`;
+        default:
+            return `[${part.type}${part.mimeType ? `: ${part.mimeType}` : ''}]`;
+    }
+}).join('\n');
+
+export async function connectMcpServer(
+    server: McpServerConfig,
+    callbacks: { onClose: (error?: Error) => void; onListChanged: () => void }
+): Promise<McpClient> {
+    const pending = new Map<number | string, Pending>();
+    let nextId = 1;
+    let closed = false;
+
+    const failAll = (error: Error) => {
+        pending.forEach(p => {
+            clearTimeout(p.timer);
+            p.reject(error);
+        });
+        pending.clear();
+    };
+
+    const handlers: TransportHandlers = {
+        onMessage: (message) => {
+            // Response to one of our requests
+            if (message.id !== undefined && !message.method) {
+                const request = pending.get(message.id);
+                if (!request) return;
+                pending.delete(message.id);
+                clearTimeout(request.timer);
+                if (message.error) request.reject(new Error(message.error.message || 'MCP request failed'));
+                else request.resolve(message.result);
+                return;
+            }
+
+            // Request from the server
+            if (message.id !== undefined) {
+                const reply = message.method === 'ping' ? { result: {} }
+                    : message.method === 'roots/list' ? { result: { roots: [] } }
+                        : { error: { code: -32601, message: `Method not supported: ${message.method}` } };
+                transport.send({ jsonrpc: '2.0', id: message.id, ...reply }).catch(() => { });
+                return;
+            }
+
+            if (typeof message.method === 'string' && message.method.endsWith('/list_changed')) {
+                callbacks.onListChanged();
+            }
+        },
+        onClose: (error?: Error) => {
+            failAll(error || new Error('Connection closed'));
+            if (!closed) {
+                closed = true;
+                callbacks.onClose(error);
+            }
+        }
+    };
+
+    const transport: McpTransport = server.transport === 'http'
+        ? createHttpTransport(server, handlers)
+        : createStdioTransport(server, handlers);
+
+    const request = <T>(method: string, params?: Record<string, unknown>): Promise<T | undefined> => new Promise((resolve, reject) => {
+        const id = nextId++;
+        const timer = setTimeout(() => {
+            pending.delete(id);
+            reject(new Error(`${method} timed out`));
+        }, REQUEST_TIMEOUT);
+        pending.set(id, { resolve: result => resolve(result as T | undefined), reject, timer });
+        transport.send({ jsonrpc: '2.0', id, method, ...(params && { params }) }).catch(error => {
+            pending.delete(id);
+            clearTimeout(timer);
+            reject(error);
+        });
+    });
+
+    const notify = (method: string) => transport.send({ jsonrpc: '2.0', method }).catch(() => { });
+
+    // Follow nextCursor until the server has listed everything
+    const listAll = async <T>(method: string, key: string): Promise<T[]> => {
+        const items: T[] = [];
+        let cursor: string | undefined;
+        do {
+            const result = await request<Record<string, unknown>>(method, cursor ? { cursor } : undefined);
+            items.push(...((result?.[key] as T[] | undefined) || []));
+            cursor = result?.nextCursor as string | undefined;
+        } while (cursor);
+        return items;
+    };
+
+    const close = () => {
+        closed = true;
+        failAll(new Error('Connection closed'));
+        transport.close();
+    };
+
+    let capabilities: NonNullable<InitializeResult['capabilities']> = {};
+    try {
+        const init = await request<InitializeResult>('initialize', {
+            protocolVersion: PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: { name: 'ai-assistant', version: '1.0.0' }
+        });
+        capabilities = init?.capabilities || {};
+        transport.setProtocolVersion(init?.protocolVersion || PROTOCOL_VERSION);
+        await notify('notifications/initialized');
+    } catch (error) {
+        close();
+        throw error;
+    }
+
+    const client: McpClient = {
+        tools: [],
+        resources: [],
+        prompts: [],
+
+        refresh: async () => {
+            const [tools, resources, prompts] = await Promise.all([
+                capabilities.tools ? listAll<Partial<McpToolInfo> & { name: string }>('tools/list', 'tools') : [],
+                capabilities.resources ? listAll<Partial<McpResourceInfo> & { uri: string }>('resources/list', 'resources') : [],
+                capabilities.prompts ? listAll<McpPromptInfo>('prompts/list', 'prompts') : []
+            ]);
+            client.tools = tools.map(t => ({ name: t.name, description: t.description, inputSchema: t.inputSchema || { type: 'object' } }));
+            client.resources = resources.map(r => ({ uri: r.uri, name: r.name || r.uri, description: r.description, mimeType: r.mimeType }));
+            client.prompts = prompts.map(p => ({ name: p.name, description: p.description, arguments: p.arguments }));
+        },
+
+        callTool: async (name, args) => {
+            const result = await request<CallToolResult>('tools/call', { name, arguments: args });
+            let text = contentToText(result?.content);
+            if (!text && result?.structuredContent) text = JSON.stringify(result.structuredContent);
+            return { text, isError: !!result?.isError };
+        },
+
+        readResource: async (uri) => {
+            const result = await request<ReadResourceResult>('resources/read', { uri });
+            return (result?.contents || [])
+                .map(c => c.text ?? `[${c.mimeType || 'binary'} content: ${c.uri}]`)
+                .join('\n');
+        },
+
+        getPrompt: async (name, args) => {
+            const result = await request<GetPromptResult>('prompts/get', { name, arguments: args });
+            const messages = (result?.messages || [])
+                .map(m => `${m.role}: ${contentToText([m.content])}`)
+                .join('\n\n');
+            return result?.description ? `${result.description}\n\n${messages}` : messages;
+        },
+
+        close
+    };
+
+    try {
+        await client.refresh();
+    } catch (error) {
+        close();
+        throw error;
+    }
+    return client;
+}
@@ -0,0 +1,174 @@
+/**
+ * MCP transports: newline-delimited JSON-RPC over a child process's stdio, and
+ * streamable HTTP (POST per message, answered with JSON or an SSE stream)
+ */
+
+import { spawn } from 'child_process';
+import type { McpServerConfig } from '../../src/lib/types';
+import { readStreamEvents } from '../../src/lib/providers/stream';
+
+// A request, notification or response; which fields are set tells them apart
+export interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number | string;
+    method?: string;
+    params?: Record<string, unknown>;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+export interface McpTransport {
+    // Resolves once the message is handed over; replies arrive through onMessage
+    send: (message: JsonRpcMessage) => Promise<void>;
+    setProtocolVersion: (version: string) => void;
+    close: () => void;
+}
+
+export interface TransportHandlers {
+    onMessage: (message: JsonRpcMessage) => void;
+    onClose: (error?: Error) => void;
+}
+
+const deliver = (payload: unknown, onMessage: (message: JsonRpcMessage) => void) => {
+    // Servers may answer a batch with an array
+    for (const message of Array.isArray(payload) ? payload : [payload]) {
+        if (message && typeof message === 'object') onMessage(message as JsonRpcMessage);
+    }
+};
+
+export function createStdioTransport(server: McpServerConfig, { onMessage, onClose }: TransportHandlers): McpTransport {
+    if (!server.command) throw new Error('No command configured');
+
+    const child = spawn(server.command, server.args || [], {
+        env: { ...process.env, ...server.env },
+        stdio: ['pipe', 'pipe', 'pipe'],
+        // npx and friends are .cmd scripts on Windows
+        shell: process.platform === 'win32'
+    });
+
+    let buffer = '';
+    let stderrTail = '';
+    let closed = false;
+
+    const finish = (error?: Error) => {
+        if (closed) return;
+        closed = true;
+        onClose(error);
+    };
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+                deliver(JSON.parse(line), onMessage);
+            } catch {
+                // Servers sometimes log to stdout; anything that isn't JSON-RPC is ignored
+                console.warn(`[MCP ${server.name}] ${line}`);
+            }
+        }
+    });
+
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+        // Keep the end of stderr to explain a crash
+        stderrTail = (stderrTail + chunk).slice(-2000);
+    });
+
+    child.on('error', (error) => finish(error));
+    // Writing after the server exited fails with EPIPE; unhandled, that would crash the main process
+    child.stdin.on('error', (error) => finish(error));
+    child.on('exit', (code, signal) => {
+        const reason = signal ? `was stopped (${signal})` : `exited with code ${code}`;
+        const detail = stderrTail.trim().split('\n').pop();
+        finish(new Error(`Server ${reason}${detail ? `: ${detail}` : ''}`));
+    });
+
+    return {
+        send: async (message) => {
+            if (closed || !child.stdin.writable) throw new Error('Server is not running');
+            child.stdin.write(JSON.stringify(message) + '\n');
+        },
+        setProtocolVersion: () => { /* stdio has no headers */ },
+        close: () => {
+            closed = true;
+            child.stdin.end();
+            child.kill();
+        }
+    };
+}
+
+export function createHttpTransport(server: McpServerConfig, { onMessage, onClose }: TransportHandlers): McpTransport {
+    if (!server.url) throw new Error('No URL configured');
+    const url = server.url;
+
+    let sessionId: string | null = null;
+    let protocolVersion: string | null = null;
+    let closed = false;
+
+    const headers = (): Record<string, string> => ({
+        ...server.headers,
+        ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+        ...(protocolVersion && { 'MCP-Protocol-Version': protocolVersion })
+    });
+
+    return {
+        send: async (message) => {
+            if (closed) throw new Error('Connection is closed');
+
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Accept': 'application/json, text/event-stream',
+                    ...headers()
+                },
+                body: JSON.stringify(message)
+            });
+
+            sessionId = response.headers.get('mcp-session-id') || sessionId;
+
+            if (response.status === 404 && sessionId) {
+                // The server dropped our session; the client has to reconnect
+                onClose(new Error('Session expired'));
+                throw new Error('Session expired');
+            }
+            if (!response.ok) {
+                const text = await response.text().catch(() => '');
+                throw new Error(`HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+            }
+
+            // Notifications and responses are acknowledged with 202 and no body
+            if (response.status === 202) return;
+
+            const contentType = response.headers.get('content-type') || '';
+            if (contentType.includes('text/event-stream')) {
+                // Read in the background so send() doesn't wait for the whole stream
+                readStreamEvents(response, 'sse', event => deliver(event, onMessage))
+                    .catch(error => {
+                        console.error(`[MCP ${server.name}] Stream failed:`, error);
+                        // The reply to this request was on that stream; fail it now rather than at the timeout
+                        if (message.id !== undefined) {
+                            onMessage({ jsonrpc: '2.0', id: message.id, error: { code: -32000, message: `Stream failed: ${error.message}` } });
+                        }
+                    });
+            } else if (contentType.includes('application/json')) {
+                deliver(await response.json(), onMessage);
+            }
+        },
+        setProtocolVersion: (version) => {
+            protocolVersion = version;
+        },
+        close: () => {
+            if (closed) return;
+            closed = true;
+            if (sessionId) {
+                // Let the server free the session; failures don't matter at this point
+                fetch(url, { method: 'DELETE', headers: headers() }).catch(() => { });
+            }
+        }
+    };
+}
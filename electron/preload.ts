@@ -1,9 +1,10 @@
-import { contextBridge, ipcRenderer } from 'electron';
-import type { AppConfig } from '../src/lib/types';
+import { contextBridge, ipcRenderer, type IpcRendererEvent } from 'electron';
+import type { AppConfig, ChatMessage, Conversation, ConversationSummary, McpServerStatus, NetworkTestResult, TrustedCertificate } from '../src/lib/types';
+import type { ApiResponse, ModelInfo } from '../src/lib/providers';
 
 // Expose protected methods that allow the renderer process to use
 // ipcRenderer without exposing the entire object
-contextBridge.exposeInMainWorld('electronAPI', {
+const api = {
     // Config management
     getConfig: (): Promise<AppConfig | undefined> => ipcRenderer.invoke('get-config'),
     setConfig: (config: AppConfig): Promise<boolean> => ipcRenderer.invoke('set-config', config),
@@ -19,11 +20,42 @@ contextBridge.exposeInMainWorld('electronAPI', {
     captureScreen: (): Promise<string | null> => ipcRenderer.invoke('capture-screen'),
 
     // API calls (proxy through main process)
-    executeApiCall: (messages: any[], config: any): Promise<any> =>
+    executeApiCall: (messages: ChatMessage[], config: AppConfig): Promise<ApiResponse> =>
         ipcRenderer.invoke('execute-api-call', { messages, config }),
 
-    fetchModels: (provider: string, apiKey: string, baseUrl?: string): Promise<string[]> =>
-        ipcRenderer.invoke('fetch-models', { provider, apiKey, baseUrl }),
+    fetchModels: (provider: string, apiKey: string, baseUrl?: string, config?: AppConfig): Promise<ModelInfo[]> =>
+        ipcRenderer.invoke('fetch-models', { provider, apiKey, baseUrl, config }),
+
+    // Key rotation state shared with the main process
+    getKeyState: <T>(key: string): Promise<T | null> => ipcRenderer.invoke('get-key-state', key),
+    setKeyState: (key: string, value: unknown): Promise<void> => ipcRenderer.invoke('set-key-state', key, value),
+
+    // Conversation history
+    listConversations: (): Promise<ConversationSummary[]> => ipcRenderer.invoke('list-conversations'),
+    getConversationSummary: (id: string): Promise<ConversationSummary | null> => ipcRenderer.invoke('get-conversation-summary', id),
+    getConversation: (id: string): Promise<Conversation | null> => ipcRenderer.invoke('get-conversation', id),
+    saveConversation: (conversation: Conversation): Promise<boolean> => ipcRenderer.invoke('save-conversation', conversation),
+    deleteConversation: (id: string): Promise<boolean> => ipcRenderer.invoke('delete-conversation', id),
+
+    // MCP servers (connected by the main process)
+    getMcpStatus: (): Promise<McpServerStatus[]> => ipcRenderer.invoke('mcp-get-status'),
+    restartMcpServer: (serverId: string): Promise<void> => ipcRenderer.invoke('mcp-restart-server', serverId),
+    callMcpTool: (serverId: string, name: string, args: Record<string, unknown>): Promise<{ text: string; isError: boolean }> =>
+        ipcRenderer.invoke('mcp-call-tool', serverId, name, args),
+    readMcpResource: (serverId: string, uri: string): Promise<string> => ipcRenderer.invoke('mcp-read-resource', serverId, uri),
+    getMcpPrompt: (serverId: string, name: string, args: Record<string, string>): Promise<string> =>
+        ipcRenderer.invoke('mcp-get-prompt', serverId, name, args),
+    onMcpStatus: (callback: (statuses: McpServerStatus[]) => void) => {
+        const subscription = (_event: IpcRendererEvent, statuses: McpServerStatus[]) => callback(statuses);
+        ipcRenderer.on('mcp-status', subscription);
+        return () => {
+            ipcRenderer.removeListener('mcp-status', subscription);
+        };
+    },
+
+    // Proxy and certificate settings (applied by the main process)
+    importCertificates: (): Promise<TrustedCertificate[]> => ipcRenderer.invoke('import-certificates'),
+    testNetwork: (config: AppConfig): Promise<NetworkTestResult[]> => ipcRenderer.invoke('test-network', config),
 
     // Stream handling (for streaming API responses)
     onStreamChunk: (callback: (chunk: string) => void) => {
@@ -45,12 +77,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
     // New chat signal
     onNewChat: (callback: () => void) => {
-        ipcRenderer.on('new-chat', () => callback());
+        const subscription = () => callback();
+        ipcRenderer.on('new-chat', subscription);
+        return () => {
+            ipcRenderer.removeListener('new-chat', subscription);
+        };
     },
 
     // Trigger specific prompt from global shortcut
     onTriggerPrompt: (callback: (data: { promptId: string; text: string }) => void) => {
-        const subscription = (_event: any, data: { promptId: string; text: string }) => callback(data);
+        const subscription = (_event: IpcRendererEvent, data: { promptId: string; text: string }) => callback(data);
         ipcRenderer.on('trigger-prompt', subscription);
         // Return cleanup function
         return () => {
@@ -58,7 +94,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
         };
     },
     onTriggerCrop: (callback: (data: { screenshot: string | null }) => void) => {
-        const subscription = (_event: any, data: { screenshot: string | null }) => callback(data);
+        const subscription = (_event: IpcRendererEvent, data: { screenshot: string | null }) => callback(data);
         ipcRenderer.on('trigger-crop', subscription);
         return () => {
             ipcRenderer.removeListener('trigger-crop', subscription);
@@ -66,9 +102,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
     },
     exitCropMode: (): Promise<void> => ipcRenderer.invoke('exit-crop-mode'),
 
+    // Dictation from the voice input shortcut
+    onToggleVoiceInput: (callback: () => void) => {
+        const subscription = () => callback();
+        ipcRenderer.on('toggle-voice-input', subscription);
+        return () => {
+            ipcRenderer.removeListener('toggle-voice-input', subscription);
+        };
+    },
+    requestMicrophoneAccess: (): Promise<boolean> => ipcRenderer.invoke('request-microphone-access'),
+
     // Receive cropped image result from dedicated crop window
     onCropResult: (callback: (data: { image: string }) => void) => {
-        const subscription = (_event: any, data: { image: string }) => callback(data);
+        const subscription = (_event: IpcRendererEvent, data: { image: string }) => callback(data);
         ipcRenderer.on('crop-result', subscription);
         return () => {
             ipcRenderer.removeListener('crop-result', subscription);
@@ -84,31 +130,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
     // Platform info
     platform: process.platform,
-});
-
-// TypeScript: Extend Window interface
-declare global {
-    interface Window {
-        electronAPI: {
-            getConfig: () => Promise<AppConfig | undefined>;
-            setConfig: (config: AppConfig) => Promise<boolean>;
-            openSettings: () => Promise<void>;
-            resizeWindow: (width: number, height: number) => Promise<void>;
-            getSelectedText: () => Promise<string>;
-            captureScreen: () => Promise<string | null>;
-            executeApiCall: (messages: any[], config: any) => Promise<any>;
-            fetchModels: (provider: string, apiKey: string, baseUrl?: string) => Promise<string[]>;
-            onStreamChunk: (callback: (chunk: string) => void) => void;
-            onStreamDone: (callback: () => void) => void;
-            onStreamError: (callback: (error: string) => void) => void;
-            onSelectedText: (callback: (text: string) => void) => void;
-
-            onNewChat: (callback: () => void) => void;
-            onTriggerPrompt?: (callback: (data: { promptId: string; text: string }) => void) => () => void;
-            onTriggerCrop?: (callback: (data: { screenshot: string | null }) => void) => () => void;
-            exitCropMode: () => Promise<void>;
-            onCropResult?: (callback: (data: { image: string }) => void) => () => void;
-            getPlatform: () => string;
-        };
-    }
-}
+};
+
+contextBridge.exposeInMainWorld('electronAPI', api);
+
+// The renderer's window.electronAPI (declared in src/electron-api.d.ts)
+export type ElectronAPI = typeof api;
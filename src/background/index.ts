@@ -202,7 +202,7 @@ chrome.contextMenus.onClicked.addListener(async (info, tab) => {
     }
 });
 
-import { executeApiCall, executeFetchModels, executeApiStream } from '../lib/api';
+import { executeApiCall, executeFetchModels, executeApiStream, executeSpeech, executeTranscription } from '../lib/providers';
 
 chrome.runtime.onConnect.addListener((port) => {
     if (port.name === 'stream_api') {
@@ -233,6 +233,12 @@ chrome.runtime.onConnect.addListener((port) => {
                             try {
                                 port.postMessage({ reasoning });
                             } catch (e) { /* ignore if disconnected */ }
+                        },
+                        (toolStep) => {
+                            // Send tool call progress to content script
+                            try {
+                                port.postMessage({ toolStep });
+                            } catch { /* ignore if disconnected */ }
                         }
                     );
 
@@ -240,11 +246,12 @@ chrome.runtime.onConnect.addListener((port) => {
                         // Check if still connected before posting?
                         // Abort might have happened.
                         try {
-                            port.postMessage({ error: res.error });
+                            port.postMessage({ error: res.error, result: { ...res, text: undefined } });
                         } catch (e) { /* ignore */ }
                     } else {
                         try {
-                            port.postMessage({ done: true });
+                            // Pass along response metadata (text was already streamed)
+                            port.postMessage({ done: true, result: { ...res, text: undefined } });
                         } catch (e) { /* ignore */ }
                     }
                 } catch (e: any) {
@@ -317,9 +324,19 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             .catch(err => sendResponse({ error: err.message }));
         return true; // Keep channel open for async response
     } else if (message.type === 'PROXY_FETCH_MODELS') {
-        executeFetchModels(message.data.provider, message.data.apiKey, message.data.baseUrl)
+        executeFetchModels(message.data.provider, message.data.apiKey, message.data.baseUrl, message.data.config)
             .then(data => sendResponse(data))
             .catch(err => sendResponse({ error: err.message }));
         return true; // Keep channel open
+    } else if (message.type === 'PROXY_TRANSCRIBE') {
+        executeTranscription(message.data.audio, message.data.config)
+            .then(text => sendResponse({ text }))
+            .catch(err => sendResponse({ error: err.message }));
+        return true;
+    } else if (message.type === 'PROXY_SPEAK') {
+        executeSpeech(message.data.text, message.data.config)
+            .then(audio => sendResponse({ audio }))
+            .catch(err => sendResponse({ error: err.message }));
+        return true;
     }
 });
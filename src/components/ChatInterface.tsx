@@ -1,8 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { type AppConfig, type ChatMessage, type PromptTemplate, type Provider } from '../lib/types';
-import { callApi, fetchModels } from '../lib/api';
-import { Send, Settings, Sparkles, Loader2, User, Bot, Trash2, Zap, Image as ImageIcon, ChevronDown, ChevronRight, Check, X, Copy, PauseCircle, SquarePen, Clock, Globe, Link2, ExternalLink, Square, RefreshCw } from 'lucide-react';
+import { type AppConfig, type ChatMessage, type GenerationParams, type ModelSettings, type Persona, type PromptTemplate, type Provider, type ToolStep } from '../lib/types';
+import { addUsage, callApi, canGenerateImages, classifyHttpError, fetchModels, generatesImages, isProviderConfigured, transcribeAudio, type ApiResponse, type ModelInfo } from '../lib/api';
+import { createConversationId, getConversation, saveConversation } from '../lib/conversations';
+import { conversationCost, formatCost, formatTokens, messageCost } from '../lib/pricing';
+import { estimateConversationTokens, fitAttachedContext, fitToContext, getContextBudget } from '../lib/context';
+import { Send, Settings, Sparkles, Loader2, User, Bot, Trash2, Zap, Image as ImageIcon, ChevronDown, ChevronRight, Check, X, Copy, PauseCircle, SquarePen, History, Clock, Globe, Link2, ExternalLink, Square, RefreshCw, Wrench, Shuffle, Coins, Scissors, Gauge, Bug, SlidersHorizontal, ChevronLeft, UserRound, Paperclip, FileText, Download, ImagePlus, Palette, Mic, Volume2, VolumeX, Pause, Play } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
@@ -11,6 +14,18 @@ import remarkBreaks from 'remark-breaks';
 import { clsx } from 'clsx';
 import { setStorage } from '../lib/storage';
 import { WindowsWindowControls } from './WindowsWindowControls';
+import ConversationSidebar from './ConversationSidebar';
+import SearchModal from './SearchModal';
+import ErrorBanner, { type ChatError } from './ErrorBanner';
+import RequestInspector from './RequestInspector';
+import GenerationParamsEditor from './GenerationParamsEditor';
+import { describeParams } from '../lib/generationParams';
+import { configForPersona, findPersona } from '../lib/personas';
+import { messageImages } from '../lib/attachments';
+import { DOCUMENT_ACCEPT, readDocument, readFileAsDataUrl, toDocumentAttachment, type DocumentDraft } from '../lib/documents';
+import type { SearchResult } from '../lib/search';
+import { startRecording, type Recording } from '../lib/voice';
+import { SpeechPlayer, type SpeechState } from '../lib/speech';
 // CropOverlay is now handled in a dedicated Electron window
 
 const ProviderDisplayNames: Record<string, string> = {
@@ -21,12 +36,83 @@ const ProviderDisplayNames: Record<string, string> = {
     perplexity: 'Perplexity'
 };
 
+// Clipboards take PNG, so the image is redrawn as one whatever its format
+const copyImageToClipboard = (dataUrl: string) => new Promise<void>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        canvas.getContext('2d')?.drawImage(img, 0, 0);
+        canvas.toBlob(blob => blob
+            ? navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]).then(resolve, reject)
+            : reject(new Error('Could not copy the image')), 'image/png');
+    };
+    img.onerror = () => reject(new Error('Could not copy the image'));
+    img.src = dataUrl;
+});
+
+const imageFileName = (dataUrl: string, index: number) =>
+    `generated-${Date.now()}-${index + 1}.${dataUrl.match(/^data:image\/(\w+)/)?.[1]?.replace('jpeg', 'jpg') || 'png'}`;
+
+// A prompt template's persona, model, parameters and image mode apply to the requests it starts; a prompt
+// without parameters clears those of an earlier one. The prompt's model wins over the persona's.
+const configForPrompt = (config: AppConfig, prompt: PromptTemplate): AppConfig => {
+    const persona = findPersona(config, prompt.personaId);
+    const base = persona ? configForPersona(config, persona) : config;
+    return {
+        ...base,
+        promptParams: prompt.params,
+        promptGeneratesImages: prompt.generateImages || undefined,
+        ...(prompt.model && {
+            selectedProvider: prompt.model.provider,
+            selectedModel: {
+                ...base.selectedModel,
+                [prompt.model.provider]: prompt.model.modelName
+            }
+        })
+    };
+};
+
+// e.g. "4.7 GB · Q4_K_M" for models pulled into Ollama, "gpt-4o" for an Azure deployment
+const formatModelDetails = (info: ModelInfo) => {
+    const parts: string[] = [];
+    if (info.baseModel && info.baseModel !== info.id) parts.push(info.baseModel);
+    if (info.size) parts.push(`${(info.size / 1e9).toFixed(1)} GB`);
+    if (info.quantization) parts.push(info.quantization);
+    return parts.join(' · ');
+};
+
+// Short summary of a tool call's arguments for the step header, e.g. "2^10 * 3"
+const formatToolInput = (input: string) => {
+    try {
+        const args = JSON.parse(input);
+        if (args && typeof args === 'object') {
+            return Object.values(args).map(value => typeof value === 'string' ? value : JSON.stringify(value)).join(', ');
+        }
+    } catch { /* show the raw arguments */ }
+    return input;
+};
+
+// Sent after a reply that was cut off, with the partial reply as the previous turn
+const CONTINUE_PROMPT = 'Your last reply was cut off. Continue exactly where it stopped, without repeating anything or adding an introduction.';
+
+const toChatError = (res: ApiResponse): ChatError => ({
+    message: res.error || 'Request failed',
+    kind: res.errorKind || 'unknown',
+    retryAt: res.retryAfter ? Date.now() + res.retryAfter * 1000 : undefined
+});
+
+// Stable default, so effects on initialImages don't run every render
+const NO_IMAGES: string[] = [];
+
 interface ChatInterfaceProps {
     config: AppConfig;
     initialText: string;
-    initialImage: string | null;
+    initialImages?: string[];
     initialInstruction?: string;
     initialMessages?: ChatMessage[];
+    initialConversationId?: string | null;
     pendingAutoPrompt?: PromptTemplate | null;
     onClose?: () => void;
     onConfigUpdate?: (config: AppConfig) => void;
@@ -34,7 +120,8 @@ interface ChatInterfaceProps {
         instruction: string;
         messages: ChatMessage[];
         selectedText: string;
-        selectedImage: string | null;
+        selectedImages: string[];
+        conversationId?: string | null;
     }) => void;
     onOpenSettings?: () => void;
     hideSettings?: boolean;
@@ -43,9 +130,10 @@ interface ChatInterfaceProps {
 export default function ChatInterface({
     config: initialConfig,
     initialText,
-    initialImage,
+    initialImages = NO_IMAGES,
     initialInstruction = '',
     initialMessages = [],
+    initialConversationId = null,
     pendingAutoPrompt = null,
     onClose,
     onConfigUpdate,
@@ -53,31 +141,63 @@ export default function ChatInterface({
     onOpenSettings,
     hideSettings = false
 }: ChatInterfaceProps) {
-    const [config, setConfig] = useState<AppConfig>(initialConfig);
+    // A fresh chat starts with the default persona; a resumed one gets its own once loaded
+    const [config, setConfig] = useState<AppConfig>(() => initialConversationId || initialMessages.length > 0
+        ? initialConfig
+        : configForPersona(initialConfig, findPersona(initialConfig, initialConfig.defaultPersonaId)));
     const [selectedText, setSelectedText] = useState(initialText);
-    const [selectedImage, setSelectedImage] = useState<string | null>(initialImage);
+    const [selectedImages, setSelectedImages] = useState<string[]>(initialImages);
     const [instruction, setInstruction] = useState(initialInstruction);
     const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+    const [conversationId, setConversationId] = useState<string | null>(initialConversationId);
+    const [showHistory, setShowHistory] = useState(false);
+    const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+    const [showSearch, setShowSearch] = useState(false);
+    // Message to scroll to once its conversation is loaded (from a search result)
+    const [jumpTarget, setJumpTarget] = useState<{ conversationId: string; messageIndex: number } | null>(null);
+    const [highlightedMessage, setHighlightedMessage] = useState<number | null>(null);
     const [loading, setLoading] = useState(false);
-    const [error, setError] = useState('');
+    const [error, setError] = useState<ChatError | null>(null);
     const [availableModels, setAvailableModels] = useState<Record<string, string[]>>({});
+    // Size/quantization details keyed by `${provider}:${model}`, reported by local backends
+    const [modelDetails, setModelDetails] = useState<Record<string, ModelInfo>>({});
     const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
     const [isModelMenuOpen, setIsModelMenuOpen] = useState(false);
+    const [isPersonaMenuOpen, setIsPersonaMenuOpen] = useState(false);
     const [expandedSearches, setExpandedSearches] = useState<Record<number, boolean>>({});
     const [expandedReasoning, setExpandedReasoning] = useState<Record<number, boolean>>({});
+    const [expandedToolSteps, setExpandedToolSteps] = useState<Record<string, boolean>>({});
     const [reasoningStartTime, setReasoningStartTime] = useState<Record<number, number>>({});
     const [reasoningElapsed, setReasoningElapsed] = useState<Record<number, number>>({});
     const [, forceUpdate] = useState(0); // Force re-render for timer updates
     const [sourcesModal, setSourcesModal] = useState<{ sources: Array<{ title: string; url: string; snippet?: string }>; query: string } | null>(null);
-    const [imageZoomOpen, setImageZoomOpen] = useState(false);
+    const [zoomedImage, setZoomedImage] = useState<string | null>(null);
+    const [copiedImage, setCopiedImage] = useState<string | null>(null);
+    const [draggedImageIdx, setDraggedImageIdx] = useState<number | null>(null);
+    // Files attached for the next message; their text is extracted as they are added
+    const [documents, setDocuments] = useState<DocumentDraft[]>([]);
+    const [readingDocuments, setReadingDocuments] = useState(0);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+    const documentInputRef = useRef<HTMLInputElement>(null);
+    const [voiceInput, setVoiceInput] = useState<'idle' | 'starting' | 'recording' | 'transcribing'>('idle');
+    const recordingRef = useRef<Recording | null>(null);
+    const voiceStartingRef = useRef(false); // Set while the microphone opens, before the state has re-rendered
+    // The reply being read aloud; `following` players are fed the reply as it streams (auto-read)
+    const [speech, setSpeech] = useState<{ index: number; state: SpeechState } | null>(null);
+    const speechRef = useRef<{ index: number; player: SpeechPlayer; following: boolean } | null>(null);
+    const autoReadIndexRef = useRef<number | null>(null);
     // isCropOpen state removed - cropping is now handled in a dedicated window
     const [retryModelMenuOpen, setRetryModelMenuOpen] = useState<number | null>(null);
+    const [inspectedMessage, setInspectedMessage] = useState<number | null>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const messagesContainerRef = useRef<HTMLDivElement>(null);
     const retryModelMenuRef = useRef<HTMLDivElement>(null);
     const modelMenuRef = useRef<HTMLDivElement>(null);
+    const personaMenuRef = useRef<HTMLDivElement>(null);
     const searchInputRef = useRef<HTMLInputElement>(null);
     const [modelSearch, setModelSearch] = useState('');
+    const [showModelParams, setShowModelParams] = useState(false);
     const [showPrompts, setShowPrompts] = useState(false);
 
     // Abort controller for streaming
@@ -91,14 +211,22 @@ export default function ChatInterface({
     const loadingRef = useRef(loading);
     const instructionRef = useRef(instruction);
     const selectedTextRef = useRef(selectedText);
-    const selectedImageRef = useRef(selectedImage);
+    const selectedImagesRef = useRef(selectedImages);
+    const conversationIdRef = useRef(conversationId);
+    // Messages as last loaded from storage; re-saving them unchanged would only bump updatedAt
+    const loadedMessagesRef = useRef(initialMessages);
+    // The open thread was deleted from history; nothing more of it is saved until another one opens
+    const threadDeletedRef = useRef(false);
+    // When the oldest unsaved change has to be written by, however often the messages keep changing
+    const saveDueRef = useRef<number | null>(null);
 
     // Sync refs
     useEffect(() => { messagesRef.current = messages; }, [messages]);
     useEffect(() => { loadingRef.current = loading; }, [loading]);
     useEffect(() => { instructionRef.current = instruction; }, [instruction]);
     useEffect(() => { selectedTextRef.current = selectedText; }, [selectedText]);
-    useEffect(() => { selectedImageRef.current = selectedImage; }, [selectedImage]);
+    useEffect(() => { selectedImagesRef.current = selectedImages; }, [selectedImages]);
+    useEffect(() => { conversationIdRef.current = conversationId; }, [conversationId]);
 
     // Cleanup on unmount
     useEffect(() => {
@@ -127,9 +255,13 @@ export default function ChatInterface({
                         instruction: instructionRef.current,
                         messages: currentMsgs,
                         selectedText: selectedTextRef.current,
-                        selectedImage: selectedImageRef.current
+                        selectedImages: selectedImagesRef.current
                     });
                 }
+                if (conversationIdRef.current) {
+                    saveConversation({ id: conversationIdRef.current, messages: currentMsgs })
+                        .catch(e => console.error('Failed to save conversation:', e));
+                }
             }
         };
     }, []);
@@ -142,12 +274,48 @@ export default function ChatInterface({
                     instruction,
                     messages,
                     selectedText,
-                    selectedImage
+                    selectedImages,
+                    conversationId
                 });
             }, 500);
             return () => clearTimeout(timer);
         }
-    }, [instruction, messages, selectedText, selectedImage, onStateChange]);
+    }, [instruction, messages, selectedText, selectedImages, conversationId, onStateChange]);
+
+    // Persist the thread to conversation history (debounced, streaming updates land here too).
+    // A streaming reply changes the messages constantly, so a save still goes out every few
+    // seconds while it streams; that also keeps the search index current.
+    useEffect(() => {
+        if (messages.length === 0 || messages === loadedMessagesRef.current) {
+            saveDueRef.current = null;
+            return;
+        }
+        const now = Date.now();
+        saveDueRef.current ??= now + 3000;
+        const timer = setTimeout(async () => {
+            saveDueRef.current = null;
+            if (threadDeletedRef.current) return;
+            let id = conversationIdRef.current;
+            if (!id) {
+                id = createConversationId();
+                conversationIdRef.current = id;
+                setConversationId(id);
+            }
+            try {
+                await saveConversation({
+                    id,
+                    messages,
+                    provider: config.selectedProvider,
+                    model: config.selectedModel[config.selectedProvider],
+                    personaId: config.personaId ?? null
+                });
+                setHistoryRefreshKey(k => k + 1);
+            } catch (e) {
+                console.error('Failed to save conversation:', e);
+            }
+        }, Math.min(800, saveDueRef.current - now));
+        return () => clearTimeout(timer);
+    }, [messages, config.selectedProvider, config.selectedModel, config.personaId]);
 
     // Update state when props change (important for re-opening with new context)
     useEffect(() => {
@@ -155,8 +323,8 @@ export default function ChatInterface({
     }, [initialText]);
 
     useEffect(() => {
-        setSelectedImage(initialImage);
-    }, [initialImage]);
+        setSelectedImages(initialImages);
+    }, [initialImages]);
 
     useEffect(() => {
         if (initialMessages.length > 0) {
@@ -170,11 +338,21 @@ export default function ChatInterface({
         }
     }, [initialInstruction]);
 
+    useEffect(() => {
+        if (!initialConversationId) return;
+        getConversation(initialConversationId).then(conversation => {
+            const persona = findPersona(initialConfig, conversation?.personaId);
+            setConfig(prev => ({ ...prev, personaId: persona?.id }));
+        }).catch(err => {
+            setError({ message: `Could not load this conversation: ${(err as Error).message}`, kind: 'unknown' });
+        });
+    }, []);
+
     // Listen for selected text from Electron (Global Shortcut)
     useEffect(() => {
-        if (typeof window !== 'undefined' && (window as any).electronAPI) {
+        if (typeof window !== 'undefined' && window.electronAPI) {
             // Standard Text Capture
-            (window as any).electronAPI.onSelectedText((text: string) => {
+            window.electronAPI.onSelectedText((text: string) => {
                 if (text) {
                     // New Logic: Set as Context, Replace existing
                     setSelectedText(text.trim());
@@ -206,23 +384,13 @@ export default function ChatInterface({
     useEffect(() => {
         if (pendingAutoPrompt) {
             // Use initialText (fresh selection) not selectedText (may have stale data)
-            // Check both initialImage and selectedImage for image context (pasted images)
+            // Check both initialImages and selectedImages for image context (pasted images)
             // Also don't auto-submit if there's an existing conversation
-            const hasFreshContext = !!initialText || !!initialImage || !!selectedImage;
+            const hasFreshContext = !!initialText || initialImages.length > 0 || selectedImages.length > 0;
             const hasExistingConversation = initialMessages && initialMessages.length > 0;
 
             // Build config override if prompt has a specific model
-            let promptConfig: AppConfig | undefined;
-            if (pendingAutoPrompt.model) {
-                promptConfig = {
-                    ...config,
-                    selectedProvider: pendingAutoPrompt.model.provider,
-                    selectedModel: {
-                        ...config.selectedModel,
-                        [pendingAutoPrompt.model.provider]: pendingAutoPrompt.model.modelName
-                    }
-                };
-            }
+            const promptConfig = configForPrompt(config, pendingAutoPrompt);
 
             if (pendingAutoPrompt.immediate && hasFreshContext && !hasExistingConversation) {
                 handleSubmit(pendingAutoPrompt.content, promptConfig);
@@ -235,10 +403,8 @@ export default function ChatInterface({
                     .trim();
                 setInstruction(promptContent);
 
-                // If prompt has a model, temporarily switch to it
-                if (promptConfig) {
-                    setConfig(promptConfig);
-                }
+                // Temporarily switch to the prompt's model and parameters
+                setConfig(promptConfig);
 
                 if (textareaRef.current) {
                     textareaRef.current.focus();
@@ -250,12 +416,16 @@ export default function ChatInterface({
     useEffect(() => {
         const loadModels = async () => {
             const models: Record<string, string[]> = {};
+            const details: Record<string, ModelInfo> = {};
             for (const provider of Object.keys(config.apiKeys) as Provider[]) {
-                if (config.apiKeys[provider] && config.apiKeys[provider].length > 0) {
+                if (isProviderConfigured(provider, config)) {
                     try {
-                        const fetched = await fetchModels(provider, config.apiKeys[provider][0], config.customBaseUrls[provider]);
+                        const fetched = await fetchModels(provider, config.apiKeys[provider]?.[0] || '', config.customBaseUrls[provider], config);
                         if (fetched.length > 0) {
-                            models[provider] = fetched;
+                            models[provider] = fetched.map(m => m.id);
+                            fetched.filter(m => m.size || m.quantization || m.baseModel).forEach(m => {
+                                details[`${provider}:${m.id}`] = m;
+                            });
                         }
                     } catch (e) {
                         console.error(`Failed to fetch models for ${provider}`, e);
@@ -263,12 +433,13 @@ export default function ChatInterface({
                 }
             }
             setAvailableModels(prev => ({ ...prev, ...models }));
+            setModelDetails(prev => ({ ...prev, ...details }));
         };
 
-        if (Object.keys(config.apiKeys).some(k => config.apiKeys[k as Provider].length > 0)) {
+        if (Object.keys(config.apiKeys).some(k => isProviderConfigured(k, config))) {
             loadModels();
         }
-    }, [config.apiKeys, config.customBaseUrls]);
+    }, [config.apiKeys, config.customBaseUrls, config.customProviders]);
 
     // Auto-scroll disabled - users can manually scroll if needed
     // useEffect(() => {
@@ -287,6 +458,9 @@ export default function ChatInterface({
             if (modelMenuRef.current && !modelMenuRef.current.contains(event.target as Node)) {
                 setIsModelMenuOpen(false);
             }
+            if (personaMenuRef.current && !personaMenuRef.current.contains(event.target as Node)) {
+                setIsPersonaMenuOpen(false);
+            }
             if (retryModelMenuRef.current && !retryModelMenuRef.current.contains(event.target as Node)) {
                 setRetryModelMenuOpen(null);
             }
@@ -305,6 +479,7 @@ export default function ChatInterface({
             }, 50);
         } else {
             setModelSearch('');
+            setShowModelParams(false);
         }
     }, [isModelMenuOpen]);
 
@@ -370,6 +545,62 @@ export default function ChatInterface({
         }, 100);
     };
 
+    // Store what the next request needs from this reply (e.g. the Anthropic thinking signature),
+    // and which model answered it when the request failed over to a backup
+    const applyResponseMetadata = (res: ApiResponse) => {
+        if (!res.thinkingBlocks && !res.answeredBy && !res.failedAttempts && !res.usage && !res.requestLog && !res.images && res.errorKind !== 'interrupted') return;
+        setMessages(prev => {
+            const updated = [...prev];
+            const last = updated[updated.length - 1];
+            if (last && last.role === 'assistant') {
+                if (res.thinkingBlocks) last.thinkingBlocks = res.thinkingBlocks;
+                if (res.answeredBy) last.answeredBy = res.answeredBy;
+                last.failedAttempts = res.failedAttempts;
+                if (res.usage) last.usage = res.usage;
+                if (res.requestLog) last.requestLog = res.requestLog;
+                if (res.images?.length) last.images = res.images;
+                // The connection dropped mid-reply; keep the partial text so it can be continued
+                if (res.errorKind === 'interrupted') last.interrupted = true;
+            }
+            return updated;
+        });
+    };
+
+    // Add or update a tool call step on the reply being streamed
+    const applyToolStep = (step: ToolStep) => {
+        setMessages(prev => {
+            const updated = [...prev];
+            const last = updated[updated.length - 1];
+            if (last && last.role === 'assistant') {
+                const steps = last.toolSteps || [];
+                last.toolSteps = steps.some(s => s.id === step.id)
+                    ? steps.map(s => s.id === step.id ? step : s)
+                    : [...steps, step];
+            }
+            return updated;
+        });
+    };
+
+    // Fit the request into the model's context window and note on the reply what was left out
+    const fitRequest = async (history: ChatMessage[], activeConfig: AppConfig, truncatedTokens = 0) => {
+        const fit = await fitToContext(history, activeConfig);
+        const trim = truncatedTokens ? { ...fit.trim, truncatedTokens } : fit.trim;
+        if (trim || fit.summary) {
+            setMessages(prev => {
+                const updated = [...prev];
+                if (fit.summary && updated[fit.summary.index]) {
+                    updated[fit.summary.index] = { ...updated[fit.summary.index], contextSummary: fit.summary.text };
+                }
+                const last = updated[updated.length - 1];
+                if (trim && last && last.role === 'assistant') {
+                    last.contextTrim = trim;
+                }
+                return updated;
+            });
+        }
+        return fit.messages;
+    };
+
     // Clear context and immediately persist (bypass debounce)
     const clearTextContext = () => {
         setSelectedText('');
@@ -378,72 +609,267 @@ export default function ChatInterface({
                 instruction,
                 messages,
                 selectedText: '',
-                selectedImage
+                selectedImages
             });
         }
     };
 
-    const clearImageContext = () => {
-        setSelectedImage(null);
+    // Add, remove or reorder the attached images and persist right away
+    const updateImages = (images: string[]) => {
+        selectedImagesRef.current = images;
+        setSelectedImages(images);
         if (onStateChange) {
             onStateChange({
                 instruction,
                 messages,
                 selectedText,
-                selectedImage: null
+                selectedImages: images
             });
         }
     };
 
+    const addImages = (images: string[]) => {
+        const current = selectedImagesRef.current;
+        updateImages([...current, ...images.filter(image => !current.includes(image))]);
+    };
+
+    const moveImage = (from: number, to: number) => {
+        const images = [...selectedImages];
+        const [moved] = images.splice(from, 1);
+        images.splice(to, 0, moved);
+        updateImages(images);
+    };
+
+    // Images join the attached images, anything else is read as a document
+    const addFiles = (files: File[]) => {
+        const images = files.filter(file => file.type.startsWith('image/'));
+        if (images.length > 0) {
+            Promise.all(images.map(readFileAsDataUrl))
+                .then(addImages)
+                .catch(err => console.error('Failed to read image:', err));
+        }
+        files.filter(file => !images.includes(file)).forEach(async file => {
+            setReadingDocuments(n => n + 1);
+            try {
+                const draft = await readDocument(file);
+                setDocuments(prev => [...prev, draft]);
+            } catch (err: any) {
+                setError({ message: `Could not read ${file.name}: ${err.message || err}`, kind: 'unknown' });
+            } finally {
+                setReadingDocuments(n => n - 1);
+            }
+        });
+    };
+
+    const setDocumentPages = (id: string, pages: { from: number; to: number }) => {
+        setDocuments(prev => prev.map(doc => doc.id === id ? { ...doc, pages } : doc));
+    };
+
+    const handleFileDrop = (e: React.DragEvent) => {
+        setIsDraggingFiles(false);
+        if (e.dataTransfer.files.length === 0) return;
+        e.preventDefault();
+        addFiles(Array.from(e.dataTransfer.files));
+    };
+
+    // Write the open thread out right away (the debounced save may still be pending)
+    const flushConversation = async () => {
+        if (conversationIdRef.current && messagesRef.current.length > 0) {
+            await saveConversation({
+                id: conversationIdRef.current,
+                messages: messagesRef.current,
+                provider: config.selectedProvider,
+                model: config.selectedModel[config.selectedProvider],
+                personaId: config.personaId ?? null
+            });
+        }
+    };
+
+    // Switching threads mid-stream: abort first and finish the switch once the stream has settled,
+    // so the "interrupted" marker lands on the thread that was streaming.
+    const pendingSwitchRef = useRef<{ conversationId: string | null } | null>(null);
+
+    const startNewChat = async () => {
+        await flushConversation();
+        stopSpeaking();
+        setMessages([]);
+        setInstruction('');
+        setSelectedText('');
+        setSelectedImages([]);
+        setDocuments([]);
+        setError(null);
+        setConfig(prev => configForPersona(prev, findPersona(prev, prev.defaultPersonaId)));
+        // A fresh id is assigned once the first message is saved
+        conversationIdRef.current = null;
+        threadDeletedRef.current = false;
+        setConversationId(null);
+        setHistoryRefreshKey(k => k + 1);
+        // Immediately persist cleared state
+        if (onStateChange) {
+            onStateChange({
+                instruction: '',
+                messages: [],
+                selectedText: '',
+                selectedImages: [],
+                conversationId: null
+            });
+        }
+        // Focus the textarea for immediate typing
+        setTimeout(() => {
+            textareaRef.current?.focus();
+        }, 50);
+    };
+
+    const openConversation = async (id: string) => {
+        const conversation = await getConversation(id);
+        if (!conversation) {
+            setHistoryRefreshKey(k => k + 1);
+            return;
+        }
+        await flushConversation();
+        stopSpeaking();
+        conversationIdRef.current = conversation.id;
+        threadDeletedRef.current = false;
+        setConversationId(conversation.id);
+        loadedMessagesRef.current = conversation.messages;
+        setMessages(conversation.messages);
+        setConfig(prev => ({ ...prev, personaId: findPersona(prev, conversation.personaId)?.id }));
+        setInstruction('');
+        setSelectedText('');
+        setSelectedImages([]);
+        setDocuments([]);
+        setError(null);
+        setExpandedSearches({});
+        setExpandedReasoning({});
+        setReasoningElapsed({});
+        if (onStateChange) {
+            onStateChange({
+                instruction: '',
+                messages: conversation.messages,
+                selectedText: '',
+                selectedImages: [],
+                conversationId: conversation.id
+            });
+        }
+        scrollToBottom();
+    };
+
+    const switchConversation = (id: string | null) => {
+        if (loadingRef.current && abortControllerRef.current) {
+            pendingSwitchRef.current = { conversationId: id };
+            abortControllerRef.current.abort();
+            return;
+        }
+        if (id) {
+            openConversation(id);
+        } else {
+            startNewChat();
+        }
+    };
+
+    useEffect(() => {
+        if (!loading && pendingSwitchRef.current) {
+            const { conversationId: id } = pendingSwitchRef.current;
+            pendingSwitchRef.current = null;
+            if (id) {
+                openConversation(id);
+            } else {
+                startNewChat();
+            }
+        }
+    }, [loading]);
+
+    const handleNewChat = () => {
+        setShowHistory(false);
+        switchConversation(null);
+    };
+
+    const handleSelectConversation = (id: string) => {
+        setShowHistory(false);
+        if (id !== conversationIdRef.current) {
+            switchConversation(id);
+        }
+    };
+
+    const handleOpenSearchResult = (result: SearchResult) => {
+        setShowSearch(false);
+        setShowHistory(false);
+        setJumpTarget({ conversationId: result.conversationId, messageIndex: result.messageIndex });
+        if (result.conversationId !== conversationIdRef.current) {
+            switchConversation(result.conversationId);
+        }
+    };
+
+    // Scroll to the search hit once the target conversation is on screen
+    useEffect(() => {
+        if (!jumpTarget || jumpTarget.conversationId !== conversationId || messages.length <= jumpTarget.messageIndex) return;
+        const { messageIndex } = jumpTarget;
+        // Run after the scroll-to-bottom that follows loading a conversation
+        const timer = setTimeout(() => {
+            messagesContainerRef.current
+                ?.querySelector(`[data-message-index="${messageIndex}"]`)
+                ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            setHighlightedMessage(messageIndex);
+            setJumpTarget(null);
+        }, 150);
+        return () => clearTimeout(timer);
+    }, [jumpTarget, conversationId, messages.length]);
+
+    useEffect(() => {
+        if (highlightedMessage === null) return;
+        const timer = setTimeout(() => setHighlightedMessage(null), 2000);
+        return () => clearTimeout(timer);
+    }, [highlightedMessage]);
+
+    // Cmd/Ctrl+K opens conversation search
+    const handleSearchHotkey = (e: KeyboardEvent | React.KeyboardEvent) => {
+        if ((e.metaKey || e.ctrlKey) && !e.shiftKey && !e.altKey && e.key.toLowerCase() === 'k') {
+            e.preventDefault();
+            setShowSearch(true);
+        }
+    };
+
+    useEffect(() => {
+        // Covers the case where nothing inside the chat has focus (desktop window, extension popup).
+        // In the in-page popup, key events stop at the shadow host and are handled by onKeyDown on the root.
+        window.addEventListener('keydown', handleSearchHotkey);
+        return () => window.removeEventListener('keydown', handleSearchHotkey);
+    }, []);
+
+    // "New Chat" from the desktop app menu / tray. Subscribed once; the ref always holds
+    // this render's handler, so it sees the current config.
+    const handleNewChatRef = useRef(handleNewChat);
+    useEffect(() => { handleNewChatRef.current = handleNewChat; });
+    useEffect(() => {
+        const electronAPI = window.electronAPI;
+        if (electronAPI?.onNewChat) {
+            return electronAPI.onNewChat(() => handleNewChatRef.current());
+        }
+    }, []);
+
     const handlePaste = (e: React.ClipboardEvent) => {
         const items = e.clipboardData?.items;
         if (!items) return;
 
-        for (let i = 0; i < items.length; i++) {
-            const item = items[i];
-            if (item.type.startsWith('image/')) {
-                e.preventDefault();
-                const file = item.getAsFile();
-                if (file) {
-                    const reader = new FileReader();
-                    reader.onload = (event) => {
-                        const dataUrl = event.target?.result as string;
-                        setSelectedImage(dataUrl);
-                        if (onStateChange) {
-                            onStateChange({
-                                instruction,
-                                messages,
-                                selectedText,
-                                selectedImage: dataUrl
-                            });
-                        }
-                    };
-                    reader.readAsDataURL(file);
-                }
-                break;
-            }
-        }
+        // Every pasted image is added after the ones already attached; other files become documents
+        const files = Array.from(items)
+            .filter(item => item.kind === 'file')
+            .map(item => item.getAsFile())
+            .filter((file): file is File => !!file);
+        if (files.length === 0) return;
+        e.preventDefault();
+        addFiles(files);
     };
 
     const handlePromptClick = (prompt: PromptTemplate) => {
         // Use initialText (fresh selection) not selectedText (may have stale data)
-        // Check both initialImage and selectedImage for image context (pasted images)
+        // Check both initialImages and selectedImages for image context (pasted images)
         // Also don't auto-submit if there's an existing conversation
-        const hasFreshContext = !!initialText || !!initialImage || !!selectedImage;
+        const hasFreshContext = !!initialText || initialImages.length > 0 || selectedImages.length > 0;
         const hasExistingConversation = messages.length > 0;
 
-        // Build config override if prompt has a specific model
-        let promptConfig: AppConfig | undefined;
-        if (prompt.model) {
-            promptConfig = {
-                ...config,
-                selectedProvider: prompt.model.provider,
-                selectedModel: {
-                    ...config.selectedModel,
-                    [prompt.model.provider]: prompt.model.modelName
-                }
-            };
-        }
+        // Build config override for the prompt's model and parameters
+        const promptConfig = configForPrompt(config, prompt);
 
         if (prompt.immediate && hasFreshContext && !hasExistingConversation) {
             handleSubmit(prompt.content, promptConfig);
@@ -461,10 +887,8 @@ export default function ChatInterface({
                 return `${prev}\n\n${promptContent}`;
             });
 
-            // If prompt has a model, temporarily switch to it
-            if (promptConfig) {
-                setConfig(promptConfig);
-            }
+            // Temporarily switch to the prompt's model and parameters
+            setConfig(promptConfig);
 
             if (textareaRef.current) {
                 textareaRef.current.focus();
@@ -479,24 +903,76 @@ export default function ChatInterface({
             selectedModel: {
                 ...config.selectedModel,
                 [provider]: model
-            }
+            },
+            // Picking a model leaves the prompt's parameters and image mode behind
+            promptParams: undefined,
+            promptGeneratesImages: undefined
         };
         setConfig(newConfig);
+        // The persona belongs to the conversation, not the settings
+        const saved = { ...newConfig, personaId: undefined };
         if (onConfigUpdate) {
-            onConfigUpdate(newConfig);
+            onConfigUpdate(saved);
         } else {
             // Fallback for extension popup
-            await setStorage(newConfig);
+            await setStorage(saved);
         }
         setIsModelMenuOpen(false);
     };
 
-    const handleRetryWithModel = async (messageIndex: number, provider: string, model: string) => {
+    // Switches the open conversation to another persona (and its model); nothing is sent
+    const handlePersonaChange = async (persona?: Persona) => {
+        const newConfig = configForPersona(config, persona);
+        setConfig(newConfig);
+        setIsPersonaMenuOpen(false);
+        if (conversationIdRef.current && messagesRef.current.length > 0) {
+            await saveConversation({
+                id: conversationIdRef.current,
+                messages: messagesRef.current,
+                personaId: persona?.id ?? null
+            });
+            setHistoryRefreshKey(k => k + 1);
+        }
+    };
+
+    const activePersona = findPersona(config, config.personaId);
+
+    const selectedModelKey = `${config.selectedProvider}:${config.selectedModel[config.selectedProvider]}`;
+    const selectedModelSettings = config.modelSettings?.[selectedModelKey] || {};
+
+    // Adjustments from the model menu are saved as the selected model's defaults
+    const saveSelectedModelSettings = async (changes: ModelSettings) => {
+        const settings = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+        const modelSettings = { ...config.modelSettings, [selectedModelKey]: settings };
+        if (Object.keys(settings).length === 0) delete modelSettings[selectedModelKey];
+
+        const newConfig = { ...config, modelSettings };
+        setConfig(newConfig);
+        // The active prompt's parameters, image mode and the persona only last for this chat
+        const saved = { ...newConfig, promptParams: undefined, promptGeneratesImages: undefined, personaId: undefined };
+        if (onConfigUpdate) {
+            onConfigUpdate(saved);
+        } else {
+            await setStorage(saved);
+        }
+    };
+
+    const handleModelParamsChange = (params: GenerationParams) => saveSelectedModelSettings({
+        ...params,
+        contextLength: selectedModelSettings.contextLength,
+        thinkingBudget: selectedModelSettings.thinkingBudget,
+        generateImages: selectedModelSettings.generateImages
+    });
+
+    const selectedModelName = config.selectedModel[config.selectedProvider] || '';
+    const imageMode = generatesImages(config, config.selectedProvider, selectedModelName);
+
+    const handleRetryWithModel = async (messageIndex: number, provider: string, model: string, history?: ChatMessage[]) => {
         // Close the retry menu
         setRetryModelMenuOpen(null);
 
-        // Remove the assistant message being retried (keep all messages before it)
-        const newMessages = messages.slice(0, messageIndex);
+        // Remove the assistant message being retried (keep all messages before it, or the given history)
+        const newMessages = history || messages.slice(0, messageIndex);
         setMessages(newMessages);
 
         // Temporarily switch to the backup model
@@ -514,7 +990,7 @@ export default function ChatInterface({
         setConfig(tempConfig);
 
         setLoading(true);
-        setError('');
+        setError(null);
 
         // Track response time
         const startTime = Date.now();
@@ -562,7 +1038,8 @@ export default function ChatInterface({
         };
 
         try {
-            const res = await callApi(newMessages, tempConfig, (chunk) => {
+            const requestMessages = await fitRequest(newMessages, tempConfig);
+            const res = await callApi(requestMessages, tempConfig, (chunk) => {
                 const msgIndex = newMessages.length;
                 finalizeReasoningTimer(msgIndex);
 
@@ -651,10 +1128,12 @@ export default function ChatInterface({
                     }
                     return updated;
                 });
-            });
+            }, applyToolStep);
+
+            applyResponseMetadata(res);
 
             if (res.error) {
-                setError(res.error);
+                setError(toChatError(res));
             }
         } catch (err: any) {
             if (err.name === 'AbortError') {
@@ -690,7 +1169,7 @@ export default function ChatInterface({
                     });
                 }
             } else {
-                setError(err.message);
+                setError({ message: err.message, kind: classifyHttpError(err) });
             }
         } finally {
             setLoading(false);
@@ -709,18 +1188,18 @@ export default function ChatInterface({
         }
     };
 
-    const handleSubmit = async (overrideInstruction?: string, overrideConfig?: AppConfig, overrideContext?: string, overrideImage?: string) => {
+    const handleSubmit = async (overrideInstruction?: string, overrideConfig?: AppConfig, overrideContext?: string, overrideImages?: string[]) => {
         const textToSubmit = overrideInstruction !== undefined ? overrideInstruction : instruction;
         const activeConfig = overrideConfig || config;
 
         // Use overrides if provided, otherwise use state
         const contextText = overrideContext !== undefined ? overrideContext : selectedText;
-        const contextImage = overrideImage !== undefined ? overrideImage : selectedImage;
+        const contextImages = overrideImages !== undefined ? overrideImages : selectedImages;
 
-        if (!textToSubmit.trim()) return;
+        if (!textToSubmit.trim() || readingDocuments > 0) return;
 
         setLoading(true);
-        setError('');
+        setError(null);
 
         // Track response time
         const startTime = Date.now();
@@ -733,25 +1212,41 @@ export default function ChatInterface({
 
         let userContent = textToSubmit.trim();
 
+        // Cut a large selection down to what the model's context has room for
+        let attachedText = contextText;
+        let truncatedTokens = 0;
+        if (attachedText && activeConfig.contextStrategy === 'truncate_context') {
+            const question: ChatMessage = { role: 'user', content: userContent, images: contextImages };
+            const fitted = fitAttachedContext(activeConfig, messages, question, attachedText);
+            attachedText = fitted.text;
+            truncatedTokens = fitted.removedTokens;
+        }
+
         // Append context if present
         if (userContent.includes('${text}')) {
-            userContent = userContent.replace('${text}', contextText || '');
-        } else if (contextText) {
-            userContent = `${userContent}\n\nContext:\n${contextText}`;
+            userContent = userContent.replace('${text}', attachedText || '');
+        } else if (attachedText) {
+            userContent = `${userContent}\n\nContext:\n${attachedText}`;
         }
 
         let messagePayload: ChatMessage;
 
-        if (contextImage) {
+        if (contextImages.length > 0) {
             messagePayload = {
                 role: 'user',
                 content: userContent,
-                image: contextImage
+                images: contextImages
             };
         } else {
             messagePayload = { role: 'user', content: userContent };
         }
 
+        // Documents go out with this message only
+        if (documents.length > 0) {
+            messagePayload.documents = documents.map(toDocumentAttachment);
+            setDocuments([]);
+        }
+
 
         const newMessages = [...messages, messagePayload];
         setMessages(newMessages);
@@ -800,7 +1295,8 @@ export default function ChatInterface({
         };
 
         try {
-            const res = await callApi(newMessages, activeConfig, (chunk) => {
+            const requestMessages = await fitRequest(newMessages, activeConfig, truncatedTokens);
+            const res = await callApi(requestMessages, activeConfig, (chunk) => {
                 const msgIndex = newMessages.length; // Index of the assistant message
 
                 // Finalize reasoning timer on first content chunk
@@ -891,10 +1387,10 @@ export default function ChatInterface({
                     }
                     return updated;
                 });
-            });
+            }, applyToolStep);
 
             // Check for multimodal error when using a model that doesn't support images
-            if (res.error && messagePayload.image) {
+            if (res.error && messagePayload.images) {
                 const isMultimodalError = res.error.toLowerCase().includes('content must be a string') ||
                     res.error.toLowerCase().includes('must be a string') ||
                     res.error.includes('.content must be a string');
@@ -915,6 +1411,7 @@ export default function ChatInterface({
                         if (last && last.role === 'assistant') {
                             last.content = '';
                             last.reasoning = undefined;
+                            last.toolSteps = undefined;
                         }
                         return updated;
                     });
@@ -922,8 +1419,9 @@ export default function ChatInterface({
                     // Create new abort controller for retry
                     abortControllerRef.current = new AbortController();
 
-                    // Retry with original config (before any prompt model overrides)
-                    const fallbackRes = await callApi(newMessages, initialConfig, (chunk) => {
+                    // Retry with original config (before any prompt model overrides), keeping the persona
+                    const fallbackConfig = { ...initialConfig, personaId: activeConfig.personaId };
+                    const fallbackRes = await callApi(await fitRequest(newMessages, fallbackConfig, truncatedTokens), fallbackConfig, (chunk) => {
                         accumulatedText += chunk;
                         const currentResponseTime = Date.now() - startTime;
                         setMessages(prev => {
@@ -984,18 +1482,22 @@ export default function ChatInterface({
                             }
                             return updated;
                         });
-                    });
+                    }, applyToolStep);
+
+                    applyResponseMetadata(fallbackRes);
 
                     if (fallbackRes.error) {
-                        setError(fallbackRes.error);
+                        setError(toChatError(fallbackRes));
                     }
                     // Don't show fallback notice - just work silently
                     return;
                 }
             }
 
+            applyResponseMetadata(res);
+
             if (res.error) {
-                setError(res.error);
+                setError(toChatError(res));
             }
         } catch (err: any) {
             if (err.name === 'AbortError') {
@@ -1031,7 +1533,7 @@ export default function ChatInterface({
                     });
                 }
             } else {
-                setError(err.message);
+                setError({ message: err.message, kind: classifyHttpError(err) });
             }
         } finally {
             setLoading(false);
@@ -1041,8 +1543,8 @@ export default function ChatInterface({
 
     // Listen for global prompt triggers (moved here to access handleSubmit)
     useEffect(() => {
-        if (typeof window !== 'undefined' && (window as any).electronAPI?.onTriggerPrompt) {
-            const cleanup = (window as any).electronAPI.onTriggerPrompt((data: { promptId: string; text: string }) => {
+        if (typeof window !== 'undefined' && window.electronAPI?.onTriggerPrompt) {
+            const cleanup = window.electronAPI.onTriggerPrompt((data: { promptId: string; text: string }) => {
                 const { promptId, text } = data;
 
                 // 1. Update text if captured
@@ -1069,17 +1571,7 @@ export default function ChatInterface({
                     }
 
                     if (prompt.immediate) {
-                        let promptConfig: AppConfig | undefined;
-                        if (prompt.model) {
-                            promptConfig = {
-                                ...config,
-                                selectedProvider: prompt.model.provider,
-                                selectedModel: {
-                                    ...config.selectedModel,
-                                    [prompt.model.provider]: prompt.model.modelName
-                                }
-                            };
-                        }
+                        const promptConfig = configForPrompt(config, prompt);
                         // Pass 'text' as overrideContext to ensure it's used even if state isn't updated yet
                         handleSubmit(promptContent, promptConfig, text);
                     } else {
@@ -1094,12 +1586,101 @@ export default function ChatInterface({
         }
     }, [config.prompts, config, instruction, handleSubmit]);
 
+    // Dictation: the first press records, the second transcribes into the input box (or sends it)
+    const toggleVoiceInput = async () => {
+        // A second press while the microphone is still opening would start another recording
+        if (voiceInput === 'transcribing' || voiceStartingRef.current) return;
+        const recording = recordingRef.current;
+        if (!recording) {
+            voiceStartingRef.current = true;
+            setVoiceInput('starting');
+            try {
+                recordingRef.current = await startRecording();
+                setVoiceInput('recording');
+                setError(null);
+            } catch (err) {
+                setVoiceInput('idle');
+                setError({ message: (err as Error).message, kind: 'unknown' });
+            } finally {
+                voiceStartingRef.current = false;
+            }
+            return;
+        }
+
+        recordingRef.current = null;
+        setVoiceInput('transcribing');
+        try {
+            const text = await transcribeAudio(await recording.stop(), config);
+            if (!text) return;
+            const combined = instruction.trim() ? `${instruction.trimEnd()} ${text}` : text;
+            // A reply still streaming would be cut off, so the transcript waits in the box then
+            if (config.transcription?.autoSubmit && !loading) {
+                setInstruction('');
+                handleSubmit(combined);
+            } else {
+                setInstruction(combined);
+                textareaRef.current?.focus();
+            }
+        } catch (err) {
+            setError({ message: (err as Error).message, kind: classifyHttpError(err) });
+        } finally {
+            setVoiceInput('idle');
+        }
+    };
+
+    // Listen for the voice input shortcut
+    useEffect(() => {
+        if (typeof window !== 'undefined' && window.electronAPI?.onToggleVoiceInput) {
+            return window.electronAPI.onToggleVoiceInput(() => toggleVoiceInput());
+        }
+    }, [toggleVoiceInput]);
+
+    // Release the microphone when the chat goes away mid-recording
+    useEffect(() => () => recordingRef.current?.cancel(), []);
+
+    const speakMessage = (index: number, text: string, following = false) => {
+        speechRef.current?.player.stop();
+        const player = new SpeechPlayer(config, {
+            onStateChange: (state) => {
+                if (speechRef.current?.player !== player) return;
+                if (state === 'idle') speechRef.current = null;
+                setSpeech(state === 'idle' ? null : { index, state });
+            },
+            onError: (err) => setError({ message: err.message, kind: classifyHttpError(err) })
+        });
+        speechRef.current = { index, player, following };
+        setSpeech({ index, state: 'speaking' });
+        player.push(text, !following);
+    };
+
+    const stopSpeaking = () => speechRef.current?.player.stop();
+
+    // Auto-read: start on a new reply as it streams in and keep feeding it the text. Stopping it
+    // mid-stream sticks until the reply is done.
+    useEffect(() => {
+        const index = messages.length - 1;
+        const last = messages[index];
+        if (!last || last.role !== 'assistant') return;
+        const current = speechRef.current;
+        if (current?.following && current.index === index) {
+            current.player.push(last.content, !loading);
+        } else if (loading && config.speech?.autoRead && autoReadIndexRef.current !== index) {
+            autoReadIndexRef.current = index;
+            speakMessage(index, last.content, true);
+        }
+        if (!loading) autoReadIndexRef.current = null;
+    }, [messages, loading]);
+
+    // Stop reading when the chat goes away
+    useEffect(() => () => speechRef.current?.player.stop(), []);
+
     // Listen for crop result from dedicated crop overlay window
     useEffect(() => {
-        if (typeof window !== 'undefined' && (window as any).electronAPI?.onCropResult) {
-            const cleanup = (window as any).electronAPI.onCropResult((data: { image: string }) => {
+        if (typeof window !== 'undefined' && window.electronAPI?.onCropResult) {
+            const cleanup = window.electronAPI.onCropResult((data: { image: string }) => {
                 console.log('Crop result received');
-                setSelectedImage(data.image);
+                // Added after any images already attached
+                setSelectedImages(prev => prev.includes(data.image) ? prev : [...prev, data.image]);
             });
             return cleanup;
         }
@@ -1107,7 +1688,7 @@ export default function ChatInterface({
 
     const openOptions = () => {
         // Check for Electron environment
-        const electronAPI = (window as any).electronAPI;
+        const electronAPI = window.electronAPI;
         if (electronAPI?.openSettings) {
             electronAPI.openSettings();
             return;
@@ -1124,7 +1705,131 @@ export default function ChatInterface({
         }
     };
 
-    const allProviders = (Object.keys(config.apiKeys) as Provider[]).filter(p => config.apiKeys[p].length > 0);
+    // Ask again for the failed reply, which is the last message
+    const failedReplyIndex = messages.length > 0 && messages[messages.length - 1].role === 'assistant' ? messages.length - 1 : -1;
+
+    const handleRetryFailed = (provider = config.selectedProvider, model = config.selectedModel[config.selectedProvider]) => {
+        if (failedReplyIndex >= 0) handleRetryWithModel(failedReplyIndex, provider, model);
+    };
+
+    // Have the model finish a reply that was cut off; the rest is appended to the same message
+    const handleContinue = async () => {
+        if (failedReplyIndex < 0) return;
+        const partial = messages[failedReplyIndex];
+        const entry = partial.answeredBy || { provider: config.selectedProvider, model: config.selectedModel[config.selectedProvider] };
+        const continueConfig = {
+            ...config,
+            selectedProvider: entry.provider,
+            selectedModel: { ...config.selectedModel, [entry.provider]: entry.model }
+        };
+        const history: ChatMessage[] = [
+            ...messages.slice(0, failedReplyIndex),
+            { role: 'assistant', content: partial.content },
+            { role: 'user', content: CONTINUE_PROMPT }
+        ];
+
+        const updateReply = (update: (reply: ChatMessage) => void) => {
+            setMessages(prev => {
+                const updated = [...prev];
+                const reply = updated[failedReplyIndex];
+                if (reply && reply.role === 'assistant') update(reply);
+                return updated;
+            });
+        };
+
+        setLoading(true);
+        setError(null);
+        updateReply(reply => { reply.interrupted = false; });
+
+        if (abortControllerRef.current) {
+            abortControllerRef.current.abort();
+        }
+        abortControllerRef.current = new AbortController();
+
+        const startTime = Date.now() - (partial.responseTime || 0);
+        let text = partial.content;
+
+        try {
+            const res = await callApi(await fitRequest(history, continueConfig), continueConfig, (chunk) => {
+                text += chunk;
+                updateReply(reply => {
+                    reply.content = text;
+                    reply.responseTime = Date.now() - startTime;
+                });
+            }, abortControllerRef.current.signal);
+
+            updateReply(reply => {
+                reply.usage = addUsage(reply.usage, res.usage);
+                if (res.requestLog) reply.requestLog = [...(reply.requestLog || []), ...res.requestLog];
+                if (res.errorKind === 'interrupted') reply.interrupted = true;
+            });
+            if (res.error) {
+                setError(toChatError(res));
+            }
+        } catch (err: any) {
+            if (err.name === 'AbortError') {
+                updateReply(reply => { reply.interrupted = true; });
+            } else {
+                setError({ message: err.message, kind: classifyHttpError(err) });
+            }
+        } finally {
+            setLoading(false);
+            abortControllerRef.current = null;
+        }
+    };
+
+    // Send the conversation up to a reply again, for the request inspector only; the chat is left as is
+    const handleReplayRequest = async (messageIndex: number, provider: string, model: string) => {
+        const replayConfig: AppConfig = {
+            ...config,
+            selectedProvider: provider,
+            selectedModel: { ...config.selectedModel, [provider]: model },
+            autoFailover: false,
+            inspectRequests: true
+        };
+        const fit = await fitToContext(messages.slice(0, messageIndex), replayConfig);
+        const res = await callApi(fit.messages, replayConfig, () => { });
+        const records = (res.requestLog || []).map(record => ({ ...record, replay: true }));
+        setMessages(prev => {
+            const updated = [...prev];
+            const reply = updated[messageIndex];
+            if (reply) updated[messageIndex] = { ...reply, requestLog: [...(reply.requestLog || []), ...records] };
+            return updated;
+        });
+        return records[0]?.id;
+    };
+
+    // Keep system messages and the newer half of the earlier turns, then ask again
+    const trimmedHistory = (() => {
+        if (failedReplyIndex < 0) return null;
+        const history = messages.slice(0, failedReplyIndex);
+        const question = history[history.length - 1];
+        const earlier = history.slice(0, -1).filter(m => m.role !== 'system');
+        if (!question || earlier.length === 0) return null;
+        const kept = earlier.slice(Math.ceil(earlier.length / 2));
+        while (kept.length > 0 && kept[0].role !== 'user') kept.shift();
+        return [...history.filter(m => m.role === 'system'), ...kept, question];
+    })();
+
+    const handleTrimAndRetry = () => {
+        if (!trimmedHistory) return;
+        handleRetryWithModel(failedReplyIndex, config.selectedProvider, config.selectedModel[config.selectedProvider], trimmedHistory);
+    };
+
+    // Estimated size of the next request against the selected model's context window
+    const contextBudget = getContextBudget(config);
+    const draftTokens = estimateConversationTokens([
+        ...messages,
+        {
+            role: 'user',
+            content: instruction.trim() + (selectedText ? `\n\nContext:\n${selectedText}` : ''),
+            images: selectedImages,
+            documents: documents.map(toDocumentAttachment)
+        }
+    ], contextBudget?.family || 'other');
+    const contextUse = contextBudget && contextBudget.available > 0 ? draftTokens / contextBudget.available : 0;
+
+    const allProviders = (Object.keys(config.apiKeys) as Provider[]).filter(p => isProviderConfigured(p, config));
 
     const filteredModelGroups = allProviders.map(p => {
         const models = availableModels[p] || [config.selectedModel[p]];
@@ -1138,15 +1843,50 @@ export default function ChatInterface({
 
 
     return (
-        <div className="w-full h-full bg-slate-50 dark:bg-gpt-main flex flex-col font-sans text-slate-900 dark:text-gpt-text overflow-hidden">
+        <div
+            className="w-full h-full bg-slate-50 dark:bg-gpt-main flex flex-col font-sans text-slate-900 dark:text-gpt-text overflow-hidden relative"
+            onKeyDown={handleSearchHotkey}
+        >
+            {inspectedMessage !== null && messages[inspectedMessage]?.requestLog && (
+                <RequestInspector
+                    records={messages[inspectedMessage].requestLog!}
+                    config={config}
+                    onReplay={(provider, model) => handleReplayRequest(inspectedMessage, provider, model)}
+                    onClose={() => setInspectedMessage(null)}
+                />
+            )}
+            {showSearch && (
+                <SearchModal
+                    onOpenResult={handleOpenSearchResult}
+                    onClose={() => setShowSearch(false)}
+                />
+            )}
+            {showHistory && (
+                <ConversationSidebar
+                    activeConversationId={conversationId}
+                    refreshKey={historyRefreshKey}
+                    onSelect={handleSelectConversation}
+                    onNewChat={handleNewChat}
+                    onSearch={() => setShowSearch(true)}
+                    onDeleted={(id) => {
+                        if (id === conversationIdRef.current) {
+                            // Thread is gone, don't let a pending save or the rest of a streaming reply bring it back
+                            conversationIdRef.current = null;
+                            threadDeletedRef.current = true;
+                            switchConversation(null);
+                        }
+                    }}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
             {/* Header */}
             <div
                 className={clsx(
                     "flex items-center justify-between px-5 py-3 bg-white dark:bg-gpt-sidebar border-b border-slate-200 dark:border-gpt-hover shrink-0 z-20 relative draggable-header cursor-move",
                     // Add left padding for macOS traffic lights if in Electron
-                    (window as any).electronAPI?.platform === 'darwin' ? "pl-20" : "",
+                    window.electronAPI?.platform === 'darwin' ? "pl-20" : "",
                     // Add right padding for Windows window controls
-                    (window as any).electronAPI?.platform === 'win32' ? "pr-32" : ""
+                    window.electronAPI?.platform === 'win32' ? "pr-32" : ""
                 )}
                 style={{ WebkitAppRegion: 'drag' } as any}
             >
@@ -1186,109 +1926,214 @@ export default function ChatInterface({
                                 className="absolute top-full left-0 w-[260px] max-h-[400px] overflow-y-auto bg-white dark:bg-gpt-sidebar border border-slate-200 dark:border-gpt-hover rounded-xl shadow-xl z-50 mt-2 custom-scrollbar flex flex-col text-left"
                                 onMouseDown={e => e.stopPropagation()}
                             >
-                                <div className="p-2 sticky top-0 bg-white dark:bg-gpt-sidebar z-10 border-b border-slate-100 dark:border-gpt-hover">
-                                    <div className="relative">
-                                        <input
-                                            ref={searchInputRef}
-                                            type="text"
-                                            value={modelSearch}
-                                            onChange={(e) => setModelSearch(e.target.value)}
-                                            placeholder="Search models..."
-                                            className="w-full px-3 py-2 pr-8 text-xs bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:outline-none focus:border-blue-500 dark:focus:border-blue-500 text-slate-900 dark:text-gpt-text placeholder:text-slate-400 transition-colors"
-                                            onClick={(e) => e.stopPropagation()}
-                                            onKeyDown={(e) => {
-                                                e.stopPropagation();
-                                                if (e.key === 'Enter' && modelSearch.trim() && filteredModelGroups.length === 0 && allProviders.length > 0) {
-                                                    // Use search term as custom model for current provider
-                                                    handleModelChange(config.selectedProvider as Provider, modelSearch.trim());
-                                                }
-                                            }}
-                                        />
-                                        {modelSearch && (
+                                {showModelParams ? (
+                                    <div className="p-3 space-y-2">
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-xs font-semibold text-slate-700 dark:text-gpt-text truncate">
+                                                {config.selectedModel[config.selectedProvider]}
+                                            </span>
                                             <button
-                                                onClick={(e) => {
-                                                    e.stopPropagation();
-                                                    setModelSearch('');
-                                                    searchInputRef.current?.focus();
-                                                }}
-                                                className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors"
-                                                title="Clear search"
+                                                onClick={() => handleModelParamsChange({})}
+                                                className="text-[11px] text-slate-400 hover:text-red-500 transition-colors shrink-0"
                                             >
-                                                <X size={14} />
+                                                Reset
                                             </button>
+                                        </div>
+                                        <GenerationParamsEditor params={selectedModelSettings} onChange={handleModelParamsChange} />
+                                        {canGenerateImages(config.selectedProvider, config) && (
+                                            <label className="flex items-center gap-2 pt-1 cursor-pointer" title="Replies are images from the provider's image generation instead of text">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!!selectedModelSettings.generateImages}
+                                                    onChange={e => saveSelectedModelSettings({ ...selectedModelSettings, generateImages: e.target.checked || undefined })}
+                                                    className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                                />
+                                                <span className="text-xs text-slate-600 dark:text-gpt-text">Generate images</span>
+                                            </label>
+                                        )}
+                                        {config.promptGeneratesImages && !selectedModelSettings.generateImages && (
+                                            <p className="text-[10px] text-slate-400 dark:text-gpt-secondary">
+                                                The current prompt asks for images.
+                                            </p>
+                                        )}
+                                        {describeParams(config.promptParams) && (
+                                            <p className="text-[10px] text-slate-400 dark:text-gpt-secondary">
+                                                The current prompt sets {describeParams(config.promptParams)}, which wins over these.
+                                            </p>
                                         )}
                                     </div>
-                                </div>
-
-                                <div className="py-2 overflow-y-auto">
-                                    {allProviders.length === 0 && (
-                                        <div className="px-4 py-3 text-xs text-slate-500 text-center">
-                                            No API keys configured.<br />Click settings to add keys.
-                                        </div>
-                                    )}
-                                    {allProviders.length > 0 && filteredModelGroups.length === 0 && (
-                                        <div className="px-4 py-8 text-center">
-                                            <p className="text-xs text-slate-500 dark:text-gpt-secondary mb-2">No models found</p>
-                                            {modelSearch.trim() && (
-                                                <p className="text-xs text-blue-500 dark:text-blue-400">Press Enter to use "<span className="font-medium">{modelSearch.trim()}</span>" as custom model</p>
-                                            )}
-                                        </div>
-                                    )}
-                                    {filteredModelGroups.map(group => (
-                                        <div key={group.provider} className="mb-2 last:mb-0">
-                                            <div className="px-3 py-1.5 text-[10px] font-bold text-slate-400 dark:text-gpt-secondary uppercase tracking-wider">
-                                                {(() => {
-                                                    const custom = config.customProviders?.find(cp => cp.id === group.provider);
-                                                    return custom ? custom.name : (ProviderDisplayNames[group.provider] || group.provider);
-                                                })()}
-                                            </div>
-                                            {group.models.map(m => {
-                                                const isSelected = config.selectedProvider === group.provider && config.selectedModel[group.provider] === m;
-                                                return (
+                                ) : (
+                                    <>
+                                        <div className="p-2 sticky top-0 bg-white dark:bg-gpt-sidebar z-10 border-b border-slate-100 dark:border-gpt-hover">
+                                            <div className="relative">
+                                                <input
+                                                    ref={searchInputRef}
+                                                    type="text"
+                                                    value={modelSearch}
+                                                    onChange={(e) => setModelSearch(e.target.value)}
+                                                    placeholder="Search models..."
+                                                    className="w-full px-3 py-2 pr-8 text-xs bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:outline-none focus:border-blue-500 dark:focus:border-blue-500 text-slate-900 dark:text-gpt-text placeholder:text-slate-400 transition-colors"
+                                                    onClick={(e) => e.stopPropagation()}
+                                                    onKeyDown={(e) => {
+                                                        e.stopPropagation();
+                                                        if (e.key === 'Enter' && modelSearch.trim() && filteredModelGroups.length === 0 && allProviders.length > 0) {
+                                                            // Use search term as custom model for current provider
+                                                            handleModelChange(config.selectedProvider as Provider, modelSearch.trim());
+                                                        }
+                                                    }}
+                                                />
+                                                {modelSearch && (
                                                     <button
-                                                        key={`${group.provider}:${m}`}
-                                                        onClick={() => handleModelChange(group.provider, m)}
-                                                        className={clsx(
-                                                            "w-full text-left px-4 py-2 text-sm flex items-center justify-between group transition-colors",
-                                                            isSelected
-                                                                ? "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400"
-                                                                : "text-slate-700 dark:text-gpt-text hover:bg-slate-50 dark:hover:bg-gpt-hover"
-                                                        )}
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            setModelSearch('');
+                                                            searchInputRef.current?.focus();
+                                                        }}
+                                                        className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors"
+                                                        title="Clear search"
                                                     >
-                                                        <span className="truncate">{m}</span>
-                                                        {isSelected && <Check size={14} />}
+                                                        <X size={14} />
                                                     </button>
-                                                );
-                                            })}
+                                                )}
+                                            </div>
                                         </div>
-                                    ))}
-                                </div>
+
+                                        <div className="py-2 overflow-y-auto">
+                                            {allProviders.length === 0 && (
+                                                <div className="px-4 py-3 text-xs text-slate-500 text-center">
+                                                    No API keys configured.<br />Click settings to add keys.
+                                                </div>
+                                            )}
+                                            {allProviders.length > 0 && filteredModelGroups.length === 0 && (
+                                                <div className="px-4 py-8 text-center">
+                                                    <p className="text-xs text-slate-500 dark:text-gpt-secondary mb-2">No models found</p>
+                                                    {modelSearch.trim() && (
+                                                        <p className="text-xs text-blue-500 dark:text-blue-400">Press Enter to use "<span className="font-medium">{modelSearch.trim()}</span>" as custom model</p>
+                                                    )}
+                                                </div>
+                                            )}
+                                            {filteredModelGroups.map(group => (
+                                                <div key={group.provider} className="mb-2 last:mb-0">
+                                                    <div className="px-3 py-1.5 text-[10px] font-bold text-slate-400 dark:text-gpt-secondary uppercase tracking-wider">
+                                                        {(() => {
+                                                            const custom = config.customProviders?.find(cp => cp.id === group.provider);
+                                                            return custom ? custom.name : (ProviderDisplayNames[group.provider] || group.provider);
+                                                        })()}
+                                                    </div>
+                                                    {group.models.map(m => {
+                                                        const isSelected = config.selectedProvider === group.provider && config.selectedModel[group.provider] === m;
+                                                        return (
+                                                            <button
+                                                                key={`${group.provider}:${m}`}
+                                                                onClick={() => handleModelChange(group.provider, m)}
+                                                                className={clsx(
+                                                                    "w-full text-left px-4 py-2 text-sm flex items-center justify-between group transition-colors",
+                                                                    isSelected
+                                                                        ? "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400"
+                                                                        : "text-slate-700 dark:text-gpt-text hover:bg-slate-50 dark:hover:bg-gpt-hover"
+                                                                )}
+                                                            >
+                                                                <span className="truncate">{m}</span>
+                                                                <span className="flex items-center gap-2 shrink-0 ml-2">
+                                                                    {modelDetails[`${group.provider}:${m}`] && (
+                                                                        <span className="text-[10px] text-slate-400 dark:text-gpt-secondary">
+                                                                            {formatModelDetails(modelDetails[`${group.provider}:${m}`])}
+                                                                        </span>
+                                                                    )}
+                                                                    {isSelected && <Check size={14} />}
+                                                                </span>
+                                                            </button>
+                                                        );
+                                                    })}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </>
+                                )}
+
+                                {/* Sampling parameters of the selected model */}
+                                <button
+                                    onClick={() => setShowModelParams(!showModelParams)}
+                                    className="sticky bottom-0 w-full flex items-center gap-2 px-3 py-2 text-xs text-slate-500 dark:text-gpt-secondary hover:text-slate-700 dark:hover:text-gpt-text bg-white dark:bg-gpt-sidebar border-t border-slate-100 dark:border-gpt-hover transition-colors"
+                                >
+                                    {showModelParams ? <ChevronLeft size={14} className="shrink-0" /> : <SlidersHorizontal size={14} className="shrink-0" />}
+                                    <span className="font-medium shrink-0">{showModelParams ? 'Models' : 'Parameters'}</span>
+                                    {!showModelParams && (
+                                        <span className="truncate text-slate-400">{describeParams(selectedModelSettings) || 'Defaults'}</span>
+                                    )}
+                                    {!showModelParams && imageMode && (
+                                        <Palette size={12} className="shrink-0 ml-auto text-pink-500" />
+                                    )}
+                                </button>
                             </div>
                         )}
                     </div>
                 </div>
                 <div className="flex items-center gap-1.5 shrink-0 ml-2" onMouseDown={e => e.stopPropagation()} style={{ WebkitAppRegion: 'no-drag' } as any}>
+                    {(config.personas?.length ?? 0) > 0 && (
+                        <div className="relative" ref={personaMenuRef}>
+                            <button
+                                onClick={() => setIsPersonaMenuOpen(!isPersonaMenuOpen)}
+                                className={clsx(
+                                    "flex items-center gap-1 p-2 rounded-lg transition-all duration-200 shrink-0",
+                                    activePersona
+                                        ? "text-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                                        : "text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                                )}
+                                title={activePersona ? `Persona: ${activePersona.name}` : 'Persona'}
+                            >
+                                <UserRound size={18} />
+                                {activePersona && <span className="text-xs font-medium max-w-[90px] truncate">{activePersona.name}</span>}
+                            </button>
+
+                            {isPersonaMenuOpen && (
+                                <div className="absolute top-full right-0 w-[240px] max-h-[320px] overflow-y-auto bg-white dark:bg-gpt-sidebar border border-slate-200 dark:border-gpt-hover rounded-xl shadow-xl z-50 mt-2 py-2 custom-scrollbar text-left">
+                                    <div className="px-3 py-1.5 text-[10px] font-bold text-slate-400 dark:text-gpt-secondary uppercase tracking-wider">
+                                        Persona for this chat
+                                    </div>
+                                    {[undefined, ...(config.personas || [])].map(persona => {
+                                        const isSelected = persona?.id === activePersona?.id;
+                                        return (
+                                            <button
+                                                key={persona?.id || 'none'}
+                                                onClick={() => handlePersonaChange(persona)}
+                                                className={clsx(
+                                                    "w-full text-left px-4 py-2 text-sm flex items-center justify-between transition-colors",
+                                                    isSelected
+                                                        ? "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400"
+                                                        : "text-slate-700 dark:text-gpt-text hover:bg-slate-50 dark:hover:bg-gpt-hover"
+                                                )}
+                                            >
+                                                <span className="flex flex-col min-w-0">
+                                                    <span className="truncate">{persona ? persona.name : 'No persona'}</span>
+                                                    {persona && (persona.model || persona.language) && (
+                                                        <span className="text-[10px] text-slate-400 dark:text-gpt-secondary truncate">
+                                                            {[persona.model?.modelName, persona.language].filter(Boolean).join(' · ')}
+                                                        </span>
+                                                    )}
+                                                </span>
+                                                {isSelected && <Check size={14} className="shrink-0 ml-2" />}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    )}
                     <button
-                        onClick={() => {
-                            setMessages([]);
-                            setInstruction('');
-                            setSelectedText('');
-                            setSelectedImage(null);
-                            setError('');
-                            // Immediately persist cleared state
-                            if (onStateChange) {
-                                onStateChange({
-                                    instruction: '',
-                                    messages: [],
-                                    selectedText: '',
-                                    selectedImage: null
-                                });
-                            }
-                            // Focus the textarea for immediate typing
-                            setTimeout(() => {
-                                textareaRef.current?.focus();
-                            }, 50);
-                        }}
+                        onClick={() => setShowHistory(!showHistory)}
+                        className={clsx(
+                            "p-2 rounded-lg transition-all duration-200 shrink-0",
+                            showHistory
+                                ? "text-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                                : "text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                        )}
+                        title="Chat History"
+                    >
+                        <History size={18} />
+                    </button>
+                    <button
+                        onClick={handleNewChat}
                         className="text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 p-2 rounded-lg transition-all duration-200 shrink-0"
                         title="New Chat"
                     >
@@ -1300,7 +2145,7 @@ export default function ChatInterface({
                                 if (onOpenSettings) {
                                     onOpenSettings();
                                 } else {
-                                    (window as any).electronAPI?.openSettings();
+                                    window.electronAPI?.openSettings();
                                 }
                             }}
                             className="p-2 text-slate-500 hover:bg-slate-100 dark:text-gpt-secondary dark:hover:bg-gpt-hover rounded-lg transition-colors"
@@ -1336,40 +2181,21 @@ export default function ChatInterface({
                     </div>
                 )}
 
-                {/* Image Context Badge - Only shows before first message */}
-                {selectedImage && (
-                    <div className="flex justify-end mb-4">
-                        <div className="inline-flex flex-col bg-blue-50 dark:bg-gpt-sidebar border border-blue-100 dark:border-gpt-hover rounded-xl p-2">
-                            <div className="flex items-center justify-between gap-3 mb-2">
-                                <div className="text-[10px] font-bold text-blue-500 dark:text-blue-400 uppercase tracking-wider">Image</div>
-                                <button onClick={clearImageContext} className="text-slate-400 hover:text-red-500 transition-colors" title="Clear image"><Trash2 size={14} /></button>
-                            </div>
-                            <button
-                                onClick={() => setImageZoomOpen(true)}
-                                className="w-48 h-48 rounded-lg overflow-hidden border-2 border-blue-200 dark:border-gpt-hover hover:opacity-80 transition-opacity cursor-zoom-in"
-                                title="Click to enlarge"
-                            >
-                                <img src={selectedImage} alt="Selected Context" className="w-full h-full object-cover" />
-                            </button>
-                        </div>
-                    </div>
-                )}
-
                 {/* Image Zoom Modal - Rendered to document.body for true fullscreen */}
-                {imageZoomOpen && selectedImage && createPortal(
+                {zoomedImage && createPortal(
                     <div
                         className="fixed inset-0 bg-black/90 flex items-center justify-center p-4 cursor-zoom-out"
                         style={{ zIndex: 2147483647 }}
-                        onClick={() => setImageZoomOpen(false)}
+                        onClick={() => setZoomedImage(null)}
                     >
                         <img
-                            src={selectedImage}
+                            src={zoomedImage}
                             alt="Zoomed Context"
                             className="max-w-[90vw] max-h-[90vh] object-contain rounded-lg shadow-2xl"
                             onClick={(e) => e.stopPropagation()}
                         />
                         <button
-                            onClick={() => setImageZoomOpen(false)}
+                            onClick={() => setZoomedImage(null)}
                             className="absolute top-4 right-4 w-10 h-10 bg-white/10 hover:bg-white/20 rounded-full flex items-center justify-center text-white transition-colors"
                             title="Close (ESC)"
                         >
@@ -1390,9 +2216,17 @@ export default function ChatInterface({
                 )}
 
                 {/* Messages Container */}
-                <div className="max-w-3xl mx-auto w-full space-y-6">
+                <div ref={messagesContainerRef} className="max-w-3xl mx-auto w-full space-y-6">
                     {messages.map((msg, idx) => (
-                        <div key={idx} className={`flex gap-3 ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}>
+                        <div
+                            key={idx}
+                            data-message-index={idx}
+                            className={clsx(
+                                "flex gap-3 rounded-2xl transition-shadow duration-500",
+                                msg.role === 'user' && 'flex-row-reverse',
+                                highlightedMessage === idx && 'ring-2 ring-yellow-400/70 ring-offset-4 ring-offset-slate-50 dark:ring-offset-gpt-main'
+                            )}
+                        >
                             <div className={`shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${msg.role === 'user' ? 'bg-slate-200 dark:bg-gpt-hover text-slate-500 dark:text-gpt-text' : 'bg-blue-600 text-white'}`}>
                                 {msg.role === 'user' ? <User size={14} /> : <Bot size={14} />}
                             </div>
@@ -1461,6 +2295,46 @@ export default function ChatInterface({
                                                 </div>
                                             </div>
                                         )}
+                                        {/* Tool Steps Section - one collapsible row per tool call */}
+                                        {msg.toolSteps && msg.toolSteps.length > 0 && (
+                                            <div className="mb-2 not-prose border border-slate-200 dark:border-gpt-hover rounded-lg overflow-hidden divide-y divide-slate-200 dark:divide-gpt-hover">
+                                                {msg.toolSteps.map(step => {
+                                                    const stepKey = `${idx}-${step.id}`;
+                                                    const isRunning = step.status === 'running';
+                                                    return (
+                                                        <div key={step.id}>
+                                                            <button
+                                                                onClick={() => setExpandedToolSteps(prev => ({ ...prev, [stepKey]: !prev[stepKey] }))}
+                                                                className="w-full flex items-center gap-2 px-3 py-2 bg-slate-50 dark:bg-gpt-sidebar hover:bg-slate-100 dark:hover:bg-gpt-hover transition-colors text-left"
+                                                                disabled={isRunning}
+                                                            >
+                                                                {isRunning ? (
+                                                                    <Loader2 size={14} className="animate-spin text-blue-500 shrink-0" />
+                                                                ) : (
+                                                                    <Wrench size={14} className={clsx("shrink-0", step.status === 'error' ? "text-red-500" : "text-green-500")} />
+                                                                )}
+                                                                <span className="text-xs font-medium text-slate-700 dark:text-gpt-text flex-1 truncate">
+                                                                    {isRunning ? `Running ${step.label}...` : step.label}
+                                                                    {formatToolInput(step.input) && (
+                                                                        <span className="font-normal text-slate-500 dark:text-gpt-secondary">: {formatToolInput(step.input)}</span>
+                                                                    )}
+                                                                </span>
+                                                                {!isRunning && (
+                                                                    <ChevronRight size={14} className={clsx("text-slate-400 transition-transform", expandedToolSteps[stepKey] && "rotate-90")} />
+                                                                )}
+                                                            </button>
+                                                            {!isRunning && expandedToolSteps[stepKey] && (
+                                                                <div className="px-3 py-2 bg-white dark:bg-gpt-main border-t border-slate-200 dark:border-gpt-hover max-h-48 overflow-y-auto custom-scrollbar">
+                                                                    <pre className={clsx("text-xs whitespace-pre-wrap break-words font-mono", step.status === 'error' ? "text-red-600 dark:text-red-400" : "text-slate-600 dark:text-gpt-secondary")}>
+                                                                        {step.output}
+                                                                    </pre>
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    );
+                                                })}
+                                            </div>
+                                        )}
                                         {/* Response content - show static text for web search messages, Thinking for loading */}
                                         {!msg.content && msg.webSearch ? (
                                             // Message has web search but no content - show static text
@@ -1471,7 +2345,7 @@ export default function ChatInterface({
                                             // Empty message at the end while loading (and no reasoning) - show Thinking
                                             <div className="flex items-center gap-2 text-slate-500 dark:text-gpt-secondary py-1">
                                                 <Loader2 size={14} className="animate-spin" />
-                                                <span className="text-xs font-medium">Thinking...</span>
+                                                <span className="text-xs font-medium">{imageMode ? 'Creating image...' : 'Thinking...'}</span>
                                             </div>
                                         ) : (
                                             <ReactMarkdown
@@ -1576,6 +2450,58 @@ export default function ChatInterface({
                                                 </div>
                                             </div>
                                         )}
+                                        {/* Generated images, each with zoom, save, copy and reuse as input */}
+                                        {messageImages(msg).length > 0 && (
+                                            <div className="flex flex-wrap gap-2 mt-2">
+                                                {messageImages(msg).map((image, imageIdx) => (
+                                                    <div key={imageIdx} className="relative group/image max-w-full">
+                                                        <button
+                                                            onClick={() => setZoomedImage(image)}
+                                                            className="block rounded-lg overflow-hidden cursor-zoom-in"
+                                                            title="Click to enlarge"
+                                                        >
+                                                            <img
+                                                                src={image}
+                                                                alt={`Generated ${imageIdx + 1}`}
+                                                                className="max-w-full max-h-80 object-contain rounded-lg border border-slate-200 dark:border-gpt-hover"
+                                                            />
+                                                        </button>
+                                                        <div className="absolute top-1.5 right-1.5 flex gap-1 opacity-0 group-hover/image:opacity-100 transition-opacity">
+                                                            <a
+                                                                href={image}
+                                                                download={imageFileName(image, imageIdx)}
+                                                                className="p-1.5 bg-black/60 hover:bg-black/80 text-white rounded-md transition-colors"
+                                                                title="Save"
+                                                            >
+                                                                <Download size={12} />
+                                                            </a>
+                                                            <button
+                                                                onClick={() => copyImageToClipboard(image)
+                                                                    .then(() => {
+                                                                        setCopiedImage(image);
+                                                                        setTimeout(() => setCopiedImage(null), 2000);
+                                                                    })
+                                                                    .catch(err => setError({ message: err.message, kind: 'unknown' }))}
+                                                                className="p-1.5 bg-black/60 hover:bg-black/80 text-white rounded-md transition-colors"
+                                                                title="Copy"
+                                                            >
+                                                                {copiedImage === image ? <Check size={12} className="text-green-400" /> : <Copy size={12} />}
+                                                            </button>
+                                                            <button
+                                                                onClick={() => {
+                                                                    addImages([image]);
+                                                                    textareaRef.current?.focus();
+                                                                }}
+                                                                className="p-1.5 bg-black/60 hover:bg-black/80 text-white rounded-md transition-colors"
+                                                                title="Use as input for the next message"
+                                                            >
+                                                                <ImagePlus size={12} />
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
                                         {msg.interrupted && (
                                             <div className="flex items-center gap-1.5 mt-2 text-xs text-slate-400 dark:text-slate-500 italic border-t border-slate-100 dark:border-slate-800 pt-2">
                                                 <PauseCircle size={12} />
@@ -1595,15 +2521,41 @@ export default function ChatInterface({
                                     </div>
                                 ) : (
                                     <div>
-                                        {/* Show attached image in user message */}
-                                        {msg.image && (
-                                            <button
-                                                onClick={() => setImageZoomOpen(true)}
-                                                className="mb-2 rounded-lg overflow-hidden hover:opacity-80 transition-opacity cursor-zoom-in max-w-full"
-                                                title="Click to enlarge"
-                                            >
-                                                <img src={msg.image} alt="Attached" className="w-48 h-48 object-cover rounded-lg" />
-                                            </button>
+                                        {/* Show attached images in user message, in order */}
+                                        {messageImages(msg).length > 0 && (
+                                            <div className="flex flex-wrap gap-2 mb-2">
+                                                {messageImages(msg).map((image, imageIdx, images) => (
+                                                    <button
+                                                        key={imageIdx}
+                                                        onClick={() => setZoomedImage(image)}
+                                                        className="rounded-lg overflow-hidden hover:opacity-80 transition-opacity cursor-zoom-in max-w-full"
+                                                        title="Click to enlarge"
+                                                    >
+                                                        <img
+                                                            src={image}
+                                                            alt={`Attached ${imageIdx + 1}`}
+                                                            className={clsx("object-cover rounded-lg", images.length === 1 ? "w-48 h-48" : "w-28 h-28")}
+                                                        />
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {msg.documents && msg.documents.length > 0 && (
+                                            <div className="flex flex-wrap gap-1.5 mb-2">
+                                                {msg.documents.map((doc, docIdx) => (
+                                                    <span
+                                                        key={docIdx}
+                                                        className="inline-flex items-center gap-1.5 max-w-full px-2 py-1 text-xs rounded-lg bg-black/5 dark:bg-white/10"
+                                                        title={doc.data ? 'Sent whole to models that read PDFs, as text to others' : 'Sent as extracted text'}
+                                                    >
+                                                        <FileText size={12} className="shrink-0" />
+                                                        <span className="truncate">{doc.name}</span>
+                                                        {doc.pages && (doc.pages.from > 1 || doc.pages.to < doc.pages.total) && (
+                                                            <span className="opacity-60 shrink-0">p. {doc.pages.from}–{doc.pages.to}</span>
+                                                        )}
+                                                    </span>
+                                                ))}
+                                            </div>
                                         )}
                                         <div className="whitespace-pre-wrap break-words text-sm">
                                             {msg.content}
@@ -1629,7 +2581,7 @@ export default function ChatInterface({
                                     </button>
                                 )}
                                 {/* Response time and retry button row */}
-                                {msg.role === 'assistant' && msg.content && !(loading && idx === messages.length - 1) && (
+                                {msg.role === 'assistant' && (msg.content || msg.requestLog || messageImages(msg).length > 0) && !(loading && idx === messages.length - 1) && (
                                     <div className="flex items-center gap-2 mt-2">
                                         {/* Response time */}
                                         {msg.responseTime !== undefined && (
@@ -1638,6 +2590,82 @@ export default function ChatInterface({
                                                 <span>{(msg.responseTime / 1000).toFixed(1)}s</span>
                                             </div>
                                         )}
+                                        {/* Token usage and cost, plus the running total on the latest reply */}
+                                        {msg.usage && (() => {
+                                            const cost = messageCost(config, msg);
+                                            const isLatest = idx === messages.length - 1;
+                                            const total = isLatest ? conversationCost(config, messages) : 0;
+                                            const details = [
+                                                `Input: ${msg.usage.inputTokens} tokens`,
+                                                `Output: ${msg.usage.outputTokens} tokens`,
+                                                ...(msg.usage.reasoningTokens ? [`Reasoning: ${msg.usage.reasoningTokens} tokens`] : []),
+                                                cost !== undefined ? `Cost: ${formatCost(cost)}` : 'No price set for this model',
+                                                ...(isLatest && total > 0 ? [`Conversation: ${formatCost(total)}`] : [])
+                                            ];
+                                            return (
+                                                <div className="flex items-center gap-1 text-[10px] text-slate-400 dark:text-slate-500 cursor-help" title={details.join('\n')}>
+                                                    <Coins size={10} />
+                                                    <span>
+                                                        {formatTokens(msg.usage.inputTokens)} / {formatTokens(msg.usage.outputTokens)}
+                                                        {cost !== undefined && ` · ${formatCost(cost)}`}
+                                                        {isLatest && total > 0 && total !== cost && ` · ${formatCost(total)} total`}
+                                                    </span>
+                                                </div>
+                                            );
+                                        })()}
+                                        {/* Answered by a backup model after the earlier ones failed */}
+                                        {msg.answeredBy && msg.failedAttempts && msg.failedAttempts.length > 0 && (
+                                            <div
+                                                className="flex items-center gap-1 text-[10px] text-amber-600 dark:text-amber-400 cursor-help"
+                                                title={msg.failedAttempts.map(a => `${a.model}: ${a.error}`).join('\n')}
+                                            >
+                                                <Shuffle size={10} />
+                                                <span className="truncate max-w-[180px]">
+                                                    {msg.answeredBy.model} after {msg.failedAttempts.length} failed {msg.failedAttempts.length === 1 ? 'attempt' : 'attempts'}
+                                                </span>
+                                            </div>
+                                        )}
+                                        {/* Parts of the conversation left out to fit the model's context */}
+                                        {msg.contextTrim && (
+                                            <div
+                                                className="flex items-center gap-1 text-[10px] text-slate-400 dark:text-slate-500 cursor-help"
+                                                title={[
+                                                    msg.contextTrim.dropped && `${msg.contextTrim.dropped} earlier messages were not sent`,
+                                                    msg.contextTrim.summarized && `${msg.contextTrim.summarized} earlier messages were sent as a summary`,
+                                                    msg.contextTrim.truncatedTokens && `About ${formatTokens(msg.contextTrim.truncatedTokens)} tokens were cut from the attached text`
+                                                ].filter(Boolean).join('\n')}
+                                            >
+                                                <Scissors size={10} />
+                                                <span>
+                                                    {msg.contextTrim.summarized ? 'Summarized' : msg.contextTrim.dropped ? 'Trimmed' : 'Context cut'}
+                                                </span>
+                                            </div>
+                                        )}
+                                        {/* Request inspector */}
+                                        {msg.requestLog && msg.requestLog.length > 0 && (
+                                            <button
+                                                onClick={() => setInspectedMessage(idx)}
+                                                className="p-1 text-slate-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
+                                                title={`Inspect ${msg.requestLog.length} ${msg.requestLog.length === 1 ? 'request' : 'requests'}`}
+                                            >
+                                                <Bug size={12} />
+                                            </button>
+                                        )}
+                                        {/* Read aloud */}
+                                        {msg.content && (
+                                            <button
+                                                onClick={() => speech?.index === idx ? stopSpeaking() : speakMessage(idx, msg.content)}
+                                                className={clsx(
+                                                    "p-1 rounded transition-colors",
+                                                    speech?.index === idx
+                                                        ? "text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20"
+                                                        : "text-slate-400 dark:text-slate-500 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                                                )}
+                                                title={speech?.index === idx ? 'Stop reading' : 'Read aloud'}
+                                            >
+                                                {speech?.index === idx ? <VolumeX size={12} /> : <Volume2 size={12} />}
+                                            </button>
+                                        )}
                                         {/* Try with another model button */}
                                         <div className="relative" ref={retryModelMenuOpen === idx ? retryModelMenuRef : null}>
                                             <button
@@ -1707,24 +2735,68 @@ export default function ChatInterface({
                     ))}
 
                     {error && (
-                        <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-xs p-3 rounded-lg border border-red-100 dark:border-red-800 text-center">
-                            {error}
-                        </div>
+                        <ErrorBanner
+                            error={error}
+                            config={config}
+                            onOpenSettings={() => onOpenSettings ? onOpenSettings() : openOptions()}
+                            onRetry={!loading && failedReplyIndex >= 0 ? () => handleRetryFailed() : undefined}
+                            onUseModel={!loading && failedReplyIndex >= 0 ? handleRetryFailed : undefined}
+                            onTrimContext={!loading && trimmedHistory ? handleTrimAndRetry : undefined}
+                            onContinue={!loading && failedReplyIndex >= 0 && messages[failedReplyIndex].content ? handleContinue : undefined}
+                            onDismiss={() => setError(null)}
+                        />
                     )}
 
                     <div ref={messagesEndRef} />
                 </div>
 
                 {/* Input Area */}
-                <div className="bg-white dark:bg-gpt-main border-t border-slate-200 dark:border-gpt-hover p-4 shrink-0 z-20" onMouseDown={e => e.stopPropagation()}>
+                <div
+                    className={clsx(
+                        "bg-white dark:bg-gpt-main border-t border-slate-200 dark:border-gpt-hover p-4 shrink-0 z-20 transition-colors",
+                        isDraggingFiles && "bg-blue-50 dark:bg-blue-900/20"
+                    )}
+                    onMouseDown={e => e.stopPropagation()}
+                    onDragOver={e => {
+                        if (!e.dataTransfer.types.includes('Files')) return;
+                        e.preventDefault();
+                        setIsDraggingFiles(true);
+                    }}
+                    onDragLeave={e => {
+                        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+                    }}
+                    onDrop={handleFileDrop}
+                >
                     <div className="max-w-3xl mx-auto w-full">
+                        {/* Read-aloud controls, also for replies still streaming */}
+                        {speech && (
+                            <div className="flex items-center gap-2 mb-2 px-3 py-1.5 w-fit rounded-full bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-xs text-blue-700 dark:text-blue-300">
+                                <Volume2 size={12} className={clsx(speech.state === 'speaking' && "animate-pulse")} />
+                                <span>{speech.state === 'paused' ? 'Paused' : 'Reading aloud'}</span>
+                                <button
+                                    onClick={() => speech.state === 'paused' ? speechRef.current?.player.resume() : speechRef.current?.player.pause()}
+                                    className="p-0.5 rounded hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
+                                    title={speech.state === 'paused' ? 'Resume' : 'Pause'}
+                                >
+                                    {speech.state === 'paused' ? <Play size={12} /> : <Pause size={12} />}
+                                </button>
+                                <button
+                                    onClick={stopSpeaking}
+                                    className="p-0.5 rounded hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
+                                    title="Stop"
+                                >
+                                    <Square size={12} />
+                                </button>
+                            </div>
+                        )}
+
                         {/* Quick Actions */}
                         {(messages.length === 0 || showPrompts) && (
                             <div className="flex flex-wrap gap-2 mb-3">
                                 {config.prompts
-                                    .filter(p => !p.onlyImage || selectedImage)
+                                    .filter(p => !p.onlyImage || selectedImages.length > 0)
                                     .sort((a, b) => {
-                                        if (selectedImage) {
+                                        if (selectedImages.length > 0) {
                                             if (a.onlyImage && !b.onlyImage) return -1;
                                             if (!a.onlyImage && b.onlyImage) return 1;
                                         }
@@ -1751,13 +2823,136 @@ export default function ChatInterface({
                             </div>
                         )}
 
+                        {/* Attached images: drag to reorder, they are sent in this order */}
+                        {selectedImages.length > 0 && (
+                            <div className="flex items-end gap-2 mb-2 overflow-x-auto custom-scrollbar pb-1">
+                                {selectedImages.map((image, idx) => (
+                                    <div
+                                        key={image}
+                                        draggable
+                                        onDragStart={(e) => {
+                                            setDraggedImageIdx(idx);
+                                            e.dataTransfer.effectAllowed = 'move';
+                                        }}
+                                        onDragOver={(e) => {
+                                            e.preventDefault();
+                                            if (draggedImageIdx === null || draggedImageIdx === idx) return;
+                                            moveImage(draggedImageIdx, idx);
+                                            setDraggedImageIdx(idx);
+                                        }}
+                                        onDragEnd={() => setDraggedImageIdx(null)}
+                                        className={clsx(
+                                            "relative group/image shrink-0 w-16 h-16 rounded-lg overflow-hidden border-2 border-blue-200 dark:border-gpt-hover cursor-grab active:cursor-grabbing",
+                                            draggedImageIdx === idx && "opacity-40"
+                                        )}
+                                    >
+                                        <img
+                                            src={image}
+                                            alt={`Image ${idx + 1}`}
+                                            onClick={() => setZoomedImage(image)}
+                                            className="w-full h-full object-cover cursor-zoom-in"
+                                            title="Click to enlarge, drag to reorder"
+                                        />
+                                        {selectedImages.length > 1 && (
+                                            <span className="absolute bottom-0.5 left-0.5 min-w-[16px] h-4 px-1 rounded bg-black/60 text-white text-[10px] font-semibold flex items-center justify-center pointer-events-none">
+                                                {idx + 1}
+                                            </span>
+                                        )}
+                                        <button
+                                            onClick={() => updateImages(selectedImages.filter((_, i) => i !== idx))}
+                                            className="absolute top-0.5 right-0.5 w-4 h-4 rounded-full bg-black/60 hover:bg-red-500 text-white flex items-center justify-center opacity-0 group-hover/image:opacity-100 transition-opacity"
+                                            title="Remove image"
+                                        >
+                                            <X size={10} />
+                                        </button>
+                                    </div>
+                                ))}
+                                {selectedImages.length > 1 && (
+                                    <button
+                                        onClick={() => updateImages([])}
+                                        className="shrink-0 p-1.5 text-slate-400 hover:text-red-500 transition-colors"
+                                        title="Remove all images"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Attached documents: their text goes with the next message */}
+                        {(documents.length > 0 || readingDocuments > 0) && (
+                            <div className="flex flex-wrap gap-2 mb-2">
+                                {documents.map(doc => {
+                                    const total = doc.pageTexts.length;
+                                    const pages = doc.pages;
+                                    const hasText = doc.pageTexts.some(text => text.trim());
+                                    return (
+                                        <div
+                                            key={doc.id}
+                                            className="flex items-center gap-2 max-w-full pl-2 pr-1 py-1 text-xs bg-slate-50 dark:bg-gpt-sidebar border border-slate-200 dark:border-gpt-hover rounded-lg"
+                                            title={doc.data && pages?.from === 1 && pages.to === total
+                                                ? 'Models that read PDFs get the file itself, others its text'
+                                                : 'Sent as extracted text'}
+                                        >
+                                            <FileText size={14} className="text-blue-500 shrink-0" />
+                                            <span className="truncate max-w-[180px] font-medium text-slate-700 dark:text-gpt-text">{doc.name}</span>
+                                            {pages && total > 1 && (
+                                                <span className="flex items-center gap-1 text-slate-500 dark:text-gpt-secondary shrink-0">
+                                                    pages
+                                                    <input
+                                                        type="number"
+                                                        min={1}
+                                                        max={total}
+                                                        value={pages.from}
+                                                        onChange={e => setDocumentPages(doc.id, { ...pages, from: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), total) })}
+                                                        className="w-12 px-1 py-0.5 bg-white dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded outline-none focus:border-blue-500"
+                                                    />
+                                                    –
+                                                    <input
+                                                        type="number"
+                                                        min={1}
+                                                        max={total}
+                                                        value={pages.to}
+                                                        onChange={e => setDocumentPages(doc.id, { ...pages, to: Math.min(Math.max(parseInt(e.target.value, 10) || total, 1), total) })}
+                                                        className="w-12 px-1 py-0.5 bg-white dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded outline-none focus:border-blue-500"
+                                                    />
+                                                    of {total}
+                                                </span>
+                                            )}
+                                            {!hasText && (
+                                                <span
+                                                    className="text-amber-600 dark:text-amber-400 shrink-0"
+                                                    title="Scanned and encrypted PDFs have no text to extract. Models that read PDFs (Claude, Gemini) can still see them."
+                                                >
+                                                    No text found
+                                                </span>
+                                            )}
+                                            <button
+                                                onClick={() => setDocuments(prev => prev.filter(d => d.id !== doc.id))}
+                                                className="p-0.5 text-slate-400 hover:text-red-500 transition-colors shrink-0"
+                                                title="Remove file"
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                                {readingDocuments > 0 && (
+                                    <div className="flex items-center gap-1.5 px-2 py-1 text-xs text-slate-500 dark:text-gpt-secondary">
+                                        <Loader2 size={12} className="animate-spin" />
+                                        Reading {readingDocuments === 1 ? 'file' : `${readingDocuments} files`}...
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
                         <div className="relative bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-2xl px-3 py-3 focus-within:ring-2 focus-within:ring-blue-500/20 dark:focus-within:ring-transparent focus-within:border-blue-500 dark:focus-within:border-gpt-secondary transition-all">
                             <textarea
                                 ref={textareaRef}
                                 value={instruction}
                                 onChange={(e) => setInstruction(e.target.value)}
-                                placeholder={messages.length === 0 ? (selectedText ? "What should I do with the selected text?" : "Type a message...") : "Reply to continue chat..."}
-                                className="w-full bg-transparent border-none focus:ring-0 p-0 pr-10 pl-9 text-sm text-slate-900 dark:text-gpt-text placeholder:text-slate-400 dark:placeholder:text-zinc-500 resize-none max-h-[200px] min-h-[20px] overflow-y-auto no-scrollbar outline-none"
+                                placeholder={voiceInput === 'recording' ? "Listening... press the mic again when you're done" : imageMode ? "Describe the image to create..." : messages.length === 0 ? (selectedText ? "What should I do with the selected text?" : "Type a message...") : "Reply to continue chat..."}
+                                className="w-full bg-transparent border-none focus:ring-0 p-0 pr-10 pl-24 text-sm text-slate-900 dark:text-gpt-text placeholder:text-slate-400 dark:placeholder:text-zinc-500 resize-none max-h-[200px] min-h-[20px] overflow-y-auto no-scrollbar outline-none"
                                 rows={1}
                                 onKeyDown={(e) => {
                                     if (e.key === 'Enter' && !e.shiftKey) {
@@ -1767,7 +2962,7 @@ export default function ChatInterface({
                                 }}
                                 onPaste={handlePaste}
                             />
-                            <div className="absolute bottom-2 left-2">
+                            <div className="absolute bottom-2 left-2 flex items-center gap-1">
                                 <button
                                     onClick={() => setShowPrompts(!showPrompts)}
                                     className={clsx(
@@ -1780,6 +2975,37 @@ export default function ChatInterface({
                                 >
                                     <Zap size={16} />
                                 </button>
+                                <button
+                                    onClick={() => documentInputRef.current?.click()}
+                                    className="w-6 h-6 rounded-lg flex items-center justify-center transition-colors text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-100 dark:hover:bg-gpt-hover"
+                                    title="Attach files (PDF, Word, text, code, images), or drop them here"
+                                >
+                                    <Paperclip size={16} />
+                                </button>
+                                <button
+                                    onClick={toggleVoiceInput}
+                                    disabled={voiceInput === 'starting' || voiceInput === 'transcribing'}
+                                    className={clsx(
+                                        "w-6 h-6 rounded-lg flex items-center justify-center transition-colors",
+                                        voiceInput === 'recording'
+                                            ? "bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400 animate-pulse"
+                                            : "text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 hover:bg-slate-100 dark:hover:bg-gpt-hover"
+                                    )}
+                                    title={voiceInput === 'recording' ? 'Stop and transcribe' : voiceInput === 'transcribing' ? 'Transcribing...' : 'Dictate'}
+                                >
+                                    {voiceInput === 'transcribing' ? <Loader2 size={16} className="animate-spin" /> : <Mic size={16} />}
+                                </button>
+                                <input
+                                    ref={documentInputRef}
+                                    type="file"
+                                    multiple
+                                    accept={`${DOCUMENT_ACCEPT},image/*`}
+                                    className="hidden"
+                                    onChange={e => {
+                                        addFiles(Array.from(e.target.files || []));
+                                        e.target.value = '';
+                                    }}
+                                />
                             </div>
                             <div className="absolute bottom-2 right-2">
                                 {loading ? (
@@ -1797,7 +3023,7 @@ export default function ChatInterface({
                                 ) : (
                                     <button
                                         onClick={() => handleSubmit()}
-                                        disabled={!instruction.trim()}
+                                        disabled={!instruction.trim() || readingDocuments > 0}
                                         className="w-8 h-8 bg-blue-600 hover:bg-blue-700 dark:bg-blue-600 dark:hover:bg-blue-700 text-white rounded-lg shadow-md hover:shadow-lg disabled:opacity-50 disabled:bg-slate-300 dark:disabled:bg-slate-700 disabled:text-slate-500 dark:disabled:text-slate-400 disabled:cursor-not-allowed disabled:shadow-none transition-all duration-200 flex items-center justify-center"
                                     >
                                         <Send size={14} />
@@ -1805,6 +3031,36 @@ export default function ChatInterface({
                                 )}
                             </div>
                         </div>
+
+                        {/* Context budget meter */}
+                        {(messages.length > 0 || selectedText || selectedImages.length > 0 || documents.length > 0) && (
+                            <div
+                                className="flex items-center justify-end gap-1.5 mt-1.5 text-[10px] text-slate-400 dark:text-slate-500 cursor-help"
+                                title={contextBudget
+                                    ? `About ${draftTokens} of ${contextBudget.available} tokens (${contextBudget.reservedOutput} more are kept for the reply)`
+                                    : 'Context length unknown for this model. Set it in the model settings to enable trimming.'}
+                            >
+                                <Gauge size={10} />
+                                {contextBudget ? (
+                                    <>
+                                        <div className="w-16 h-1 rounded-full bg-slate-200 dark:bg-gpt-hover overflow-hidden">
+                                            <div
+                                                className={clsx(
+                                                    "h-full rounded-full",
+                                                    contextUse > 1 ? "bg-red-500" : contextUse > 0.8 ? "bg-amber-500" : "bg-green-500"
+                                                )}
+                                                style={{ width: `${Math.min(contextUse, 1) * 100}%` }}
+                                            />
+                                        </div>
+                                        <span className={clsx(contextUse > 1 && "text-red-500")}>
+                                            ~{formatTokens(draftTokens)} / {formatTokens(contextBudget.available)}
+                                        </span>
+                                    </>
+                                ) : (
+                                    <span>~{formatTokens(draftTokens)} tokens</span>
+                                )}
+                            </div>
+                        )}
                     </div>
 
                     {/* Sources Modal */}
@@ -0,0 +1,230 @@
+import { useState, useEffect, useRef } from 'react';
+import { History, Search, Pencil, Trash2, Check, X, SquarePen } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { ConversationSummary } from '../lib/types';
+import { listConversations, renameConversation, deleteConversation } from '../lib/conversations';
+
+interface ConversationSidebarProps {
+    activeConversationId: string | null;
+    // Bumped by the parent whenever the active thread is saved, so the list stays fresh
+    refreshKey: number;
+    onSelect: (id: string) => void;
+    onNewChat: () => void;
+    onSearch: () => void; // Open full-text search over every message
+    onDeleted: (id: string) => void;
+    onClose: () => void;
+}
+
+const formatUpdatedAt = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const now = new Date();
+    if (date.toDateString() === now.toDateString()) {
+        return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    }
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+export default function ConversationSidebar({
+    activeConversationId,
+    refreshKey,
+    onSelect,
+    onNewChat,
+    onSearch,
+    onDeleted,
+    onClose
+}: ConversationSidebarProps) {
+    const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+    const [filter, setFilter] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingTitle, setEditingTitle] = useState('');
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+    const filterInputRef = useRef<HTMLInputElement>(null);
+
+    const load = async () => {
+        setConversations(await listConversations());
+    };
+
+    useEffect(() => {
+        listConversations().then(setConversations);
+    }, [refreshKey]);
+
+    useEffect(() => {
+        filterInputRef.current?.focus();
+    }, []);
+
+    const handleRename = async (id: string) => {
+        const title = editingTitle.trim();
+        setEditingId(null);
+        if (!title) return;
+        await renameConversation(id, title);
+        await load();
+    };
+
+    const handleDelete = async (id: string) => {
+        setConfirmDeleteId(null);
+        await deleteConversation(id);
+        onDeleted(id);
+        await load();
+    };
+
+    const query = filter.trim().toLowerCase();
+    const visible = query
+        ? conversations.filter(c =>
+            c.title.toLowerCase().includes(query) || (c.model || '').toLowerCase().includes(query)
+        )
+        : conversations;
+
+    return (
+        <div className="absolute inset-0 z-30 flex" onMouseDown={e => e.stopPropagation()}>
+            <div className="w-[280px] max-w-[85%] h-full bg-white dark:bg-gpt-sidebar border-r border-slate-200 dark:border-gpt-hover shadow-xl flex flex-col animate-in slide-in-from-left duration-200">
+                <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 dark:border-gpt-hover">
+                    <div className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-gray-100">
+                        <History size={16} className="text-blue-500" />
+                        History
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={onSearch}
+                            className="p-1.5 text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                            title="Search messages (Ctrl/Cmd+K)"
+                        >
+                            <Search size={16} />
+                        </button>
+                        <button
+                            onClick={onNewChat}
+                            className="p-1.5 text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                            title="New Chat"
+                        >
+                            <SquarePen size={16} />
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 dark:hover:bg-gpt-hover rounded-lg transition-colors"
+                            title="Close"
+                        >
+                            <X size={16} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="p-2 border-b border-slate-100 dark:border-gpt-hover">
+                    <div className="relative">
+                        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+                        <input
+                            ref={filterInputRef}
+                            type="text"
+                            value={filter}
+                            onChange={e => setFilter(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Escape') onClose();
+                            }}
+                            placeholder="Filter chats..."
+                            className="w-full pl-8 pr-3 py-2 text-xs bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:outline-none focus:border-blue-500 text-slate-900 dark:text-gpt-text placeholder:text-slate-400 transition-colors"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar py-1">
+                    {visible.length === 0 && (
+                        <div className="px-4 py-8 text-center text-xs text-slate-500 dark:text-gpt-secondary">
+                            {conversations.length === 0 ? 'No saved chats yet' : 'No chats match your filter'}
+                        </div>
+                    )}
+                    {visible.map(c => {
+                        const isActive = c.id === activeConversationId;
+                        const isEditing = editingId === c.id;
+                        return (
+                            <div
+                                key={c.id}
+                                onClick={() => !isEditing && onSelect(c.id)}
+                                className={clsx(
+                                    "group mx-1 px-3 py-2 rounded-lg cursor-pointer flex items-center gap-2 transition-colors",
+                                    isActive
+                                        ? "bg-blue-50 dark:bg-blue-900/20"
+                                        : "hover:bg-slate-50 dark:hover:bg-gpt-hover"
+                                )}
+                            >
+                                <div className="flex-1 min-w-0">
+                                    {isEditing ? (
+                                        <input
+                                            autoFocus
+                                            value={editingTitle}
+                                            onChange={e => setEditingTitle(e.target.value)}
+                                            onClick={e => e.stopPropagation()}
+                                            onKeyDown={e => {
+                                                e.stopPropagation();
+                                                if (e.key === 'Enter') handleRename(c.id);
+                                                if (e.key === 'Escape') setEditingId(null);
+                                            }}
+                                            onBlur={() => handleRename(c.id)}
+                                            className="w-full px-1.5 py-0.5 text-sm bg-white dark:bg-gpt-input border border-blue-500 rounded focus:outline-none text-slate-900 dark:text-gpt-text"
+                                        />
+                                    ) : (
+                                        <div className={clsx(
+                                            "text-sm truncate",
+                                            isActive ? "text-blue-600 dark:text-blue-400 font-medium" : "text-slate-700 dark:text-gpt-text"
+                                        )}>
+                                            {c.title}
+                                        </div>
+                                    )}
+                                    <div className="text-[10px] text-slate-400 dark:text-gpt-secondary truncate mt-0.5">
+                                        {formatUpdatedAt(c.updatedAt)}{c.model ? ` · ${c.model}` : ''}
+                                    </div>
+                                </div>
+
+                                {!isEditing && (
+                                    <div className={clsx(
+                                        "flex items-center gap-0.5 shrink-0",
+                                        confirmDeleteId === c.id ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                                    )}>
+                                        {confirmDeleteId === c.id ? (
+                                            <>
+                                                <button
+                                                    onClick={e => { e.stopPropagation(); handleDelete(c.id); }}
+                                                    className="p-1 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+                                                    title="Confirm delete"
+                                                >
+                                                    <Check size={14} />
+                                                </button>
+                                                <button
+                                                    onClick={e => { e.stopPropagation(); setConfirmDeleteId(null); }}
+                                                    className="p-1 text-slate-400 hover:bg-slate-100 dark:hover:bg-gpt-hover rounded transition-colors"
+                                                    title="Cancel"
+                                                >
+                                                    <X size={14} />
+                                                </button>
+                                            </>
+                                        ) : (
+                                            <>
+                                                <button
+                                                    onClick={e => {
+                                                        e.stopPropagation();
+                                                        setEditingId(c.id);
+                                                        setEditingTitle(c.title);
+                                                    }}
+                                                    className="p-1 text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
+                                                    title="Rename"
+                                                >
+                                                    <Pencil size={13} />
+                                                </button>
+                                                <button
+                                                    onClick={e => { e.stopPropagation(); setConfirmDeleteId(c.id); }}
+                                                    className="p-1 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+                                                    title="Delete"
+                                                >
+                                                    <Trash2 size={13} />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+            {/* Click-away area */}
+            <div className="flex-1 bg-black/20" onClick={onClose} />
+        </div>
+    );
+}
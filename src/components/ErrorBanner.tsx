@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, KeyRound, PlayCircle, RefreshCw, Scissors, Settings, Shuffle, X } from 'lucide-react';
+import type { AppConfig } from '../lib/types';
+import type { ErrorKind } from '../lib/api';
+
+// Latest failed request, with what the banner needs to offer a way out
+export interface ChatError {
+    message: string;
+    kind: ErrorKind;
+    retryAt?: number; // When a retry can succeed (rate limits)
+}
+
+interface ErrorBannerProps {
+    error: ChatError;
+    config: AppConfig;
+    onOpenSettings: () => void;
+    onRetry?: () => void;
+    onUseModel?: (provider: string, model: string) => void;
+    onTrimContext?: () => void;
+    onContinue?: () => void;
+    onDismiss: () => void;
+}
+
+type RecoveryAction = 'settings' | 'retry' | 'backup' | 'trim' | 'continue';
+
+const ErrorDetails: Record<ErrorKind, { title: string; hint: string; actions: RecoveryAction[] }> = {
+    auth: { title: 'API key rejected', hint: 'The provider did not accept the API key. Check it in Settings.', actions: ['settings', 'backup'] },
+    quota: { title: 'Out of quota', hint: 'The quota or credits for this provider are used up.', actions: ['backup', 'settings'] },
+    rate_limit: { title: 'Rate limited', hint: 'Too many requests for now.', actions: ['retry', 'backup'] },
+    context_length: { title: 'Conversation too long', hint: "The conversation no longer fits in the model's context window.", actions: ['trim', 'backup'] },
+    content_filter: { title: 'Blocked by content filter', hint: 'The provider refused this request. Rephrase it or try another model.', actions: ['backup'] },
+    model_not_found: { title: 'Model not found', hint: 'The selected model is not available from this provider.', actions: ['settings', 'backup'] },
+    server: { title: 'Provider error', hint: 'The provider is having trouble right now.', actions: ['retry', 'backup'] },
+    network: { title: "Can't reach the provider", hint: 'Check your internet connection or proxy settings.', actions: ['retry'] },
+    interrupted: { title: 'Connection lost', hint: 'The reply stopped partway. What arrived so far is kept.', actions: ['continue', 'retry'] },
+    aborted: { title: 'Request cancelled', hint: 'The request was stopped before it finished.', actions: ['retry'] },
+    invalid_request: { title: 'Request failed', hint: 'The provider could not process this request.', actions: ['retry', 'backup'] },
+    unknown: { title: 'Request failed', hint: '', actions: ['retry'] }
+};
+
+const buttonClass = "flex items-center gap-1 px-2 py-1 rounded-md bg-white dark:bg-gpt-input border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors disabled:opacity-60 disabled:cursor-not-allowed";
+
+export default function ErrorBanner({ error, config, onOpenSettings, onRetry, onUseModel, onTrimContext, onContinue, onDismiss }: ErrorBannerProps) {
+    const [now, setNow] = useState(() => Date.now());
+    const details = ErrorDetails[error.kind] || ErrorDetails.unknown;
+    const waitSeconds = error.retryAt ? Math.ceil((error.retryAt - now) / 1000) : 0;
+
+    // Count down to when a retry is allowed
+    useEffect(() => {
+        if (!error.retryAt || error.retryAt <= Date.now()) return;
+        const timer = setInterval(() => {
+            setNow(Date.now());
+            if (error.retryAt! <= Date.now()) clearInterval(timer);
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [error.retryAt]);
+
+    const backups = Object.values(config.backupModels || {}).flat()
+        .filter(b => !(b.provider === config.selectedProvider && b.model === config.selectedModel[config.selectedProvider]))
+        .slice(0, 3);
+
+    const renderAction = (action: RecoveryAction) => {
+        switch (action) {
+            case 'settings':
+                return (
+                    <button key={action} onClick={onOpenSettings} className={buttonClass}>
+                        {error.kind === 'auth' ? <KeyRound size={12} /> : <Settings size={12} />}
+                        Provider settings
+                    </button>
+                );
+            case 'retry':
+                if (!onRetry) return null;
+                return (
+                    <button key={action} onClick={onRetry} disabled={waitSeconds > 0} className={buttonClass}>
+                        <RefreshCw size={12} />
+                        {waitSeconds > 0 ? `Retry in ${waitSeconds}s` : 'Retry'}
+                    </button>
+                );
+            case 'trim':
+                if (!onTrimContext) return null;
+                return (
+                    <button key={action} onClick={onTrimContext} className={buttonClass}>
+                        <Scissors size={12} />
+                        Drop older messages and retry
+                    </button>
+                );
+            case 'continue':
+                if (!onContinue) return null;
+                return (
+                    <button key={action} onClick={onContinue} className={buttonClass}>
+                        <PlayCircle size={12} />
+                        Continue
+                    </button>
+                );
+            case 'backup':
+                if (!onUseModel) return null;
+                return backups.map(backup => (
+                    <button
+                        key={`${action}-${backup.provider}-${backup.model}`}
+                        onClick={() => onUseModel(backup.provider, backup.model)}
+                        className={buttonClass}
+                        title={`Retry with ${backup.model}`}
+                    >
+                        <Shuffle size={12} />
+                        <span className="truncate max-w-[140px]">{backup.model}</span>
+                    </button>
+                ));
+        }
+    };
+
+    return (
+        <div className="bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-xs p-3 rounded-lg border border-red-100 dark:border-red-800">
+            <div className="flex items-start gap-2">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0">
+                    <div className="font-semibold">{details.title}</div>
+                    {details.hint && <div className="mt-0.5 text-red-500/80 dark:text-red-400/80">{details.hint}</div>}
+                    <div className="mt-1 break-words opacity-80">{error.message}</div>
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                        {details.actions.map(renderAction)}
+                    </div>
+                </div>
+                <button onClick={onDismiss} className="p-0.5 rounded hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors" title="Dismiss">
+                    <X size={12} />
+                </button>
+            </div>
+        </div>
+    );
+}
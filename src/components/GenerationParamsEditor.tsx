@@ -0,0 +1,70 @@
+import type { GenerationParams } from '../lib/types';
+
+type NumericParam = Exclude<keyof GenerationParams, 'stopSequences'>;
+
+interface GenerationParamsEditorProps {
+    params: GenerationParams;
+    onChange: (params: GenerationParams) => void;
+    omit?: Array<keyof GenerationParams>; // Fields edited elsewhere on the page
+    placeholder?: string; // Shown in empty fields, e.g. what they fall back to
+}
+
+const NUMBER_FIELDS: Array<{ key: NumericParam; label: string; min: number; max?: number; step: number; title: string }> = [
+    { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, title: 'Higher is more varied. Anthropic caps it at 1.' },
+    { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, title: 'Nucleus sampling: only the most likely tokens adding up to this probability.' },
+    { key: 'topK', label: 'Top K', min: 1, step: 1, title: 'Only the K most likely tokens. Anthropic, Gemini, Ollama, OpenRouter and Perplexity.' },
+    { key: 'maxOutputTokens', label: 'Max Output', min: 1, step: 1, title: 'Longest reply in tokens.' },
+    { key: 'seed', label: 'Seed', min: 0, step: 1, title: 'Repeatable sampling. OpenAI-compatible, Gemini and Ollama.' },
+    { key: 'presencePenalty', label: 'Presence Penalty', min: -2, max: 2, step: 0.1, title: 'Pushes towards new topics. Not supported by Anthropic.' },
+    { key: 'frequencyPenalty', label: 'Frequency Penalty', min: -2, max: 2, step: 0.1, title: 'Discourages repeating tokens. Not supported by Anthropic.' }
+];
+
+const INTEGER_FIELDS: NumericParam[] = ['topK', 'maxOutputTokens', 'seed'];
+
+const inputClass = "w-full px-2 py-1.5 text-xs bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all placeholder:text-slate-300 dark:placeholder:text-gpt-secondary/50 dark:text-gpt-text";
+
+// Empty fields are unset and fall back to the model's (or provider's) default
+export default function GenerationParamsEditor({ params, onChange, omit = [], placeholder = 'Default' }: GenerationParamsEditorProps) {
+    const update = (key: keyof GenerationParams, value: GenerationParams[keyof GenerationParams]) => {
+        const next = { ...params, [key]: value };
+        if (value === undefined) delete next[key];
+        onChange(next);
+    };
+
+    const handleNumber = (key: NumericParam, text: string) => {
+        const value = INTEGER_FIELDS.includes(key) ? parseInt(text, 10) : parseFloat(text);
+        update(key, Number.isFinite(value) ? value : undefined);
+    };
+
+    return (
+        <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+            {NUMBER_FIELDS.filter(field => !omit.includes(field.key)).map(field => (
+                <label key={field.key} className="block" title={field.title}>
+                    <span className="block text-[10px] font-bold text-slate-500 dark:text-gpt-secondary uppercase tracking-wider mb-1">{field.label}</span>
+                    <input
+                        type="number"
+                        min={field.min}
+                        max={field.max}
+                        step={field.step}
+                        value={params[field.key] ?? ''}
+                        onChange={e => handleNumber(field.key, e.target.value)}
+                        placeholder={placeholder}
+                        className={inputClass}
+                    />
+                </label>
+            ))}
+            {!omit.includes('stopSequences') && (
+                <label className="block col-span-2" title="The reply ends before any of these. One per line.">
+                    <span className="block text-[10px] font-bold text-slate-500 dark:text-gpt-secondary uppercase tracking-wider mb-1">Stop Sequences</span>
+                    <textarea
+                        value={(params.stopSequences || []).join('\n')}
+                        onChange={e => update('stopSequences', e.target.value ? e.target.value.split('\n') : undefined)}
+                        placeholder="One per line"
+                        rows={2}
+                        className={`${inputClass} font-mono resize-none`}
+                    />
+                </label>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { Bug, Download, Loader2, Play, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { AppConfig, RequestRecord } from '../lib/types';
+import { isProviderConfigured } from '../lib/api';
+
+interface RequestInspectorProps {
+    records: RequestRecord[];
+    config: AppConfig;
+    onReplay: (provider: string, model: string) => Promise<string | undefined>; // Resolves to the first new record's id
+    onClose: () => void;
+}
+
+const prettyBody = (body?: string) => {
+    if (!body) return '';
+    try {
+        return JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+        return body;
+    }
+};
+
+const statusClass = (record: RequestRecord) => {
+    if (record.error || !record.status) return "text-red-500";
+    return record.status >= 400 ? "text-red-500" : "text-green-600 dark:text-green-400";
+};
+
+const HeaderTable = ({ headers }: { headers?: Record<string, string> }) => (
+    <div className="text-[11px] font-mono bg-slate-50 dark:bg-gpt-input rounded-lg p-2 space-y-0.5 break-all">
+        {Object.entries(headers || {}).map(([name, value]) => (
+            <div key={name}>
+                <span className="text-slate-500 dark:text-gpt-secondary">{name}:</span> <span className="text-slate-700 dark:text-gpt-text">{value}</span>
+            </div>
+        ))}
+        {Object.keys(headers || {}).length === 0 && <div className="text-slate-400 italic">None</div>}
+    </div>
+);
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+    <div>
+        <div className="text-[10px] font-bold text-slate-400 dark:text-gpt-secondary uppercase tracking-wider mb-1">{title}</div>
+        {children}
+    </div>
+);
+
+// Developer view of the HTTP exchanges behind one reply, including failed attempts and replays
+export default function RequestInspector({ records, config, onReplay, onClose }: RequestInspectorProps) {
+    const [selectedId, setSelectedId] = useState(records[records.length - 1]?.id);
+    const [showFrameTimes, setShowFrameTimes] = useState(false);
+    const [replaying, setReplaying] = useState(false);
+    const [replayError, setReplayError] = useState('');
+    const [target, setTarget] = useState(0);
+    const selected = records.find(r => r.id === selectedId) || records[records.length - 1];
+
+    // Models to replay against: the recorded one, each configured provider's model, the backups
+    const targets: Array<{ provider: string; model: string }> = [];
+    const addTarget = (provider: string, model?: string) => {
+        if (model && !targets.some(t => t.provider === provider && t.model === model)) targets.push({ provider, model });
+    };
+    if (selected) addTarget(selected.provider, selected.model);
+    Object.keys(config.apiKeys).filter(p => isProviderConfigured(p, config)).forEach(p => addTarget(p, config.selectedModel[p]));
+    Object.values(config.backupModels || {}).flat().forEach(b => addTarget(b.provider, b.model));
+
+    const handleExport = () => {
+        const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `requests-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleReplay = async () => {
+        const chosen = targets[target];
+        if (!chosen) return;
+        setReplaying(true);
+        setReplayError('');
+        try {
+            const recordId = await onReplay(chosen.provider, chosen.model);
+            if (recordId) setSelectedId(recordId);
+        } catch (e) {
+            setReplayError((e as Error).message || 'The replay failed');
+        } finally {
+            setReplaying(false);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={onClose}
+            onMouseDown={e => e.stopPropagation()}
+        >
+            <div
+                className="bg-white dark:bg-gpt-sidebar rounded-xl shadow-2xl max-w-3xl w-full mx-4 h-[80vh] flex flex-col overflow-hidden"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-200 dark:border-gpt-hover">
+                    <Bug size={16} className="text-blue-500" />
+                    <span className="font-semibold text-slate-800 dark:text-gpt-text">Request Inspector</span>
+                    <div className="ml-auto flex items-center gap-1">
+                        <button
+                            onClick={handleExport}
+                            className="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-slate-700 dark:text-gpt-secondary dark:hover:text-gpt-text hover:bg-slate-100 dark:hover:bg-gpt-hover rounded-lg transition-colors"
+                            title="Export as JSON"
+                        >
+                            <Download size={14} />
+                            Export
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="p-1 hover:bg-slate-100 dark:hover:bg-gpt-hover rounded-lg transition-colors text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+                        >
+                            <X size={18} />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Requests, oldest first */}
+                <div className="flex gap-1.5 px-4 py-2 border-b border-slate-200 dark:border-gpt-hover overflow-x-auto custom-scrollbar">
+                    {records.map((record, idx) => (
+                        <button
+                            key={record.id}
+                            onClick={() => setSelectedId(record.id)}
+                            className={clsx(
+                                "shrink-0 flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[11px] border transition-colors",
+                                record.id === selected?.id
+                                    ? "bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300"
+                                    : "border-slate-200 dark:border-gpt-hover text-slate-600 dark:text-gpt-text hover:bg-slate-50 dark:hover:bg-gpt-hover"
+                            )}
+                        >
+                            <span className="font-semibold">#{idx + 1}</span>
+                            <span className="truncate max-w-[140px]">{record.model}</span>
+                            <span className={statusClass(record)}>{record.status || 'failed'}</span>
+                            {record.replay && <span className="px-1 rounded bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-300">replay</span>}
+                        </button>
+                    ))}
+                </div>
+
+                {selected ? (
+                    <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+                        <Section title="General">
+                            <div className="text-xs text-slate-700 dark:text-gpt-text space-y-0.5">
+                                <div className="font-mono break-all"><span className="font-semibold">{selected.method}</span> {selected.url}</div>
+                                <div>
+                                    Status <span className={statusClass(selected)}>{selected.status ?? '-'}</span>
+                                    {selected.firstByteMs !== undefined && <> · headers after {selected.firstByteMs} ms</>}
+                                    {selected.durationMs !== undefined && <> · done after {selected.durationMs} ms</>}
+                                    {' '}· {selected.provider}
+                                </div>
+                                {selected.error && <div className="text-red-500 break-words">{selected.error}</div>}
+                            </div>
+                        </Section>
+                        <Section title="Request Headers">
+                            <HeaderTable headers={selected.requestHeaders} />
+                        </Section>
+                        <Section title="Request Body">
+                            <pre className="text-[11px] font-mono bg-slate-50 dark:bg-gpt-input text-slate-700 dark:text-gpt-text rounded-lg p-2 max-h-64 overflow-auto custom-scrollbar whitespace-pre-wrap break-all">{prettyBody(selected.requestBody) || '(empty)'}</pre>
+                        </Section>
+                        <Section title="Response Headers">
+                            <HeaderTable headers={selected.responseHeaders} />
+                        </Section>
+                        <Section title={`Response (${selected.frames.length} ${selected.frames.length === 1 ? 'chunk' : 'chunks'}${selected.framesTruncated ? ', truncated' : ''})`}>
+                            <label className="flex items-center gap-1.5 text-[11px] text-slate-500 dark:text-gpt-secondary mb-1 cursor-pointer">
+                                <input type="checkbox" checked={showFrameTimes} onChange={e => setShowFrameTimes(e.target.checked)} />
+                                Show chunk timings
+                            </label>
+                            <pre className="text-[11px] font-mono bg-slate-50 dark:bg-gpt-input text-slate-700 dark:text-gpt-text rounded-lg p-2 max-h-80 overflow-auto custom-scrollbar whitespace-pre-wrap break-all">
+                                {showFrameTimes
+                                    ? selected.frames.map(frame => `[+${frame.at} ms]\n${frame.data}`).join('\n')
+                                    : selected.frames.map(frame => frame.data).join('') || '(empty)'}
+                            </pre>
+                        </Section>
+                    </div>
+                ) : (
+                    <div className="flex-1 flex items-center justify-center text-xs text-slate-400">No requests recorded.</div>
+                )}
+
+                {/* Replay the conversation up to this reply */}
+                {replayError && (
+                    <div className="px-4 py-2 border-t border-slate-200 dark:border-gpt-hover text-xs text-red-500 break-words">{replayError}</div>
+                )}
+                <div className="flex items-center gap-2 px-4 py-3 border-t border-slate-200 dark:border-gpt-hover">
+                    <span className="text-xs text-slate-500 dark:text-gpt-secondary shrink-0">Replay with</span>
+                    <select
+                        value={target}
+                        onChange={e => setTarget(Number(e.target.value))}
+                        className="flex-1 min-w-0 p-1.5 bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg text-xs text-slate-700 dark:text-gpt-text outline-none"
+                    >
+                        {targets.map((t, idx) => (
+                            <option key={`${t.provider}:${t.model}`} value={idx}>{t.provider} / {t.model}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleReplay}
+                        disabled={replaying || targets.length === 0}
+                        className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded-lg transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                        {replaying ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+                        Replay
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect, useRef } from 'react';
+import { Search, X, User, Bot, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import { searchConversations, type SearchResult } from '../lib/search';
+
+interface SearchModalProps {
+    onOpenResult: (result: SearchResult) => void;
+    onClose: () => void;
+}
+
+const FieldLabels: Record<SearchResult['field'], string> = {
+    content: '',
+    reasoning: 'Reasoning',
+    webSearch: 'Web search'
+};
+
+// Render a snippet with the matched ranges wrapped in <mark>
+const HighlightedSnippet = ({ snippet, highlights }: { snippet: string; highlights: Array<[number, number]> }) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    highlights.forEach(([start, end], i) => {
+        if (start > cursor) parts.push(snippet.slice(cursor, start));
+        parts.push(
+            <mark key={i} className="bg-yellow-200 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+                {snippet.slice(start, end)}
+            </mark>
+        );
+        cursor = end;
+    });
+    if (cursor < snippet.length) parts.push(snippet.slice(cursor));
+    return <>{parts}</>;
+};
+
+export default function SearchModal({ onOpenResult, onClose }: SearchModalProps) {
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<SearchResult[]>([]);
+    const [searching, setSearching] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        inputRef.current?.focus();
+    }, []);
+
+    // Debounced search; stale responses are dropped if the query changed meanwhile
+    useEffect(() => {
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            if (!query.trim()) {
+                setResults([]);
+                return;
+            }
+            setSearching(true);
+            const found = await searchConversations(query);
+            if (!cancelled) {
+                setResults(found);
+                setActiveIndex(0);
+                setSearching(false);
+            }
+        }, 150);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query]);
+
+    useEffect(() => {
+        listRef.current?.querySelector(`[data-result-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+            onClose();
+        } else if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, results.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter' && results[activeIndex]) {
+            e.preventDefault();
+            onOpenResult(results[activeIndex]);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 pt-16"
+            onClick={onClose}
+            onMouseDown={e => e.stopPropagation()}
+        >
+            <div
+                className="bg-white dark:bg-gpt-sidebar rounded-xl shadow-2xl max-w-lg w-full mx-4 max-h-[70vh] flex flex-col overflow-hidden"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-200 dark:border-gpt-hover">
+                    {searching ? (
+                        <Loader2 size={16} className="text-blue-500 animate-spin shrink-0" />
+                    ) : (
+                        <Search size={16} className="text-blue-500 shrink-0" />
+                    )}
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="Search all conversations..."
+                        className="flex-1 bg-transparent text-sm focus:outline-none text-slate-900 dark:text-gpt-text placeholder:text-slate-400"
+                    />
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-slate-100 dark:hover:bg-gpt-hover rounded-lg transition-colors text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+
+                <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar">
+                    {query.trim() && !searching && results.length === 0 && (
+                        <div className="px-4 py-8 text-center text-xs text-slate-500 dark:text-gpt-secondary">
+                            No messages match "{query.trim()}"
+                        </div>
+                    )}
+                    {results.map((result, idx) => (
+                        <button
+                            key={`${result.conversationId}:${result.messageIndex}`}
+                            data-result-index={idx}
+                            onClick={() => onOpenResult(result)}
+                            onMouseEnter={() => setActiveIndex(idx)}
+                            className={clsx(
+                                "w-full text-left flex items-start gap-3 px-4 py-3 border-b border-slate-100 dark:border-gpt-hover last:border-b-0 transition-colors",
+                                idx === activeIndex ? "bg-blue-50 dark:bg-blue-900/20" : "hover:bg-slate-50 dark:hover:bg-gpt-hover"
+                            )}
+                        >
+                            <div className={clsx(
+                                "w-6 h-6 rounded-full flex items-center justify-center shrink-0 mt-0.5",
+                                result.role === 'user' ? "bg-slate-200 dark:bg-gpt-hover text-slate-500" : "bg-blue-600 text-white"
+                            )}>
+                                {result.role === 'user' ? <User size={12} /> : <Bot size={12} />}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2 text-[10px] text-slate-400 dark:text-gpt-secondary mb-0.5">
+                                    <span className="font-semibold truncate">{result.conversationTitle}</span>
+                                    {FieldLabels[result.field] && (
+                                        <span className="px-1.5 py-px rounded bg-slate-100 dark:bg-gpt-hover shrink-0">{FieldLabels[result.field]}</span>
+                                    )}
+                                    <span className="ml-auto shrink-0">{new Date(result.updatedAt).toLocaleDateString()}</span>
+                                </div>
+                                <div className="text-xs text-slate-700 dark:text-gpt-text line-clamp-3 break-words">
+                                    <HighlightedSnippet snippet={result.snippet} highlights={result.highlights} />
+                                </div>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
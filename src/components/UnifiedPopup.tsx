@@ -172,15 +172,15 @@ export default function UnifiedPopup({
 
 
     const handleOpenSettings = async () => {
-        if (!isContentMode && (window as any).electronAPI) {
-            await (window as any).electronAPI.resizeWindow(900, 700);
+        if (!isContentMode && window.electronAPI) {
+            await window.electronAPI.resizeWindow(900, 700);
             setView('settings');
         }
     };
 
     const handleBackToChat = async () => {
-        if (!isContentMode && (window as any).electronAPI) {
-            await (window as any).electronAPI.resizeWindow(500, 700); // Standard Chat Size
+        if (!isContentMode && window.electronAPI) {
+            await window.electronAPI.resizeWindow(500, 700); // Standard Chat Size
             setView('chat');
         }
     };
@@ -200,9 +200,10 @@ export default function UnifiedPopup({
                 <ChatInterface
                     config={config}
                     initialText={state.selectedText}
-                    initialImage={state.selectedImage}
+                    initialImages={state.selectedImages}
                     initialInstruction={state.instruction}
                     initialMessages={state.messages}
+                    initialConversationId={state.conversationId}
                     pendingAutoPrompt={resolvedPendingPrompt}
                     onStateChange={updateState}
                     onConfigUpdate={handleConfigUpdate}
@@ -261,9 +262,10 @@ export default function UnifiedPopup({
                     <ChatInterface
                         config={config}
                         initialText={state.selectedText}
-                        initialImage={state.selectedImage}
+                        initialImages={state.selectedImages}
                         initialInstruction={state.instruction}
                         initialMessages={state.messages}
+                        initialConversationId={state.conversationId}
                         pendingAutoPrompt={resolvedPendingPrompt}
                         onConfigUpdate={handleConfigUpdate}
                         onStateChange={updateState}
@@ -5,20 +5,20 @@ export const WindowsWindowControls: React.FC = () => {
     // Check if running on Windows
     // Use the exposed API from preload
     const isWindows = typeof window !== 'undefined' &&
-        (window as any).electronAPI?.platform === 'win32';
+        window.electronAPI?.platform === 'win32';
 
     if (!isWindows) return null;
 
     const handleMinimize = () => {
-        (window as any).electronAPI?.minimize();
+        window.electronAPI?.minimize();
     };
 
     const handleMaximize = () => {
-        (window as any).electronAPI?.maximize();
+        window.electronAPI?.maximize();
     };
 
     const handleClose = () => {
-        (window as any).electronAPI?.close();
+        window.electronAPI?.close();
     };
 
     return (
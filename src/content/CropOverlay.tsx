@@ -89,8 +89,8 @@ const CropOverlay = ({ onComplete, onCancel, initialScreenshot }: CropOverlayPro
         const captureScreen = async () => {
             try {
                 // Check for Electron API first
-                if ((window as any).electronAPI?.captureScreen) {
-                    const dataUrl = await (window as any).electronAPI.captureScreen();
+                if (window.electronAPI?.captureScreen) {
+                    const dataUrl = await window.electronAPI.captureScreen();
                     if (dataUrl) {
                         setScreenshot(dataUrl);
                     } else {
@@ -1,4 +1,8 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { CropElectronAPI } from '../../electron/crop-preload';
+
+// This window is loaded with the crop preload, so its bridge isn't the main one on Window
+const cropAPI = () => window.electronAPI as unknown as CropElectronAPI | undefined;
 
 interface SelectionRect {
     startX: number;
@@ -16,18 +20,19 @@ const CropPage: React.FC = () => {
 
     // Receive screenshot from main process
     useEffect(() => {
-        const handleScreenshot = (_event: any, data: { screenshot: string }) => {
+        const handleScreenshot = (_event: unknown, data: { screenshot: string }) => {
             console.log('[CropPage] Received screenshot');
             setScreenshotUrl(data.screenshot);
         };
 
-        if ((window as any).electronAPI?.onCropScreenshot) {
-            (window as any).electronAPI.onCropScreenshot(handleScreenshot);
+        const api = cropAPI();
+        if (api?.onCropScreenshot) {
+            api.onCropScreenshot(handleScreenshot);
 
             // Notify main process that we are ready to receive data
             // This completes the handshake and triggers the window to show
             console.log('[CropPage] Sending crop-ready signal');
-            (window as any).electronAPI?.cropReady?.();
+            api.cropReady?.();
         }
 
         // Also check if screenshot was passed as query param (fallback)
@@ -47,7 +52,7 @@ const CropPage: React.FC = () => {
         const handleKeyDown = (e: KeyboardEvent) => {
             if (e.key === 'Escape') {
                 console.log('[CropPage] ESC pressed, canceling');
-                (window as any).electronAPI?.cropCancel?.();
+                cropAPI()?.cropCancel?.();
             }
         };
 
@@ -201,7 +206,7 @@ const CropPage: React.FC = () => {
         // Minimum selection size
         if (width < 10 || height < 10) {
             console.log('[CropPage] Selection too small, canceling');
-            (window as any).electronAPI?.cropCancel?.();
+            cropAPI()?.cropCancel?.();
             return;
         }
 
@@ -237,13 +242,13 @@ const CropPage: React.FC = () => {
 
         const croppedDataUrl = cropCanvas.toDataURL('image/png');
         console.log('[CropPage] Cropped image ready, sending to main');
-        (window as any).electronAPI?.cropComplete?.(croppedDataUrl);
+        cropAPI()?.cropComplete?.(croppedDataUrl);
     };
 
     // Handle right click to cancel
     const handleContextMenu = (e: React.MouseEvent) => {
         e.preventDefault();
-        (window as any).electronAPI?.cropCancel?.();
+        cropAPI()?.cropCancel?.();
     };
 
     return (
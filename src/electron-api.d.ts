@@ -0,0 +1,9 @@
+// The desktop app's preload bridge as the renderer sees it. Undefined in the extension.
+
+import type { ElectronAPI } from '../electron/preload';
+
+declare global {
+    interface Window {
+        electronAPI?: ElectronAPI;
+    }
+}
@@ -0,0 +1,18 @@
+import type { ChatMessage, DocumentAttachment } from './types';
+
+/** Images attached to a message, in order. Older saved messages carry a single `image`. */
+export const messageImages = (message: Pick<ChatMessage, 'image' | 'images'>): string[] =>
+  message.images ?? (message.image ? [message.image] : []);
+
+/** A document as a labeled block of text, naming the pages it covers when only some are included. */
+export const documentBlock = (doc: DocumentAttachment) => {
+  const pages = doc.pages && (doc.pages.from > 1 || doc.pages.to < doc.pages.total)
+    ? ` pages="${doc.pages.from}-${doc.pages.to} of ${doc.pages.total}"`
+    : '';
+  const text = doc.text.trim() || '(No text could be extracted from this file.)';
+  return `<document name="${doc.name.replace(/"/g, "'")}"${pages}>\n${text}\n</document>`;
+};
+
+/** Message text with its documents in front as labeled blocks. */
+export const withDocumentText = (content: string, documents: DocumentAttachment[]) =>
+  documents.length > 0 ? [...documents.map(documentBlock), content].join('\n\n') : content;
@@ -0,0 +1,245 @@
+import type { AppConfig, ChatMessage, ContextTrim } from './types';
+import { callApi } from './api';
+import { getGenerationParams, getModelSettings, getProviderAdapter } from './providers';
+import { signedThinking } from './providers/common';
+import { lookupModel } from './modelLookup';
+import { findPersona, personaSystemPrompt } from './personas';
+import { documentBlock, messageImages } from './attachments';
+
+// Keeping requests inside the model's context window. Token counts are estimates from
+// character counts (no tokenizer ships with the app), tuned per tokenizer family and
+// deliberately a little pessimistic.
+
+export type TokenizerFamily = 'openai' | 'anthropic' | 'google' | 'other';
+
+const CHARS_PER_TOKEN: Record<TokenizerFamily, number> = { openai: 4, anthropic: 3.5, google: 4, other: 3.8 };
+
+// What one attached image costs, roughly, at the default detail level
+const IMAGE_TOKENS: Record<TokenizerFamily, number> = { openai: 765, anthropic: 1600, google: 258, other: 800 };
+
+// Role markers and separators around each message
+const MESSAGE_OVERHEAD = 4;
+
+// CJK and Hangul text runs close to one token per character
+const WIDE_CHARS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+// Context windows in tokens. Ids match by prefix like the price table; models missing here
+// are never trimmed unless the user sets a context length for them in Settings.
+export const DEFAULT_CONTEXT_LENGTHS: Record<string, number> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4': 8192, // gpt-4 and gpt-4-0613; the longer ids below are the 32k and 128k variants
+  'gpt-4-32k': 32768,
+  'gpt-4-turbo': 128000,
+  'gpt-4-1106': 128000,
+  'gpt-4-0125': 128000,
+  'gpt-4-vision': 128000,
+  'gpt-4.5': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-5': 400000,
+  'o1': 200000,
+  'o1-mini': 128000,
+  'o3': 200000,
+  'o3-mini': 200000,
+  'o4-mini': 200000,
+  'claude': 200000,
+  'gemini-1.5-flash': 1048576,
+  'gemini-1.5-pro': 2097152,
+  'gemini-2.0-flash': 1048576,
+  'gemini-2.5': 1048576,
+  'sonar': 128000,
+  'sonar-pro': 200000,
+  'sonar-reasoning-pro': 128000,
+  'deepseek-chat': 64000,
+  'deepseek-reasoner': 64000
+};
+
+export interface ContextBudget {
+  family: TokenizerFamily;
+  contextLength: number;
+  reservedOutput: number; // Kept free for the reply
+  available: number; // What the request itself may use
+}
+
+export interface FitResult {
+  messages: ChatMessage[]; // What to send
+  trim?: ContextTrim;
+  summary?: { index: number; text: string }; // New summary to store on messages[index]
+}
+
+/** Which tokenizer the model most likely uses: by model name first, since gateways serve everyone's models. */
+export const tokenizerFamily = (config: AppConfig, provider: string, model: string): TokenizerFamily => {
+  const id = (model || '').toLowerCase();
+  if (id.includes('claude')) return 'anthropic';
+  if (id.includes('gemini') || id.includes('gemma')) return 'google';
+  if (/(^|\/)(gpt-|chatgpt|o\d)/.test(id)) return 'openai';
+
+  switch (getProviderAdapter(provider, config).id) {
+    case 'anthropic': return 'anthropic';
+    case 'google': return 'google';
+    case 'openai':
+    case 'azure': return 'openai';
+    default: return 'other';
+  }
+};
+
+export const estimateTokens = (text: string, family: TokenizerFamily) => {
+  if (!text) return 0;
+  const wide = text.match(WIDE_CHARS)?.length || 0;
+  return Math.ceil(wide + (text.length - wide) / CHARS_PER_TOKEN[family]);
+};
+
+export const estimateMessageTokens = (message: ChatMessage, family: TokenizerFamily) =>
+  MESSAGE_OVERHEAD
+  + estimateTokens(message.content, family)
+  // Signed thinking is sent back to Anthropic with the reply it belongs to
+  + signedThinking(message).reduce((total, block) => total + estimateTokens(block.thinking, family), 0)
+  // Generated images stay behind; the request only names them
+  + (message.role === 'assistant' ? 0 : messageImages(message).length * IMAGE_TOKENS[family])
+  // Counted as their extracted text, which runs low for PDFs a model reads as pages
+  + (message.documents || []).reduce((total, doc) => total + estimateTokens(documentBlock(doc), family), 0);
+
+export const estimateConversationTokens = (messages: ChatMessage[], family: TokenizerFamily) =>
+  messages.reduce((total, message) => total + estimateMessageTokens(message, family), 0);
+
+export const getContextLength = (config: AppConfig, provider: string, model: string): number | undefined =>
+  getModelSettings(config, provider, model).contextLength || lookupModel(DEFAULT_CONTEXT_LENGTHS, model);
+
+/** Token budget for a request to the selected model, or null when its context length is unknown. */
+export const getContextBudget = (
+  config: AppConfig,
+  provider = config.selectedProvider,
+  model = config.selectedModel[provider]
+): ContextBudget | null => {
+  const contextLength = getContextLength(config, provider, model);
+  if (!contextLength) return null;
+  const reservedOutput = getGenerationParams(config, provider, model).maxOutputTokens
+    || Math.min(4096, Math.floor(contextLength / 4));
+  const family = tokenizerFamily(config, provider, model);
+  // The persona's system prompt is added to every request after fitting
+  const persona = findPersona(config, config.personaId);
+  const systemTokens = persona ? estimateTokens(personaSystemPrompt(persona), family) + MESSAGE_OVERHEAD : 0;
+  return {
+    family,
+    contextLength,
+    reservedOutput,
+    available: Math.max(contextLength - reservedOutput - systemTokens, 0)
+  };
+};
+
+/** Cut text to about maxTokens, keeping its start (or its end), and say how much went. */
+export const truncateToTokens = (text: string, maxTokens: number, family: TokenizerFamily, keep: 'start' | 'end' = 'start') => {
+  const tokens = estimateTokens(text, family);
+  if (tokens <= maxTokens) return { text, removedTokens: 0 };
+
+  // Scale by the text's own density so wide characters are accounted for
+  const length = Math.max(Math.floor(text.length * (Math.max(maxTokens, 0) / tokens)), 0);
+  const kept = keep === 'start' ? text.slice(0, length) : text.slice(text.length - length);
+  return {
+    text: keep === 'start' ? `${kept}\n\n[...truncated]` : `[...truncated]\n\n${kept}`,
+    removedTokens: tokens - estimateTokens(kept, family)
+  };
+};
+
+/**
+ * Cuts text attached to the next message (a page selection) to the room left by the history
+ * and the question. It keeps at least half the budget; older turns are dropped for the rest.
+ */
+export const fitAttachedContext = (config: AppConfig, history: ChatMessage[], question: ChatMessage, text: string) => {
+  const budget = getContextBudget(config);
+  if (!budget) return { text, removedTokens: 0 };
+  const used = estimateConversationTokens([...history, question], budget.family);
+  const room = Math.max(budget.available - used, Math.floor(budget.available / 2));
+  return truncateToTokens(text, room, budget.family);
+};
+
+const SUMMARY_PROMPT = 'Summarize the conversation below so it can stand in for it in a continued chat. '
+  + 'Keep facts, decisions, names, numbers, code identifiers and open questions. Write it as concise notes, not a story.';
+
+const transcript = (messages: ChatMessage[]) => messages
+  .filter(m => m.role !== 'system')
+  .map(m => {
+    const images = messageImages(m).length;
+    const documents = (m.documents || []).map(doc => `\n\n${documentBlock(doc)}`).join('');
+    return `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}${images ? ` [${images === 1 ? 'image' : `${images} images`}]` : ''}${documents}`;
+  })
+  .join('\n\n');
+
+const summarize = async (messages: ChatMessage[], previousSummary: string | undefined, config: AppConfig, budget: ContextBudget) => {
+  // The transcript has to fit in one request too; its newest part matters most
+  const room = budget.available - estimateTokens(SUMMARY_PROMPT + (previousSummary || ''), budget.family) - 200;
+  const { text } = truncateToTokens(transcript(messages), room, budget.family, 'end');
+  const content = [
+    SUMMARY_PROMPT,
+    previousSummary && `Summary of what came before:\n${previousSummary}`,
+    `Conversation:\n${text}`
+  ].filter(Boolean).join('\n\n');
+
+  const res = await callApi([{ role: 'user', content }], { ...config, enableWebSearch: false, personaId: undefined });
+  if (res.error || !res.text.trim()) throw new Error(res.error || 'Empty summary');
+  return res.text.trim();
+};
+
+const withSummary = (message: ChatMessage, summary: string): ChatMessage => ({
+  ...message,
+  content: `Summary of our conversation so far:\n${summary}\n\n---\n\n${message.content}`
+});
+
+/**
+ * Applies the configured context strategy to the messages of the next request. The last
+ * message is always sent; system messages are kept, and older turns are dropped or replaced
+ * by a summary so what remains starts on a user turn. Requests that can't be made to fit are
+ * sent anyway and left to the provider's error.
+ */
+export const fitToContext = async (messages: ChatMessage[], config: AppConfig): Promise<FitResult> => {
+  const strategy = config.contextStrategy || 'drop_oldest';
+  const budget = getContextBudget(config);
+  if (strategy === 'off' || !budget) return { messages };
+  if (estimateConversationTokens(messages, budget.family) <= budget.available) return { messages };
+
+  const system = messages.filter(m => m.role === 'system');
+  const turns = messages.map((message, index) => ({ message, index })).filter(t => t.message.role !== 'system');
+  const fixed = estimateConversationTokens(system, budget.family);
+  const summaryRoom = strategy === 'summarize' ? Math.min(1000, Math.floor(budget.available / 10)) : 0;
+
+  // Sizes of every suffix of the turns, so the first one that fits is easy to find
+  const suffix: number[] = new Array(turns.length + 1).fill(0);
+  for (let i = turns.length - 1; i >= 0; i--) {
+    suffix[i] = suffix[i + 1] + estimateMessageTokens(turns[i].message, budget.family);
+  }
+  let cutoff = turns.length - 1;
+  for (let i = 1; i < turns.length; i++) {
+    if (turns[i].message.role === 'user' && fixed + summaryRoom + suffix[i] <= budget.available) {
+      cutoff = i;
+      break;
+    }
+  }
+  if (cutoff === 0) return { messages };
+
+  const kept = turns.slice(cutoff).map(t => t.message);
+  const dropped = { messages: [...system, ...kept], trim: { dropped: cutoff } };
+  if (strategy !== 'summarize') return dropped;
+
+  // Reuse the newest stored summary; only turns it doesn't cover need summarizing
+  let covered = cutoff - 1;
+  while (covered >= 0 && !turns[covered].message.contextSummary) covered--;
+  const previous = covered >= 0 ? turns[covered].message.contextSummary : undefined;
+  let summary = previous;
+  let fresh: FitResult['summary'];
+  if (covered !== cutoff - 1) {
+    try {
+      summary = await summarize(turns.slice(covered + 1, cutoff).map(t => t.message), previous, config, budget);
+      fresh = { index: turns[cutoff - 1].index, text: summary };
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') throw err;
+      console.warn('Could not summarize earlier messages, dropping them instead:', err);
+      return dropped;
+    }
+  }
+
+  return {
+    messages: [...system, withSummary(kept[0], summary!), ...kept.slice(1)],
+    trim: { summarized: cutoff },
+    summary: fresh
+  };
+};
@@ -0,0 +1,172 @@
+import type { ChatMessage, Conversation, ConversationSummary } from './types';
+
+// Detect environment
+const isElectron = typeof window !== 'undefined' && window.electronAPI !== undefined;
+const isChrome = typeof chrome !== 'undefined' && chrome.storage !== undefined;
+const electronAPI = () => window.electronAPI!; // Only called when isElectron
+
+// chrome.storage.local layout: a lightweight index for the sidebar plus one key per thread,
+// so listing never has to load every message (and image) ever sent.
+const INDEX_KEY = 'conversationIndex';
+const conversationKey = (id: string) => `conversation:${id}`;
+
+const MAX_TITLE_LENGTH = 60;
+
+export type ConversationChange =
+  | { type: 'saved'; conversation: Conversation }
+  | { type: 'deleted'; id: string };
+
+const changeListeners = new Set<(change: ConversationChange) => void>();
+
+/** Subscribe to saves and deletes made from this page. Returns an unsubscribe function. */
+export const onConversationChange = (listener: (change: ConversationChange) => void) => {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+};
+
+const notifyChange = (change: ConversationChange) => {
+  changeListeners.forEach(listener => listener(change));
+};
+
+export const createConversationId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const deriveConversationTitle = (messages: ChatMessage[]): string => {
+  const firstUser = messages.find(m => m.role === 'user' && m.content.trim());
+  if (!firstUser) return 'New Chat';
+
+  // Drop the "Context:" block that handleSubmit prepends, the question is what matters
+  const text = firstUser.content.split('\n\nContext:\n')[0].replace(/\s+/g, ' ').trim();
+  if (!text) return 'New Chat';
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+};
+
+const toSummary = (conversation: Conversation): ConversationSummary => ({
+  id: conversation.id,
+  title: conversation.title,
+  provider: conversation.provider,
+  model: conversation.model,
+  createdAt: conversation.createdAt,
+  updatedAt: conversation.updatedAt,
+  messageCount: conversation.messages.length,
+  personaId: conversation.personaId
+});
+
+const sortByRecent = (list: ConversationSummary[]) => [...list].sort((a, b) => b.updatedAt - a.updatedAt);
+
+const readChromeIndex = async (): Promise<ConversationSummary[]> => {
+  const result = await chrome.storage.local.get(INDEX_KEY);
+  return (result[INDEX_KEY] as ConversationSummary[] | undefined) || [];
+};
+
+export const listConversations = async (): Promise<ConversationSummary[]> => {
+  if (isElectron) {
+    try {
+      return sortByRecent(await electronAPI().listConversations());
+    } catch (error) {
+      console.error('Failed to list conversations:', error);
+      return [];
+    }
+  }
+
+  if (isChrome && chrome.storage?.local) {
+    return sortByRecent(await readChromeIndex());
+  }
+
+  return [];
+};
+
+// The sidebar entry of one thread, without loading the others or its messages
+const getConversationSummary = async (id: string): Promise<ConversationSummary | null> => {
+  if (isElectron) {
+    return (await electronAPI().getConversationSummary(id)) || null;
+  }
+
+  if (isChrome && chrome.storage?.local) {
+    return (await readChromeIndex()).find(c => c.id === id) || null;
+  }
+
+  return null;
+};
+
+export const getConversation = async (id: string): Promise<Conversation | null> => {
+  if (isElectron) {
+    return (await electronAPI().getConversation(id)) || null;
+  }
+
+  if (isChrome && chrome.storage?.local) {
+    const key = conversationKey(id);
+    const result = await chrome.storage.local.get(key);
+    return (result[key] as Conversation | undefined) || null;
+  }
+
+  return null;
+};
+
+const writeConversation = async (conversation: Conversation): Promise<void> => {
+  if (isElectron) {
+    await electronAPI().saveConversation(conversation);
+  } else if (isChrome && chrome.storage?.local) {
+    const index = (await readChromeIndex()).filter(c => c.id !== conversation.id);
+    index.push(toSummary(conversation));
+    await chrome.storage.local.set({
+      [conversationKey(conversation.id)]: conversation,
+      [INDEX_KEY]: index
+    });
+  }
+  notifyChange({ type: 'saved', conversation });
+};
+
+/**
+ * Save the messages of a thread. Title and creation time are kept from the stored copy
+ * so a rename survives later saves; new threads get a title from their first question.
+ * The persona is kept too unless the update names one (or null for none).
+ */
+export const saveConversation = async (update: {
+  id: string;
+  messages: ChatMessage[];
+  provider?: string;
+  model?: string;
+  personaId?: string | null;
+}): Promise<Conversation> => {
+  const existing = await getConversationSummary(update.id);
+  const now = Date.now();
+
+  const conversation: Conversation = {
+    id: update.id,
+    title: existing?.title && existing.title !== 'New Chat' ? existing.title : deriveConversationTitle(update.messages),
+    provider: update.provider ?? existing?.provider,
+    model: update.model ?? existing?.model,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    messageCount: update.messages.length,
+    personaId: update.personaId === undefined ? existing?.personaId : update.personaId || undefined,
+    messages: update.messages
+  };
+
+  await writeConversation(conversation);
+  return conversation;
+};
+
+export const renameConversation = async (id: string, title: string): Promise<void> => {
+  const conversation = await getConversation(id);
+  if (!conversation) return;
+  await writeConversation({ ...conversation, title: title.trim() || conversation.title });
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  if (isElectron) {
+    await electronAPI().deleteConversation(id);
+  } else if (isChrome && chrome.storage?.local) {
+    const index = (await readChromeIndex()).filter(c => c.id !== id);
+    await chrome.storage.local.remove(conversationKey(id));
+    await chrome.storage.local.set({ [INDEX_KEY]: index });
+  }
+  notifyChange({ type: 'deleted', id });
+};
+
+/** Conversation id for a chrome.storage.local key written by this module, or null for unrelated keys. */
+export const conversationIdFromStorageKey = (key: string): string | null =>
+  key.startsWith('conversation:') ? key.slice('conversation:'.length) : null;
@@ -0,0 +1,733 @@
+/**
+ * Local text extraction for files attached in the composer: PDF, DOCX and plain text
+ * (Markdown, CSV, source code...). Runs in the page; nothing is uploaded to extract it.
+ * The PDF reader is deliberately small: it follows the page tree, inflates Flate streams
+ * and maps text through ToUnicode CMaps, which covers most generated PDFs. Scanned or
+ * encrypted files come out empty and are best sent to a model that reads PDFs itself.
+ */
+
+import type { DocumentAttachment } from './types';
+
+// A file waiting in the composer, with its text split by page so a range can be picked
+export interface DocumentDraft {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  pageTexts: string[]; // One entry per PDF page, a single entry for other files
+  pages?: { from: number; to: number }; // PDFs: 1-based, inclusive
+  data?: string; // Data URL of a PDF small enough to send whole
+}
+
+export const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+// Gemini's inline data limit; Anthropic allows 32 MB and 100 pages
+const NATIVE_PDF_MAX_BYTES = 20 * 1024 * 1024;
+const NATIVE_PDF_MAX_PAGES = 100;
+
+export const DOCUMENT_ACCEPT = [
+  '.pdf', '.docx', '.md', '.markdown', '.txt', '.csv', '.tsv', '.json', '.yaml', '.yml', '.xml', '.html', '.css', '.log',
+  '.js', '.jsx', '.ts', '.tsx', '.py', '.rb', '.go', '.rs', '.java', '.kt', '.swift', '.c', '.h', '.cpp', '.hpp', '.cs',
+  '.php', '.sh', '.sql', '.toml', '.ini', 'text/*'
+].join(',');
+
+const PDF_MIME = 'application/pdf';
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+
+// Bytes as a string with one char per byte, which is how PDF syntax is easiest to scan
+const toBinaryString = (bytes: Uint8Array) => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return result;
+};
+
+const fromBinaryString = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+// Keeps whatever came out before a corrupt end, which PDF writers produce more often than one would hope
+const inflate = async (bytes: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> => {
+  const reader = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Truncated or trailing garbage
+  }
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
+
+export const readFileAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// --- PDF ---
+
+interface PdfName { type: 'name'; value: string }
+interface PdfRef { type: 'ref'; num: number }
+interface PdfString { type: 'string'; bytes: string }
+interface PdfDict { type: 'dict'; entries: Record<string, PdfValue> }
+interface PdfOperator { type: 'op'; value: string }
+type PdfValue = number | boolean | null | PdfValue[] | PdfName | PdfRef | PdfString | PdfDict;
+type PdfToken = PdfValue | PdfOperator;
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: string; // Raw, still encoded
+}
+
+const isDelimiter = (c: string) => '()<>[]{}/%'.includes(c);
+const isSpace = (c: string) => c === ' ' || c === '\n' || c === '\r' || c === '\t' || c === '\f' || c === '\0';
+
+const isName = (v: PdfToken | undefined, name?: string): v is PdfName =>
+  typeof v === 'object' && v !== null && !Array.isArray(v) && v.type === 'name' && (name === undefined || v.value === name);
+const isDict = (v: PdfValue | undefined): v is PdfDict =>
+  typeof v === 'object' && v !== null && !Array.isArray(v) && v.type === 'dict';
+const isString = (v: PdfToken | undefined): v is PdfString =>
+  typeof v === 'object' && v !== null && !Array.isArray(v) && v.type === 'string';
+const isOperator = (v: PdfToken | undefined): v is PdfOperator =>
+  typeof v === 'object' && v !== null && !Array.isArray(v) && v.type === 'op';
+
+const STRING_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Reads PDF objects and content stream tokens from a binary string
+class PdfLexer {
+  src: string;
+  pos: number;
+
+  constructor(src: string, pos = 0) {
+    this.src = src;
+    this.pos = pos;
+  }
+
+  skipSpace() {
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (isSpace(c)) {
+        this.pos++;
+      } else if (c === '%') {
+        while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  // undefined at the end of the input
+  next(): PdfToken | undefined {
+    this.skipSpace();
+    const { src } = this;
+    if (this.pos >= src.length) return undefined;
+    const c = src[this.pos];
+
+    if (c === '/') {
+      this.pos++;
+      const start = this.pos;
+      while (this.pos < src.length && !isSpace(src[this.pos]) && !isDelimiter(src[this.pos])) this.pos++;
+      const value = src.slice(start, this.pos).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+      return { type: 'name', value };
+    }
+    if (c === '(') return this.literalString();
+    if (c === '<') {
+      if (src[this.pos + 1] === '<') return this.dict();
+      const end = src.indexOf('>', this.pos);
+      const hex = src.slice(this.pos + 1, end < 0 ? src.length : end).replace(/[^0-9a-fA-F]/g, '');
+      this.pos = end < 0 ? src.length : end + 1;
+      let bytes = '';
+      for (let i = 0; i < hex.length; i += 2) bytes += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+      return { type: 'string', bytes };
+    }
+    if (c === '[') {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipSpace();
+        if (this.pos >= src.length) break;
+        if (src[this.pos] === ']') {
+          this.pos++;
+          break;
+        }
+        const item = this.next();
+        if (item === undefined) break;
+        if (!isOperator(item)) items.push(item);
+      }
+      return items;
+    }
+    if (c === '>' || c === ']' || c === ')' || c === '{' || c === '}') {
+      this.pos++;
+      return { type: 'op', value: c };
+    }
+
+    const start = this.pos;
+    while (this.pos < src.length && !isSpace(src[this.pos]) && !isDelimiter(src[this.pos])) this.pos++;
+    const word = src.slice(start, this.pos);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      const number = parseFloat(word);
+      // "12 0 R" is a reference
+      if (/^\d+$/.test(word)) {
+        const match = /^\s+\d+\s+R(?=[\s/<>[\]()%]|$)/.exec(src.slice(this.pos, this.pos + 32));
+        if (match) {
+          this.pos += match[0].length;
+          return { type: 'ref', num: number };
+        }
+      }
+      return number;
+    }
+    if (word === 'true' || word === 'false') return word === 'true';
+    if (word === 'null') return null;
+    return { type: 'op', value: word };
+  }
+
+  private literalString(): PdfString {
+    const { src } = this;
+    let depth = 1;
+    let bytes = '';
+    this.pos++;
+    while (this.pos < src.length) {
+      const c = src[this.pos++];
+      if (c === '\\') {
+        const e = src[this.pos++];
+        if (e in STRING_ESCAPES) {
+          bytes += STRING_ESCAPES[e];
+        } else if (e >= '0' && e <= '7') {
+          let octal = e;
+          while (octal.length < 3 && src[this.pos] >= '0' && src[this.pos] <= '7') octal += src[this.pos++];
+          bytes += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (e === '\r') {
+          if (src[this.pos] === '\n') this.pos++;
+        } else if (e !== '\n') {
+          bytes += e;
+        }
+      } else if (c === '(') {
+        depth++;
+        bytes += c;
+      } else if (c === ')') {
+        if (--depth === 0) break;
+        bytes += c;
+      } else {
+        bytes += c;
+      }
+    }
+    return { type: 'string', bytes };
+  }
+
+  private dict(): PdfDict {
+    this.pos += 2;
+    const entries: Record<string, PdfValue> = {};
+    for (;;) {
+      this.skipSpace();
+      if (this.pos >= this.src.length) break;
+      if (this.src.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.next();
+      if (!isName(key)) {
+        if (key === undefined) break;
+        continue;
+      }
+      const value = this.next();
+      if (value === undefined) break;
+      if (!isOperator(value)) entries[key.value] = value;
+    }
+    return { type: 'dict', entries };
+  }
+}
+
+class PdfReader {
+  objects = new Map<number, PdfObject>();
+  src: string;
+
+  constructor(src: string) {
+    this.src = src;
+  }
+
+  // Scans for "n g obj" instead of trusting the xref table, which is often damaged
+  async load() {
+    const { src } = this;
+    const pattern = /(?<!\d)(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(src))) {
+      const lexer = new PdfLexer(src, pattern.lastIndex);
+      const value = lexer.next();
+      if (value === undefined || isOperator(value)) continue;
+      const object: PdfObject = { value };
+      lexer.skipSpace();
+      if (src.startsWith('stream', lexer.pos)) {
+        let start = lexer.pos + 6;
+        if (src[start] === '\r') start++;
+        if (src[start] === '\n') start++;
+        const length = isDict(value) ? value.entries.Length : undefined;
+        let end = typeof length === 'number' && /^\s*endstream/.test(src.slice(start + length, start + length + 12)) ? start + length : -1;
+        if (end < 0) {
+          end = src.indexOf('endstream', start);
+          if (end < 0) end = src.length;
+          while (end > start && (src[end - 1] === '\n' || src[end - 1] === '\r')) end--;
+        }
+        object.stream = src.slice(start, end);
+        // Skip the binary data rather than looking for objects inside it
+        pattern.lastIndex = end;
+      }
+      // Later definitions come from incremental updates and win
+      this.objects.set(Number(match[1]), object);
+    }
+
+    // Objects packed into object streams (PDF 1.5+)
+    for (const object of [...this.objects.values()]) {
+      if (!isDict(object.value) || !isName(object.value.entries.Type, 'ObjStm')) continue;
+      const data = await this.streamData(object);
+      const first = object.value.entries.First;
+      if (data === null || typeof first !== 'number') continue;
+      const header = new PdfLexer(data.slice(0, first));
+      const count = typeof object.value.entries.N === 'number' ? object.value.entries.N : 0;
+      for (let i = 0; i < count; i++) {
+        const num = header.next();
+        const offset = header.next();
+        if (typeof num !== 'number' || typeof offset !== 'number') break;
+        const value = new PdfLexer(data, first + offset).next();
+        if (value !== undefined && !isOperator(value) && !this.objects.has(num)) this.objects.set(num, { value });
+      }
+    }
+  }
+
+  get encrypted() {
+    return /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(this.src);
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'ref' && depth < 16) {
+      return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+    }
+    return value;
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  object(value: PdfValue | undefined): PdfObject | undefined {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'ref'
+      ? this.objects.get(value.num)
+      : undefined;
+  }
+
+  // Decoded stream contents, or null for filters this reader doesn't handle (images, mostly)
+  async streamData(object: PdfObject | undefined): Promise<string | null> {
+    if (!object?.stream) return null;
+    const filter = isDict(object.value) ? this.resolve(object.value.entries.Filter) : undefined;
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => isName(f) ? f.value : '');
+    let data = object.stream;
+    for (const name of filters) {
+      if (name !== 'FlateDecode' && name !== 'Fl') return null;
+      data = toBinaryString(await inflate(fromBinaryString(data), 'deflate'));
+    }
+    return data;
+  }
+
+  // Pages in reading order, each with the resources it inherits
+  pages(): Array<{ page: PdfDict; resources?: PdfDict }> {
+    const result: Array<{ page: PdfDict; resources?: PdfDict }> = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, inherited?: PdfDict) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const resources = this.dict(node.entries.Resources) || inherited;
+      const kids = this.resolve(node.entries.Kids);
+      if (Array.isArray(kids)) {
+        kids.forEach(kid => walk(this.dict(kid), resources));
+      } else {
+        result.push({ page: node, resources });
+      }
+    };
+
+    const catalog = [...this.objects.values()].map(o => o.value).find(v => isDict(v) && isName(v.entries.Type, 'Catalog'));
+    if (isDict(catalog)) walk(this.dict(catalog.entries.Pages));
+    if (result.length === 0) {
+      [...this.objects.values()].forEach(({ value }) => {
+        if (isDict(value) && isName(value.entries.Type, 'Page')) result.push({ page: value, resources: this.dict(value.entries.Resources) });
+      });
+    }
+    return result;
+  }
+}
+
+// Code to text for one font
+interface FontDecoder {
+  codeLength: number;
+  map: Map<number, string>;
+  fallback: boolean; // Map unknown one-byte codes to Latin-1
+}
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&', quotesingle: "'",
+  parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+  colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[',
+  backslash: '\\', bracketright: ']', underscore: '_', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~',
+  quoteleft: '‘', quoteright: '’', quotedblleft: '“', quotedblright: '”', bullet: '•',
+  endash: '–', emdash: '—', ellipsis: '…', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl'
+};
+
+const glyphToText = (name: string) => {
+  if (name.length === 1) return name;
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  const unicode = /^uni([0-9A-F]{4})/.exec(name);
+  return unicode ? String.fromCharCode(parseInt(unicode[1], 16)) : undefined;
+};
+
+const bytesToCode = (bytes: string) => {
+  let code = 0;
+  for (let i = 0; i < bytes.length; i++) code = code * 256 + bytes.charCodeAt(i);
+  return code;
+};
+
+// ToUnicode targets are UTF-16BE
+const utf16ToText = (bytes: string) => {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+  return text;
+};
+
+const parseToUnicode = (cmap: string, decoder: FontDecoder) => {
+  const lexer = new PdfLexer(cmap);
+  const operands: PdfToken[] = [];
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+    const strings = operands.filter(isString);
+    if (token.value === 'endcodespacerange' && strings.length > 0) {
+      decoder.codeLength = strings[0].bytes.length;
+    } else if (token.value === 'endbfchar') {
+      for (let i = 0; i + 1 < strings.length; i += 2) decoder.map.set(bytesToCode(strings[i].bytes), utf16ToText(strings[i + 1].bytes));
+    } else if (token.value === 'endbfrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const [low, high, target] = operands.slice(i, i + 3);
+        if (!isString(low) || !isString(high)) continue;
+        const start = bytesToCode(low.bytes);
+        const end = Math.min(bytesToCode(high.bytes), start + 0xffff);
+        for (let code = start; code <= end; code++) {
+          if (Array.isArray(target)) {
+            const item = target[code - start];
+            if (isString(item)) decoder.map.set(code, utf16ToText(item.bytes));
+          } else if (isString(target)) {
+            // The last UTF-16 unit counts up through the range
+            const base = utf16ToText(target.bytes);
+            decoder.map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - start));
+          }
+        }
+      }
+    }
+    operands.length = 0;
+  }
+};
+
+const decodeText = (bytes: string, decoder?: FontDecoder) => {
+  if (!decoder) return bytes;
+  let text = '';
+  for (let i = 0; i < bytes.length; i += decoder.codeLength) {
+    const code = bytesToCode(bytes.slice(i, i + decoder.codeLength));
+    text += decoder.map.get(code) ?? (decoder.fallback ? String.fromCharCode(code) : '');
+  }
+  return text;
+};
+
+// A word gap in a TJ array, in thousandths of the font size
+const TJ_SPACE = -200;
+const MAX_FORM_DEPTH = 4;
+
+const appendBreak = (text: string, separator: ' ' | '\n') => {
+  if (!text || text.endsWith('\n') || (separator === ' ' && text.endsWith(' '))) return text;
+  return text.endsWith(' ') ? `${text.slice(0, -1)}${separator}` : text + separator;
+};
+
+class PdfTextExtractor {
+  reader: PdfReader;
+  fonts = new Map<PdfDict, FontDecoder>();
+
+  constructor(reader: PdfReader) {
+    this.reader = reader;
+  }
+
+  async font(fontDict: PdfDict): Promise<FontDecoder> {
+    const cached = this.fonts.get(fontDict);
+    if (cached) return cached;
+    const composite = isName(fontDict.entries.Subtype, 'Type0');
+    const decoder: FontDecoder = { codeLength: composite ? 2 : 1, map: new Map(), fallback: !composite };
+    const encoding = this.reader.dict(fontDict.entries.Encoding);
+    const differences = encoding && this.reader.resolve(encoding.entries.Differences);
+    if (Array.isArray(differences)) {
+      let code = 0;
+      differences.forEach(item => {
+        if (typeof item === 'number') {
+          code = item;
+        } else if (isName(item)) {
+          const text = glyphToText(item.value);
+          if (text !== undefined) decoder.map.set(code, text);
+          code++;
+        }
+      });
+    }
+    const cmap = await this.reader.streamData(this.reader.object(fontDict.entries.ToUnicode));
+    if (cmap) parseToUnicode(cmap, decoder);
+    this.fonts.set(fontDict, decoder);
+    return decoder;
+  }
+
+  // A page's content: one stream or an array of them, possibly behind a reference itself
+  async contents(contents: PdfValue | undefined): Promise<string> {
+    const resolved = this.reader.resolve(contents);
+    const refs = Array.isArray(resolved) ? resolved : [contents];
+    const parts = await Promise.all(refs.map(ref => this.reader.streamData(this.reader.object(ref))));
+    return parts.filter(part => part !== null).join('\n');
+  }
+
+  async text(content: string, resources: PdfDict | undefined, depth = 0): Promise<string> {
+    const fontDicts = this.reader.dict(resources?.entries.Font)?.entries || {};
+    const xObjects = this.reader.dict(resources?.entries.XObject)?.entries || {};
+    const lexer = new PdfLexer(content);
+    const operands: PdfToken[] = [];
+    let decoder: FontDecoder | undefined;
+    let fontSize = 1;
+    let out = '';
+    let lineY: number | undefined;
+
+    for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+      if (!isOperator(token)) {
+        operands.push(token);
+        continue;
+      }
+      const args = operands.splice(0);
+      switch (token.value) {
+        case 'Tf': {
+          const fontDict = isName(args[0]) ? this.reader.dict(fontDicts[args[0].value]) : undefined;
+          decoder = fontDict ? await this.font(fontDict) : undefined;
+          if (typeof args[1] === 'number') fontSize = Math.abs(args[1]) || 1;
+          break;
+        }
+        case 'Td':
+        case 'TD': {
+          const [tx, ty] = args;
+          if (typeof ty === 'number' && lineY !== undefined) lineY += ty;
+          // Superscripts and subscripts move less than half a line
+          if (typeof ty === 'number' && Math.abs(ty) >= fontSize / 2) {
+            out = appendBreak(out, '\n');
+          } else if (typeof tx === 'number' && tx !== 0) {
+            out = appendBreak(out, ' ');
+          }
+          break;
+        }
+        case 'Tm': {
+          const y = args[5];
+          if (typeof y === 'number') {
+            out = appendBreak(out, lineY !== undefined && Math.abs(y - lineY) < 1 ? ' ' : '\n');
+            lineY = y;
+          }
+          break;
+        }
+        case 'T*':
+          out = appendBreak(out, '\n');
+          break;
+        case "'":
+        case '"': {
+          out = appendBreak(out, '\n');
+          const text = args[args.length - 1];
+          if (isString(text)) out += decodeText(text.bytes, decoder);
+          break;
+        }
+        case 'Tj':
+          if (isString(args[0])) out += decodeText(args[0].bytes, decoder);
+          break;
+        case 'TJ':
+          if (Array.isArray(args[0])) {
+            args[0].forEach(item => {
+              if (isString(item)) out += decodeText(item.bytes, decoder);
+              else if (typeof item === 'number' && item <= TJ_SPACE) out = appendBreak(out, ' ');
+            });
+          }
+          break;
+        case 'Do': {
+          // Form XObjects are content streams of their own and can hold all of a page's text
+          const xObject = isName(args[0]) ? this.reader.object(xObjects[args[0].value]) : undefined;
+          if (depth < MAX_FORM_DEPTH && xObject && isDict(xObject.value) && isName(xObject.value.entries.Subtype, 'Form')) {
+            const formContent = await this.reader.streamData(xObject);
+            if (formContent) {
+              const formText = await this.text(formContent, this.reader.dict(xObject.value.entries.Resources) || resources, depth + 1);
+              if (formText) out = `${appendBreak(out, '\n')}${formText}`;
+            }
+          }
+          break;
+        }
+        case 'BI': {
+          // Inline image data is binary; skip to the end of it
+          const end = /\sEI(?=[\s/<>[\]()%]|$)/g;
+          end.lastIndex = content.indexOf('ID', lexer.pos);
+          const match = end.lastIndex >= 0 ? end.exec(content) : null;
+          lexer.pos = match ? match.index + match[0].length : content.length;
+          break;
+        }
+      }
+    }
+    return out;
+  }
+}
+
+const tidyText = (text: string) => text
+  .replace(/[ \t]+\n/g, '\n')
+  .replace(/[ \t]{2,}/g, ' ')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+/** Text of each page of a PDF, in order. Pages without extractable text are empty strings. */
+export const extractPdfPages = async (bytes: Uint8Array): Promise<string[]> => {
+  const reader = new PdfReader(toBinaryString(bytes));
+  await reader.load();
+  const pages = reader.pages();
+  if (reader.encrypted) return pages.length > 0 ? pages.map(() => '') : [''];
+  const extractor = new PdfTextExtractor(reader);
+  const texts: string[] = [];
+  for (const { page, resources } of pages) {
+    const content = await extractor.contents(page.entries.Contents);
+    texts.push(tidyText(await extractor.text(content, resources)));
+  }
+  return texts.length > 0 ? texts : [''];
+};
+
+// --- DOCX ---
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_FILE_HEADER = 0x02014b50;
+
+// One file out of a zip archive, or null when it isn't there
+const readZipEntry = async (bytes: Uint8Array, name: string): Promise<Uint8Array | null> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(end + 16, true);
+  const count = view.getUint16(end + 10, true);
+  for (let i = 0; i < count && view.getUint32(offset, true) === ZIP_CENTRAL_FILE_HEADER; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    if (entryName === name) {
+      const start = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, 'deflate-raw');
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeXmlText = (text: string) => text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, body: string) => {
+  if (body.startsWith('#x')) return String.fromCodePoint(parseInt(body.slice(2), 16));
+  if (body.startsWith('#')) return String.fromCodePoint(parseInt(body.slice(1), 10));
+  return XML_ENTITIES[body] ?? entity;
+});
+
+/** Text of a Word document's body. Paragraphs become lines, table cells are separated by tabs. */
+export const extractDocxText = async (bytes: Uint8Array): Promise<string> => {
+  const documentXml = await readZipEntry(bytes, 'word/document.xml');
+  if (!documentXml) throw new Error('Not a Word document');
+  const xml = new TextDecoder().decode(documentXml);
+  let text = '';
+  const pattern = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:(?:br|cr)\b[^>]*\/>|<\/w:p>|<\/w:tc>|<\/w:tr>/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml))) {
+    const tag = match[0];
+    if (match[1] !== undefined) text += decodeXmlText(match[1]);
+    else if (tag === '<w:tab/>' || tag === '</w:tc>') text += '\t';
+    else text += '\n';
+  }
+  // A cell's last paragraph ends right before the cell does
+  return tidyText(text.replace(/\n\t/g, '\t').replace(/\t\n/g, '\n'));
+};
+
+// --- Composer ---
+
+const looksBinary = (bytes: Uint8Array) => bytes.subarray(0, 8192).includes(0);
+
+/** Read a dropped or picked file into a draft, extracting its text. Throws for unreadable files. */
+export const readDocument = async (file: File): Promise<DocumentDraft> => {
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const extension = extensionOf(file.name);
+  const draft = { id: crypto.randomUUID(), name: file.name, size: file.size };
+
+  if (file.type === PDF_MIME || extension === 'pdf') {
+    const pageTexts = await extractPdfPages(bytes);
+    return {
+      ...draft,
+      mimeType: PDF_MIME,
+      pageTexts,
+      pages: { from: 1, to: pageTexts.length },
+      data: file.size <= NATIVE_PDF_MAX_BYTES ? await readFileAsDataUrl(file) : undefined
+    };
+  }
+  if (file.type === DOCX_MIME || extension === 'docx') {
+    return { ...draft, mimeType: DOCX_MIME, pageTexts: [await extractDocxText(bytes)] };
+  }
+  if (looksBinary(bytes)) {
+    throw new Error(`${file.name} is not a text file, PDF or Word document`);
+  }
+  return { ...draft, mimeType: file.type || 'text/plain', pageTexts: [new TextDecoder().decode(bytes)] };
+};
+
+/** What gets attached to the message: the chosen pages' text, and the file itself when all of a PDF is sent. */
+export const toDocumentAttachment = (draft: DocumentDraft): DocumentAttachment => {
+  const total = draft.pageTexts.length;
+  if (!draft.pages) {
+    return { name: draft.name, mimeType: draft.mimeType, text: draft.pageTexts.join('\n\n') };
+  }
+  const from = Math.min(Math.max(draft.pages.from, 1), total);
+  const to = Math.min(Math.max(draft.pages.to, from), total);
+  const whole = from === 1 && to === total;
+  return {
+    name: draft.name,
+    mimeType: draft.mimeType,
+    text: draft.pageTexts
+      .slice(from - 1, to)
+      .map((text, i) => total > 1 ? `[Page ${from + i}]\n${text}` : text)
+      .join('\n\n'),
+    pages: { from, to, total },
+    data: whole && total <= NATIVE_PDF_MAX_PAGES ? draft.data : undefined
+  };
+};
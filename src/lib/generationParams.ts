@@ -0,0 +1,13 @@
+import type { GenerationParams } from './types';
+
+/** Short summary of the set parameters, e.g. "temp 0.7 · top_p 0.9". */
+export const describeParams = (params?: GenerationParams) => [
+  params?.temperature !== undefined && `temp ${params.temperature}`,
+  params?.topP !== undefined && `top_p ${params.topP}`,
+  params?.topK !== undefined && `top_k ${params.topK}`,
+  params?.maxOutputTokens !== undefined && `max ${params.maxOutputTokens}`,
+  params?.stopSequences?.some(Boolean) && 'stop',
+  params?.seed !== undefined && `seed ${params.seed}`,
+  params?.presencePenalty !== undefined && `presence ${params.presencePenalty}`,
+  params?.frequencyPenalty !== undefined && `frequency ${params.frequencyPenalty}`
+].filter(Boolean).join(' · ');
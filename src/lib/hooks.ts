@@ -3,7 +3,7 @@ import { type AppConfig, type ChatMessage, DEFAULT_CONFIG } from './types';
 import { getStorage, setStorage, getSelectedText } from './storage';
 
 // Detect environment
-const isElectron = typeof window !== 'undefined' && (window as any).electronAPI !== undefined;
+const isElectron = typeof window !== 'undefined' && window.electronAPI !== undefined;
 const isChrome = typeof chrome !== 'undefined' && chrome.storage !== undefined;
 
 // Abstracted local storage helpers
@@ -65,7 +65,8 @@ interface ChatState {
     instruction: string;
     messages: ChatMessage[];
     selectedText: string;
-    selectedImage: string | null;
+    selectedImages: string[];
+    conversationId: string | null; // Thread in the conversation store this state belongs to
 }
 
 interface UseChatStateProps {
@@ -88,7 +89,8 @@ export const useChatState = ({
         instruction: initialInstruction,
         messages: initialMessages,
         selectedText: initialText,
-        selectedImage: initialImage
+        selectedImages: initialImage ? [initialImage] : [],
+        conversationId: null
     });
     const [hydrated, setHydrated] = useState(false);
     const [autoExecutePromptId, setAutoExecutePromptId] = useState<string | null>(null);
@@ -126,9 +128,15 @@ export const useChatState = ({
                     await removeLocalStorage('contextSelection');
                 }
 
+                // Images already attached to a chat that hasn't started are kept, so several can be sent together
+                let keptImages: string[] = [];
                 if (storage.contextImage) {
                     currentImage = storage.contextImage as string;
                     await removeLocalStorage('contextImage');
+                    const previous = storage.popupState as { messages?: ChatMessage[]; selectedImages?: string[] } | undefined;
+                    if (previous && !previous.messages?.length) {
+                        keptImages = (previous.selectedImages || []).filter(image => image !== currentImage);
+                    }
                 } else if (!isFreshContext) {
                     // If triggered by text context only (and not props), ensure image is clear
                     // UNLESS props provided an image?
@@ -147,7 +155,8 @@ export const useChatState = ({
                     instruction: currentInstruction,
                     messages: [],
                     selectedText: currentText,
-                    selectedImage: currentImage
+                    selectedImages: currentImage ? [...keptImages, currentImage] : keptImages,
+                    conversationId: null
                 });
 
             } else {
@@ -157,13 +166,16 @@ export const useChatState = ({
                         instruction?: string;
                         messages?: ChatMessage[];
                         selectedText?: string;
-                        selectedImage?: string | null;
+                        selectedImages?: string[];
+                        selectedImage?: string | null; // Saved before selectedImages
+                        conversationId?: string | null;
                     };
                     setState({
                         instruction: s.instruction || '',
                         messages: s.messages || [],
                         selectedText: s.selectedText || '',
-                        selectedImage: s.selectedImage || null
+                        selectedImages: s.selectedImages || (s.selectedImage ? [s.selectedImage] : []),
+                        conversationId: s.conversationId || null
                     });
                 } else {
                     // No previous state, just use current page text
@@ -184,7 +196,8 @@ export const useChatState = ({
                 instruction: updated.instruction,
                 messages: updated.messages,
                 selectedText: updated.selectedText,
-                selectedImage: updated.selectedImage,
+                selectedImages: updated.selectedImages,
+                conversationId: updated.conversationId,
                 timestamp: Date.now()
             };
             setLocalStorage({ popupState: stateToSave });
@@ -0,0 +1,16 @@
+// Lookups in tables keyed by model id (prices, context lengths). Ids match by prefix so dated
+// snapshots like gpt-4o-2024-08-06 use their base model's entry.
+
+/** An exact entry, else the longest key the id starts with. Vendor prefixes (openai/gpt-4o) are ignored. */
+export const lookupModel = <T>(table: Record<string, T>, model: string): T | undefined => {
+  if (table[model] !== undefined) return table[model];
+
+  // OpenRouter ids carry the vendor, e.g. openai/gpt-4o
+  const id = model.includes('/') ? model.slice(model.lastIndexOf('/') + 1) : model;
+  if (table[id] !== undefined) return table[id];
+
+  const match = Object.keys(table)
+    .filter(key => id.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : undefined;
+};
@@ -0,0 +1,31 @@
+import type { AppConfig, ChatMessage, Persona } from './types';
+
+/** The persona with this id, unless it has been deleted since. */
+export const findPersona = (config: AppConfig, id?: string): Persona | undefined =>
+  id ? config.personas?.find(p => p.id === id) : undefined;
+
+/** System prompt for a persona: its own text, then the language to answer in. */
+export const personaSystemPrompt = (persona: Persona) => [
+  persona.systemPrompt.trim(),
+  persona.language?.trim() && `Always reply in ${persona.language.trim()}, whatever language the user writes in.`
+].filter(Boolean).join('\n\n');
+
+/** The open conversation's persona as a system message in front of the request's messages. */
+export const withPersona = (messages: ChatMessage[], config: AppConfig): ChatMessage[] => {
+  const persona = findPersona(config, config.personaId);
+  const systemPrompt = persona ? personaSystemPrompt(persona) : '';
+  return systemPrompt ? [{ role: 'system', content: systemPrompt }, ...messages] : messages;
+};
+
+/** Config for a conversation with this persona (or none), switched to its model if it has one. */
+export const configForPersona = (config: AppConfig, persona?: Persona): AppConfig => ({
+  ...config,
+  personaId: persona?.id,
+  ...(persona?.model?.modelName && {
+    selectedProvider: persona.model.provider,
+    selectedModel: {
+      ...config.selectedModel,
+      [persona.model.provider]: persona.model.modelName
+    }
+  })
+});
@@ -0,0 +1,78 @@
+import type { AppConfig, ChatMessage, ModelPrice, TokenUsage } from './types';
+import { lookupModel } from './modelLookup';
+
+// Published list prices in USD per million tokens. Model ids match by prefix, so dated
+// snapshots (e.g. gpt-4o-2024-08-06) use their base model's price; users can add or
+// override entries in Settings.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'o1': { input: 15, output: 60 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'sonar': { input: 1, output: 1 },
+  'sonar-pro': { input: 3, output: 15 },
+  'sonar-reasoning': { input: 1, output: 5 },
+  'sonar-reasoning-pro': { input: 2, output: 8 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 }
+};
+
+/** The built-in table with the user's entries applied on top. */
+export const getPriceTable = (config: AppConfig): Record<string, ModelPrice> => ({
+  ...DEFAULT_MODEL_PRICES,
+  ...config.modelPrices
+});
+
+/** Price for a model id: an exact entry, else the longest entry the id starts with. */
+export const getModelPrice = (config: AppConfig, model: string): ModelPrice | undefined =>
+  lookupModel(getPriceTable(config), model);
+
+export const usageCost = (usage: TokenUsage, price: ModelPrice) =>
+  (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+
+/** Cost of one reply, or undefined when its usage or its model's price is unknown. */
+export const messageCost = (config: AppConfig, message: ChatMessage): number | undefined => {
+  if (!message.usage || !message.answeredBy) return undefined;
+  const price = getModelPrice(config, message.answeredBy.model);
+  return price ? usageCost(message.usage, price) : undefined;
+};
+
+/** Total cost of the replies whose price is known. */
+export const conversationCost = (config: AppConfig, messages: ChatMessage[]) =>
+  messages.reduce((total, message) => total + (messageCost(config, message) || 0), 0);
+
+export const formatCost = (cost: number) => {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+};
+
+export const formatTokens = (count: number) => {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+};
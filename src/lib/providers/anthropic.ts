@@ -0,0 +1,304 @@
+import type { AppConfig, ChatMessage, ThinkingBlock, TokenUsage } from '../types';
+import type { ApiResponse, ProviderAdapter, ProviderContext, StreamCallbacks, StreamDelta } from './types';
+import { getGenerationParams, getModelSettings, sanitizeMessagesForApi } from './common';
+import { ProviderError, StreamInterruptedError, classifyHttpError, errorFromResponse } from './errors';
+import { providerFetch } from './inspector';
+import { readStreamEvents } from './stream';
+import { addUsage, mergeUsage } from './usage';
+import { WEB_SEARCH_TOOL } from './webSearch';
+import { getEnabledTools, runToolCall, toAnthropicTool } from '../tools';
+
+const DEFAULT_MAX_TOKENS = 4096;
+const MIN_THINKING_BUDGET = 1024; // Smallest budget the API accepts
+const MAX_TOOL_ITERATIONS = 5; // Prevent infinite tool loops
+
+// Google search without a Google key falls back to the current provider's key in
+// OpenAI format, which an Anthropic key can't serve
+const canSearch = (config: AppConfig) =>
+  !(config.webSearchProvider === 'google' && !config.apiKeys['google']?.length);
+
+const toolsFor = (config: AppConfig, model: string) =>
+  getEnabledTools(config, model).filter(tool => tool.definition.name !== WEB_SEARCH_TOOL.function.name || canSearch(config));
+
+// input_tokens leaves out prompt caching; output_tokens already include thinking
+const parseUsage = (usage: any): Partial<TokenUsage> | undefined => {
+  if (!usage) return undefined;
+  const hasInput = usage.input_tokens !== undefined;
+  return {
+    inputTokens: hasInput
+      ? usage.input_tokens + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0)
+      : undefined,
+    outputTokens: usage.output_tokens
+  };
+};
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com/v1',
+  capabilities: { vision: true, pdf: true, tools: true, reasoning: true, requiresApiKey: true },
+  streamFormat: 'sse',
+
+  buildRequest: (messages, { provider, apiKey, baseUrl, model, config }, stream) => {
+    const settings = getModelSettings(config, provider, model);
+    const params = getGenerationParams(config, provider, model);
+    const thinkingBudget = settings.thinkingBudget ? Math.max(settings.thinkingBudget, MIN_THINKING_BUDGET) : 0;
+
+    // Sanitize messages to remove UI-only fields and filter empty messages
+    const sanitizedMessages = sanitizeMessagesForApi(messages, { nativePdf: true });
+
+    // System messages go in the top-level system field; the messages array only takes turns
+    const system = sanitizedMessages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const chatMessages = sanitizedMessages.filter(m => m.role !== 'system').map(m => {
+      if (m.images || m.pdfs) {
+        return {
+          role: m.role,
+          content: [
+            ...(m.pdfs || []).map(doc => ({
+              type: "document",
+              source: { type: "base64", media_type: "application/pdf", data: doc.data!.split(',')[1] },
+              title: doc.name
+            })),
+            ...(m.images || []).map(image => {
+              const [meta, data] = image.split(',');
+              const mimeType = meta.split(':')[1].split(';')[0];
+              return { type: "image", source: { type: "base64", media_type: mimeType, data } };
+            }),
+            { type: "text", text: m.content }
+          ]
+        };
+      }
+      // Replay earlier thinking with its signature so the API accepts it as the model's own
+      if (thinkingBudget && m.role === 'assistant' && m.thinkingBlocks) {
+        return {
+          role: m.role,
+          content: [
+            ...m.thinkingBlocks.map(block => ({ type: "thinking", thinking: block.thinking, signature: block.signature })),
+            { type: "text", text: m.content }
+          ]
+        };
+      }
+      return { role: m.role, content: m.content };
+    });
+
+    const body: any = {
+      model: model,
+      // The thinking budget counts towards max_tokens, so leave room for the answer
+      max_tokens: Math.max(params.maxOutputTokens || DEFAULT_MAX_TOKENS, thinkingBudget + MIN_THINKING_BUDGET),
+      messages: chatMessages
+    };
+    if (stream) body.stream = true;
+    if (params.stopSequences) body.stop_sequences = params.stopSequences;
+
+    if (thinkingBudget) {
+      body.thinking = { type: 'enabled', budget_tokens: thinkingBudget };
+      // Thinking fixes the temperature and top_k and only allows top_p from 0.95
+      if (params.topP !== undefined && params.topP >= 0.95) body.top_p = params.topP;
+    } else {
+      // No seed or penalties in the Messages API; temperature tops out at 1
+      if (params.temperature !== undefined) body.temperature = Math.min(params.temperature, 1);
+      if (params.topP !== undefined) body.top_p = params.topP;
+      if (params.topK !== undefined) body.top_k = params.topK;
+    }
+
+    const tools = stream ? toolsFor(config, model) : [];
+    if (tools.length > 0) {
+      body.tools = tools.map(tool => toAnthropicTool(tool.definition));
+    }
+
+    if (system) {
+      body.system = system;
+    }
+
+    return {
+      url: `${baseUrl}/messages`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body
+    };
+  },
+
+  parseResponse: (data) => {
+    const delta: StreamDelta = { text: '', usage: parseUsage(data.usage) };
+    for (const block of data.content || []) {
+      if (block.type === 'text') {
+        delta.text += block.text;
+      } else if (block.type === 'thinking') {
+        delta.reasoning = (delta.reasoning || '') + block.thinking;
+        delta.reasoningSignature = block.signature;
+      }
+    }
+    return delta;
+  },
+
+  parseStreamEvent: (event) => {
+    // Input tokens come with message_start, the output total with message_delta
+    if (event.type === 'message_start') return { usage: parseUsage(event.message?.usage) };
+    if (event.type === 'message_delta') return { usage: parseUsage(event.usage) };
+    if (event.type === 'message_stop') return { done: true };
+    if (event.type !== 'content_block_delta') return null;
+    switch (event.delta?.type) {
+      case 'thinking_delta':
+        return { reasoning: event.delta.thinking };
+      case 'signature_delta':
+        return { reasoningSignature: event.delta.signature };
+      default:
+        return event.delta?.text ? { text: event.delta.text } : null;
+    }
+  },
+
+  listModels: async (apiKey, baseUrl) => {
+    const res = await fetch(`${baseUrl}/models`, {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      }
+    });
+    if (!res.ok) throw new Error(res.statusText);
+    const data: any = await res.json();
+    return (data.data || []).map((m: any) => m.id).sort().map((id: string) => ({ id }));
+  },
+
+  classifyError: classifyHttpError,
+
+  stream: (messages, ctx, callbacks) => streamWithTools(messages, ctx, callbacks)
+};
+
+interface Turn {
+  blocks: any[]; // Assistant content blocks, in API form, for replaying the turn
+  stopReason?: string;
+  usage?: TokenUsage;
+}
+
+// Read one streamed reply, rebuilding its content blocks (text, thinking, tool_use) as they
+// arrive so a tool-use turn can be sent back verbatim, signatures included
+const readTurn = async (response: Response, { onChunk, onReasoning }: StreamCallbacks): Promise<Turn> => {
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('application/json')) {
+    const data: any = await response.json();
+    const delta = anthropicAdapter.parseResponse(data);
+    if (delta.reasoning) onReasoning?.(delta.reasoning);
+    if (delta.text) onChunk(delta.text);
+    return { blocks: data.content || [], stopReason: data.stop_reason, usage: mergeUsage(undefined, delta.usage) };
+  }
+
+  const blocks: any[] = [];
+  const partialJson: Record<number, string> = {};
+  let stopReason: string | undefined;
+  let usage: TokenUsage | undefined;
+  let finished = false;
+
+  // The SSE event name and the payload's type agree; the name covers payloads without one
+  await readStreamEvents(response, 'sse', (event, type) => {
+    switch (event.type || type) {
+      case 'message_start':
+        usage = mergeUsage(usage, parseUsage(event.message?.usage));
+        break;
+      case 'content_block_start':
+        blocks[event.index] = { ...event.content_block };
+        if (event.content_block.type === 'tool_use') partialJson[event.index] = '';
+        break;
+      case 'content_block_delta': {
+        const block = blocks[event.index];
+        const delta = event.delta;
+        if (!block) break;
+        if (delta.type === 'text_delta') {
+          block.text = (block.text || '') + delta.text;
+          onChunk(delta.text);
+        } else if (delta.type === 'thinking_delta') {
+          block.thinking = (block.thinking || '') + delta.thinking;
+          onReasoning?.(delta.thinking);
+        } else if (delta.type === 'signature_delta') {
+          block.signature = delta.signature;
+        } else if (delta.type === 'input_json_delta') {
+          partialJson[event.index] += delta.partial_json;
+        }
+        break;
+      }
+      case 'content_block_stop':
+        if (partialJson[event.index] !== undefined && blocks[event.index]) {
+          try {
+            blocks[event.index].input = JSON.parse(partialJson[event.index] || '{}');
+          } catch {
+            blocks[event.index].input = {};
+          }
+        }
+        break;
+      case 'message_delta':
+        stopReason = event.delta?.stop_reason || stopReason;
+        usage = mergeUsage(usage, parseUsage(event.usage));
+        break;
+      case 'message_stop':
+        finished = true;
+        break;
+      case 'error':
+        // e.g. overloaded_error after the stream has started
+        throw new ProviderError(event.error?.message || 'Stream error', {
+          status: event.error?.type === 'overloaded_error' ? 529 : undefined
+        });
+    }
+  });
+
+  if (!finished) throw new StreamInterruptedError();
+  return { blocks: blocks.filter(Boolean), stopReason, usage };
+};
+
+const streamWithTools = async (
+  messages: ChatMessage[],
+  ctx: ProviderContext,
+  callbacks: StreamCallbacks
+): Promise<ApiResponse> => {
+  const { onWebSearch, onToolStep, signal } = callbacks;
+  const request = anthropicAdapter.buildRequest(messages, ctx, true);
+  let history: any[] = request.body.messages;
+  let fullText = '';
+  let thinkingBlocks: ThinkingBlock[] | undefined;
+  let usage: TokenUsage | undefined;
+
+  for (let iteration = 0; ; iteration++) {
+    const response = await providerFetch(ctx, request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify({ ...request.body, messages: history }),
+      signal
+    });
+    if (!response.ok) throw await errorFromResponse(response);
+
+    const turn = await readTurn(response, callbacks);
+    usage = addUsage(usage, turn.usage);
+    fullText += turn.blocks.filter(b => b.type === 'text').map(b => b.text).join('');
+    // All rounds' thinking is shown, but only the final turn's blocks go back with the reply's text;
+    // each signature covers its own block, so they are kept as they came
+    const signed = turn.blocks.filter(b => b.type === 'thinking' && b.signature);
+    thinkingBlocks = signed.length > 0 ? signed.map(b => ({ thinking: b.thinking || '', signature: b.signature })) : undefined;
+
+    const toolUses = turn.blocks.filter(b => b.type === 'tool_use');
+    if (turn.stopReason !== 'tool_use' || toolUses.length === 0 || iteration >= MAX_TOOL_ITERATIONS) break;
+
+    // Every tool_use block needs a matching tool_result in the next user turn
+    const toolResults: any[] = [];
+    for (const toolUse of toolUses) {
+      const result = await runToolCall(
+        { id: toolUse.id, name: toolUse.name, args: toolUse.input },
+        { config: ctx.config, signal, onWebSearch },
+        onToolStep
+      );
+      toolResults.push({
+        type: 'tool_result',
+        tool_use_id: toolUse.id,
+        content: result.content,
+        ...(result.isError && { is_error: true })
+      });
+    }
+
+    history = [
+      ...history,
+      { role: 'assistant', content: turn.blocks },
+      { role: 'user', content: toolResults }
+    ];
+  }
+
+  return { text: fullText, thinkingBlocks, usage };
+};
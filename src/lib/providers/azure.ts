@@ -0,0 +1,41 @@
+import { DEFAULT_AZURE_API_VERSION } from '../types';
+import type { ProviderContext } from './types';
+import { createOpenAICompatibleAdapter } from './openai';
+
+// Azure OpenAI: Chat Completions, Images and Audio routed by deployment name (the "model" the user picks),
+// authenticated with an api-key header and versioned through ?api-version=.
+
+// Last data-plane API version that can list deployments
+const DEPLOYMENTS_API_VERSION = '2022-12-01';
+
+// Accept the resource endpoint with or without a trailing /openai
+const endpoint = (baseUrl: string) => baseUrl.replace(/\/+$/, '').replace(/\/openai$/, '');
+
+const apiVersion = ({ provider, config }: ProviderContext) =>
+  config.customProviders?.find(p => p.id === provider)?.apiVersion || DEFAULT_AZURE_API_VERSION;
+
+export const azureAdapter = createOpenAICompatibleAdapter({
+  id: 'azure',
+  defaultBaseUrl: '',
+  chatUrl: (ctx) =>
+    `${endpoint(ctx.baseUrl)}/openai/deployments/${encodeURIComponent(ctx.model)}/chat/completions?api-version=${encodeURIComponent(apiVersion(ctx))}`,
+  authHeaders: (apiKey) => ({ 'api-key': apiKey }),
+  imagesUrl: (ctx, operation) =>
+    `${endpoint(ctx.baseUrl)}/openai/deployments/${encodeURIComponent(ctx.model)}/images/${operation}?api-version=${encodeURIComponent(apiVersion(ctx))}`,
+  transcriptionUrl: (ctx) =>
+    `${endpoint(ctx.baseUrl)}/openai/deployments/${encodeURIComponent(ctx.model)}/audio/transcriptions?api-version=${encodeURIComponent(apiVersion(ctx))}`,
+  speechUrl: (ctx) =>
+    `${endpoint(ctx.baseUrl)}/openai/deployments/${encodeURIComponent(ctx.model)}/audio/speech?api-version=${encodeURIComponent(apiVersion(ctx))}`,
+
+  listModels: async (apiKey, baseUrl) => {
+    const res = await fetch(`${endpoint(baseUrl)}/openai/deployments?api-version=${DEPLOYMENTS_API_VERSION}`, {
+      headers: { 'api-key': apiKey }
+    });
+    if (!res.ok) throw new Error(res.statusText);
+    const data: any = await res.json();
+    return (data.data || [])
+      .filter((d: any) => !d.status || d.status === 'succeeded')
+      .map((d: any) => ({ id: d.id, baseModel: d.model }))
+      .sort((a: any, b: any) => a.id.localeCompare(b.id));
+  }
+});
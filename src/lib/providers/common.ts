@@ -0,0 +1,136 @@
+import type { AppConfig, ChatMessage, DocumentAttachment, GenerationParams, ModelSettings, ThinkingBlock } from '../types';
+import { messageImages, withDocumentText } from '../attachments';
+
+/**
+ * Parse image URL for Gemini API format.
+ * Expects a data URL (base64). External URLs should be converted to data URLs
+ * by the background script before reaching here.
+ */
+export const parseImageForGemini = (imageUrl: string): { inlineData: { mimeType: string; data: string } } | null => {
+  if (!imageUrl) return null;
+
+  // Check if it's a data URL (base64)
+  if (imageUrl.startsWith('data:')) {
+    const [meta, data] = imageUrl.split(',');
+    if (!meta || !data) return null;
+
+    const mimeType = meta.split(':')[1]?.split(';')[0];
+    if (!mimeType) return null;
+
+    return { inlineData: { mimeType, data } };
+  }
+
+  // External URLs should have been converted to data URLs by the background script
+  // Log a warning if we somehow get here with an external URL
+  console.warn('parseImageForGemini received external URL instead of data URL:', imageUrl.substring(0, 100));
+  return null;
+};
+
+// Base64 without FileReader or Buffer, so it runs in the renderer and the main process alike
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/** A generated image as a data URL. Links are downloaded, as they expire and replies keep images inline. */
+export const imageAsDataUrl = async (image: string, signal?: AbortSignal): Promise<string> => {
+  if (image.startsWith('data:')) return image;
+  const response = await fetch(image, { signal });
+  if (!response.ok) throw new Error(`Could not download the generated image (HTTP ${response.status})`);
+  return responseAsDataUrl(response, 'image/png');
+};
+
+/** A binary response body (an image, generated speech) as a data URL. */
+export const responseAsDataUrl = async (response: Response, fallbackType: string): Promise<string> => {
+  const mimeType = response.headers.get('content-type')?.split(';')[0] || fallbackType;
+  return `data:${mimeType};base64,${toBase64(new Uint8Array(await response.arrayBuffer()))}`;
+};
+
+/** A data URL as a Blob, for multipart uploads. */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [meta, data = ''] = dataUrl.split(',');
+  const mimeType = meta.split(':')[1]?.split(';')[0] || 'application/octet-stream';
+  return new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type: mimeType });
+};
+
+export interface ApiMessage {
+  role: string;
+  content: string;
+  images?: string[];
+  pdfs?: DocumentAttachment[]; // Whole PDFs for the model to read itself; other documents are in content
+  thinkingBlocks?: ThinkingBlock[];
+}
+
+/** Signed thinking a reply carries, including the single block of messages saved before thinkingBlocks. */
+export const signedThinking = (message: ChatMessage): ThinkingBlock[] =>
+  message.thinkingBlocks
+  ?? (message.reasoning && message.reasoningSignature ? [{ thinking: message.reasoning, signature: message.reasoningSignature }] : []);
+
+/**
+ * Sanitize ChatMessage array for API consumption.
+ * Removes UI-only fields and filters out empty assistant messages.
+ * Documents become labeled text in the content, except PDFs the provider reads natively.
+ */
+export const sanitizeMessagesForApi = (messages: ChatMessage[], { nativePdf = false } = {}): ApiMessage[] => {
+  return messages
+    // Filter out empty assistant messages (created during web search flow)
+    .filter(m => !(m.role === 'assistant' && !m.content && messageImages(m).length === 0))
+    // Keep only API-relevant fields
+    .map(m => {
+      const documents = m.documents || [];
+      const pdfs = nativePdf ? documents.filter(d => d.data) : [];
+      const sanitized: ApiMessage = {
+        role: m.role,
+        content: withDocumentText(m.content, documents.filter(d => !pdfs.includes(d)))
+      };
+      if (pdfs.length > 0) {
+        sanitized.pdfs = pdfs;
+      }
+      const images = messageImages(m);
+      if (m.role === 'assistant' && images.length > 0) {
+        // Models only take images from the user; a generated one is sent back by adding it to a new message
+        const note = images.length === 1 ? '[Generated an image]' : `[Generated ${images.length} images]`;
+        sanitized.content = [sanitized.content, note].filter(Boolean).join('\n\n');
+      } else if (images.length > 0) {
+        sanitized.images = images;
+      }
+      const thinkingBlocks = signedThinking(m);
+      if (thinkingBlocks.length > 0) {
+        sanitized.thinkingBlocks = thinkingBlocks;
+      }
+      return sanitized;
+    });
+};
+
+export const modelSettingsKey = (provider: string, model: string) => `${provider}:${model}`;
+
+export const getModelSettings = (config: AppConfig, provider: string, model: string): ModelSettings =>
+  config.modelSettings?.[modelSettingsKey(provider, model)] || {};
+
+// The prompt in use can ask for images even when the model normally chats
+export const generatesImages = (config: AppConfig, provider: string, model: string): boolean =>
+  !!config.promptGeneratesImages || !!getModelSettings(config, provider, model).generateImages;
+
+// Leaves unset fields out of a request body so the provider applies its own defaults
+export const withoutUndefined = <T extends object>(fields: T): Partial<T> =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+/** Sampling parameters for a request: the model's defaults, overridden by the prompt template's. */
+export const getGenerationParams = (config: AppConfig, provider: string, model: string): GenerationParams => {
+  const defaults = getModelSettings(config, provider, model);
+  const prompt = config.promptParams || {};
+  const stopSequences = (prompt.stopSequences ?? defaults.stopSequences)?.filter(Boolean);
+  return withoutUndefined({
+    temperature: prompt.temperature ?? defaults.temperature,
+    topP: prompt.topP ?? defaults.topP,
+    topK: prompt.topK ?? defaults.topK,
+    maxOutputTokens: prompt.maxOutputTokens ?? defaults.maxOutputTokens,
+    stopSequences: stopSequences?.length ? stopSequences : undefined,
+    seed: prompt.seed ?? defaults.seed,
+    presencePenalty: prompt.presencePenalty ?? defaults.presencePenalty,
+    frequencyPenalty: prompt.frequencyPenalty ?? defaults.frequencyPenalty
+  });
+};
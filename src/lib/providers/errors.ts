@@ -0,0 +1,100 @@
+import { isQuotaError } from './keys';
+
+// Coarse error categories adapters map provider failures onto, so callers can decide
+// whether to retry, rotate keys or fail over, and the UI can offer a way out.
+export type ErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate_limit'
+  | 'context_length'
+  | 'content_filter'
+  | 'model_not_found'
+  | 'server'
+  | 'network'
+  | 'interrupted'
+  | 'aborted'
+  | 'invalid_request'
+  | 'unknown';
+
+export class ProviderError extends Error {
+  status?: number;
+  retryAfter?: number; // Seconds, from the Retry-After header when present
+
+  constructor(message: string, options: { status?: number; retryAfter?: number } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+// The response started but the stream broke off or ended before the reply was complete
+export class StreamInterruptedError extends Error {
+  constructor(message = 'Connection lost before the reply was complete') {
+    super(message);
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.round((date - Date.now()) / 1000));
+};
+
+/** Build a ProviderError from a non-2xx response, pulling the message out of the usual JSON error shapes. */
+export const errorFromResponse = async (response: Response): Promise<ProviderError> => {
+  const raw = await response.text().catch(() => '');
+  let message = raw || response.statusText;
+  try {
+    const json = JSON.parse(raw);
+    const detail = json.error?.message || json.message || (typeof json.error === 'string' ? json.error : '');
+    if (detail) message = detail;
+  } catch {
+    // Not JSON, keep the raw body
+  }
+  return new ProviderError(message || `HTTP ${response.status}`, {
+    status: response.status,
+    retryAfter: parseRetryAfter(response.headers.get('retry-after'))
+  });
+};
+
+// fetch rejects with a TypeError when the request never got a response
+export const isNetworkError = (error: unknown) =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+const CONTEXT_LENGTH_PATTERN = /context[ _]length|context window|maximum context|prompt is too long|input token count|too many tokens|exceeds the maximum number of tokens/;
+const CONTENT_FILTER_PATTERN = /content[ _]filter|content management policy|responsible ai|safety (settings|filter|system)|blocked due to|flagged|usage polic/;
+const MODEL_NOT_FOUND_PATTERN = /model_not_found|model .*(not found|does not exist)|no such model|unknown model|invalid model|not a valid model/;
+
+/** Default classification shared by the built-in adapters. */
+export const classifyHttpError = (error: unknown): ErrorKind => {
+  if ((error as any)?.name === 'AbortError') return 'aborted';
+  if (isNetworkError(error)) return 'network';
+  if (error instanceof StreamInterruptedError) return 'interrupted';
+
+  const status = error instanceof ProviderError ? error.status : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  const lower = message.toLowerCase();
+
+  // Gemini reports a bad key as a 400, so look at the message too
+  if (status === 401 || status === 403 || /invalid api key|incorrect api key|api key not valid|unauthorized/.test(lower)) {
+    return 'auth';
+  }
+  if (status === 402) return 'quota';
+  if (status === 429) {
+    return /quota|insufficient|billing|credit/.test(lower) ? 'quota' : 'rate_limit';
+  }
+  // These come back as 400/404/413 with the cause only in the message
+  if (CONTEXT_LENGTH_PATTERN.test(lower)) return 'context_length';
+  if (CONTENT_FILTER_PATTERN.test(lower)) return 'content_filter';
+  if (status === 404 || MODEL_NOT_FOUND_PATTERN.test(lower)) return 'model_not_found';
+  if (status !== undefined && status >= 500) return 'server';
+  if (status === 400 || status === 413 || status === 422) return 'invalid_request';
+
+  if (/rate limit|rate_limit|too many requests/.test(lower)) return 'rate_limit';
+  if (isQuotaError(message)) return 'quota';
+  return 'unknown';
+};
@@ -0,0 +1,66 @@
+import type { AppConfig } from '../types';
+import type { ErrorKind } from './errors';
+
+// Automatic failover: when a request fails for reasons another model could get around
+// (outage, quota, bad key, network), retry down the configured backup models in order.
+
+export interface ChainEntry {
+  provider: string;
+  model: string;
+}
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10000;
+
+// Worth trying the next model for. Invalid requests would fail the same way elsewhere.
+// A broken stream only fails over when nothing reached the user yet (see canFailover).
+const FAILOVER_KINDS: ErrorKind[] = ['auth', 'quota', 'rate_limit', 'model_not_found', 'server', 'network', 'interrupted'];
+
+/** The selected model followed by the backup models, without duplicates. */
+export const buildFallbackChain = (config: AppConfig): ChainEntry[] => {
+  const primary = { provider: config.selectedProvider, model: config.selectedModel[config.selectedProvider] };
+  if (config.autoFailover === false) return [primary];
+
+  const chain = [primary];
+  Object.values(config.backupModels || {}).flat().forEach(({ provider, model }) => {
+    if (!chain.some(entry => entry.provider === provider && entry.model === model)) {
+      chain.push({ provider, model });
+    }
+  });
+  return chain;
+};
+
+/** Config with the given chain entry selected, so adapters see it as the chosen model. */
+export const configForEntry = (config: AppConfig, entry: ChainEntry): AppConfig => ({
+  ...config,
+  selectedProvider: entry.provider,
+  selectedModel: { ...config.selectedModel, [entry.provider]: entry.model }
+});
+
+export const shouldFailover = (kind: ErrorKind) => FAILOVER_KINDS.includes(kind);
+
+// Failures that are down to the API key rather than the model
+export const isKeyError = (kind: ErrorKind) => kind === 'auth' || kind === 'quota' || kind === 'rate_limit';
+
+/** Exponential backoff before the given retry (1-based), stretched to Retry-After on the same provider. */
+export const failoverDelay = (retry: number, retryAfter?: number) => {
+  const backoff = BASE_DELAY_MS * 2 ** (retry - 1);
+  return Math.min(Math.max(backoff, (retryAfter || 0) * 1000), MAX_DELAY_MS);
+};
+
+export const waitForRetry = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,267 @@
+import type { ChatMessage, TokenUsage } from '../types';
+import type { ApiResponse, ProviderAdapter, ProviderContext, SpeechOptions, StreamCallbacks, StreamDelta, TranscribeOptions, WebSearchSource } from './types';
+import { getGenerationParams, parseImageForGemini, sanitizeMessagesForApi, toBase64, withoutUndefined } from './common';
+import { StreamInterruptedError, classifyHttpError, errorFromResponse } from './errors';
+import { providerFetch } from './inspector';
+import { readStreamEvents } from './stream';
+import { addUsage, mergeUsage } from './usage';
+import { GOOGLE_SEARCH_TOOL, WEB_SEARCH_TOOL } from './webSearch';
+import { getEnabledTools, runToolCall, toGeminiTool } from '../tools';
+import { wavFile } from '../wav';
+
+const MAX_TOOL_ITERATIONS = 5; // Prevent infinite tool loops
+
+// Grounding citations attached to a candidate when the google_search tool was used
+const groundingSources = (candidate: any): WebSearchSource[] | undefined => {
+  const chunks = candidate?.groundingMetadata?.groundingChunks;
+  if (!chunks) return undefined;
+  return chunks
+    .filter((chunk: any) => chunk.web)
+    .map((chunk: any) => ({
+      title: chunk.web.title || 'Source',
+      url: chunk.web.uri || '',
+      snippet: chunk.web.snippet
+    }));
+};
+
+// Thinking tokens are reported apart from the candidate tokens but billed as output
+const parseUsage = (metadata: any): Partial<TokenUsage> | undefined => metadata && {
+  inputTokens: metadata.promptTokenCount,
+  outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+  reasoningTokens: metadata.thoughtsTokenCount
+};
+
+const parseCandidate = (data: any): StreamDelta => {
+  const candidate = data?.candidates?.[0];
+  return {
+    text: candidate?.content?.parts?.[0]?.text,
+    sources: groundingSources(candidate),
+    usage: parseUsage(data?.usageMetadata),
+    done: candidate?.finishReason ? true : undefined
+  };
+};
+
+/**
+ * Streams a reply and runs the functions Gemini calls, feeding their results back until it answers.
+ * The model's parts are replayed as they came, as thinking models sign their function calls.
+ */
+const streamWithTools = async (messages: ChatMessage[], ctx: ProviderContext, callbacks: StreamCallbacks): Promise<ApiResponse> => {
+  const { onChunk, onWebSearch, onToolStep, signal } = callbacks;
+  const request = googleAdapter.buildRequest(messages, ctx, true);
+  let contents: any[] = request.body.contents;
+  let fullText = '';
+  let usage: TokenUsage | undefined;
+  const sources: WebSearchSource[] = [];
+
+  for (let iteration = 0; ; iteration++) {
+    const response = await providerFetch(ctx, request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify({ ...request.body, contents }),
+      signal
+    });
+    if (!response.ok) throw await errorFromResponse(response);
+
+    const parts: any[] = [];
+    let turnUsage: TokenUsage | undefined;
+    let finished = false;
+    await readStreamEvents(response, 'json-array', event => {
+      const candidate = event?.candidates?.[0];
+      for (const part of candidate?.content?.parts || []) {
+        parts.push(part);
+        if (part.text && !part.thought) {
+          fullText += part.text;
+          onChunk(part.text);
+        }
+      }
+      groundingSources(candidate)?.forEach(source => {
+        if (!sources.some(s => s.url === source.url)) sources.push(source);
+      });
+      // Usage is a running total for the request
+      turnUsage = mergeUsage(turnUsage, parseUsage(event?.usageMetadata));
+      if (candidate?.finishReason) finished = true;
+    });
+    if (!finished) throw new StreamInterruptedError();
+    usage = addUsage(usage, turnUsage);
+
+    const calls = parts.filter(part => part.functionCall);
+    if (calls.length === 0 || iteration >= MAX_TOOL_ITERATIONS) break;
+
+    // Every functionCall part needs a functionResponse part in the next user turn, in the same order
+    const results: any[] = [];
+    for (const [index, { functionCall }] of calls.entries()) {
+      const result = await runToolCall(
+        { id: functionCall.id || `${functionCall.name}-${iteration}-${index}`, name: functionCall.name, args: functionCall.args },
+        { config: ctx.config, signal, onWebSearch },
+        onToolStep
+      );
+      results.push({
+        functionResponse: {
+          ...(functionCall.id && { id: functionCall.id }),
+          name: functionCall.name,
+          response: result.isError ? { error: result.content } : { content: result.content }
+        }
+      });
+    }
+
+    contents = [
+      ...contents,
+      { role: 'model', parts },
+      { role: 'user', parts: results }
+    ];
+  }
+
+  // Citations from native grounding arrive alongside the text; report them once at the end
+  if (sources.length > 0 && onWebSearch) {
+    onWebSearch({
+      query: messages[messages.length - 1]?.content || '',
+      result: fullText,
+      isSearching: false,
+      sources
+    });
+  }
+
+  return { text: fullText, usage };
+};
+
+// Image output models answer with text and inlineData parts, asked for through responseModalities
+const generateImages = async (messages: ChatMessage[], ctx: ProviderContext, signal?: AbortSignal): Promise<ApiResponse> => {
+  const request = googleAdapter.buildRequest(messages, ctx, false);
+  const body = { ...request.body, generationConfig: { ...request.body.generationConfig, responseModalities: ['TEXT', 'IMAGE'] } };
+  const response = await providerFetch(ctx, request.url, { method: 'POST', headers: request.headers, body: JSON.stringify(body), signal });
+  if (!response.ok) throw await errorFromResponse(response);
+
+  const data: any = await response.json();
+  const parts: any[] = data.candidates?.[0]?.content?.parts || [];
+  return {
+    text: parts.filter(part => part.text && !part.thought).map(part => part.text).join(''),
+    images: parts.filter(part => part.inlineData).map(part => `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`),
+    usage: mergeUsage(undefined, parseUsage(data.usageMetadata))
+  };
+};
+
+// Gemini has no transcription endpoint; it hears the audio as input and is told to write it down
+const transcribe = async (audio: string, ctx: ProviderContext, { language, signal }: TranscribeOptions): Promise<string> => {
+  const instruction = 'Transcribe this recording word for word. Reply with the transcript only, without any comment, labels or formatting.'
+    + (language ? ` The speaker talks in the language with ISO-639-1 code "${language}".` : '');
+  const body = {
+    contents: [{ role: 'user', parts: [{ text: instruction }, parseImageForGemini(audio)] }],
+    generationConfig: { temperature: 0 }
+  };
+  const url = `${ctx.baseUrl}/models/${ctx.model}:generateContent?key=${ctx.apiKey}`;
+  const response = await providerFetch(ctx, url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal });
+  if (!response.ok) throw await errorFromResponse(response);
+
+  const data: any = await response.json();
+  const parts: any[] = data.candidates?.[0]?.content?.parts || [];
+  return parts.filter(part => part.text && !part.thought).map(part => part.text).join('').trim();
+};
+
+// TTS models (gemini-2.5-flash-preview-tts...) answer with raw 16-bit PCM, e.g. audio/L16;codec=pcm;rate=24000,
+// which needs a WAV header to be playable
+const synthesizeSpeech = async (text: string, ctx: ProviderContext, { voice, signal }: SpeechOptions): Promise<string> => {
+  const body = {
+    contents: [{ role: 'user', parts: [{ text }] }],
+    generationConfig: {
+      responseModalities: ['AUDIO'],
+      ...(voice && { speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } } })
+    }
+  };
+  const url = `${ctx.baseUrl}/models/${ctx.model}:generateContent?key=${ctx.apiKey}`;
+  const response = await providerFetch(ctx, url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal });
+  if (!response.ok) throw await errorFromResponse(response);
+
+  const data: any = await response.json();
+  const audio = data.candidates?.[0]?.content?.parts?.find((part: any) => part.inlineData)?.inlineData;
+  if (!audio) throw new Error(`${ctx.model} returned no audio. Pick a text-to-speech model such as gemini-2.5-flash-preview-tts.`);
+  if (!/^audio\/(L16|pcm)/i.test(audio.mimeType)) return `data:${audio.mimeType};base64,${audio.data}`;
+  const rate = Number(/rate=(\d+)/.exec(audio.mimeType)?.[1]) || 24000;
+  const pcm = Uint8Array.from(atob(audio.data), c => c.charCodeAt(0));
+  return `data:audio/wav;base64,${toBase64(wavFile(pcm, rate))}`;
+};
+
+export const googleAdapter: ProviderAdapter = {
+  id: 'google',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  capabilities: { vision: true, pdf: true, tools: true, reasoning: false, requiresApiKey: true },
+  // streamGenerateContent without alt=sse streams one JSON array
+  streamFormat: 'json-array',
+
+  buildRequest: (messages, { provider, apiKey, baseUrl, model, config }, stream) => {
+    const sanitized = sanitizeMessagesForApi(messages, { nativePdf: true });
+    // Gemini has no system role in contents; system text goes in systemInstruction
+    const system = sanitized.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const contents = sanitized.filter(m => m.role !== 'system').map(m => {
+      // PDFs go before the question, as inline data like images
+      const parts: any[] = [...(m.pdfs || []).map(doc => parseImageForGemini(doc.data!)).filter(Boolean), { text: m.content }];
+      (m.images || []).forEach(image => {
+        const imagePart = parseImageForGemini(image);
+        if (imagePart) {
+          parts.push(imagePart);
+        }
+      });
+      return {
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts
+      };
+    });
+
+    const body: any = { contents };
+    if (system) {
+      body.systemInstruction = { parts: [{ text: system }] };
+    }
+
+    const params = getGenerationParams(config, provider, model);
+    const generationConfig = withoutUndefined({
+      temperature: params.temperature,
+      topP: params.topP,
+      topK: params.topK,
+      maxOutputTokens: params.maxOutputTokens,
+      stopSequences: params.stopSequences,
+      seed: params.seed,
+      presencePenalty: params.presencePenalty,
+      frequencyPenalty: params.frequencyPenalty
+    });
+    if (Object.keys(generationConfig).length > 0) {
+      body.generationConfig = generationConfig;
+    }
+
+    // Native Google grounding search for Gemini models, unless other tools are on: google_search can't
+    // share a request with function declarations, so search then runs as a function like the others
+    const tools = stream ? getEnabledTools(config, model) : [];
+    const searchEnabled = tools.some(tool => tool.definition.name === WEB_SEARCH_TOOL.function.name);
+    const isGeminiModel = /^gemini-\d+/.test(model);
+    if (searchEnabled && tools.length === 1 && config.webSearchProvider === 'google' && isGeminiModel) {
+      body.tools = [GOOGLE_SEARCH_TOOL];
+    } else if (tools.length > 0) {
+      body.tools = [{ functionDeclarations: tools.map(tool => toGeminiTool(tool.definition)) }];
+    }
+
+    const method = stream ? 'streamGenerateContent' : 'generateContent';
+    return {
+      url: `${baseUrl}/models/${model}:${method}?key=${apiKey}`,
+      headers: { 'Content-Type': 'application/json' },
+      body
+    };
+  },
+
+  parseResponse: parseCandidate,
+  parseStreamEvent: parseCandidate,
+
+  listModels: async (apiKey, baseUrl) => {
+    const res = await fetch(`${baseUrl}/models?key=${apiKey}`);
+    if (!res.ok) throw new Error(res.statusText);
+    const data: any = await res.json();
+    return (data.models || [])
+      .map((m: any) => m.name.replace('models/', ''))
+      .sort()
+      .map((id: string) => ({ id }));
+  },
+
+  classifyError: classifyHttpError,
+
+  stream: streamWithTools,
+  generateImages,
+  transcribe,
+  synthesizeSpeech
+};
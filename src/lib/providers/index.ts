@@ -0,0 +1,268 @@
+import { DEFAULT_SPEECH, DEFAULT_TRANSCRIPTION, LOCAL_SPEECH, LOCAL_TRANSCRIPTION, SYSTEM_SPEECH, type AppConfig, type ChatMessage, type FailedAttempt, type RequestRecord, type ToolStep } from '../types';
+import type { ApiResponse, ModelInfo, ProviderAdapter, ProviderContext, WebSearchStatus } from './types';
+import { ProviderError, isNetworkError, type ErrorKind } from './errors';
+import { buildFallbackChain, configForEntry, failoverDelay, isKeyError, shouldFailover, waitForRetry } from './failover';
+import { recordKeyFailure, recordKeySuccess, selectKey } from './keys';
+import { getDefaultBaseUrl, getProviderAdapter, registerProvider, runAdapterCall, runAdapterStream } from './registry';
+import { openaiAdapter, openrouterAdapter } from './openai';
+import { googleAdapter } from './google';
+import { anthropicAdapter } from './anthropic';
+import { perplexityAdapter } from './perplexity';
+import { ollamaAdapter } from './ollama';
+import { azureAdapter } from './azure';
+import { withPersona } from '../personas';
+
+// Single entry point for provider calls. Used by the renderer, the extension background
+// worker and the Electron main process, so key rotation, quota handling, failover and tool
+// calls behave the same everywhere.
+
+export type {
+  ApiResponse,
+  WebSearchStatus,
+  WebSearchSource,
+  ModelInfo,
+  ProviderAdapter,
+  ProviderCapabilities,
+  ProviderContext,
+  ProviderRequest,
+  StreamCallbacks,
+  StreamDelta,
+  StreamFormat
+} from './types';
+export { ProviderError, classifyHttpError, type ErrorKind } from './errors';
+export { canGenerateImages, canSynthesizeSpeech, canTranscribe, getDefaultBaseUrl, getProviderAdapter, isProviderConfigured, listProviderAdapters, registerProvider } from './registry';
+export { generatesImages, getGenerationParams, getModelSettings } from './common';
+export { addUsage } from './usage';
+export { getKeyHealth, pruneKeyHealth, resetKeyHealth, setKeyStateStorage, type KeyHealth, type KeyStateStorage, type KeyStatus } from './keys';
+
+// Custom providers are OpenAI compatible, so unknown ids fall back to the OpenAI adapter
+registerProvider(openaiAdapter, { fallback: true });
+registerProvider(openrouterAdapter);
+registerProvider(googleAdapter);
+registerProvider(anthropicAdapter);
+registerProvider(perplexityAdapter);
+registerProvider(ollamaAdapter);
+registerProvider(azureAdapter);
+
+type Resolved = { adapter: ProviderAdapter; ctx: ProviderContext } | { error: string; kind: ErrorKind; retryAfter?: number };
+
+// Pick the adapter and an available key for the selected provider
+const resolveCall = async (config: AppConfig): Promise<Resolved> => {
+  const provider = config.selectedProvider;
+  const adapter = getProviderAdapter(provider, config);
+  const apiKeys = config.apiKeys[provider] || [];
+
+  let apiKey = '';
+  if (adapter.capabilities.requiresApiKey || apiKeys.length > 0) {
+    if (apiKeys.length === 0) {
+      return { error: `No API key found for ${provider}`, kind: 'auth' };
+    }
+
+    // Skip keys that are cooling down or were rejected
+    const pick = await selectKey(apiKeys, provider, config.keySelection);
+    if ('error' in pick) return pick;
+    apiKey = pick.key;
+  }
+
+  return {
+    adapter,
+    ctx: {
+      provider,
+      apiKey,
+      baseUrl: config.customBaseUrls[provider] || getDefaultBaseUrl(provider),
+      model: config.selectedModel[provider],
+      config
+    }
+  };
+};
+
+// Cool the key down or set it aside, depending on what went wrong
+const handleFailure = async (ctx: ProviderContext, kind: ErrorKind, error: any) => {
+  if (!ctx.apiKey) return;
+  await recordKeyFailure(ctx.provider, ctx.apiKey, kind, {
+    retryAfter: error instanceof ProviderError ? error.retryAfter : undefined,
+    message: error?.message
+  });
+};
+
+/**
+ * Run a call against the selected model, then down the backup models while failures are
+ * ones another model could get around. `canFailover` lets streaming calls stop once output
+ * has reached the user, since a second model would repeat it.
+ */
+const runWithFailover = async (
+  config: AppConfig,
+  run: (adapter: ProviderAdapter, ctx: ProviderContext) => Promise<ApiResponse>,
+  options: { fallbackError: string; signal?: AbortSignal; canFailover?: () => boolean }
+): Promise<ApiResponse> => {
+  const chain = buildFallbackChain(config);
+  const failedAttempts: FailedAttempt[] = [];
+  let retryAfter: number | undefined;
+
+  // One log across the whole chain, so the inspector shows failed attempts too
+  const log: RequestRecord[] | undefined = config.inspectRequests ? [] : undefined;
+  const withLog = (res: ApiResponse): ApiResponse => log ? { ...res, requestLog: log } : res;
+
+  for (let i = 0; i < chain.length; i++) {
+    const entry = chain[i];
+    if (i > 0) {
+      const sameProvider = entry.provider === chain[i - 1].provider;
+      await waitForRetry(failoverDelay(i, sameProvider ? retryAfter : undefined), options.signal);
+    }
+    retryAfter = undefined;
+
+    // A problem with the key (rate limit, quota, rejected) is worth retrying with the
+    // provider's other keys before moving on; the failed key is skipped on the next pick
+    const keyCount = config.apiKeys[entry.provider]?.filter(Boolean).length || 0;
+    for (let keyTry = 0; ; keyTry++) {
+      const resolved = await resolveCall(configForEntry(config, entry));
+      if ('error' in resolved) {
+        failedAttempts.push({ ...entry, error: resolved.error, kind: resolved.kind });
+        retryAfter = resolved.retryAfter;
+        break;
+      }
+      const adapter = resolved.adapter;
+      const ctx = log ? { ...resolved.ctx, log } : resolved.ctx;
+
+      try {
+        const res = await run(adapter, ctx);
+        if (ctx.apiKey) await recordKeySuccess(ctx.provider, ctx.apiKey);
+        return withLog({ ...res, answeredBy: entry, failedAttempts: failedAttempts.length > 0 ? failedAttempts : undefined });
+      } catch (e: any) {
+        if (e.name === 'AbortError') throw e;
+        const kind = isNetworkError(e) ? 'network' : adapter.classifyError(e);
+        if (kind !== 'network') await handleFailure(ctx, kind, e);
+        failedAttempts.push({ ...entry, error: e.message || options.fallbackError, kind });
+        retryAfter = e instanceof ProviderError ? e.retryAfter : undefined;
+
+        if (!shouldFailover(kind) || options.canFailover?.() === false) {
+          // Output already streamed belongs to this model
+          const answeredBy = options.canFailover?.() === false ? entry : undefined;
+          return withLog({ text: '', error: e.message || options.fallbackError, errorKind: kind, retryAfter, answeredBy, failedAttempts });
+        }
+        if (!isKeyError(kind) || !ctx.apiKey || keyTry >= keyCount - 1) break;
+      }
+    }
+  }
+
+  const last = failedAttempts[failedAttempts.length - 1];
+  const error = failedAttempts.length > 1
+    ? `All ${failedAttempts.length} attempts failed. Last error (${last.model}): ${last.error}`
+    : last.error;
+  return withLog({ text: '', error, errorKind: last.kind as ErrorKind, retryAfter, failedAttempts });
+};
+
+export const executeApiCall = async (
+  messages: ChatMessage[],
+  config: AppConfig
+): Promise<ApiResponse> => {
+  const request = withPersona(messages, config);
+  return runWithFailover(config, (adapter, ctx) => runAdapterCall(adapter, request, ctx), {
+    fallbackError: 'API call failed'
+  });
+};
+
+export const executeApiStream = async (
+  messages: ChatMessage[],
+  config: AppConfig,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal,
+  onWebSearch?: (status: WebSearchStatus) => void,
+  onReasoning?: (text: string) => void,
+  onToolStep?: (step: ToolStep) => void
+): Promise<ApiResponse> => {
+  // Once anything reached the caller, a failure is final
+  let started = false;
+  const track = <A extends unknown[]>(callback?: (...args: A) => void) =>
+    callback && ((...args: A) => {
+      started = true;
+      callback(...args);
+    });
+
+  const callbacks = {
+    onChunk: track(onChunk)!,
+    onWebSearch: track(onWebSearch),
+    onReasoning: track(onReasoning),
+    onToolStep: track(onToolStep),
+    signal
+  };
+  const request = withPersona(messages, config);
+  return runWithFailover(config, (adapter, ctx) => runAdapterStream(adapter, request, ctx, callbacks), {
+    fallbackError: 'Stream failed',
+    signal,
+    canFailover: () => !started
+  });
+};
+
+export const executeFetchModels = async (
+  provider: string,
+  apiKey: string,
+  baseUrl?: string,
+  config?: AppConfig // Needed to resolve the backend of custom providers
+): Promise<ModelInfo[]> => {
+  const adapter = getProviderAdapter(provider, config);
+  try {
+    return await adapter.listModels(apiKey, baseUrl || getDefaultBaseUrl(provider));
+  } catch (e) {
+    console.error("Failed to fetch models", e);
+    throw e;
+  }
+};
+
+// One call outside the chat with the provider's key (rotated and health-tracked like chat calls), without failover
+const runWithProviderKey = async <T>(
+  config: AppConfig,
+  provider: string,
+  model: string,
+  run: (adapter: ProviderAdapter, ctx: ProviderContext) => Promise<T>
+): Promise<T> => {
+  const resolved = await resolveCall({ ...config, selectedProvider: provider, selectedModel: { ...config.selectedModel, [provider]: model } });
+  if ('error' in resolved) throw new ProviderError(resolved.error);
+  const { adapter, ctx } = resolved;
+
+  try {
+    const result = await run(adapter, ctx);
+    if (ctx.apiKey) await recordKeySuccess(ctx.provider, ctx.apiKey);
+    return result;
+  } catch (e: any) {
+    if (e.name !== 'AbortError' && !isNetworkError(e)) await handleFailure(ctx, adapter.classifyError(e), e);
+    throw e;
+  }
+};
+
+/**
+ * Speech to text with the transcription settings: the chosen provider's key and base URL,
+ * or a whisper-compatible server on this machine spoken to like OpenAI's audio API.
+ */
+export const executeTranscription = async (audio: string, config: AppConfig, signal?: AbortSignal): Promise<string> => {
+  const { provider, model, localUrl, language } = config.transcription || DEFAULT_TRANSCRIPTION;
+  if (provider === LOCAL_TRANSCRIPTION) {
+    if (!localUrl) throw new ProviderError('Set the URL of your transcription server in Settings');
+    const ctx = { provider, apiKey: '', baseUrl: localUrl.replace(/\/+$/, ''), model, config };
+    return openaiAdapter.transcribe!(audio, ctx, { language, signal });
+  }
+
+  if (!getProviderAdapter(provider, config).transcribe) {
+    throw new ProviderError(`${provider} can't transcribe audio. Pick another provider for voice input in Settings.`);
+  }
+  return runWithProviderKey(config, provider, model, (adapter, ctx) => adapter.transcribe!(audio, ctx, { language, signal }));
+};
+
+/**
+ * Text to speech with the read-aloud settings, for engines other than the system voices:
+ * the chosen provider's key and base URL, or a local server with an OpenAI-style /audio/speech.
+ */
+export const executeSpeech = async (text: string, config: AppConfig, signal?: AbortSignal): Promise<string> => {
+  const { engine, model = '', voice, rate, localUrl } = config.speech || DEFAULT_SPEECH;
+  if (engine === SYSTEM_SPEECH) throw new ProviderError('System voices are played in the page, not requested from a provider');
+  if (engine === LOCAL_SPEECH) {
+    if (!localUrl) throw new ProviderError('Set the URL of your speech server in Settings');
+    const ctx = { provider: engine, apiKey: '', baseUrl: localUrl.replace(/\/+$/, ''), model, config };
+    return openaiAdapter.synthesizeSpeech!(text, ctx, { voice, speed: rate, signal });
+  }
+
+  if (!getProviderAdapter(engine, config).synthesizeSpeech) {
+    throw new ProviderError(`${engine} can't read text aloud. Pick another voice for reading aloud in Settings.`);
+  }
+  return runWithProviderKey(config, engine, model, (adapter, ctx) => adapter.synthesizeSpeech!(text, ctx, { voice, speed: rate, signal }));
+};
@@ -0,0 +1,157 @@
+import type { RequestRecord } from '../types';
+import type { ProviderContext } from './types';
+
+// Request inspector: when config.inspectRequests is on, provider calls go through
+// recordFetch, which notes what was sent and tees the response body into the record as
+// it is read, so streaming and parsing behave exactly as without it.
+
+// Keeps one record from growing without bound on long streams
+const MAX_FRAMES = 2000;
+const MAX_FRAME_BYTES = 1_000_000;
+
+const SECRET_HEADERS = ['authorization', 'x-api-key', 'api-key', 'x-goog-api-key', 'cookie', 'proxy-authorization'];
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'access_token'];
+
+// Null-body statuses can't be rebuilt into a Response with a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// Enough of the value to tell keys apart
+export const redactSecret = (value: string) => {
+  const token = value.replace(/^(Bearer|Basic)\s+/i, '');
+  const scheme = value.slice(0, value.length - token.length);
+  return `${scheme}••••${token.length > 8 ? token.slice(-4) : ''}`;
+};
+
+export const redactHeaders = (headers: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(headers).map(([name, value]) =>
+    [name, SECRET_HEADERS.includes(name.toLowerCase()) ? redactSecret(value) : value]));
+
+export const redactUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    SECRET_PARAMS.forEach(param => {
+      const value = parsed.searchParams.get(param);
+      if (value) parsed.searchParams.set(param, redactSecret(value));
+    });
+    return decodeURIComponent(parsed.toString());
+  } catch {
+    return url;
+  }
+};
+
+// Inline images and PDFs would dwarf everything else in the log
+const shortenDataUrls = (body: string) =>
+  body.replace(/(data:[\w/+.-]+;base64,)[A-Za-z0-9+/=]{200,}/g, (match, prefix: string) =>
+    `${prefix}…(${Math.round((match.length - prefix.length) * 0.75 / 1024)} KB)`)
+    // Gemini and Ollama take raw base64 in their own fields (Ollama as a list)
+    .replace(/("(?:data|images?)"\s*:\s*\[?\s*"|",\s*")[A-Za-z0-9+/=]{1000,}"/g, (match, prefix: string) =>
+      `${prefix}…(${Math.round((match.length - prefix.length) * 0.75 / 1024)} KB)"`);
+
+// Multipart uploads as one field per line, files by name and size
+const describeForm = (form: FormData) => {
+  const lines: string[] = [];
+  form.forEach((value, name) => {
+    lines.push(typeof value === 'string'
+      ? `${name}: ${value}`
+      : `${name}: ${(value as File).name || 'blob'} (${value.type || 'unknown type'}, ${Math.round(value.size / 1024)} KB)`);
+  });
+  return lines.join('\n');
+};
+
+const headerRecord = (headers: Headers) => {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+};
+
+// The subset of RequestInit provider calls use
+interface FetchInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | FormData;
+  signal?: AbortSignal;
+}
+
+const createRecordId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** fetch that records the exchange into ctx.log. */
+export const recordFetch = async (ctx: ProviderContext, url: string, init: FetchInit) => {
+  const startedAt = Date.now();
+  const record: RequestRecord = {
+    id: createRecordId(),
+    provider: ctx.provider,
+    model: ctx.model,
+    method: init.method || 'GET',
+    url: redactUrl(url),
+    requestHeaders: redactHeaders(init.headers || {}),
+    requestBody: typeof init.body === 'string' ? shortenDataUrls(init.body) : init.body && describeForm(init.body),
+    frames: [],
+    startedAt
+  };
+  ctx.log?.push(record);
+
+  const finish = (error?: unknown) => {
+    if (record.durationMs !== undefined) return;
+    record.durationMs = Date.now() - startedAt;
+    if (error) record.error = (error as Error)?.message || String(error);
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    finish(error);
+    throw error;
+  }
+  record.status = response.status;
+  record.firstByteMs = Date.now() - startedAt;
+  record.responseHeaders = headerRecord(response.headers);
+  if (!response.body || NULL_BODY_STATUSES.includes(response.status)) {
+    finish();
+    return response;
+  }
+
+  let frameBytes = 0;
+  const decoder = new TextDecoder();
+  const addFrame = (data: string) => {
+    if (!data) return;
+    if (record.frames.length >= MAX_FRAMES || frameBytes + data.length > MAX_FRAME_BYTES) {
+      record.framesTruncated = true;
+      return;
+    }
+    frameBytes += data.length;
+    record.frames.push({ at: Date.now() - startedAt, data });
+  };
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          addFrame(decoder.decode());
+          finish();
+          controller.close();
+          return;
+        }
+        addFrame(decoder.decode(value, { stream: true }));
+        controller.enqueue(value);
+      } catch (error) {
+        finish(error);
+        controller.error(error);
+      }
+    },
+    cancel: (reason) => {
+      finish(reason || 'Cancelled');
+      return reader.cancel(reason);
+    }
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+};
+
+/** fetch for provider calls: recorded when the call has a log, plain otherwise. */
+export const providerFetch = (ctx: ProviderContext, url: string, init: FetchInit) =>
+  ctx.log ? recordFetch(ctx, url, init) : fetch(url, init);
@@ -0,0 +1,261 @@
+// API key selection and health tracking, shared by every provider.
+// Where the key health state is persisted depends on the host: chrome.storage.local in the
+// extension, electron-store in the desktop app (installed via setKeyStateStorage).
+
+import type { KeySelection } from '../types';
+import type { ErrorKind } from './errors';
+
+export interface KeyStateStorage {
+  get: <T>(key: string) => Promise<T | null>;
+  set: (key: string, value: unknown) => Promise<void>;
+}
+
+// Reached through globalThis so this module also type-checks for the Electron main process
+const chromeLocal = () => (globalThis as any).chrome?.storage?.local;
+const memoryState = new Map<string, unknown>();
+
+let keyStateStorage: KeyStateStorage = {
+  get: async <T>(key: string): Promise<T | null> => {
+    const local = chromeLocal();
+    if (!local) return (memoryState.get(key) as T) ?? null;
+    try {
+      const result = await local.get(key);
+      return (result[key] as T) || null;
+    } catch {
+      return null;
+    }
+  },
+  set: async (key: string, value: unknown): Promise<void> => {
+    const local = chromeLocal();
+    if (!local) {
+      memoryState.set(key, value);
+      return;
+    }
+    try {
+      await local.set({ [key]: value });
+    } catch (e) {
+      console.error('Failed to save to storage:', e);
+    }
+  }
+};
+
+export const setKeyStateStorage = (storage: KeyStateStorage) => {
+  keyStateStorage = storage;
+};
+
+// Key health: rate limits cool a key down briefly, a used-up quota parks it for longer and a
+// rejected key stays out until the user resets it
+export type KeyStatus = 'healthy' | 'rate_limited' | 'quota' | 'invalid';
+
+export interface KeyHealth {
+  provider: string;
+  key: string; // Filled in when read; only a fingerprint of the key is stored
+  status: KeyStatus;
+  until?: number; // End of the cooldown for rate_limited and quota
+  failures: number; // Consecutive failures, stretches the cooldown when no Retry-After came
+  lastError?: string;
+  lastUsed?: number;
+}
+
+const KEY_HEALTH_STORAGE_KEY = 'apiKeyHealth';
+
+const RATE_LIMIT_COOLDOWN_MS = 30 * 1000;
+const MAX_RATE_LIMIT_COOLDOWN_MS = 15 * 60 * 1000;
+// Quotas reset daily or monthly depending on the provider, so check back every so often
+const QUOTA_COOLDOWN_MS = 60 * 60 * 1000;
+const MAX_QUOTA_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+type StoredKeyHealth = Omit<KeyHealth, 'key'>;
+
+// Keys are stored by a 64-bit fingerprint (cyrb53-style), never in the clear. It only has to
+// tell one provider's keys apart, so it doesn't need to be a cryptographic hash.
+const fingerprint = (key: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < key.length; i++) {
+    const c = key.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+};
+
+const healthId = (provider: string, key: string) => `${provider}:${fingerprint(key)}`;
+
+const newEntry = (provider: string): StoredKeyHealth => ({ provider, status: 'healthy', failures: 0 });
+
+const loadHealth = async (): Promise<Record<string, StoredKeyHealth>> => {
+  try {
+    return (await keyStateStorage.get<Record<string, StoredKeyHealth>>(KEY_HEALTH_STORAGE_KEY)) || {};
+  } catch {
+    return {};
+  }
+};
+
+// Every change is a read-modify-write of the one stored object, so changes run one at a time;
+// otherwise concurrent failovers would overwrite each other's updates
+let healthQueue: Promise<unknown> = Promise.resolve();
+
+const changeHealth = <T>(change: (health: Record<string, StoredKeyHealth>) => T): Promise<T> => {
+  const run = healthQueue.then(async () => {
+    const health = await loadHealth();
+    const result = change(health);
+    try {
+      await keyStateStorage.set(KEY_HEALTH_STORAGE_KEY, health);
+    } catch (e) {
+      console.error('Failed to save API key health:', e);
+    }
+    return result;
+  });
+  healthQueue = run.catch(() => {});
+  return run;
+};
+
+const updateHealth = async (provider: string, key: string, update: (entry: StoredKeyHealth) => StoredKeyHealth) => {
+  const id = healthId(provider, key);
+  await changeHealth(health => {
+    health[id] = update(health[id] || newEntry(provider));
+  });
+};
+
+// Drops entries for keys that were removed, and ones saved with the key in the clear by older versions
+const pruneEntries = (health: Record<string, StoredKeyHealth>, keep: (id: string, entry: StoredKeyHealth) => boolean) => {
+  for (const [id, entry] of Object.entries(health)) {
+    if ('key' in entry || !keep(id, entry)) delete health[id];
+  }
+};
+
+/** Forget the health of keys that are no longer configured. */
+export const pruneKeyHealth = async (apiKeys: Record<string, string[]>): Promise<void> => {
+  const ids = new Set(Object.entries(apiKeys).flatMap(([provider, keys]) => keys.filter(Boolean).map(key => healthId(provider, key))));
+  await changeHealth(health => pruneEntries(health, id => ids.has(id)));
+};
+
+// A cooldown that has run out counts as healthy again
+const effectiveStatus = (entry: StoredKeyHealth | undefined, now = Date.now()): KeyStatus => {
+  if (!entry) return 'healthy';
+  if ((entry.status === 'rate_limited' || entry.status === 'quota') && entry.until !== undefined && entry.until <= now) {
+    return 'healthy';
+  }
+  return entry.status;
+};
+
+/** Health of the given keys for a provider, for display. Keys never used come back healthy. */
+export const getKeyHealth = async (provider: string, keys: string[]): Promise<KeyHealth[]> => {
+  const health = await loadHealth();
+  return keys.map(key => {
+    const entry = health[healthId(provider, key)];
+    return { ...(entry || newEntry(provider)), key, status: effectiveStatus(entry) };
+  });
+};
+
+/** Forget a key's failures, e.g. after the user fixed its billing. */
+export const resetKeyHealth = async (provider: string, key: string): Promise<void> => {
+  await updateHealth(provider, key, entry => ({ ...entry, status: 'healthy', until: undefined, failures: 0, lastError: undefined }));
+};
+
+export const recordKeySuccess = async (provider: string, key: string): Promise<void> => {
+  await updateHealth(provider, key, entry => ({ ...entry, status: 'healthy', until: undefined, failures: 0, lastError: undefined }));
+};
+
+/** Update a key after a failed call. Errors that don't point at the key leave it alone. */
+export const recordKeyFailure = async (
+  provider: string,
+  key: string,
+  kind: ErrorKind,
+  { retryAfter, message }: { retryAfter?: number; message?: string } = {}
+): Promise<void> => {
+  if (kind !== 'rate_limit' && kind !== 'quota' && kind !== 'auth') return;
+
+  await updateHealth(provider, key, entry => {
+    const failures = entry.failures + 1;
+    if (kind === 'auth') {
+      return { ...entry, status: 'invalid', until: undefined, failures, lastError: message };
+    }
+    const [base, max] = kind === 'rate_limit'
+      ? [RATE_LIMIT_COOLDOWN_MS, MAX_RATE_LIMIT_COOLDOWN_MS]
+      : [QUOTA_COOLDOWN_MS, MAX_QUOTA_COOLDOWN_MS];
+    const cooldown = retryAfter !== undefined ? retryAfter * 1000 : Math.min(base * 2 ** (failures - 1), max);
+    return {
+      ...entry,
+      status: kind === 'rate_limit' ? 'rate_limited' : 'quota',
+      until: Date.now() + cooldown,
+      failures,
+      lastError: message
+    };
+  });
+};
+
+// Check if error indicates quota exhaustion
+export const isQuotaError = (error: string): boolean => {
+  const quotaPatterns = [
+    'quota',
+    'rate limit',
+    'rate_limit',
+    'too many requests',
+    'exceeded',
+    'insufficient_quota',
+    'billing',
+    'credits',
+    '429',
+    'resource_exhausted'
+  ];
+  const lowerError = error.toLowerCase();
+  return quotaPatterns.some(p => lowerError.includes(p));
+};
+
+export type KeyPick = { key: string } | { error: string; kind: ErrorKind; retryAfter?: number };
+
+const describeUnavailable = (provider: string, entries: KeyHealth[], now: number): KeyPick => {
+  const cooling = entries.filter(e => e.until !== undefined && e.status !== 'invalid');
+  if (cooling.length === 0) {
+    return { error: `All API keys for ${provider} were rejected as invalid. Check them in Settings.`, kind: 'auth' };
+  }
+  const soonest = Math.min(...cooling.map(e => e.until!));
+  const seconds = Math.max(1, Math.ceil((soonest - now) / 1000));
+  const wait = seconds < 120 ? `${seconds}s` : `${Math.ceil(seconds / 60)} min`;
+  const rateLimited = cooling.filter(e => e.status === 'rate_limited').length;
+  const reason = rateLimited === cooling.length ? 'rate limited' : rateLimited === 0 ? 'out of quota' : 'rate limited or out of quota';
+  return {
+    error: `No available API keys for ${provider} (${reason}). The next one frees up in ${wait}.`,
+    kind: rateLimited === cooling.length ? 'rate_limit' : 'quota',
+    retryAfter: seconds
+  };
+};
+
+/**
+ * Pick a key to use, skipping keys that are cooling down or were rejected.
+ * round-robin takes the next key after the last one used; least-recently-used the one
+ * idle the longest. The choice is recorded so every runtime rotates from the same place.
+ */
+export const selectKey = async (allKeys: string[], provider: string, strategy: KeySelection = 'round-robin'): Promise<KeyPick> => {
+  const keys = allKeys.filter(Boolean);
+  const ids = keys.map(key => healthId(provider, key));
+  // Picked inside the queue so two requests starting together don't both take the same key
+  return changeHealth((health): KeyPick => {
+    pruneEntries(health, (id, entry) => entry.provider !== provider || ids.includes(id));
+    const entries: KeyHealth[] = keys.map((key, i) => ({ ...(health[ids[i]] || newEntry(provider)), key }));
+    // Kept strictly increasing so back-to-back picks still rotate
+    const now = Math.max(Date.now(), ...entries.map(e => (e.lastUsed || 0) + 1));
+    const available = entries.filter(e => effectiveStatus(e, now) === 'healthy');
+    if (available.length === 0) return describeUnavailable(provider, entries, now);
+
+    let picked: KeyHealth;
+    if (strategy === 'random') {
+      picked = available[Math.floor(Math.random() * available.length)];
+    } else if (strategy === 'least-recently-used') {
+      picked = available.reduce((oldest, e) => (e.lastUsed || 0) < (oldest.lastUsed || 0) ? e : oldest);
+    } else {
+      const lastUsed = entries.reduce<KeyHealth | undefined>((latest, e) => (e.lastUsed || 0) > (latest?.lastUsed || 0) ? e : latest, undefined);
+      const start = lastUsed ? keys.indexOf(lastUsed.key) + 1 : 0;
+      const ordered = [...entries.slice(start), ...entries.slice(0, start)];
+      picked = ordered.find(e => available.includes(e))!;
+    }
+
+    const { key, ...entry } = picked;
+    health[healthId(provider, key)] = { ...entry, lastUsed: now };
+    return { key };
+  });
+};
@@ -0,0 +1,82 @@
+import type { ProviderAdapter, StreamDelta } from './types';
+import { getGenerationParams, sanitizeMessagesForApi, withoutUndefined } from './common';
+import { ProviderError, classifyHttpError } from './errors';
+
+// Native Ollama API (/api/chat, /api/tags). Runs locally, so no API key is required;
+// one is still sent as a bearer token when configured (e.g. behind an auth proxy).
+
+const trimBaseUrl = (baseUrl: string) => baseUrl.replace(/\/+$/, '');
+
+const authHeaders = (apiKey: string): Record<string, string> =>
+  apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+
+const parseMessage = (data: any): StreamDelta => {
+  // Errors can also arrive mid-stream as a line of their own
+  if (data.error) throw new ProviderError(data.error);
+  return {
+    text: data.message?.content,
+    reasoning: data.message?.thinking,
+    // Token counts come with the final line
+    usage: data.done ? { inputTokens: data.prompt_eval_count, outputTokens: data.eval_count } : undefined,
+    done: data.done || undefined
+  };
+};
+
+export const ollamaAdapter: ProviderAdapter = {
+  id: 'ollama',
+  defaultBaseUrl: 'http://localhost:11434',
+  capabilities: { vision: true, pdf: false, tools: false, reasoning: true, requiresApiKey: false },
+  streamFormat: 'ndjson',
+
+  buildRequest: (messages, { provider, apiKey, baseUrl, model, config }, stream) => {
+    const msgs = sanitizeMessagesForApi(messages).map(m => {
+      const message: any = { role: m.role, content: m.content };
+      if (m.images) {
+        // Ollama takes raw base64 without the data URL prefix
+        message.images = m.images.map(image => image.split(',')[1] || image);
+      }
+      return message;
+    });
+
+    const body: any = { model, messages: msgs, stream };
+    const params = getGenerationParams(config, provider, model);
+    const options = withoutUndefined({
+      temperature: params.temperature,
+      top_p: params.topP,
+      top_k: params.topK,
+      num_predict: params.maxOutputTokens,
+      stop: params.stopSequences,
+      seed: params.seed,
+      presence_penalty: params.presencePenalty,
+      frequency_penalty: params.frequencyPenalty
+    });
+    if (Object.keys(options).length > 0) {
+      body.options = options;
+    }
+
+    return {
+      url: `${trimBaseUrl(baseUrl)}/api/chat`,
+      headers: { 'Content-Type': 'application/json', ...authHeaders(apiKey) },
+      body
+    };
+  },
+
+  parseResponse: parseMessage,
+  parseStreamEvent: parseMessage,
+
+  listModels: async (apiKey, baseUrl) => {
+    const res = await fetch(`${trimBaseUrl(baseUrl)}/api/tags`, { headers: authHeaders(apiKey) });
+    if (!res.ok) throw new Error(res.statusText);
+    const data: any = await res.json();
+    return (data.models || [])
+      .map((m: any) => ({
+        id: m.name || m.model,
+        size: m.size,
+        parameterSize: m.details?.parameter_size,
+        quantization: m.details?.quantization_level
+      }))
+      .sort((a: any, b: any) => a.id.localeCompare(b.id));
+  },
+
+  classifyError: classifyHttpError
+};
@@ -0,0 +1,514 @@
+import type { ChatMessage, GenerationParams, TokenUsage } from '../types';
+import type { ApiResponse, ProviderAdapter, ProviderContext, ProviderRequest, SpeechOptions, StreamCallbacks, StreamDelta, TranscribeOptions, WebSearchSource } from './types';
+import { dataUrlToBlob, getGenerationParams, imageAsDataUrl, responseAsDataUrl, sanitizeMessagesForApi, withoutUndefined } from './common';
+import { ProviderError, StreamInterruptedError, classifyHttpError, errorFromResponse } from './errors';
+import { providerFetch } from './inspector';
+import { readStreamEvents } from './stream';
+import { addUsage, mergeUsage } from './usage';
+import { WEB_SEARCH_TOOL, GOOGLE_SEARCH_TOOL } from './webSearch';
+import { getEnabledTools, runToolCall, toOpenAITool } from '../tools';
+import { messageImages, withDocumentText } from '../attachments';
+
+// Chat Completions message format, shared by the OpenAI-compatible adapters
+export const buildOpenAIMessages = (messages: ChatMessage[]): any[] => {
+  // Sanitize messages to remove UI-only fields and filter empty messages
+  return sanitizeMessagesForApi(messages).map(m => {
+    if (m.images) {
+      return {
+        role: m.role,
+        content: [
+          { type: "text", text: m.content },
+          ...m.images.map(url => ({ type: "image_url", image_url: { url } }))
+        ]
+      };
+    }
+    return { role: m.role, content: m.content };
+  });
+};
+
+// Grounding citations returned by Gemini models behind an OpenAI-compatible endpoint
+const groundingSources = (metadata: any): WebSearchSource[] | undefined => {
+  if (!metadata?.groundingChunks) return undefined;
+  return metadata.groundingChunks
+    .filter((chunk: any) => chunk.web)
+    .map((chunk: any) => ({
+      title: chunk.web.title || 'Source',
+      url: chunk.web.uri || '',
+      snippet: chunk.web.snippet
+    }));
+};
+
+// completion_tokens already include the reasoning tokens
+const parseUsage = (usage: any): Partial<TokenUsage> | undefined => usage && {
+  inputTokens: usage.prompt_tokens,
+  outputTokens: usage.completion_tokens,
+  reasoningTokens: usage.completion_tokens_details?.reasoning_tokens
+};
+
+export const parseOpenAIResponse = (data: any): StreamDelta => {
+  const choice = data.choices?.[0];
+  return {
+    text: choice?.message?.content || choice?.text,
+    toolCalls: choice?.message?.tool_calls,
+    sources: groundingSources(choice?.message?.groundingMetadata),
+    usage: parseUsage(data.usage)
+  };
+};
+
+export const parseOpenAIStreamEvent = (event: any): StreamDelta | null => {
+  // Gateways like OpenRouter report failures after the stream has started as an error chunk
+  if (event.error) throw new ProviderError(event.error.message || 'Stream error', { status: event.error.code >= 400 ? event.error.code : undefined });
+  const choice = event.choices?.[0];
+  // With include_usage the totals come in a last chunk without choices
+  if (!choice) return event.usage ? { usage: parseUsage(event.usage) } : null;
+  return {
+    text: choice.delta?.content,
+    // reasoning_content is used by models like DeepSeek
+    reasoning: choice.delta?.reasoning_content,
+    toolCalls: choice.delta?.tool_calls,
+    sources: groundingSources(choice.delta?.groundingMetadata),
+    usage: parseUsage(event.usage),
+    done: choice.finish_reason ? true : undefined
+  };
+};
+
+// Merge streamed tool call fragments (keyed by index) into complete calls
+const mergeToolCalls = (toolCalls: any[], fragments: any[]) => {
+  for (const tc of fragments) {
+    if (tc.index !== undefined) {
+      if (!toolCalls[tc.index]) {
+        toolCalls[tc.index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+      }
+      if (tc.id) toolCalls[tc.index].id = tc.id;
+      if (tc.function?.name) toolCalls[tc.index].function.name = tc.function.name;
+      if (tc.function?.arguments) toolCalls[tc.index].function.arguments += tc.function.arguments;
+    } else {
+      // Non-streamed responses carry complete calls
+      toolCalls.push(tc);
+    }
+  }
+};
+
+const webSearchInstruction = ' The web search tool retrieves real-time information. When searching for current status (e.g. "price now", "latest news"), do NOT unnecessarily append the current month/year to the query, as this may limit results. Trust the search tool to provide the latest data. Only specify dates if searching for historical information or specific future projections. If you decide to use the web search tool, you should briefly explain what you are going to search for before calling the tool.';
+
+interface OpenAICompatibleOptions {
+  id: string;
+  defaultBaseUrl: string;
+  headers?: Record<string, string>; // Extra headers sent with every request
+  // Hooks for services that speak the Chat Completions format behind a different URL/auth scheme
+  chatUrl?: (ctx: ProviderContext) => string;
+  authHeaders?: (apiKey: string) => Record<string, string>;
+  listModels?: ProviderAdapter['listModels'];
+  acceptsTopK?: boolean; // OpenAI itself rejects top_k
+  restrictReasoningParams?: boolean; // Reasoning models take only max_completion_tokens (OpenRouter translates itself)
+  // Where images come from: the Images API, or chat completions asked for image output (OpenRouter)
+  imageGeneration?: 'images' | 'chat';
+  imagesUrl?: (ctx: ProviderContext, operation: 'generations' | 'edits') => string;
+  transcriptionUrl?: ((ctx: ProviderContext) => string) | null; // null for services without /audio/transcriptions
+  speechUrl?: ((ctx: ProviderContext) => string) | null; // null for services without /audio/speech
+}
+
+// o1, o3, o4-mini and gpt-5 reject max_tokens and any non-default sampling value with a 400
+const isReasoningModel = (model: string) => /^(o\d|gpt-5(?!-chat))/.test(model.split('/').pop() || model);
+
+// Sampling parameters under their Chat Completions names; reasoning models only get the output limit and seed
+const openAIParams = (params: GenerationParams, acceptsTopK: boolean, reasoningModel: boolean) => withoutUndefined(reasoningModel
+  ? {
+    max_completion_tokens: params.maxOutputTokens,
+    seed: params.seed
+  }
+  : {
+    temperature: params.temperature,
+    top_p: params.topP,
+    top_k: acceptsTopK ? params.topK : undefined,
+    max_tokens: params.maxOutputTokens,
+    stop: params.stopSequences,
+    seed: params.seed,
+    presence_penalty: params.presencePenalty,
+    frequency_penalty: params.frequencyPenalty
+  });
+
+const bearerAuth = (apiKey: string): Record<string, string> => ({ 'Authorization': `Bearer ${apiKey}` });
+
+export const createOpenAICompatibleAdapter = ({
+  id,
+  defaultBaseUrl,
+  headers: extraHeaders = {},
+  chatUrl = ({ baseUrl }) => `${baseUrl}/chat/completions`,
+  authHeaders = bearerAuth,
+  listModels,
+  acceptsTopK = false,
+  restrictReasoningParams = true,
+  imageGeneration = 'images',
+  imagesUrl = ({ baseUrl }, operation) => `${baseUrl}/images/${operation}`,
+  transcriptionUrl = ({ baseUrl }) => `${baseUrl}/audio/transcriptions`,
+  speechUrl = ({ baseUrl }) => `${baseUrl}/audio/speech`
+}: OpenAICompatibleOptions): ProviderAdapter => {
+  const adapter: ProviderAdapter = {
+    id,
+    defaultBaseUrl,
+    capabilities: { vision: true, pdf: false, tools: true, reasoning: true, requiresApiKey: true },
+    streamFormat: 'sse',
+
+    buildRequest: (messages, ctx, stream) => {
+      const { provider, apiKey, model, config } = ctx;
+      const params = openAIParams(getGenerationParams(config, provider, model), acceptsTopK, restrictReasoningParams && isReasoningModel(model));
+      const msgs = buildOpenAIMessages(messages);
+      const url = chatUrl(ctx);
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        ...authHeaders(apiKey),
+        ...extraHeaders
+      };
+
+      if (!stream) {
+        const body: any = { model, messages: msgs, ...params };
+        return { url, headers, body };
+      }
+
+      // Detect tool configuration early to conditionally add instructions
+      const tools = adapter.capabilities.tools ? getEnabledTools(config, model) : [];
+      const webSearchEnabled = tools.some(tool => tool.definition.name === WEB_SEARCH_TOOL.function.name);
+      const isGeminiModel = /^gemini-\d+/.test(model);
+      const useNativeGoogleSearch = webSearchEnabled && config.webSearchProvider === 'google' && isGeminiModel;
+
+      // Add current date/time context for time-sensitive queries
+      const currentDateTime = new Date().toLocaleString('en-US', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZoneName: 'short'
+      });
+
+      // Only add web search instructions for OpenAI-format tool, not for native google_search
+      const dateContext = `IMPORTANT: Today's date is ${currentDateTime}.${(webSearchEnabled && !useNativeGoogleSearch) ? webSearchInstruction : ''}`;
+
+      // Prepend system message with current time if not already present
+      const msgsWithTime = msgs[0]?.role === 'system'
+        ? [{ ...msgs[0], content: `${dateContext}\n\n${msgs[0].content}` }, ...msgs.slice(1)]
+        : [{ role: 'system', content: `${dateContext}\n\nYou are a helpful assistant.` }, ...msgs];
+
+      const body: any = {
+        model,
+        messages: msgsWithTime,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...params
+      };
+
+      if (useNativeGoogleSearch) {
+        // Use native Google grounding search for Gemini models. It can't be combined
+        // with function declarations, so the other tools are left out.
+        body.tools = [GOOGLE_SEARCH_TOOL];
+      } else if (tools.length > 0) {
+        body.tools = tools.map(tool => toOpenAITool(tool.definition));
+        body.tool_choice = 'auto';
+      }
+
+      return { url, headers, body };
+    },
+
+    parseResponse: parseOpenAIResponse,
+    parseStreamEvent: parseOpenAIStreamEvent,
+
+    listModels: listModels || (async (apiKey, baseUrl) => {
+      // Always send API key if available
+      const headers: Record<string, string> = apiKey ? authHeaders(apiKey) : {};
+
+      const res = await fetch(`${baseUrl}/models`, { headers });
+      if (!res.ok) throw new Error(res.statusText);
+      const data: any = await res.json();
+      return (data.data || []).map((m: any) => m.id).sort().map((id: string) => ({ id }));
+    }),
+
+    classifyError: classifyHttpError,
+
+    stream: (messages, ctx, callbacks) => streamWithTools(adapter, messages, ctx, callbacks),
+
+    generateImages: imageGeneration === 'chat'
+      ? (messages, ctx, signal) => generateImagesWithChat(adapter, messages, ctx, signal)
+      : (messages, ctx, signal) => generateImagesWithImagesApi(messages, ctx, signal, {
+        url: operation => imagesUrl(ctx, operation),
+        headers: { ...authHeaders(ctx.apiKey), ...extraHeaders }
+      }),
+
+    // Local whisper servers take no key
+    transcribe: transcriptionUrl
+      ? (audio, ctx, options) => transcribeWithAudioApi(audio, ctx, options, {
+        url: transcriptionUrl(ctx),
+        headers: { ...(ctx.apiKey ? authHeaders(ctx.apiKey) : {}), ...extraHeaders }
+      })
+      : undefined,
+
+    synthesizeSpeech: speechUrl
+      ? (text, ctx, options) => synthesizeWithAudioApi(text, ctx, options, {
+        url: speechUrl(ctx),
+        headers: { ...(ctx.apiKey ? authHeaders(ctx.apiKey) : {}), ...extraHeaders }
+      })
+      : undefined
+  };
+  return adapter;
+};
+
+interface TurnResult {
+  text: string;
+  toolCalls: any[];
+  usage?: TokenUsage;
+}
+
+// Read one streamed (or single JSON) completion, forwarding text and reasoning as it arrives
+const readTurn = async (
+  adapter: ProviderAdapter,
+  response: Response,
+  { onChunk, onReasoning }: StreamCallbacks,
+  sources: WebSearchSource[]
+): Promise<TurnResult> => {
+  let text = '';
+  const toolCalls: any[] = [];
+  let usage: TokenUsage | undefined;
+  let finished = false;
+
+  const apply = (delta: StreamDelta | null) => {
+    if (!delta) return;
+    if (delta.done) finished = true;
+    usage = mergeUsage(usage, delta.usage);
+    if (delta.reasoning) onReasoning?.(delta.reasoning);
+    if (delta.text) {
+      text += delta.text;
+      onChunk(delta.text);
+    }
+    if (delta.toolCalls) mergeToolCalls(toolCalls, delta.toolCalls);
+    delta.sources?.forEach(source => {
+      if (!sources.some(s => s.url === source.url)) sources.push(source);
+    });
+  };
+
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('application/json')) {
+    apply(adapter.parseResponse(await response.json()));
+  } else {
+    await readStreamEvents(response, adapter.streamFormat, event => apply(adapter.parseStreamEvent(event)));
+    // Every completion ends with a finish reason; without one the connection dropped
+    if (!finished) throw new StreamInterruptedError();
+  }
+
+  return { text, toolCalls, usage };
+};
+
+const send = (ctx: ProviderContext, request: ProviderRequest, body: any, signal?: AbortSignal) => providerFetch(ctx, request.url, {
+  method: 'POST',
+  headers: request.headers,
+  body: JSON.stringify(body),
+  signal
+});
+
+// Streaming with the tool loop: the model may call several tools in sequence
+const streamWithTools = async (
+  adapter: ProviderAdapter,
+  messages: ChatMessage[],
+  ctx: ProviderContext,
+  callbacks: StreamCallbacks
+): Promise<ApiResponse> => {
+  const { onWebSearch, onToolStep, signal } = callbacks;
+  const request = adapter.buildRequest(messages, ctx, true);
+
+  const response = await send(ctx, request, request.body, signal);
+  if (!response.ok) throw await errorFromResponse(response);
+
+  const groundingSources: WebSearchSource[] = [];
+  let turn = await readTurn(adapter, response, callbacks, groundingSources);
+  let fullText = turn.text;
+  let usage = turn.usage;
+
+  // If we have grounding sources from native Google search, notify the UI
+  if (groundingSources.length > 0 && onWebSearch) {
+    onWebSearch({
+      query: messages[messages.length - 1]?.content || '',
+      result: fullText,
+      isSearching: false,
+      sources: groundingSources
+    });
+  }
+
+  // Native google_search grounding is resolved server side; only function tools come back here
+  const hasFunctionTools = request.body.tools?.some((tool: any) => tool.type === 'function');
+  let currentMessages: any[] = request.body.messages;
+  const MAX_TOOL_ITERATIONS = 5; // Prevent infinite loops
+
+  // Tool failures come back from runToolCall as error results for the model; anything thrown here
+  // (a failed follow-up request, a dropped stream) fails the reply so failover and "continue" can step in
+  for (let iteration = 0; hasFunctionTools && turn.toolCalls.length > 0 && iteration < MAX_TOOL_ITERATIONS; iteration++) {
+    // Every tool call needs a matching tool message before the model continues
+    const toolMessages: any[] = [];
+    for (const toolCall of turn.toolCalls) {
+      const result = await runToolCall(
+        { id: toolCall.id, name: toolCall.function?.name, args: toolCall.function?.arguments },
+        { config: ctx.config, signal, onWebSearch },
+        onToolStep
+      );
+      toolMessages.push({ role: 'tool', tool_call_id: toolCall.id, content: result.content });
+    }
+
+    currentMessages = [
+      ...currentMessages,
+      {
+        role: 'assistant',
+        content: turn.text || null,
+        tool_calls: turn.toolCalls.map(tc => ({
+          id: tc.id,
+          type: 'function',
+          function: { name: tc.function?.name, arguments: tc.function?.arguments || '{}' }
+        }))
+      },
+      ...toolMessages
+    ];
+
+    // Keep the tools in the follow-up so the model can make more calls
+    const followUpResponse = await send(ctx, request, { ...request.body, messages: currentMessages }, signal);
+    if (!followUpResponse.ok) throw await errorFromResponse(followUpResponse);
+
+    turn = await readTurn(adapter, followUpResponse, callbacks, groundingSources);
+    fullText += turn.text;
+    usage = addUsage(usage, turn.usage);
+  }
+
+  return { text: fullText, usage };
+};
+
+// Images API: the last user message is the prompt, and its images (if any) are the ones to edit
+const generateImagesWithImagesApi = async (
+  messages: ChatMessage[],
+  ctx: ProviderContext,
+  signal: AbortSignal | undefined,
+  endpoint: { url: (operation: 'generations' | 'edits') => string; headers: Record<string, string> }
+): Promise<ApiResponse> => {
+  const { model } = ctx;
+  const last = [...messages].reverse().find(m => m.role === 'user');
+  const prompt = last ? withDocumentText(last.content, last.documents || []) : '';
+  const inputs = last ? messageImages(last) : [];
+  // DALL-E answers with links unless asked for base64; gpt-image models always send base64
+  const responseFormat = /^dall-e/.test(model) ? 'b64_json' : undefined;
+
+  let response: Response;
+  if (inputs.length > 0) {
+    // Multipart, so fetch sets the Content-Type with its boundary
+    const form = new FormData();
+    form.append('model', model);
+    form.append('prompt', prompt);
+    if (responseFormat) form.append('response_format', responseFormat);
+    inputs.forEach((image, i) => {
+      const blob = dataUrlToBlob(image);
+      form.append(inputs.length > 1 ? 'image[]' : 'image', blob, `image-${i + 1}.${blob.type.split('/')[1] || 'png'}`);
+    });
+    response = await providerFetch(ctx, endpoint.url('edits'), { method: 'POST', headers: endpoint.headers, body: form, signal });
+  } else {
+    response = await providerFetch(ctx, endpoint.url('generations'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...endpoint.headers },
+      body: JSON.stringify(withoutUndefined({ model, prompt, n: 1, response_format: responseFormat })),
+      signal
+    });
+  }
+  if (!response.ok) throw await errorFromResponse(response);
+
+  const data: any = await response.json();
+  const results: any[] = data.data || [];
+  const mimeType = `image/${data.output_format || 'png'}`;
+  const images = await Promise.all(results.map(item => item.b64_json
+    ? `data:${mimeType};base64,${item.b64_json}`
+    : imageAsDataUrl(item.url, signal)));
+  return {
+    // DALL-E 3 rewrites the prompt; show what it actually drew
+    text: results.map(item => item.revised_prompt).filter(Boolean).join('\n\n'),
+    images,
+    usage: mergeUsage(undefined, data.usage && { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens })
+  };
+};
+
+// Chat completions with image output: the whole conversation goes along, images come back on the message
+const generateImagesWithChat = async (
+  adapter: ProviderAdapter,
+  messages: ChatMessage[],
+  ctx: ProviderContext,
+  signal?: AbortSignal
+): Promise<ApiResponse> => {
+  const request = adapter.buildRequest(messages, ctx, false);
+  const response = await send(ctx, request, { ...request.body, modalities: ['image', 'text'] }, signal);
+  if (!response.ok) throw await errorFromResponse(response);
+
+  const data: any = await response.json();
+  const message = data.choices?.[0]?.message;
+  const urls: string[] = (message?.images || []).map((image: any) => image.image_url?.url).filter(Boolean);
+  return {
+    text: message?.content || '',
+    images: await Promise.all(urls.map(url => imageAsDataUrl(url, signal))),
+    usage: mergeUsage(undefined, parseUsage(data.usage))
+  };
+};
+
+// Audio API: the recording as a multipart file, the transcript back as JSON
+const transcribeWithAudioApi = async (
+  audio: string,
+  ctx: ProviderContext,
+  { language, signal }: TranscribeOptions,
+  endpoint: { url: string; headers: Record<string, string> }
+): Promise<string> => {
+  const file = dataUrlToBlob(audio);
+  const form = new FormData();
+  form.append('file', file, `speech.${file.type.split('/')[1] || 'wav'}`);
+  form.append('model', ctx.model);
+  form.append('response_format', 'json');
+  if (language) form.append('language', language);
+
+  const response = await providerFetch(ctx, endpoint.url, { method: 'POST', headers: endpoint.headers, body: form, signal });
+  if (!response.ok) throw await errorFromResponse(response);
+  const data: any = await response.json();
+  return (data.text || '').trim();
+};
+
+// Audio API: text in as JSON, the spoken audio back as the response body
+const synthesizeWithAudioApi = async (
+  text: string,
+  ctx: ProviderContext,
+  { voice, speed, signal }: SpeechOptions,
+  endpoint: { url: string; headers: Record<string, string> }
+): Promise<string> => {
+  const body = withoutUndefined({
+    model: ctx.model,
+    input: text,
+    voice: voice || 'alloy',
+    response_format: 'mp3',
+    speed: speed !== undefined && speed !== 1 ? speed : undefined
+  });
+  const response = await providerFetch(ctx, endpoint.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...endpoint.headers },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!response.ok) throw await errorFromResponse(response);
+  return responseAsDataUrl(response, 'audio/mpeg');
+};
+
+export const openaiAdapter = createOpenAICompatibleAdapter({
+  id: 'openai',
+  defaultBaseUrl: 'https://api.openai.com/v1'
+});
+
+export const openrouterAdapter = createOpenAICompatibleAdapter({
+  id: 'openrouter',
+  defaultBaseUrl: 'https://openrouter.ai/api/v1',
+  // Optional headers for OpenRouter
+  headers: {
+    'HTTP-Referer': 'https://github.com/your/repo',
+    'X-Title': 'AI Ask Extension'
+  },
+  acceptsTopK: true,
+  restrictReasoningParams: false,
+  imageGeneration: 'chat',
+  transcriptionUrl: null,
+  speechUrl: null
+});
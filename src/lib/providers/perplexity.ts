@@ -0,0 +1,72 @@
+import type { ProviderAdapter, StreamDelta, WebSearchSource } from './types';
+import { getGenerationParams, withoutUndefined } from './common';
+import { classifyHttpError } from './errors';
+import { buildOpenAIMessages, parseOpenAIResponse, parseOpenAIStreamEvent } from './openai';
+
+// Perplexity answers from its own search; the results it used come back with every chunk
+// as `search_results` (older responses only carry bare `citations` URLs)
+const citedSources = (data: any): WebSearchSource[] | undefined => {
+  if (Array.isArray(data.search_results) && data.search_results.length > 0) {
+    return data.search_results.map((r: any) => ({ title: r.title || r.url, url: r.url, snippet: r.snippet }));
+  }
+  if (Array.isArray(data.citations) && data.citations.length > 0) {
+    return data.citations.map((url: string) => ({ title: url, url }));
+  }
+  return undefined;
+};
+
+const withSources = (parse: (data: any) => StreamDelta | null) => (data: any): StreamDelta => ({
+  ...parse(data),
+  sources: citedSources(data)
+});
+
+// Perplexity API (OpenAI compatible with web search capabilities)
+export const perplexityAdapter: ProviderAdapter = {
+  id: 'perplexity',
+  defaultBaseUrl: 'https://api.perplexity.ai',
+  capabilities: { vision: true, pdf: false, tools: false, reasoning: true, requiresApiKey: true },
+  streamFormat: 'sse',
+
+  buildRequest: (messages, { provider, apiKey, baseUrl, model, config }, stream) => {
+    const params = getGenerationParams(config, provider, model);
+    const body: any = {
+      model: model,
+      messages: buildOpenAIMessages(messages),
+      web_search_options: {
+        search_type: 'pro'
+      }
+    };
+    if (stream) body.stream = true;
+    // Sonar takes no seed or stop sequences
+    Object.assign(body, withoutUndefined({
+      temperature: params.temperature,
+      top_p: params.topP,
+      top_k: params.topK,
+      max_tokens: params.maxOutputTokens,
+      presence_penalty: params.presencePenalty,
+      frequency_penalty: params.frequencyPenalty
+    }));
+
+    return {
+      url: `${baseUrl}/chat/completions`,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body
+    };
+  },
+
+  parseResponse: withSources(parseOpenAIResponse),
+  parseStreamEvent: withSources(parseOpenAIStreamEvent),
+
+  // Perplexity doesn't have a /models endpoint, return known models
+  listModels: async () => [
+    'sonar-pro',
+    'sonar',
+    'sonar-reasoning-pro',
+    'sonar-reasoning'
+  ].map(id => ({ id })),
+
+  classifyError: classifyHttpError
+};
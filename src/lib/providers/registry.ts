@@ -0,0 +1,134 @@
+import type { AppConfig, ChatMessage, TokenUsage } from '../types';
+import type { ApiResponse, ProviderAdapter, ProviderContext, StreamCallbacks, StreamDelta, WebSearchSource } from './types';
+import { generatesImages } from './common';
+import { ProviderError, StreamInterruptedError, errorFromResponse } from './errors';
+import { providerFetch } from './inspector';
+import { readStreamEvents } from './stream';
+import { mergeUsage } from './usage';
+
+const adapters = new Map<string, ProviderAdapter>();
+
+// Used for ids nobody registered, i.e. custom OpenAI-compatible endpoints
+let fallbackAdapterId = 'openai';
+
+export const registerProvider = (adapter: ProviderAdapter, options: { fallback?: boolean } = {}) => {
+  adapters.set(adapter.id, adapter);
+  if (options.fallback) fallbackAdapterId = adapter.id;
+};
+
+// Custom providers name the adapter they use through their type
+export const getProviderAdapter = (provider: string, config?: AppConfig): ProviderAdapter => {
+  const custom = config?.customProviders?.find(p => p.id === provider);
+  const adapter = adapters.get(custom?.type || provider) || adapters.get(fallbackAdapterId);
+  if (!adapter) throw new Error(`No provider adapter registered for ${provider}`);
+  return adapter;
+};
+
+export const listProviderAdapters = (): ProviderAdapter[] => Array.from(adapters.values());
+
+// Whether the provider can be used: it has a key, or its backend doesn't need one
+export const isProviderConfigured = (provider: string, config: AppConfig): boolean =>
+  (config.apiKeys[provider]?.length ?? 0) > 0 || !getProviderAdapter(provider, config).capabilities.requiresApiKey;
+
+// Whether the provider's adapter has an image generation call to switch models to
+export const canGenerateImages = (provider: string, config: AppConfig): boolean =>
+  !!getProviderAdapter(provider, config).generateImages;
+
+// Whether recordings can be transcribed with the provider's key
+export const canTranscribe = (provider: string, config: AppConfig): boolean =>
+  !!getProviderAdapter(provider, config).transcribe;
+
+// Whether replies can be read aloud with the provider's key
+export const canSynthesizeSpeech = (provider: string, config: AppConfig): boolean =>
+  !!getProviderAdapter(provider, config).synthesizeSpeech;
+
+export const getDefaultBaseUrl = (provider: string): string => adapters.get(provider)?.defaultBaseUrl || '';
+
+const postJson = async (adapter: ProviderAdapter, messages: ChatMessage[], ctx: ProviderContext, stream: boolean, signal?: AbortSignal) => {
+  const request = adapter.buildRequest(messages, ctx, stream);
+  const response = await providerFetch(ctx, request.url, {
+    method: 'POST',
+    headers: request.headers,
+    body: JSON.stringify(request.body),
+    signal
+  });
+  if (!response.ok) throw await errorFromResponse(response);
+  return response;
+};
+
+/** Non-streaming call through an adapter's request builder and response parser. */
+export const runAdapterCall = async (adapter: ProviderAdapter, messages: ChatMessage[], ctx: ProviderContext): Promise<ApiResponse> => {
+  const response = await postJson(adapter, messages, ctx, false);
+  const data = await response.json();
+  const delta = adapter.parseResponse(data);
+  return { text: delta.text || '', usage: mergeUsage(undefined, delta.usage) };
+};
+
+/**
+ * Streaming call. Adapters with their own flow (tool loops) handle it themselves; everyone
+ * else gets request -> framed events -> parseStreamEvent -> callbacks. Image generation
+ * answers in one piece, so its text is passed on as a single chunk.
+ */
+export const runAdapterStream = async (
+  adapter: ProviderAdapter,
+  messages: ChatMessage[],
+  ctx: ProviderContext,
+  callbacks: StreamCallbacks
+): Promise<ApiResponse> => {
+  if (generatesImages(ctx.config, ctx.provider, ctx.model)) {
+    if (!adapter.generateImages) throw new ProviderError(`${ctx.provider} can't generate images. Pick an image model, or turn image generation off for ${ctx.model}.`);
+    const result = await adapter.generateImages(messages, ctx, callbacks.signal);
+    if (result.text) callbacks.onChunk(result.text);
+    return result;
+  }
+  if (adapter.stream) return adapter.stream(messages, ctx, callbacks);
+
+  const response = await postJson(adapter, messages, ctx, true, callbacks.signal);
+
+  let fullText = '';
+  let reasoning = '';
+  let reasoningSignature: string | undefined;
+  let usage: TokenUsage | undefined;
+  let finished = false;
+  const sources: WebSearchSource[] = [];
+  const apply = (delta: StreamDelta | null) => {
+    if (!delta) return;
+    if (delta.done) finished = true;
+    usage = mergeUsage(usage, delta.usage);
+    if (delta.reasoning) {
+      reasoning += delta.reasoning;
+      callbacks.onReasoning?.(delta.reasoning);
+    }
+    if (delta.reasoningSignature) reasoningSignature = delta.reasoningSignature;
+    if (delta.text) {
+      fullText += delta.text;
+      callbacks.onChunk(delta.text);
+    }
+    delta.sources?.forEach(source => {
+      if (!sources.some(s => s.url === source.url)) sources.push(source);
+    });
+  };
+
+  // Some gateways ignore stream: true and answer with a single JSON body
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('application/json') && adapter.streamFormat !== 'json-array') {
+    apply(adapter.parseResponse(await response.json()));
+  } else {
+    await readStreamEvents(response, adapter.streamFormat, event => apply(adapter.parseStreamEvent(event)));
+    // Providers mark the last event; a stream that closes without it was cut off
+    if (!finished) throw new StreamInterruptedError();
+  }
+
+  // Citations from native grounding arrive alongside the text; report them once at the end
+  if (sources.length > 0 && callbacks.onWebSearch) {
+    callbacks.onWebSearch({
+      query: messages[messages.length - 1]?.content || '',
+      result: fullText,
+      isSearching: false,
+      sources
+    });
+  }
+
+  // One streamed turn has one thinking block, which the signature covers
+  return { text: fullText, thinkingBlocks: reasoningSignature ? [{ thinking: reasoning, signature: reasoningSignature }] : undefined, usage };
+};
@@ -0,0 +1,211 @@
+import type { StreamFormat } from './types';
+import { StreamInterruptedError } from './errors';
+
+type Feed = (text: string) => void;
+
+// A parser takes decoded text as it arrives, then end() once the body is complete
+interface StreamParser {
+  feed: Feed;
+  end: () => void;
+}
+
+// `type` is the SSE event name (`event:` field), 'message' when the frame has none
+export type StreamEventHandler = (event: any, type?: string) => void;
+
+/**
+ * Read a streamed response body and hand each decoded JSON event to onEvent.
+ * - 'sse': Server-Sent Events, assembled per the spec (multi-line `data:`, `event:` names,
+ *   comments as keep-alives); `[DONE]` is skipped (OpenAI, Anthropic, Perplexity, MCP)
+ * - 'json-array': a JSON array streamed element by element (Gemini streamGenerateContent)
+ * - 'ndjson': one JSON object per line (Ollama)
+ *
+ * A body that fails or ends partway through an event throws StreamInterruptedError.
+ */
+export const readStreamEvents = async (
+  response: Response,
+  format: StreamFormat,
+  onEvent: StreamEventHandler
+): Promise<void> => {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('Response body is unavailable');
+
+  const decoder = new TextDecoder();
+  const parser = format === 'json-array'
+    ? createJsonArrayParser(onEvent)
+    : format === 'ndjson' ? createNdjsonParser(onEvent) : createSseParser(onEvent);
+
+  // A body that errors after the response started means the connection dropped
+  const read = () => reader.read().catch((error: any) => {
+    if (error?.name === 'AbortError') throw error;
+    throw new StreamInterruptedError(`Connection lost: ${error?.message || 'the stream failed'}`);
+  });
+
+  while (true) {
+    const { done, value } = await read();
+    if (done) break;
+    parser.feed(decoder.decode(value, { stream: true }));
+  }
+  parser.feed(decoder.decode());
+  parser.end();
+};
+
+// Parse one JSON payload; malformed input yields undefined. Errors thrown by onEvent
+// (e.g. an error event) are left to propagate.
+const tryParse = (data: string): any => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+};
+
+// Splits on \n, \r\n or \r. A trailing \r is held back in case its \n is in the next chunk.
+const createLineSplitter = (handleLine: (line: string) => void) => {
+  let buffer = '';
+  return {
+    feed: (text: string) => {
+      buffer += text;
+      const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+      buffer = lines.pop() || ''; // Keep the last partial line
+      lines.forEach(handleLine);
+    },
+    // Whatever is left once the body ends, without its line break
+    rest: () => {
+      const rest = buffer.replace(/\r$/, '');
+      buffer = '';
+      return rest;
+    }
+  };
+};
+
+const createSseParser = (onEvent: StreamEventHandler): StreamParser => {
+  let data: string[] = [];
+  let type = '';
+
+  // Returns false when the payload isn't JSON (such payloads are ignored)
+  const dispatch = () => {
+    const lines = data;
+    const eventType = type || 'message';
+    data = [];
+    type = '';
+
+    const payload = lines.join('\n');
+    if (!payload || payload === '[DONE]') return true;
+    const event = tryParse(payload);
+    if (event !== undefined) {
+      onEvent(event, eventType);
+      return true;
+    }
+    // Some servers leave out the blank line between events, so each data line is one event
+    const events = lines.map(tryParse);
+    if (lines.length > 1 && events.every(e => e !== undefined)) {
+      events.forEach(e => onEvent(e, eventType));
+      return true;
+    }
+    return false;
+  };
+
+  const handleLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    // Comments, used as keep-alives (e.g. ": OPENROUTER PROCESSING")
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') data.push(value);
+    else if (field === 'event') type = value;
+    // id and retry only matter for EventSource reconnection
+  };
+
+  const lines = createLineSplitter(handleLine);
+  return {
+    feed: lines.feed,
+    end: () => {
+      const rest = lines.rest();
+      if (rest) handleLine(rest);
+      // Servers often close without the final blank line; a complete event is still delivered
+      if (data.length > 0 && !dispatch()) {
+        throw new StreamInterruptedError('Connection lost: the stream ended partway through an event');
+      }
+    }
+  };
+};
+
+const createNdjsonParser = (onEvent: StreamEventHandler): StreamParser => {
+  const handleLine = (line: string) => {
+    const trim = line.trim();
+    if (!trim) return;
+    const event = tryParse(trim);
+    if (event !== undefined) onEvent(event);
+  };
+  const lines = createLineSplitter(handleLine);
+  return {
+    feed: lines.feed,
+    end: () => {
+      const rest = lines.rest().trim();
+      if (!rest) return;
+      if (tryParse(rest) === undefined) {
+        throw new StreamInterruptedError('Connection lost: the stream ended partway through a line');
+      }
+      handleLine(rest);
+    }
+  };
+};
+
+// Gemini streams `[{...},\n{...}]`. Track brace depth (ignoring braces inside strings)
+// and emit each top-level object as soon as it closes.
+const createJsonArrayParser = (onEvent: StreamEventHandler): StreamParser => {
+  let buffer = '';
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  let scanned = 0;
+
+  const feed = (text: string) => {
+    buffer += text;
+    let consumedUpTo = 0;
+
+    for (let i = scanned; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = depth > 0;
+      } else if (char === '{') {
+        if (depth === 0) start = i;
+        depth++;
+      } else if (char === '}' && depth > 0) {
+        depth--;
+        if (depth === 0 && start !== -1) {
+          const event = tryParse(buffer.substring(start, i + 1));
+          if (event !== undefined) onEvent(event);
+          start = -1;
+          consumedUpTo = i + 1;
+        }
+      }
+    }
+
+    // Drop what has been emitted, keep the partial object
+    buffer = buffer.substring(consumedUpTo);
+    scanned = buffer.length;
+    if (start !== -1) start -= consumedUpTo;
+  };
+
+  return {
+    feed,
+    end: () => {
+      if (depth > 0) throw new StreamInterruptedError('Connection lost: the stream ended partway through an event');
+    }
+  };
+};
@@ -0,0 +1,121 @@
+// Shared shapes for provider calls. Kept free of DOM/extension globals so the
+// Electron main process can import this module as well as the renderer.
+
+import type { AppConfig, ChatMessage, FailedAttempt, RequestRecord, ThinkingBlock, TokenUsage, ToolStep } from '../types';
+import type { ErrorKind } from './errors';
+
+export interface ApiResponse {
+  text: string;
+  error?: string;
+  thinkingBlocks?: ThinkingBlock[]; // Signed Anthropic thinking of the final turn, to replay with the reply
+  answeredBy?: { provider: string; model: string };
+  failedAttempts?: FailedAttempt[]; // Earlier models in the fallback chain that failed
+  usage?: TokenUsage;
+  errorKind?: ErrorKind; // What went wrong when error is set
+  retryAfter?: number; // Seconds until a retry can succeed, when known
+  requestLog?: RequestRecord[]; // Every HTTP exchange of the call, when config.inspectRequests is on
+  images?: string[]; // Data URLs of the images the model generated
+}
+
+export interface WebSearchSource {
+  title: string;
+  url: string;
+  snippet?: string;
+}
+
+export interface WebSearchStatus {
+  query: string;
+  result?: string;
+  isSearching: boolean;
+  sources?: WebSearchSource[];
+  startNewMessage?: boolean; // Follow-up answer after a tool call goes into a new message
+}
+
+export type StreamFormat = 'sse' | 'json-array' | 'ndjson';
+
+// An entry in the model picker. Local backends also report what is on disk.
+export interface ModelInfo {
+  id: string;
+  size?: number; // Bytes
+  parameterSize?: string; // e.g. '8.0B'
+  quantization?: string; // e.g. 'Q4_K_M'
+  baseModel?: string; // Model behind an Azure deployment
+}
+
+export interface ProviderCapabilities {
+  vision: boolean; // Accepts image parts
+  pdf: boolean; // Reads PDF files itself, layout and scanned pages included
+  tools: boolean; // Function calling / native search tools (runs the tool loop)
+  reasoning: boolean; // Streams reasoning separately from the answer
+  requiresApiKey: boolean;
+}
+
+// Everything an adapter needs to build a request for one call
+export interface ProviderContext {
+  provider: string; // Built-in or custom provider id the call is for
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  config: AppConfig;
+  log?: RequestRecord[]; // Set when requests should be recorded for the inspector
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+// What one streamed event contributes to the reply
+export interface StreamDelta {
+  text?: string;
+  reasoning?: string;
+  reasoningSignature?: string;
+  sources?: WebSearchSource[]; // Native grounding citations
+  toolCalls?: any[]; // Raw tool call fragments, merged by adapters that run a tool loop
+  usage?: Partial<TokenUsage>; // Running totals for the request so far
+  done?: boolean; // The provider marked the reply as finished (finish reason, message_stop, done line)
+}
+
+export interface TranscribeOptions {
+  language?: string; // ISO-639-1 hint
+  signal?: AbortSignal;
+}
+
+export interface SpeechOptions {
+  voice?: string;
+  speed?: number; // 1 is normal
+  signal?: AbortSignal;
+}
+
+export interface StreamCallbacks {
+  onChunk: (text: string) => void;
+  onWebSearch?: (status: WebSearchStatus) => void;
+  onReasoning?: (text: string) => void;
+  onToolStep?: (step: ToolStep) => void; // Progress of tool calls other than web search
+  signal?: AbortSignal;
+}
+
+/**
+ * Contract every backend implements. Adapters are registered by id in registry.ts;
+ * the generic call/stream path only uses buildRequest and the parse functions, and
+ * adapters with multi-request flows (tool loops) can take over streaming entirely.
+ */
+export interface ProviderAdapter {
+  id: string;
+  defaultBaseUrl: string;
+  capabilities: ProviderCapabilities;
+  streamFormat: StreamFormat;
+  buildRequest: (messages: ChatMessage[], ctx: ProviderContext, stream: boolean) => ProviderRequest;
+  parseResponse: (data: any) => StreamDelta;
+  parseStreamEvent: (event: any) => StreamDelta | null;
+  listModels: (apiKey: string, baseUrl: string) => Promise<ModelInfo[]>;
+  classifyError: (error: unknown) => ErrorKind;
+  stream?: (messages: ChatMessage[], ctx: ProviderContext, callbacks: StreamCallbacks) => Promise<ApiResponse>;
+  // Image output, used instead of the chat call when the model or prompt asks for images
+  generateImages?: (messages: ChatMessage[], ctx: ProviderContext, signal?: AbortSignal) => Promise<ApiResponse>;
+  // Speech to text for dictation; audio is a data URL
+  transcribe?: (audio: string, ctx: ProviderContext, options: TranscribeOptions) => Promise<string>;
+  // Text to speech for reading replies aloud; resolves to an audio data URL
+  synthesizeSpeech?: (text: string, ctx: ProviderContext, options: SpeechOptions) => Promise<string>;
+}
@@ -0,0 +1,22 @@
+import type { TokenUsage } from '../types';
+
+// Providers report usage as running totals within one response, so a later report replaces
+// an earlier one. Separate requests behind one reply (tool call rounds) are added up.
+
+export const mergeUsage = (current: TokenUsage | undefined, update: Partial<TokenUsage> | undefined): TokenUsage | undefined => {
+  if (!update) return current;
+  const defined = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+  return { inputTokens: 0, outputTokens: 0, ...current, ...defined };
+};
+
+export const addUsage = (total: TokenUsage | undefined, usage: TokenUsage | undefined): TokenUsage | undefined => {
+  if (!total || !usage) return total || usage;
+  const reasoningTokens = total.reasoningTokens === undefined && usage.reasoningTokens === undefined
+    ? undefined
+    : (total.reasoningTokens || 0) + (usage.reasoningTokens || 0);
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    ...(reasoningTokens !== undefined && { reasoningTokens })
+  };
+};
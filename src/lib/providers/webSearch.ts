@@ -0,0 +1,388 @@
+import type { AppConfig } from '../types';
+import type { WebSearchSource } from './types';
+
+// Web Search Tool Definition (OpenAI format)
+export const WEB_SEARCH_TOOL = {
+  type: 'function' as const,
+  function: {
+    name: 'web_search',
+    description: 'Search the web for current information. Use this when you need up-to-date information, recent news, current events, or facts you are unsure about.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'The search query to look up on the web'
+        }
+      },
+      required: ['query']
+    }
+  }
+};
+
+// Google Search Tool Definition (Gemini native format)
+export const GOOGLE_SEARCH_TOOL = {
+  google_search: {}
+};
+
+const searchInstruction = `Based on the web search results above, provide an accurate and up-to-date answer. The search results contain current information - use this data to answer the user's question. Do not rely on your training data if it conflicts with the search results.`;
+
+// Tool result content handed back to the model after a search
+export const formatWebSearchToolResult = (content: string) =>
+  `[WEB SEARCH RESULTS]\n${content}\n\n[INSTRUCTION]\n${searchInstruction}`;
+
+// Handle both 'query' (string) and 'queries' (array) formats.
+// Some models like Gemini may return 'queries' as an array
+export const webSearchQueryFromArgs = (args: any): string | null => {
+  if (args?.query) return args.query;
+  if (Array.isArray(args?.queries) && args.queries.length > 0) return args.queries[0];
+  return null;
+};
+
+// Execute web search using Perplexity or Kagi
+export interface WebSearchResult {
+  content: string;
+  sources: WebSearchSource[];
+}
+
+// Execute web search using Kagi
+const executeKagiWebSearch = async (query: string, kagiSession: string, signal?: AbortSignal): Promise<WebSearchResult> => {
+  try {
+    // URL encode the query
+    const encodedQuery = encodeURIComponent(query).replace(/%20/g, '+');
+
+    const response = await fetch(`https://kagi.com/mother/context?q=${encodedQuery}`, {
+      method: 'POST',
+      headers: {
+        'accept': 'application/vnd.kagi.stream',
+        'accept-language': 'en-US,en;q=0.9',
+        'cache-control': 'no-cache',
+        'content-length': '0',
+        'origin': 'https://kagi.com',
+        'pragma': 'no-cache',
+        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
+        'cookie': `kagi_session=${kagiSession}`
+      },
+      signal
+    });
+
+    if (!response.ok) {
+      return { content: `Kagi search error: ${response.statusText}`, sources: [] };
+    }
+
+    // Kagi returns raw text with JSON-like structure
+    const rawText = await response.text();
+    let content = '';
+    const sources: Array<{ title: string; url: string; snippet?: string }> = [];
+
+    try {
+      // Parse Kagi response
+      // Format is typically lines of JSON objects prefixed with type
+      const lines = rawText.split(/\r?\n/);
+      for (const line of lines) {
+        const trimmedLine = line.trim();
+        if (trimmedLine.startsWith('new_message.json:')) {
+          const jsonStr = trimmedLine.substring('new_message.json:'.length);
+          try {
+            // Attempt to clean trailing garbage if simple parse fails
+            let data;
+            try {
+              data = JSON.parse(jsonStr);
+            } catch (e) {
+              // Try to find the last closing brace
+              const lastBrace = jsonStr.lastIndexOf('}');
+              if (lastBrace !== -1) {
+                data = JSON.parse(jsonStr.substring(0, lastBrace + 1));
+              } else {
+                throw e;
+              }
+            }
+
+            if (data.md) {
+              content = data.md;
+            }
+
+            if (data.references_md) {
+              // Format: [^1]: [Title](url) (percentage)
+              const regex = /\[\^(\d+)\]:\s*\[(.*?)\]\((.*?)\)/g;
+              let match;
+              while ((match = regex.exec(data.references_md)) !== null) {
+                sources.push({
+                  title: match[2],
+                  url: match[3]
+                });
+              }
+            }
+          } catch (parseError) {
+            console.error('Error parsing Kagi JSON payload:', parseError);
+          }
+          // We found the message, breaks out of loop.
+          // Note: In case of multiple messages, we might want the last one,
+          // but Kagi usually sends one final 'done' state message.
+          if (content) break;
+        }
+      }
+    } catch (e) {
+      console.warn('Failed to parse Kagi structured response', e);
+    }
+
+    // Fallback parsing if structured parse failed
+    if (!content) {
+      const mdMatch = rawText.match(/"md":"([\s\S]*?)","metadata"/);
+      if (mdMatch && mdMatch[1]) {
+        // Unescape the JSON string content
+        content = mdMatch[1]
+          .replace(/\\n/g, '\n')
+          .replace(/\\"/g, '"')
+          .replace(/\\\\/g, '\\');
+      } else {
+        content = rawText;
+      }
+    }
+
+    return { content: content || 'No search results found.', sources };
+  } catch (e: any) {
+    return { content: `Kagi search failed: ${e.message}`, sources: [] };
+  }
+};
+
+// Execute web search using Perplexity
+const executePerplexityWebSearch = async (query: string, config: AppConfig, signal?: AbortSignal): Promise<WebSearchResult> => {
+  const perplexityKeys = config.apiKeys['perplexity'];
+  if (!perplexityKeys || perplexityKeys.length === 0) {
+    return { content: 'Error: No Perplexity API key configured for web search.', sources: [] };
+  }
+
+  const apiKey = perplexityKeys[Math.floor(Math.random() * perplexityKeys.length)];
+  const baseUrl = config.customBaseUrls['perplexity'] || 'https://api.perplexity.ai';
+  const model = 'sonar-pro'; // Use sonar-pro for comprehensive web search
+
+  try {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      signal,
+      body: JSON.stringify({
+        model: model,
+        messages: [
+          { role: 'system', content: 'You are a web search assistant. Provide concise, factual answers based on current web information. Include relevant sources when possible.' },
+          { role: 'user', content: query }
+        ],
+        web_search_options: {
+          search_type: 'pro'
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const err: any = await response.json();
+      return { content: `Search error: ${err.error?.message || response.statusText}`, sources: [] };
+    }
+
+    const data: any = await response.json();
+
+    const content = data.choices?.[0]?.message?.content || 'No search results found.';
+
+    // Extract citations from Perplexity response
+    // Perplexity can return citations in different places
+    const sources: Array<{ title: string; url: string; snippet?: string }> = [];
+
+    // Try root level citations
+    const citations = data.citations || data.search_results || [];
+
+    if (Array.isArray(citations)) {
+      citations.forEach((item: any, index: number) => {
+        if (typeof item === 'string') {
+          // Simple URL string
+          sources.push({
+            title: `Source ${index + 1}`,
+            url: item
+          });
+        } else if (item && typeof item === 'object') {
+          // Object with url/title
+          sources.push({
+            title: item.title || item.name || `Source ${index + 1}`,
+            url: item.url || item.link || '',
+            snippet: item.snippet || item.description
+          });
+        }
+      });
+    }
+
+
+    return { content, sources };
+  } catch (e: any) {
+    return { content: `Search failed: ${e.message}`, sources: [] };
+  }
+};
+
+// Execute web search using Google Grounding Search (via Gemini API)
+const executeGoogleWebSearch = async (query: string, config: AppConfig, signal?: AbortSignal): Promise<WebSearchResult> => {
+  // Try to use Google API key first, otherwise use current provider's key
+  const currentProvider = config.selectedProvider;
+  const googleKeys = config.apiKeys['google'];
+  const currentProviderKeys = config.apiKeys[currentProvider];
+
+  let apiKey: string;
+  let baseUrl: string;
+  let useOpenAIFormat = false;
+
+  if (googleKeys && googleKeys.length > 0) {
+    // Use Google API
+    apiKey = googleKeys[Math.floor(Math.random() * googleKeys.length)];
+    baseUrl = config.customBaseUrls['google'] || 'https://generativelanguage.googleapis.com/v1beta';
+  } else if (currentProviderKeys && currentProviderKeys.length > 0) {
+    // Use current provider (likely supports Gemini models)
+    apiKey = currentProviderKeys[Math.floor(Math.random() * currentProviderKeys.length)];
+    baseUrl = config.customBaseUrls[currentProvider] || '';
+    useOpenAIFormat = currentProvider !== 'google'; // Custom providers use OpenAI format
+  } else {
+    return { content: 'Error: No API key available for web search.', sources: [] };
+  }
+
+  // Use gemini-2.5-flash for Google grounding search
+  const model = 'gemini-2.5-flash';
+
+  try {
+    let url: string;
+    let requestBody: any;
+    let headers: any = { 'Content-Type': 'application/json' };
+
+    if (useOpenAIFormat) {
+      // OpenAI-compatible format for custom providers  
+      url = `${baseUrl}/chat/completions`;
+      headers['Authorization'] = `Bearer ${apiKey}`;
+      requestBody = {
+        model: model,
+        messages: [{ role: 'user', content: query }],
+        tools: [GOOGLE_SEARCH_TOOL]
+      };
+    } else {
+      // Gemini API format
+      url = `${baseUrl}/models/${model}:generateContent?key=${apiKey}`;
+      requestBody = {
+        contents: [{
+          role: 'user',
+          parts: [{ text: query }]
+        }],
+        tools: [GOOGLE_SEARCH_TOOL]
+      };
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify(requestBody)
+    });
+    if (!response.ok) {
+      const err: any = await response.json();
+      return { content: `Google search error: ${err.error?.message || response.statusText}`, sources: [] };
+    }
+
+    const data: any = await response.json();
+
+    // Extract content and grounding metadata - handle both Gemini and OpenAI response formats
+    let content: string;
+    let groundingMetadata: any;
+
+    if (data.candidates) {
+      // Gemini format
+      content = data.candidates?.[0]?.content?.parts?.[0]?.text || 'No search results found.';
+      groundingMetadata = data.candidates?.[0]?.groundingMetadata;
+    } else if (data.choices) {
+      // OpenAI format
+      content = data.choices?.[0]?.message?.content || 'No search results found.';
+      groundingMetadata = data.choices?.[0]?.message?.groundingMetadata;
+    } else {
+      content = 'No search results found.';
+    }
+
+    // Extract grounding metadata for sources
+    const sources: Array<{ title: string; url: string; snippet?: string }> = [];
+
+    if (groundingMetadata?.groundingChunks) {
+      groundingMetadata.groundingChunks.forEach((chunk: any) => {
+        if (chunk.web) {
+          sources.push({
+            title: chunk.web.title || 'Source',
+            url: chunk.web.uri || '',
+            snippet: chunk.web.snippet
+          });
+        }
+      });
+    }
+
+    // Also check webSearchQueries if available
+    if (groundingMetadata?.webSearchQueries) {
+      // Store the queries used (optional, for debugging)
+      console.log('Google search queries used:', groundingMetadata.webSearchQueries);
+    }
+
+    return { content, sources };
+  } catch (e: any) {
+    return { content: `Google search failed: ${e.message}`, sources: [] };
+  }
+};
+
+// Main web search dispatcher
+export const executeWebSearch = async (query: string, config: AppConfig, signal?: AbortSignal): Promise<WebSearchResult> => {
+  const provider = config.webSearchProvider || 'perplexity';
+
+  if (provider === 'kagi') {
+    if (config.kagiSession) {
+      return executeKagiWebSearch(query, config.kagiSession, signal);
+    }
+    // Fallback if session missing
+    return { content: 'Error: Kagi session cookie is missing.', sources: [] };
+  }
+
+  if (provider === 'google') {
+    return executeGoogleWebSearch(query, config, signal);
+  }
+
+  // Default to Perplexity
+  return executePerplexityWebSearch(query, config, signal);
+};
+
+// Check if web search should be enabled for this request
+export const shouldEnableWebSearch = (config: AppConfig, model?: string): boolean => {
+  // Web search is enabled if:
+  // 1. User has enableWebSearch turned on (or undefined, default to true)
+  // 2. Either Perplexity API key, Kagi session, or Google API key is configured (depending on selected provider)
+  //    OR using a Gemini model with Google grounding search (native support via custom provider)
+  // 3. Current provider is NOT perplexity (no need for tool when using perplexity directly)
+  const webSearchProvider = config.webSearchProvider || 'perplexity';
+  const hasPerplexityKey = config.apiKeys['perplexity']?.length > 0;
+  const hasKagiSession = !!config.kagiSession;
+  const hasGoogleKey = config.apiKeys['google']?.length > 0;
+
+  // Check if using a Gemini model with Google grounding search
+  // In this case, we don't need a separate Google API key because the model/provider handles it natively
+  const isGeminiModel = model ? /^gemini-\d+/.test(model) : false;
+  const usingGoogleGroundingNatively = webSearchProvider === 'google' && isGeminiModel;
+
+  // Check if current provider has API key (for fallback search)
+  const currentProvider = config.selectedProvider;
+  const hasCurrentProviderKey = config.apiKeys[currentProvider]?.length > 0;
+
+  let hasWebSearchCredentials = false;
+  if (webSearchProvider === 'kagi') {
+    hasWebSearchCredentials = hasKagiSession;
+  } else if (webSearchProvider === 'google') {
+    // For Google grounding search:
+    // - If using a Gemini model, allow it (native support via any provider with API key)
+    // - For non-Gemini models, allow if Google API key OR current provider has API key (for fallback search)
+    hasWebSearchCredentials = usingGoogleGroundingNatively || hasGoogleKey || hasCurrentProviderKey;
+  } else {
+    hasWebSearchCredentials = hasPerplexityKey;
+  }
+
+  const webSearchEnabled = config.enableWebSearch !== false; // Default to true
+  const notUsingPerplexity = config.selectedProvider !== 'perplexity';
+
+  return hasWebSearchCredentials && webSearchEnabled && notUsingPerplexity;
+};
@@ -0,0 +1,239 @@
+import type { ChatMessage, Conversation } from './types';
+import { listConversations, getConversation, onConversationChange, conversationIdFromStorageKey } from './conversations';
+
+// Local full-text index over saved conversations.
+// Every searchable field of a message (answer, reasoning, web search result) is one document;
+// ranking is BM25 with small per-field weights so a hit in the answer beats one in the reasoning.
+
+export type SearchField = 'content' | 'reasoning' | 'webSearch';
+
+export interface SearchResult {
+  conversationId: string;
+  conversationTitle: string;
+  updatedAt: number;
+  messageIndex: number;
+  role: ChatMessage['role'];
+  field: SearchField;
+  snippet: string;
+  highlights: Array<[number, number]>; // [start, end) ranges within snippet
+  score: number;
+}
+
+interface IndexedDoc {
+  conversationId: string;
+  messageIndex: number;
+  role: ChatMessage['role'];
+  field: SearchField;
+  text: string;
+  length: number; // Token count
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  content: 1,
+  reasoning: 0.6,
+  webSearch: 0.5
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_RADIUS = 80;
+
+const docs = new Map<string, IndexedDoc>();
+const postings = new Map<string, Map<string, number>>(); // term -> docKey -> term frequency
+const conversationDocs = new Map<string, string[]>();
+const conversationMeta = new Map<string, { title: string; updatedAt: number }>();
+let totalLength = 0;
+let buildPromise: Promise<void> | null = null;
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const docKey = (conversationId: string, messageIndex: number, field: SearchField) =>
+  `${conversationId}\u0000${messageIndex}\u0000${field}`;
+
+const searchableFields = (message: ChatMessage): Array<[SearchField, string]> => {
+  const fields: Array<[SearchField, string]> = [];
+  if (message.content) fields.push(['content', message.content]);
+  if (message.reasoning) fields.push(['reasoning', message.reasoning]);
+  if (message.webSearch?.result) fields.push(['webSearch', message.webSearch.result]);
+  return fields;
+};
+
+export const removeConversationFromIndex = (conversationId: string) => {
+  for (const key of conversationDocs.get(conversationId) || []) {
+    const doc = docs.get(key);
+    if (!doc) continue;
+    for (const term of new Set(tokenize(doc.text))) {
+      const list = postings.get(term);
+      list?.delete(key);
+      if (list && list.size === 0) postings.delete(term);
+    }
+    totalLength -= doc.length;
+    docs.delete(key);
+  }
+  conversationDocs.delete(conversationId);
+  conversationMeta.delete(conversationId);
+};
+
+/** Replace everything indexed for a conversation with its current messages. */
+export const indexConversation = (conversation: Conversation) => {
+  removeConversationFromIndex(conversation.id);
+
+  const keys: string[] = [];
+  conversation.messages.forEach((message, messageIndex) => {
+    if (message.role === 'system') return;
+    for (const [field, text] of searchableFields(message)) {
+      const tokens = tokenize(text);
+      if (tokens.length === 0) continue;
+
+      const key = docKey(conversation.id, messageIndex, field);
+      docs.set(key, { conversationId: conversation.id, messageIndex, role: message.role, field, text, length: tokens.length });
+      totalLength += tokens.length;
+      keys.push(key);
+
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) frequencies.set(token, (frequencies.get(token) || 0) + 1);
+      for (const [term, tf] of frequencies) {
+        if (!postings.has(term)) postings.set(term, new Map());
+        postings.get(term)!.set(key, tf);
+      }
+    }
+  });
+
+  conversationDocs.set(conversation.id, keys);
+  conversationMeta.set(conversation.id, { title: conversation.title, updatedAt: conversation.updatedAt });
+};
+
+// Keep the index current with saves from this page, including the debounced saves made while a reply streams
+onConversationChange(change => {
+  if (change.type === 'saved') {
+    indexConversation(change.conversation);
+  } else {
+    removeConversationFromIndex(change.id);
+  }
+});
+
+// The popup, options page and content scripts each hold their own index; pick up writes made by the others
+if (typeof chrome !== 'undefined' && chrome.storage?.onChanged) {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local') return;
+    for (const [key, change] of Object.entries(changes)) {
+      const conversationId = conversationIdFromStorageKey(key);
+      if (!conversationId) continue;
+      if (change.newValue) {
+        indexConversation(change.newValue as Conversation);
+      } else {
+        removeConversationFromIndex(conversationId);
+      }
+    }
+  });
+}
+
+// Built lazily from storage the first time a search runs; afterwards kept current by saves.
+const ensureIndex = () => {
+  if (!buildPromise) {
+    buildPromise = (async () => {
+      const summaries = await listConversations();
+      for (const summary of summaries) {
+        if (conversationMeta.has(summary.id)) continue; // Already indexed by a newer save
+        const conversation = await getConversation(summary.id);
+        if (conversation) indexConversation(conversation);
+      }
+    })().catch(e => {
+      console.error('Failed to build search index:', e);
+      buildPromise = null;
+    });
+  }
+  return buildPromise;
+};
+
+// Terms in the index matching a query token; the last token also matches as a prefix
+// so results show up while the user is still typing.
+const expandTerm = (token: string, isPrefix: boolean): string[] => {
+  if (!isPrefix) return postings.has(token) ? [token] : [];
+  const matches: string[] = [];
+  for (const term of postings.keys()) {
+    if (term.startsWith(token)) matches.push(term);
+  }
+  return matches;
+};
+
+const buildSnippet = (text: string, queryTokens: string[]) => {
+  const lower = text.toLowerCase();
+  let first = -1;
+  for (const token of queryTokens) {
+    const pos = lower.indexOf(token);
+    if (pos !== -1 && (first === -1 || pos < first)) first = pos;
+  }
+
+  const start = Math.max(0, first === -1 ? 0 : first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, (first === -1 ? 0 : first) + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const body = text.slice(start, end).replace(/\s+/g, ' ');
+  const snippet = `${prefix}${body}${suffix}`;
+
+  // Highlight every word in the window that starts with a query token
+  const highlights: Array<[number, number]> = [];
+  const wordPattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(snippet)) !== null) {
+    const word = match[0].toLowerCase();
+    const token = queryTokens.find(t => word.startsWith(t));
+    if (token) highlights.push([match.index, match.index + token.length]);
+  }
+
+  return { snippet, highlights };
+};
+
+export const searchConversations = async (query: string, limit = 30): Promise<SearchResult[]> => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+
+  await ensureIndex();
+
+  const docCount = docs.size;
+  if (docCount === 0) return [];
+  const avgLength = totalLength / docCount;
+
+  const scores = new Map<string, number>();
+  queryTokens.forEach((token, i) => {
+    for (const term of expandTerm(token, i === queryTokens.length - 1)) {
+      const list = postings.get(term)!;
+      const idf = Math.log(1 + (docCount - list.size + 0.5) / (list.size + 0.5));
+      for (const [key, tf] of list) {
+        const doc = docs.get(key)!;
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength);
+        const score = idf * (tf * (BM25_K1 + 1)) / norm * FIELD_WEIGHTS[doc.field];
+        scores.set(key, (scores.get(key) || 0) + score);
+      }
+    }
+  });
+
+  // Keep the best field per message so one answer doesn't show up three times
+  const bestPerMessage = new Map<string, { key: string; score: number }>();
+  for (const [key, score] of scores) {
+    const doc = docs.get(key)!;
+    const messageKey = `${doc.conversationId}\u0000${doc.messageIndex}`;
+    const current = bestPerMessage.get(messageKey);
+    if (!current || score > current.score) bestPerMessage.set(messageKey, { key, score });
+  }
+
+  return Array.from(bestPerMessage.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ key, score }) => {
+      const doc = docs.get(key)!;
+      const meta = conversationMeta.get(doc.conversationId);
+      return {
+        conversationId: doc.conversationId,
+        conversationTitle: meta?.title || 'Untitled',
+        updatedAt: meta?.updatedAt || 0,
+        messageIndex: doc.messageIndex,
+        role: doc.role,
+        field: doc.field,
+        score,
+        ...buildSnippet(doc.text, queryTokens)
+      };
+    });
+};
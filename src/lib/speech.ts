@@ -0,0 +1,271 @@
+/**
+ * Reading replies aloud. Runs in the page: system voices through the Web Speech API,
+ * other engines as audio clips from synthesizeSpeech in api.ts. Text is read sentence by
+ * sentence, so a reply that is still streaming starts playing before it is finished.
+ */
+
+import { synthesizeSpeech } from './api';
+import { DEFAULT_SPEECH, SYSTEM_SPEECH, type AppConfig } from './types';
+
+export type SpeechState = 'speaking' | 'paused' | 'idle';
+
+// Clips from a provider are one request each; short sentences are joined up to this many characters
+const MAX_CLIP_LENGTH = 400;
+
+// LaTeX read as words; commands not listed are read by name (\alpha -> alpha)
+const MATH_WORDS: Array<[RegExp, string]> = [
+  [/\\(left|right|displaystyle|mathrm|mathbf|mathit|text|operatorname)(?![a-zA-Z])/g, ''],
+  [/\\sqrt\{([^{}]*)\}/g, ' the square root of $1 '],
+  [/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, ' $1 over $2 '],
+  [/\^\{?2\}?(?![\w{])/g, ' squared '],
+  [/\^\{?3\}?(?![\w{])/g, ' cubed '],
+  [/\^\{([^{}]*)\}|\^(\w)/g, ' to the power of $1$2 '],
+  [/_\{([^{}]*)\}|_(\w)/g, ' $1$2 '],
+  [/\\(times|cdot)(?![a-zA-Z])/g, ' times '],
+  [/\\(leq|le)(?![a-zA-Z])/g, ' is at most '],
+  [/\\(geq|ge)(?![a-zA-Z])/g, ' is at least '],
+  [/\\(neq|ne)(?![a-zA-Z])/g, ' is not equal to '],
+  [/\\approx(?![a-zA-Z])/g, ' is approximately '],
+  [/\\pm(?![a-zA-Z])/g, ' plus or minus '],
+  [/\\infty(?![a-zA-Z])/g, ' infinity '],
+  [/\\(to|rightarrow)(?![a-zA-Z])/g, ' to '],
+  [/\\sum(?![a-zA-Z])/g, ' the sum of '],
+  [/\\int(?![a-zA-Z])/g, ' the integral of '],
+  [/\\([a-zA-Z]+)/g, ' $1 '],
+  [/\\./g, ' '], // Spacing such as \, and \;
+  [/</g, ' less than '],
+  [/>/g, ' greater than '],
+  [/=/g, ' equals '],
+  [/\+/g, ' plus '],
+  [/-/g, ' minus '],
+  [/\*/g, ' times '],
+  [/\//g, ' over '],
+  [/[{}&]/g, ' ']
+];
+
+const speakableMath = (tex: string) =>
+  MATH_WORDS.reduce((text, [pattern, words]) => text.replace(pattern, words), tex).replace(/\s+/g, ' ').trim();
+
+/** Reply Markdown as plain text for a voice: code left out, links by their text, formulas in words. */
+export const speakableText = (markdown: string) => markdown
+  .replace(/```[\s\S]*?(?:```|$)/g, '\n') // Code isn't read out
+  .replace(/\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]/g, (_, a, b) => `\n${speakableMath(a ?? b)}.\n`)
+  .replace(/\\\(([\s\S]+?)\\\)|\$(?![\s\d])([^$\n]+?)(?<!\s)\$/g, (_, a, b) => speakableMath(a ?? b)) // Not prices like $5
+  .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // Images
+  .replace(/[ \t]*\[\^?\d+\](?:\([^)]*\))?/g, '') // Citation markers such as [1] and [^1]
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/<[^>\n]+>/g, '') // HTML tags
+  .replace(/https?:\/\/\S+/g, '')
+  .replace(/`([^`\n]*)`/g, '$1')
+  .replace(/^[ \t]*\|?[ \t]*:?-{3,}[ \t|:-]*$/gm, '') // Table separator rows
+  .replace(/^[ \t]*\||\|[ \t]*$/gm, '')
+  .replace(/[ \t]*\|[ \t]*/g, ', ') // Table cells
+  .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, '') // Horizontal rules
+  .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, '')
+  .replace(/^[ \t]*>[ \t]?/gm, '')
+  .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+(?:\[[ xX]\][ \t]+)?/gm, '') // List markers and task boxes
+  .replace(/\*\*|__|~~|\*/g, '')
+  .replace(/[ \t]+/g, ' ')
+  .replace(/\s*\n\s*/g, '\n')
+  .trim();
+
+// Sentences end with punctuation before a space (not followed by a lowercase word, as in "e.g. this"),
+// with CJK punctuation, or at a line break (headings, list items, table rows)
+const SENTENCE_END = /[.!?…]["'”’)\]]*[ \t]+(?=[^\sa-z])|[。！？]|\n/g;
+const SENTENCE_BREAK = /(?<=[.!?…]["'”’)\]]*)[ \t]+(?![a-z])|(?<=[。！？])|\n+/;
+
+/** Plain text split into sentences, dropping pieces with nothing to say. */
+export const splitSentences = (text: string) =>
+  text.split(SENTENCE_BREAK).map(sentence => sentence.trim()).filter(sentence => /[\p{L}\p{N}]/u.test(sentence));
+
+// How much of the unread Markdown can be read now: up to the last sentence end outside code blocks and formulas
+const readableLength = (markdown: string) => {
+  let length = 0;
+  for (const match of markdown.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+    const before = markdown.slice(0, end);
+    if (before.split('```').length % 2 === 1 && before.split('$$').length % 2 === 1) length = end;
+  }
+  return length;
+};
+
+const groupSentences = (sentences: string[]) => sentences.reduce<string[]>((groups, sentence) => {
+  const last = groups[groups.length - 1];
+  if (last !== undefined && last.length + sentence.length < MAX_CLIP_LENGTH) groups[groups.length - 1] = `${last} ${sentence}`;
+  else groups.push(sentence);
+  return groups;
+}, []);
+
+/** The OS voices. Chromium loads them after the page starts, so the list can be empty at first. */
+export const loadSystemVoices = (): Promise<SpeechSynthesisVoice[]> => new Promise(resolve => {
+  if (typeof speechSynthesis === 'undefined') return resolve([]);
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return resolve(voices);
+  const timer = setTimeout(() => resolve(speechSynthesis.getVoices()), 1000);
+  speechSynthesis.addEventListener('voiceschanged', () => {
+    clearTimeout(timer);
+    resolve(speechSynthesis.getVoices());
+  }, { once: true });
+});
+
+interface SpeechCallbacks {
+  onStateChange: (state: SpeechState) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * Reads one text aloud. Call push() with the whole text each time it grows; complete sentences
+ * are queued as they appear, and the rest once push() is told the text is final.
+ */
+export class SpeechPlayer {
+  private config: AppConfig;
+  private callbacks: SpeechCallbacks;
+  state: SpeechState = 'speaking';
+  private read = ''; // Markdown already queued
+  private pending = 0; // Utterances or clips that haven't finished playing
+  private clips = 0;
+  private final = false;
+  private abort = new AbortController();
+  private playback = Promise.resolve(); // Provider clips, played one after another
+  private audio: HTMLAudioElement | null = null;
+  private endClip: (() => void) | null = null;
+  private utterances = new Set<SpeechSynthesisUtterance>(); // Held so Chromium doesn't drop their end events
+
+  constructor(config: AppConfig, callbacks: SpeechCallbacks) {
+    this.config = config;
+    this.callbacks = callbacks;
+  }
+
+  private get settings() {
+    return this.config.speech || DEFAULT_SPEECH;
+  }
+
+  private get usesSystemVoice() {
+    return this.settings.engine === SYSTEM_SPEECH;
+  }
+
+  push(markdown: string, final = false) {
+    if (this.state === 'idle') return;
+    // The reply started over (a retry or a fallback model); read the new text from the start
+    if (!markdown.startsWith(this.read)) this.read = '';
+    const unread = markdown.slice(this.read.length);
+    const length = final ? unread.length : readableLength(unread);
+    if (length > 0) {
+      this.read += unread.slice(0, length);
+      this.enqueue(splitSentences(speakableText(unread.slice(0, length))));
+    }
+    if (final) {
+      this.final = true;
+      this.settle();
+    }
+  }
+
+  pause() {
+    if (this.state !== 'speaking') return;
+    if (this.usesSystemVoice) speechSynthesis.pause();
+    else this.audio?.pause();
+    this.setState('paused');
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.setState('speaking');
+    if (this.usesSystemVoice) speechSynthesis.resume();
+    else this.audio?.play().catch(e => this.fail(e));
+  }
+
+  stop() {
+    if (this.state === 'idle') return;
+    const wasPaused = this.state === 'paused';
+    this.setState('idle');
+    this.abort.abort();
+    if (this.usesSystemVoice) {
+      this.utterances.clear();
+      speechSynthesis.cancel();
+      // Chromium keeps the synthesizer paused for whatever is spoken next
+      if (wasPaused) speechSynthesis.resume();
+    } else {
+      this.audio?.pause();
+      this.endClip?.();
+    }
+  }
+
+  private setState(state: SpeechState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.callbacks.onStateChange(state);
+  }
+
+  private fail(error: Error) {
+    if (this.state === 'idle' || error.name === 'AbortError') return;
+    this.stop();
+    this.callbacks.onError(error);
+  }
+
+  private enqueue(sentences: string[]) {
+    if (this.usesSystemVoice) {
+      sentences.forEach(sentence => this.speakWithSystemVoice(sentence));
+      return;
+    }
+    // The first sentence goes alone so playback starts soon
+    const groups = this.clips === 0 && sentences.length > 1
+      ? [sentences[0], ...groupSentences(sentences.slice(1))]
+      : groupSentences(sentences);
+    groups.forEach(text => this.playClip(text));
+  }
+
+  private finishOne() {
+    this.pending--;
+    this.settle();
+  }
+
+  private settle() {
+    if (this.final && this.pending === 0) this.setState('idle');
+  }
+
+  private speakWithSystemVoice(sentence: string) {
+    const { voice, rate } = this.settings;
+    const utterance = new SpeechSynthesisUtterance(sentence);
+    utterance.voice = speechSynthesis.getVoices().find(v => v.name === voice) || null;
+    if (rate) utterance.rate = rate;
+    utterance.onend = () => {
+      if (this.utterances.delete(utterance)) this.finishOne();
+    };
+    utterance.onerror = (e) => {
+      if (!this.utterances.delete(utterance)) return;
+      if (e.error === 'interrupted' || e.error === 'canceled') this.finishOne();
+      else this.fail(new Error(`The system voice could not read this (${e.error})`));
+    };
+    this.utterances.add(utterance);
+    this.pending++;
+    speechSynthesis.speak(utterance);
+  }
+
+  private playClip(text: string) {
+    this.pending++;
+    this.clips++;
+    // Requested right away, so it's ready by the time the clips before it have played
+    const clip = synthesizeSpeech(text, this.config, this.abort.signal);
+    clip.catch(() => {}); // Reported when its turn comes
+    this.playback = this.playback
+      .then(async () => {
+        const audio = await clip;
+        if (this.state !== 'idle') await this.play(audio);
+      })
+      .then(() => this.finishOne(), e => this.fail(e));
+  }
+
+  private play(src: string) {
+    return new Promise<void>((resolve, reject) => {
+      const audio = new Audio(src);
+      this.audio = audio;
+      this.endClip = resolve;
+      audio.onended = () => {
+        this.audio = null; // Resuming after this must not replay it
+        resolve();
+      };
+      audio.onerror = () => reject(new Error('The generated speech could not be played'));
+      if (this.state === 'speaking') audio.play().catch(reject);
+    });
+  }
+}
@@ -1,14 +1,14 @@
 import { type AppConfig, DEFAULT_CONFIG } from './types';
 
 // Detect if we're running in Electron
-const isElectron = typeof window !== 'undefined' && (window as any).electronAPI !== undefined;
+const isElectron = typeof window !== 'undefined' && window.electronAPI !== undefined;
 const isChrome = typeof chrome !== 'undefined' && chrome.storage !== undefined;
 
 export const getStorage = async (): Promise<AppConfig> => {
   // Electron environment
   if (isElectron) {
     try {
-      const config = await (window as any).electronAPI.getConfig();
+      const config = await window.electronAPI!.getConfig();
       if (!config) {
         return DEFAULT_CONFIG;
       }
@@ -52,7 +52,7 @@ export const setStorage = async (config: AppConfig): Promise<void> => {
   // Electron environment
   if (isElectron) {
     try {
-      await (window as any).electronAPI.setConfig(config);
+      await window.electronAPI!.setConfig(config);
     } catch (error) {
       console.error('Failed to set Electron config:', error);
     }
@@ -149,7 +149,7 @@ export const getSelectedText = async (): Promise<string> => {
   // In Electron, we use the Electron API to get selected text
   if (isElectron) {
     try {
-      const text = await (window as any).electronAPI.getSelectedText();
+      const text = await window.electronAPI!.getSelectedText();
       return text || '';
     } catch (e) {
       console.warn('Failed to get selected text in Electron:', e);
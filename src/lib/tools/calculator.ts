@@ -0,0 +1,161 @@
+import type { Tool } from './types';
+
+// Arithmetic evaluator for the calculator tool. A small recursive descent parser rather
+// than eval/Function, so model-supplied input can never run code.
+//   expr   = term (('+' | '-') term)*
+//   term   = unary (('*' | '/' | '%') unary)*
+//   unary  = ('+' | '-') unary | power
+//   power  = call ('^' unary)?          (right associative, binds tighter than unary minus on the left)
+//   call   = name '(' args ')' | name | number | '(' expr ')'
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  exp: Math.exp,
+  ln: Math.log,
+  log: (x, base) => base === undefined ? Math.log10(x) : Math.log(x) / Math.log(base),
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E
+};
+
+const tokenize = (expression: string): string[] => {
+  const tokens = expression
+    .replace(/\*\*/g, '^')
+    .match(/\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_][a-z0-9_]*|[-+*/%^(),]|\S/gi);
+  return tokens || [];
+};
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+
+  const parseExpr = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const right = parseUnary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parseCall();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parseCall = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+
+    if (token === '(') {
+      const value = parseExpr();
+      expect(')');
+      return value;
+    }
+
+    if (/^(\d|\.\d)/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    if (peek() === '(') {
+      const fn = FUNCTIONS[name];
+      if (!fn) throw new Error(`Unknown function "${token}"`);
+      next();
+      const args: number[] = [];
+      if (peek() !== ')') {
+        args.push(parseExpr());
+        while (peek() === ',') {
+          next();
+          args.push(parseExpr());
+        }
+      }
+      expect(')');
+      return fn(...args);
+    }
+
+    if (name in CONSTANTS) return CONSTANTS[name];
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  if (tokens.length === 0) throw new Error('Empty expression');
+  const result = parseExpr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  return result;
+};
+
+export const calculatorTool: Tool = {
+  definition: {
+    name: 'calculator',
+    description: 'Evaluate an arithmetic expression exactly instead of doing math in your head. Supports + - * / % ^, parentheses, the constants pi and e, and the functions sqrt, cbrt, abs, round, floor, ceil, exp, ln, log (base 10, or log(x, base)), log2, sin, cos, tan, asin, acos, atan (radians), min, max and pow.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: {
+          type: 'string',
+          description: 'The expression to evaluate, e.g. "(1.07^10 - 1) * 2500"'
+        }
+      },
+      required: ['expression']
+    }
+  },
+  label: 'Calculator',
+  description: 'Evaluate arithmetic expressions precisely.',
+  defaultEnabled: true,
+
+  execute: async ({ expression }) => {
+    if (typeof expression !== 'string' || !expression.trim()) {
+      throw new Error('An expression is required.');
+    }
+    const result = evaluateExpression(expression);
+    if (!Number.isFinite(result)) throw new Error(`The result is not a finite number (${result}).`);
+    // Trim floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+    return `${expression} = ${parseFloat(result.toPrecision(15))}`;
+  }
+};
@@ -0,0 +1,26 @@
+import type { Tool } from './types';
+
+export const clipboardTool: Tool = {
+  definition: {
+    name: 'read_clipboard',
+    description: 'Read the text currently on the user\'s clipboard. Only use this when the user asks about something they copied.',
+    parameters: {
+      type: 'object',
+      properties: {}
+    }
+  },
+  label: 'Clipboard',
+  description: 'Let the AI read text from your clipboard when you mention something you copied.',
+  defaultEnabled: false,
+
+  execute: async () => {
+    // Only pages have clipboard access: the extension service worker (which runs tools for
+    // the in-page popup) and the Electron main process don't
+    const clipboard = (globalThis as { navigator?: { clipboard?: { readText?: () => Promise<string> } } }).navigator?.clipboard;
+    if (!clipboard?.readText) {
+      throw new Error('The clipboard cannot be read from this window.');
+    }
+    const text = await clipboard.readText();
+    return text ? `Clipboard contents:\n${text}` : 'The clipboard is empty or does not contain text.';
+  }
+};
@@ -0,0 +1,92 @@
+import type { Tool } from './types';
+
+const MAX_CONTENT_LENGTH = 12000; // Characters of page text handed to the model
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+  if (code[0] === '#') {
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  }
+  return ENTITIES[code.toLowerCase()] ?? entity;
+});
+
+// Readable text from an HTML page. Regex based rather than DOMParser so it also works
+// in the extension service worker and the Electron main process.
+export const extractTextFromHtml = (html: string): { title: string; text: string } => {
+  const title = decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '').trim();
+
+  const text = decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(head|script|style|noscript|svg|template|iframe)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+      .replace(/<\/?(p|div|section|article|header|footer|nav|aside|main|h[1-6]|li|ul|ol|tr|table|blockquote|pre|dt|dd)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { title, text };
+};
+
+export const fetchUrlTool: Tool = {
+  definition: {
+    name: 'fetch_url',
+    description: 'Download a web page or text document and return its readable text. Use this when the user refers to a specific URL or you need the full content of a page.',
+    parameters: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description: 'The absolute http(s) URL to fetch'
+        }
+      },
+      required: ['url']
+    }
+  },
+  label: 'Fetch URL',
+  description: 'Let the AI download web pages and read their text.',
+  defaultEnabled: false,
+
+  execute: async ({ url }, { signal }) => {
+    if (typeof url !== 'string' || !url.trim()) throw new Error('A URL is required.');
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error(`Invalid URL: ${url}`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error('Only http and https URLs can be fetched.');
+    }
+
+    const response = await fetch(parsed.toString(), { signal });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`.trim());
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!/text\/|json|xml/.test(contentType)) {
+      throw new Error(`Unsupported content type: ${contentType || 'unknown'}`);
+    }
+
+    const body = await response.text();
+    const { title, text } = /html/.test(contentType) ? extractTextFromHtml(body) : { title: '', text: body.trim() };
+    const truncated = text.length > MAX_CONTENT_LENGTH;
+
+    const header = `URL: ${response.url || parsed.toString()}${title ? `\nTitle: ${title}` : ''}`;
+    const content = truncated
+      ? `${text.slice(0, MAX_CONTENT_LENGTH)}\n\n[Content truncated]`
+      : text || '(The page has no readable text.)';
+    return `${header}\n\n${content}`;
+  }
+};
@@ -0,0 +1,32 @@
+import { registerTool } from './registry';
+import { webSearchTool } from './webSearch';
+import { calculatorTool } from './calculator';
+import { timeTool } from './time';
+import { fetchUrlTool } from './fetchUrl';
+import { clipboardTool } from './clipboard';
+
+// Tools the model can call from the OpenAI-compatible, Anthropic and Gemini tool loops.
+// Each one can be switched off in Options (web search and MCP tools have their own sections).
+
+export type { Tool, ToolContext, ToolDefinition } from './types';
+export { mcpToolNames, syncMcpTools, type McpBridge, type McpToolNames } from './mcp';
+export {
+  getEnabledTools,
+  getTool,
+  isToolEnabled,
+  listTools,
+  registerTool,
+  runToolCall,
+  toAnthropicTool,
+  toGeminiTool,
+  toOpenAITool,
+  unregisterTool,
+  type ToolCall,
+  type ToolCallResult
+} from './registry';
+
+registerTool(webSearchTool);
+registerTool(calculatorTool);
+registerTool(timeTool);
+registerTool(fetchUrlTool);
+registerTool(clipboardTool);
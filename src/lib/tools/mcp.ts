@@ -0,0 +1,150 @@
+import type { McpServerStatus } from '../types';
+import type { Tool } from './types';
+import { registerTool, unregisterTool } from './registry';
+
+// Tools from MCP servers. The Electron main process owns the connections; this side
+// registers what they offer and forwards calls through the preload bridge.
+
+export interface McpBridge {
+  callMcpTool: (serverId: string, name: string, args: Record<string, unknown>) => Promise<{ text: string; isError: boolean }>;
+  readMcpResource: (serverId: string, uri: string) => Promise<string>;
+  getMcpPrompt: (serverId: string, name: string, args: Record<string, string>) => Promise<string>;
+}
+
+const MAX_LISTED = 50; // Resources/prompts spelled out in a tool description
+
+// Function names must match ^[a-zA-Z0-9_-]{1,64}$ for OpenAI and Anthropic
+const mcpToolName = (serverName: string, toolName: string) => {
+  const server = serverName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 20) || 'server';
+  return `mcp_${server}_${toolName.replace(/[^a-zA-Z0-9_-]/g, '_')}`.slice(0, 64);
+};
+
+const READ_RESOURCE = 'read_resource';
+const GET_PROMPT = 'get_prompt';
+
+export interface McpToolNames {
+  tools: Map<string, string>; // Server's tool name -> name the model sees
+  readResource: string;
+  getPrompt: string;
+}
+
+/**
+ * Names the model sees for every server's tools, by server id. Server names that normalize
+ * alike and tool names that only differ past the cut would clash, and one tool would replace
+ * the other in the registry, so later ones get a numeric suffix. Names are assigned over every
+ * reported server, connected or not, so they don't shift while one reconnects.
+ */
+export const mcpToolNames = (statuses: McpServerStatus[]): Map<string, McpToolNames> => {
+  const taken = new Set<string>();
+  const unique = (serverName: string, toolName: string) => {
+    const base = mcpToolName(serverName, toolName);
+    let name = base;
+    for (let n = 2; taken.has(name); n++) name = `${base.slice(0, 63 - String(n).length)}_${n}`;
+    taken.add(name);
+    return name;
+  };
+  return new Map(statuses.map(server => [server.id, {
+    tools: new Map(server.tools.map(tool => [tool.name, unique(server.name, tool.name)])),
+    readResource: unique(server.name, READ_RESOURCE),
+    getPrompt: unique(server.name, GET_PROMPT)
+  }]));
+};
+
+const listed = <T>(items: T[], format: (item: T) => string) =>
+  items.slice(0, MAX_LISTED).map(item => `- ${format(item)}`).join('\n') +
+  (items.length > MAX_LISTED ? `\n- ...and ${items.length - MAX_LISTED} more` : '');
+
+const serverTools = (server: McpServerStatus, names: McpToolNames, bridge: McpBridge): Tool[] => {
+  const tools: Tool[] = server.tools.map(tool => ({
+    definition: {
+      name: names.tools.get(tool.name)!,
+      description: tool.description || tool.name,
+      parameters: tool.inputSchema
+    },
+    label: `${server.name}: ${tool.name}`,
+    description: tool.description || '',
+    defaultEnabled: true,
+    hasOwnSettings: true,
+    execute: async (args) => {
+      const result = await bridge.callMcpTool(server.id, tool.name, args);
+      if (result.isError) throw new Error(result.text || 'Tool call failed');
+      return result.text || '(The tool returned no output.)';
+    }
+  }));
+
+  // Resources and prompts are offered as one tool each, listing what's available
+  if (server.resources.length > 0) {
+    tools.push({
+      definition: {
+        name: names.readResource,
+        description: `Read a resource from the "${server.name}" MCP server. Available resources:\n${listed(server.resources, r => `${r.uri} (${r.name})${r.description ? `: ${r.description}` : ''}`)}`,
+        parameters: {
+          type: 'object',
+          properties: {
+            uri: { type: 'string', description: 'URI of the resource to read' }
+          },
+          required: ['uri']
+        }
+      },
+      label: `${server.name}: Read Resource`,
+      description: 'Read resources exposed by the server.',
+      defaultEnabled: true,
+      hasOwnSettings: true,
+      execute: async ({ uri }) => {
+        if (typeof uri !== 'string' || !uri) throw new Error('A resource URI is required.');
+        return bridge.readMcpResource(server.id, uri);
+      }
+    });
+  }
+
+  if (server.prompts.length > 0) {
+    tools.push({
+      definition: {
+        name: names.getPrompt,
+        description: `Fetch a prompt template from the "${server.name}" MCP server and follow its instructions. Available prompts:\n${listed(server.prompts, p => {
+          const args = p.arguments?.map(a => `${a.name}${a.required ? '' : '?'}`).join(', ');
+          return `${p.name}${args ? `(${args})` : ''}${p.description ? `: ${p.description}` : ''}`;
+        })}`,
+        parameters: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Name of the prompt' },
+            arguments: {
+              type: 'object',
+              description: 'Prompt arguments as string values',
+              additionalProperties: { type: 'string' }
+            }
+          },
+          required: ['name']
+        }
+      },
+      label: `${server.name}: Get Prompt`,
+      description: 'Use prompt templates exposed by the server.',
+      defaultEnabled: true,
+      hasOwnSettings: true,
+      execute: async ({ name, arguments: promptArgs }) => {
+        if (typeof name !== 'string' || !name) throw new Error('A prompt name is required.');
+        // MCP prompt arguments are strings; pass along whatever else the model sent as text
+        const args = promptArgs && typeof promptArgs === 'object'
+          ? Object.fromEntries(Object.entries(promptArgs).map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]))
+          : {};
+        return bridge.getMcpPrompt(server.id, name, args);
+      }
+    });
+  }
+
+  return tools;
+};
+
+let registeredNames: string[] = [];
+
+// Replace the registered MCP tools with those of the currently connected servers
+export const syncMcpTools = (statuses: McpServerStatus[], bridge: McpBridge) => {
+  registeredNames.forEach(unregisterTool);
+  const names = mcpToolNames(statuses);
+  const tools = statuses
+    .filter(server => server.state === 'connected')
+    .flatMap(server => serverTools(server, names.get(server.id)!, bridge));
+  tools.forEach(registerTool);
+  registeredNames = tools.map(tool => tool.definition.name);
+};
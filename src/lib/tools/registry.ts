@@ -0,0 +1,96 @@
+import type { AppConfig, ToolStep } from '../types';
+import type { Tool, ToolContext, ToolDefinition } from './types';
+
+const tools = new Map<string, Tool>();
+
+export const registerTool = (tool: Tool) => {
+  tools.set(tool.definition.name, tool);
+};
+
+export const unregisterTool = (name: string) => {
+  tools.delete(name);
+};
+
+export const getTool = (name: string): Tool | undefined => tools.get(name);
+
+export const listTools = (): Tool[] => Array.from(tools.values());
+
+export const isToolEnabled = (tool: Tool, config: AppConfig): boolean =>
+  config.enabledTools?.[tool.definition.name] ?? tool.defaultEnabled;
+
+// Tools to offer the model for this request
+export const getEnabledTools = (config: AppConfig, model: string): Tool[] =>
+  listTools().filter(tool => isToolEnabled(tool, config) && (tool.isAvailable?.(config, model) ?? true));
+
+export const toOpenAITool = (definition: ToolDefinition) => ({
+  type: 'function' as const,
+  function: definition
+});
+
+export const toAnthropicTool = ({ name, description, parameters }: ToolDefinition) => ({
+  name,
+  description,
+  input_schema: parameters
+});
+
+// Gemini's `parameters` only takes an OpenAPI subset that MCP schemas often exceed; parametersJsonSchema takes them as they are
+export const toGeminiTool = ({ name, description, parameters }: ToolDefinition) => ({
+  name,
+  description,
+  parametersJsonSchema: parameters
+});
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: unknown; // JSON string (OpenAI) or already parsed object (Anthropic, Gemini)
+}
+
+export interface ToolCallResult {
+  content: string;
+  isError: boolean;
+}
+
+const parseArgs = (args: unknown): Record<string, unknown> => {
+  const parsed = typeof args === 'string' ? (args.trim() ? JSON.parse(args) : {}) : args ?? {};
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error('Not an object');
+  return parsed;
+};
+
+/**
+ * Run one tool call requested by the model. Failures are returned as error results
+ * rather than thrown, so the model can see what went wrong and carry on.
+ */
+export const runToolCall = async (
+  call: ToolCall,
+  ctx: ToolContext,
+  onToolStep?: (step: ToolStep) => void
+): Promise<ToolCallResult> => {
+  if (ctx.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+  const tool = getTool(call.name);
+  const input = typeof call.args === 'string' ? call.args : JSON.stringify(call.args ?? {});
+  const showStep = !tool?.reportsOwnProgress;
+  const step: ToolStep = { id: call.id, name: call.name, label: tool?.label || call.name, input, status: 'running' };
+  if (showStep) onToolStep?.(step);
+
+  let result: ToolCallResult;
+  try {
+    if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+    if (!isToolEnabled(tool, ctx.config)) throw new Error(`The ${tool.label} tool is disabled.`);
+    let args: Record<string, unknown>;
+    try {
+      args = parseArgs(call.args);
+    } catch {
+      throw new Error('Invalid tool arguments: expected a JSON object.');
+    }
+    result = { content: await tool.execute(args, ctx), isError: false };
+  } catch (e) {
+    const error = e as Error;
+    if (error.name === 'AbortError') throw e;
+    result = { content: `Error: ${error.message || 'Tool call failed'}`, isError: true };
+  }
+
+  if (showStep) onToolStep?.({ ...step, output: result.content, status: result.isError ? 'error' : 'done' });
+  return result;
+};
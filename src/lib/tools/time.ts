@@ -0,0 +1,104 @@
+import type { Tool } from './types';
+
+const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const assertTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}". Use an IANA name such as "Europe/Paris".`);
+  }
+};
+
+const formatIn = (date: Date, timeZone: string) => date.toLocaleString('en-US', {
+  timeZone,
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+  timeZoneName: 'longOffset'
+});
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+const zoneOffset = (timeZone: string, date: Date): number => {
+  const parts: Record<string, number> = {};
+  for (const part of new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date)) {
+    parts[part.type] = Number(part.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Interpret a wall clock time ("2025-03-14 09:30" or "09:30" for today) in a time zone
+const parseWallClock = (time: string, timeZone: string): Date => {
+  const match = time.trim().match(/^(?:(\d{4})-(\d{2})-(\d{2})[ T])?(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) throw new Error(`Could not read the time "${time}". Use "YYYY-MM-DD HH:mm" or "HH:mm".`);
+
+  const [, year, month, day, hour, minute, second] = match;
+  let wallUtc: number;
+  if (year) {
+    wallUtc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +(second || 0));
+  } else {
+    // Today's date as seen in the source time zone
+    const now = new Date();
+    const today = new Date(now.getTime() + zoneOffset(timeZone, now));
+    wallUtc = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate(), +hour, +minute, +(second || 0));
+  }
+
+  // The offset depends on the instant itself (DST), so correct the first guess once
+  let instant = wallUtc - zoneOffset(timeZone, new Date(wallUtc));
+  instant = wallUtc - zoneOffset(timeZone, new Date(instant));
+  return new Date(instant);
+};
+
+export const timeTool: Tool = {
+  definition: {
+    name: 'get_time',
+    description: 'Get the current date and time in a time zone, or convert a given time from one time zone to another. Time zones are IANA names such as "America/New_York" or "Asia/Tokyo".',
+    parameters: {
+      type: 'object',
+      properties: {
+        timezone: {
+          type: 'string',
+          description: 'Time zone to report the time in. Defaults to the user\'s local time zone.'
+        },
+        time: {
+          type: 'string',
+          description: 'Optional time to convert instead of the current time, as "YYYY-MM-DD HH:mm" or "HH:mm" (today).'
+        },
+        from_timezone: {
+          type: 'string',
+          description: 'Time zone the given time is in. Defaults to the user\'s local time zone.'
+        }
+      }
+    }
+  },
+  label: 'Time & Time Zones',
+  description: 'Look up the current time anywhere and convert times between time zones.',
+  defaultEnabled: true,
+
+  execute: async ({ timezone, time, from_timezone }) => {
+    const target = typeof timezone === 'string' && timezone ? timezone : localTimeZone();
+    assertTimeZone(target);
+
+    if (!time) {
+      return `Current time in ${target}: ${formatIn(new Date(), target)}`;
+    }
+
+    const source = typeof from_timezone === 'string' && from_timezone ? from_timezone : localTimeZone();
+    assertTimeZone(source);
+    const instant = parseWallClock(String(time), source);
+    return `${formatIn(instant, source)} (${source}) is ${formatIn(instant, target)} (${target})`;
+  }
+};
@@ -0,0 +1,31 @@
+// Tools the model can call during a streamed reply. Kept free of DOM/extension
+// globals (like the provider layer) so the Electron main process can load them too.
+
+import type { AppConfig } from '../types';
+import type { WebSearchStatus } from '../providers/types';
+
+// What the model sees: name, description and a JSON schema for the arguments
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolContext {
+  config: AppConfig;
+  signal?: AbortSignal;
+  onWebSearch?: (status: WebSearchStatus) => void;
+}
+
+export interface Tool {
+  definition: ToolDefinition;
+  label: string; // Shown in Options and on the tool step in the chat
+  description: string; // Options hint
+  defaultEnabled: boolean;
+  hasOwnSettings?: boolean; // Toggled from its own Options section (web search)
+  reportsOwnProgress?: boolean; // Renders its own chat block instead of a tool step
+  isAvailable?: (config: AppConfig, model: string) => boolean;
+  // Returns the text handed back to the model; throw to report a failed call. The arguments
+  // are whatever the model sent, so each tool checks the ones it uses.
+  execute: (args: Record<string, unknown>, ctx: ToolContext) => Promise<string>;
+}
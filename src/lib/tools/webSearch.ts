@@ -0,0 +1,33 @@
+import type { Tool } from './types';
+import { WEB_SEARCH_TOOL, executeWebSearch, formatWebSearchToolResult, shouldEnableWebSearch, webSearchQueryFromArgs } from '../providers/webSearch';
+
+export const webSearchTool: Tool = {
+  definition: WEB_SEARCH_TOOL.function,
+  label: 'Web Search',
+  description: 'Search the web for current information.',
+  defaultEnabled: true,
+  hasOwnSettings: true,
+  reportsOwnProgress: true,
+  isAvailable: shouldEnableWebSearch,
+
+  execute: async (args, { config, signal, onWebSearch }) => {
+    const query = webSearchQueryFromArgs(args);
+    if (!query) throw new Error('A search query is required.');
+
+    // Notify UI that search is starting
+    onWebSearch?.({ query, isSearching: true });
+
+    const searchResult = await executeWebSearch(query, config, signal);
+
+    // Sources go on the current message; the answer continues in a new one
+    onWebSearch?.({
+      query,
+      result: searchResult.content,
+      isSearching: false,
+      sources: searchResult.sources,
+      startNewMessage: true
+    });
+
+    return formatWebSearchToolResult(searchResult.content);
+  }
+};
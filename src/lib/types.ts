@@ -1,11 +1,17 @@
 export type Provider = string;
 
+export type CustomProviderType = 'openai' | 'ollama' | 'azure';
+
 export interface CustomProvider {
   id: string; // internal id (e.g. 'custom-1')
   name: string; // display name (e.g. 'Local Mistral')
   baseUrl: string;
+  type?: CustomProviderType; // API the endpoint speaks, defaults to 'openai' (OpenAI compatible)
+  apiVersion?: string; // Azure OpenAI only, sent as ?api-version=
 }
 
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
 export interface PromptTemplate {
   id: string;
   name: string;
@@ -20,16 +26,82 @@ export interface PromptTemplate {
     provider: string;
     modelName: string;
   } | null;
+  params?: GenerationParams; // Applied on top of the model's defaults when the prompt is used
+  personaId?: string; // The conversation switches to this persona when the prompt is used
+  generateImages?: boolean; // Asks the model for an image instead of a text reply
+}
+
+// A named system prompt, with the model and reply language that go with it
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model?: {
+    provider: string;
+    modelName: string;
+  } | null; // Switched to when the persona is picked
+  language?: string; // e.g. "German"; replies are in this language whatever the user writes in
+}
+
+// A signed Anthropic thinking block; the signature only covers this block's text
+export interface ThinkingBlock {
+  thinking: string;
+  signature: string;
+}
+
+// One tool call made while answering, shown as a collapsible step above the reply
+export interface ToolStep {
+  id: string; // Tool call id from the model
+  name: string;
+  label: string;
+  input: string; // Arguments as JSON
+  output?: string;
+  status: 'running' | 'done' | 'error';
+}
+
+// Tokens billed for one reply, summed over every request it took (e.g. tool call rounds)
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number; // Includes reasoning tokens
+  reasoningTokens?: number; // When the provider reports them separately
+}
+
+// A model in the fallback chain that failed before another one answered
+export interface FailedAttempt {
+  provider: string;
+  model: string;
+  error: string;
+  kind: string; // ErrorKind from the provider layer
+}
+
+// A file attached to a message, with its text extracted locally when it was attached
+export interface DocumentAttachment {
+  name: string;
+  mimeType: string;
+  text: string; // Extracted text of the included pages
+  pages?: { from: number; to: number; total: number }; // PDFs only, 1-based and inclusive
+  data?: string; // Data URL of a PDF attached whole, for models that read PDFs themselves
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
-  image?: string; // Data URL
+  images?: string[]; // Data URLs, in the order they were attached (or generated, on assistant messages)
+  image?: string; // Single data URL of messages saved before `images`; read both through messageImages
+  documents?: DocumentAttachment[];
   interrupted?: boolean;
   responseTime?: number; // Response time in milliseconds
   reasoning?: string; // Reasoning/thinking content from models like DeepSeek
   reasoningTime?: number; // Reasoning time in seconds (persisted when interrupted)
+  reasoningSignature?: string; // Signature of `reasoning`, on messages saved before thinkingBlocks
+  thinkingBlocks?: ThinkingBlock[]; // Anthropic thinking of the reply's final turn, sent back on later turns
+  toolSteps?: ToolStep[];
+  answeredBy?: { provider: string; model: string }; // Model that produced this reply, which may be a backup
+  failedAttempts?: FailedAttempt[];
+  usage?: TokenUsage;
+  contextTrim?: ContextTrim; // How earlier turns were cut to fit the model's context for this reply
+  contextSummary?: string; // Summary of this and all earlier messages, reused while they stay out of context
+  requestLog?: RequestRecord[]; // HTTP exchanges behind this reply, when the request inspector is on
   webSearch?: {
     query: string;
     result: string;
@@ -42,6 +114,21 @@ export interface ChatMessage {
   };
 }
 
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  provider?: string; // Provider used for the latest reply
+  model?: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+  personaId?: string;
+}
+
+export interface Conversation extends ConversationSummary {
+  messages: ChatMessage[];
+}
+
 export interface ApiConfig {
   provider: Provider;
   apiKey: string;
@@ -49,8 +136,172 @@ export interface ApiConfig {
   model?: string;
 }
 
+// Model Context Protocol server the desktop app connects to
+export interface McpServerConfig {
+  id: string;
+  name: string;
+  transport: 'stdio' | 'http';
+  enabled: boolean;
+  command?: string; // stdio: executable to spawn
+  args?: string[];
+  env?: Record<string, string>; // stdio: added to the app's environment
+  url?: string; // http: streamable HTTP endpoint
+  headers?: Record<string, string>; // http: e.g. Authorization
+}
+
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface McpResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPromptInfo {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+// Live state of a configured server, reported by the Electron main process
+export interface McpServerStatus {
+  id: string;
+  name: string;
+  state: 'connecting' | 'connected' | 'error';
+  error?: string;
+  tools: McpToolInfo[];
+  resources: McpResourceInfo[];
+  prompts: McpPromptInfo[];
+}
+
+// Sampling parameters; unset ones are left to the provider. Each provider gets the ones it supports.
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+// Per-model overrides, stored under `${provider}:${model}`
+export interface ModelSettings extends GenerationParams {
+  contextLength?: number; // Context window in tokens, for models missing from the built-in table
+  thinkingBudget?: number; // Anthropic extended thinking budget in tokens; unset or 0 disables thinking
+  generateImages?: boolean; // Requests go to the provider's image generation instead of chat
+}
+
+// One HTTP exchange with a provider, as shown in the request inspector. Secrets are redacted
+// and inline images shortened before anything is stored.
+export interface RequestRecord {
+  id: string;
+  provider: string;
+  model: string;
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  status?: number;
+  responseHeaders?: Record<string, string>;
+  frames: Array<{ at: number; data: string }>; // Raw response chunks, ms after the request started
+  framesTruncated?: boolean;
+  error?: string;
+  startedAt: number; // Epoch ms
+  firstByteMs?: number; // Until the response headers arrived
+  durationMs?: number; // Until the body was read or the request failed
+  replay?: boolean; // Sent from the inspector rather than the chat
+}
+
+// What to do before sending when the conversation would overflow the model's context
+export type ContextStrategy = 'drop_oldest' | 'summarize' | 'truncate_context' | 'off';
+
+export interface ContextTrim {
+  dropped?: number; // Earlier messages left out
+  summarized?: number; // Earlier messages replaced by a summary
+  truncatedTokens?: number; // Tokens cut from the attached context
+}
+
+// How the desktop app reaches the network. 'manual' takes one proxy URL
+// (http://, https://, socks4://, socks5://); 'pac' an auto-config script URL.
+export type ProxyMode = 'system' | 'direct' | 'manual' | 'pac';
+
+export interface TrustedCertificate {
+  id: string;
+  name: string; // Subject common name, for display
+  pem: string;
+  fingerprint: string; // SHA-256
+  expires: string;
+}
+
+export interface NetworkSettings {
+  proxyMode: ProxyMode;
+  proxyUrl?: string;
+  pacUrl?: string;
+  bypass?: string; // Comma-separated hosts that skip the manual proxy, e.g. "localhost, *.corp.example.com"
+  providerProxies?: Record<string, string>; // Provider id -> proxy URL, or 'direct'
+  trustedCertificates?: TrustedCertificate[]; // Extra root CAs, e.g. a corporate TLS inspection root
+}
+
+// One provider's outcome in the connectivity test
+export interface NetworkTestResult {
+  provider: string;
+  url: string;
+  route: string; // How it was reached, e.g. "DIRECT" or "PROXY proxy.corp:8080"
+  status?: number; // Any HTTP status means the host was reached
+  ms?: number;
+  error?: string;
+}
+
+// How to pick among several API keys for one provider
+export type KeySelection = 'round-robin' | 'least-recently-used' | 'random';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Provider id that stands for a whisper-compatible server on this machine, used without a key
+export const LOCAL_TRANSCRIPTION = 'local';
+
+// Where dictated audio is sent to be turned into text
+export interface TranscriptionSettings {
+  provider: string; // A provider whose key and base URL are used, or LOCAL_TRANSCRIPTION
+  model: string; // e.g. whisper-1, gpt-4o-mini-transcribe or a Gemini model
+  localUrl?: string; // Base URL of the local server, up to /v1
+  language?: string; // ISO-639-1 hint; empty lets the model detect it
+  autoSubmit?: boolean; // Send the transcript right away instead of leaving it in the input box
+}
+
+export const DEFAULT_TRANSCRIPTION: TranscriptionSettings = { provider: 'openai', model: 'whisper-1' };
+
+// Engine ids for read-aloud besides providers: the voices of the OS (Web Speech API),
+// or a server on this machine with an OpenAI-style /audio/speech endpoint, used without a key
+export const SYSTEM_SPEECH = 'system';
+export const LOCAL_SPEECH = 'local';
+
+// How replies are read aloud
+export interface SpeechSettings {
+  engine: string; // SYSTEM_SPEECH, LOCAL_SPEECH or a provider whose key and base URL are used
+  voice?: string; // Name of a system voice, or the provider's voice id (alloy, Kore...)
+  model?: string; // Provider and local engines, e.g. gpt-4o-mini-tts
+  localUrl?: string; // Base URL of the local server, up to /v1
+  rate?: number; // Speaking speed, 1 is normal
+  autoRead?: boolean; // Read new replies as they stream in
+}
+
+export const DEFAULT_SPEECH: SpeechSettings = { engine: SYSTEM_SPEECH };
+
 export interface AppConfig {
   apiKeys: Record<string, string[]>; // Allow multiple keys per provider
+  keySelection?: KeySelection;
   selectedProvider: string;
   customBaseUrls: Record<string, string>;
   prompts: PromptTemplate[];
@@ -64,6 +315,12 @@ export interface AppConfig {
     key: string;
     modifiers: string[];
   } | null;
+  voiceHotkey?: { // Desktop app only: starts dictation, and stops it on the next press
+    key: string;
+    modifiers: string[];
+  } | null;
+  transcription?: TranscriptionSettings;
+  speech?: SpeechSettings;
   theme: 'system' | 'light' | 'dark';
   popupMode?: 'extension' | 'content_script';
   popupSize?: { width: number; height: number };
@@ -72,6 +329,19 @@ export interface AppConfig {
   kagiSession?: string; // Kagi session cookie for web search
   alwaysExpandReasoning?: boolean; // Always expand reasoning content
   backupModels?: Record<string, Array<{ provider: string; model: string }>>;  // Backup models for quick retry
+  autoFailover?: boolean; // Fall back to the backup models, in order, when a request fails
+  modelSettings?: Record<string, ModelSettings>;
+  promptParams?: GenerationParams; // Set by the prompt template in use for the requests it starts
+  promptGeneratesImages?: boolean; // Set by the prompt template in use, like promptParams
+  personas?: Persona[];
+  defaultPersonaId?: string; // Persona new chats start with
+  personaId?: string; // Persona of the open conversation, not saved with the settings
+  contextStrategy?: ContextStrategy;
+  inspectRequests?: boolean; // Record provider requests and responses for the request inspector
+  modelPrices?: Record<string, ModelPrice>; // Additions to and overrides of the built-in price table, by model id
+  enabledTools?: Record<string, boolean>; // Per-tool overrides of the tool's default, by tool name
+  mcpServers?: McpServerConfig[]; // Desktop app only
+  network?: NetworkSettings; // Desktop app only
 }
 
 export const DEFAULT_PROMPTS: PromptTemplate[] = [
@@ -114,5 +384,14 @@ export const DEFAULT_CONFIG: AppConfig = {
   webSearchProvider: 'perplexity',
   kagiSession: '',
   alwaysExpandReasoning: false,
-  backupModels: {}
+  keySelection: 'round-robin',
+  backupModels: {},
+  autoFailover: true,
+  modelSettings: {},
+  contextStrategy: 'drop_oldest',
+  inspectRequests: false,
+  modelPrices: {},
+  enabledTools: {},
+  mcpServers: [],
+  network: { proxyMode: 'system' }
 };
@@ -0,0 +1,84 @@
+/**
+ * Microphone recording for dictation. Runs in the page (MediaRecorder, Web Audio);
+ * the result is handed to transcribeAudio in api.ts.
+ */
+
+import { readFileAsDataUrl } from './documents';
+import { wavFile } from './wav';
+
+// Speech models work at 16 kHz mono, and WAV is the one format every backend reads
+// (whisper.cpp's server takes nothing else), so recordings are converted before upload
+const SAMPLE_RATE = 16000;
+
+export interface Recording {
+  stop: () => Promise<string>; // The recording as a WAV data URL
+  cancel: () => void;
+}
+
+const encodeWav = (samples: Float32Array) => {
+  const pcm = new DataView(new ArrayBuffer(samples.length * 2));
+  samples.forEach((sample, i) => pcm.setInt16(i * 2, Math.max(-1, Math.min(1, sample)) * 0x7fff, true));
+  return new Blob([wavFile(new Uint8Array(pcm.buffer), SAMPLE_RATE)], { type: 'audio/wav' });
+};
+
+// Decode what the recorder produced (webm/opus in Chromium) and resample it to 16 kHz mono
+const toWav = async (recording: Blob) => {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await recording.arrayBuffer());
+  } finally {
+    context.close();
+  }
+  const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * SAMPLE_RATE), SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  return encodeWav((await offline.startRendering()).getChannelData(0));
+};
+
+/** Start recording from the default microphone. */
+export const startRecording = async (): Promise<Recording> => {
+  // macOS asks for microphone access per app; the desktop app has to request it first
+  const electronAPI = window.electronAPI;
+  if (electronAPI?.requestMicrophoneAccess && !(await electronAPI.requestMicrophoneAccess())) {
+    throw new Error('Microphone access is turned off for AI Assistant. Allow it in System Settings > Privacy & Security > Microphone.');
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch (e) {
+    const error = e as Error;
+    throw new Error(error.name === 'NotAllowedError' ? 'Microphone access was denied' : `Could not open the microphone: ${error.message}`);
+  }
+  const release = () => stream.getTracks().forEach(track => track.stop());
+
+  const chunks: Blob[] = [];
+  const recorder = new MediaRecorder(stream);
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start();
+
+  return {
+    stop: () => new Promise<string>((resolve, reject) => {
+      recorder.onstop = async () => {
+        release();
+        try {
+          if (chunks.length === 0) throw new Error('Nothing was recorded');
+          resolve(await readFileAsDataUrl(await toWav(new Blob(chunks, { type: recorder.mimeType }))));
+        } catch (e) {
+          reject((e as Error).name === 'EncodingError' ? new Error('The recording was too short to use') : e);
+        }
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    }
+  };
+};
@@ -0,0 +1,23 @@
+/** A WAV file around raw 16-bit little-endian mono PCM samples. */
+export const wavFile = (pcm: Uint8Array, sampleRate: number): Uint8Array<ArrayBuffer> => {
+  const wav = new Uint8Array(44 + pcm.length);
+  const view = new DataView(wav.buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true); // Format chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Bytes per second
+  view.setUint16(32, 2, true); // Bytes per sample
+  view.setUint16(34, 16, true); // Bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, 44);
+  return wav;
+};
@@ -0,0 +1,325 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2, RefreshCw, X, Plug, Pencil, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { AppConfig, McpServerConfig, McpServerStatus } from '../lib/types';
+import { mcpToolNames } from '../lib/tools';
+
+interface McpServersProps {
+    config: AppConfig;
+    saveConfig: (config: AppConfig) => void;
+}
+
+// Form state; list fields are edited as text and parsed on save
+interface Draft {
+    id?: string;
+    name: string;
+    transport: McpServerConfig['transport'];
+    command: string;
+    args: string;
+    env: string;
+    url: string;
+    headers: string;
+}
+
+const emptyDraft: Draft = { name: '', transport: 'stdio', command: '', args: '', env: '', url: '', headers: '' };
+
+// Split a command line into arguments, keeping quoted parts together
+const parseArgs = (text: string) =>
+    (text.match(/"[^"]*"|'[^']*'|\S+/g) || []).map(arg => arg.replace(/^(["'])(.*)\1$/, '$2'));
+
+// "KEY=value" / "Header: value" lines to a record
+const parsePairs = (text: string, separator: string) => {
+    const pairs: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const index = line.indexOf(separator);
+        if (index > 0) pairs[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+    return pairs;
+};
+
+const formatPairs = (pairs: Record<string, string> | undefined, separator: string) =>
+    Object.entries(pairs || {}).map(([key, value]) => `${key}${separator}${value}`).join('\n');
+
+const toDraft = (server: McpServerConfig): Draft => ({
+    id: server.id,
+    name: server.name,
+    transport: server.transport,
+    command: server.command || '',
+    args: (server.args || []).map(arg => /\s/.test(arg) ? `"${arg}"` : arg).join(' '),
+    env: formatPairs(server.env, '='),
+    url: server.url || '',
+    headers: formatPairs(server.headers, ': ')
+});
+
+export function McpServers({ config, saveConfig }: McpServersProps) {
+    const [statuses, setStatuses] = useState<McpServerStatus[]>([]);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const servers = config.mcpServers || [];
+    const toolNamesByServer = useMemo(() => mcpToolNames(statuses), [statuses]);
+
+    useEffect(() => {
+        const electronAPI = window.electronAPI;
+        if (!electronAPI?.getMcpStatus) return;
+        electronAPI.getMcpStatus().then(setStatuses);
+        return electronAPI.onMcpStatus(setStatuses);
+    }, []);
+
+    // Servers restart whenever their config changes, so edits are only saved from the form
+    const handleSaveDraft = () => {
+        if (!draft) return;
+        const server: McpServerConfig = {
+            id: draft.id || `mcp-${Date.now()}`,
+            name: draft.name.trim(),
+            transport: draft.transport,
+            enabled: servers.find(s => s.id === draft.id)?.enabled ?? true,
+            ...(draft.transport === 'stdio'
+                ? { command: draft.command.trim(), args: parseArgs(draft.args), env: parsePairs(draft.env, '=') }
+                : { url: draft.url.trim(), headers: parsePairs(draft.headers, ':') })
+        };
+        const exists = servers.some(s => s.id === server.id);
+        saveConfig({
+            ...config,
+            mcpServers: exists ? servers.map(s => s.id === server.id ? server : s) : [...servers, server]
+        });
+        setDraft(null);
+    };
+
+    const handleToggleServer = (id: string, enabled: boolean) => {
+        saveConfig({ ...config, mcpServers: servers.map(s => s.id === id ? { ...s, enabled } : s) });
+    };
+
+    const handleDeleteServer = (id: string) => {
+        if (confirm('Are you sure you want to delete this MCP server?')) {
+            saveConfig({ ...config, mcpServers: servers.filter(s => s.id !== id) });
+        }
+    };
+
+    const handleToggleTool = (name: string, enabled: boolean) => {
+        saveConfig({ ...config, enabledTools: { ...config.enabledTools, [name]: enabled } });
+    };
+
+    const canSave = draft && draft.name.trim() && (draft.transport === 'stdio' ? draft.command.trim() : draft.url.trim());
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="bg-blue-50 dark:bg-blue-900/10 border border-blue-100 dark:border-blue-900/50 rounded-xl p-4 flex gap-3">
+                <div className="text-blue-600 dark:text-blue-400 mt-0.5"><Plug size={18} /></div>
+                <div className="text-sm text-blue-900 dark:text-blue-300 flex-1">
+                    <p className="font-semibold mb-1">Model Context Protocol Servers</p>
+                    <p className="opacity-80">Connect MCP servers to give models their tools, resources and prompts. Servers run locally (stdio) or remotely (streamable HTTP).</p>
+                </div>
+                <button
+                    onClick={() => setDraft(emptyDraft)}
+                    className="self-start text-xs font-semibold bg-white dark:bg-gpt-input text-blue-600 dark:text-blue-400 border border-blue-100 dark:border-gpt-hover px-3 py-1.5 rounded-lg hover:bg-blue-50 dark:hover:bg-gpt-hover hover:border-blue-200 transition-colors flex items-center gap-1.5 shadow-sm"
+                >
+                    <Plus size={14} /> Add Server
+                </button>
+            </div>
+
+            {/* Add / Edit Server Modal */}
+            {draft && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm">
+                    <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-xl w-full max-w-md p-6 border border-slate-200 dark:border-gpt-hover animate-in fade-in zoom-in-95 duration-200">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="font-bold text-lg text-slate-900 dark:text-gpt-text">{draft.id ? 'Edit MCP Server' : 'Add MCP Server'}</h3>
+                            <button onClick={() => setDraft(null)} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
+                        </div>
+                        <div className="space-y-4">
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Name</label>
+                                <input
+                                    type="text"
+                                    value={draft.name}
+                                    onChange={e => setDraft({ ...draft, name: e.target.value })}
+                                    className="w-full p-2.5 rounded-lg border dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
+                                    placeholder="e.g. Filesystem"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Transport</label>
+                                <select
+                                    value={draft.transport}
+                                    onChange={e => setDraft({ ...draft, transport: e.target.value as McpServerConfig['transport'] })}
+                                    className="w-full p-2.5 rounded-lg border dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
+                                >
+                                    <option value="stdio">Local command (stdio)</option>
+                                    <option value="http">Remote URL (streamable HTTP)</option>
+                                </select>
+                            </div>
+                            {draft.transport === 'stdio' ? (
+                                <>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Command</label>
+                                        <input
+                                            type="text"
+                                            value={draft.command}
+                                            onChange={e => setDraft({ ...draft, command: e.target.value })}
+                                            className="w-full p-2.5 rounded-lg border font-mono text-sm dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
+                                            placeholder="npx"
+                                        />
+                                        <p className="text-xs text-slate-400 mt-1">Use an absolute path if the command isn't found; apps started from the Dock don't see your shell's PATH.</p>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Arguments</label>
+                                        <input
+                                            type="text"
+                                            value={draft.args}
+                                            onChange={e => setDraft({ ...draft, args: e.target.value })}
+                                            className="w-full p-2.5 rounded-lg border font-mono text-sm dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
+                                            placeholder="-y @modelcontextprotocol/server-filesystem ~/Documents"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Environment</label>
+                                        <textarea
+                                            value={draft.env}
+                                            onChange={e => setDraft({ ...draft, env: e.target.value })}
+                                            className="w-full p-2.5 rounded-lg border font-mono text-sm dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
+                                            placeholder="API_TOKEN=..."
+                                            rows={2}
+                                        />
+                                    </div>
+                                </>
+                            ) : (
+                                <>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">URL</label>
+                                        <input
+                                            type="text"
+                                            value={draft.url}
+                                            onChange={e => setDraft({ ...draft, url: e.target.value })}
+                                            className="w-full p-2.5 rounded-lg border font-mono text-sm dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
+                                            placeholder="https://mcp.example.com/mcp"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Headers</label>
+                                        <textarea
+                                            value={draft.headers}
+                                            onChange={e => setDraft({ ...draft, headers: e.target.value })}
+                                            className="w-full p-2.5 rounded-lg border font-mono text-sm dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
+                                            placeholder="Authorization: Bearer ..."
+                                            rows={2}
+                                        />
+                                    </div>
+                                </>
+                            )}
+                            <div className="flex justify-end gap-2 pt-2">
+                                <button onClick={() => setDraft(null)} className="px-4 py-2 text-sm text-slate-600">Cancel</button>
+                                <button
+                                    onClick={handleSaveDraft}
+                                    className="px-4 py-2 bg-blue-600 text-white text-sm font-bold rounded-lg hover:bg-blue-700"
+                                    disabled={!canSave}
+                                >
+                                    {draft.id ? 'Save Server' : 'Add Server'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {servers.length === 0 && (
+                <p className="text-sm text-slate-400 dark:text-gpt-secondary text-center py-8">No MCP servers configured yet.</p>
+            )}
+
+            <div className="grid grid-cols-1 gap-6">
+                {servers.map(server => {
+                    const status = statuses.find(s => s.id === server.id);
+                    const toolNames = toolNamesByServer.get(server.id);
+                    return (
+                        <div key={server.id} className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover transition-all hover:shadow-md duration-300">
+                            <div className="px-6 py-4 border-b border-slate-100 dark:border-gpt-hover bg-slate-50/50 dark:bg-gpt-hover/20 flex items-center justify-between rounded-t-2xl">
+                                <h3 className="font-bold text-slate-800 dark:text-gpt-text flex items-center gap-2 min-w-0">
+                                    <span className={clsx("w-2 h-2 rounded-full shrink-0",
+                                        !server.enabled ? "bg-slate-300 dark:bg-slate-600"
+                                            : status?.state === 'connected' ? "bg-green-500"
+                                                : status?.state === 'error' ? "bg-red-500" : "bg-amber-400"
+                                    )} />
+                                    <span className="truncate">{server.name}</span>
+                                    <span className="text-[10px] font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-gpt-hover px-1.5 py-0.5 rounded">
+                                        {server.transport === 'stdio' ? 'stdio' : 'HTTP'}
+                                    </span>
+                                </h3>
+                                <div className="flex items-center gap-2">
+                                    {server.enabled && status && (
+                                        <button
+                                            onClick={() => window.electronAPI?.restartMcpServer(server.id)}
+                                            className="text-xs text-slate-500 hover:bg-slate-100 dark:hover:bg-gpt-hover px-2 py-1 rounded transition-all flex items-center gap-1"
+                                        >
+                                            <RefreshCw size={12} /> Restart
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => setDraft(toDraft(server))}
+                                        className="text-xs text-slate-500 hover:bg-slate-100 dark:hover:bg-gpt-hover px-2 py-1 rounded transition-all flex items-center gap-1"
+                                    >
+                                        <Pencil size={12} /> Edit
+                                    </button>
+                                    <button
+                                        onClick={() => handleDeleteServer(server.id)}
+                                        className="text-xs text-red-500 hover:bg-red-50 px-2 py-1 rounded border border-transparent hover:border-red-100 transition-all flex items-center gap-1"
+                                    >
+                                        <Trash2 size={12} /> Delete
+                                    </button>
+                                    <label className="relative ml-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={server.enabled}
+                                            onChange={(e) => handleToggleServer(server.id, e.target.checked)}
+                                            className="sr-only peer"
+                                        />
+                                        <div className="w-11 h-6 bg-slate-200 dark:bg-gpt-input peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                                    </label>
+                                </div>
+                            </div>
+                            <div className="p-6 space-y-3">
+                                <p className="text-xs font-mono text-slate-500 dark:text-gpt-secondary truncate">
+                                    {server.transport === 'stdio' ? [server.command, ...(server.args || [])].join(' ') : server.url}
+                                </p>
+                                {!server.enabled ? (
+                                    <p className="text-xs text-slate-400 dark:text-gpt-secondary">Disabled</p>
+                                ) : !status || status.state === 'connecting' ? (
+                                    <p className="text-xs text-slate-500 dark:text-gpt-secondary flex items-center gap-1.5">
+                                        <Loader2 size={12} className="animate-spin" /> Connecting...
+                                    </p>
+                                ) : status.state === 'error' ? (
+                                    <p className="text-xs text-red-600 dark:text-red-400 break-words">⚠️ {status.error}</p>
+                                ) : (
+                                    <>
+                                        <p className="text-xs text-slate-500 dark:text-gpt-secondary">
+                                            {status.tools.length} tools · {status.resources.length} resources · {status.prompts.length} prompts
+                                        </p>
+                                        {status.tools.length > 0 && (
+                                            <div className="space-y-2">
+                                                {status.tools.map(tool => {
+                                                    const name = toolNames?.tools.get(tool.name) || '';
+                                                    return (
+                                                        <label key={tool.name} className="flex items-center justify-between gap-4 cursor-pointer group">
+                                                            <div className="min-w-0">
+                                                                <span className="text-sm font-medium font-mono text-slate-700 dark:text-gpt-text">{tool.name}</span>
+                                                                {tool.description && (
+                                                                    <p className="text-xs text-slate-400 dark:text-gpt-secondary truncate">{tool.description}</p>
+                                                                )}
+                                                            </div>
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={config.enabledTools?.[name] ?? true}
+                                                                onChange={(e) => handleToggleTool(name, e.target.checked)}
+                                                                className="w-4 h-4 rounded text-blue-600 shrink-0"
+                                                            />
+                                                        </label>
+                                                    );
+                                                })}
+                                            </div>
+                                        )}
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Plus, RotateCcw, Trash2, Search } from 'lucide-react';
+import type { AppConfig, ModelPrice } from '../lib/types';
+import { DEFAULT_MODEL_PRICES, getPriceTable } from '../lib/pricing';
+
+interface ModelPricesProps {
+    config: AppConfig;
+    saveConfig: (config: AppConfig) => void;
+}
+
+const inputClass = "w-20 p-1.5 bg-white dark:bg-gpt-sidebar border border-slate-200 dark:border-gpt-hover rounded-lg text-xs text-right text-slate-700 dark:text-gpt-text outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500";
+
+// Editable price table used for the cost shown under each reply. Only entries the user
+// changed or added are stored; the rest come from the built-in table.
+export function ModelPrices({ config, saveConfig }: ModelPricesProps) {
+    const [filter, setFilter] = useState('');
+    const [newModel, setNewModel] = useState('');
+    const [newPrice, setNewPrice] = useState({ input: '', output: '' });
+
+    const table = getPriceTable(config);
+    const models = Object.keys(table)
+        .filter(model => model.toLowerCase().includes(filter.toLowerCase()))
+        .sort();
+
+    const setPrice = (model: string, price: ModelPrice) => {
+        saveConfig({ ...config, modelPrices: { ...config.modelPrices, [model]: price } });
+    };
+
+    // Drops the user's entry: built-in models go back to the default price, added ones disappear
+    const removePrice = (model: string) => {
+        const modelPrices = { ...config.modelPrices };
+        delete modelPrices[model];
+        saveConfig({ ...config, modelPrices });
+    };
+
+    const handleChange = (model: string, field: keyof ModelPrice, value: string) => {
+        const parsed = parseFloat(value);
+        if (Number.isNaN(parsed) || parsed < 0) return;
+        setPrice(model, { ...table[model], [field]: parsed });
+    };
+
+    const handleAdd = () => {
+        const input = parseFloat(newPrice.input);
+        const output = parseFloat(newPrice.output);
+        if (!newModel.trim() || Number.isNaN(input) || Number.isNaN(output)) return;
+        setPrice(newModel.trim(), { input, output });
+        setNewModel('');
+        setNewPrice({ input: '', output: '' });
+    };
+
+    return (
+        <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+            <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-2 flex items-center gap-2">
+                <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
+                Model Prices
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-gpt-secondary mb-4">
+                USD per million tokens, used to show the cost of each reply and conversation. Model ids match by prefix, so dated versions use their base model's price.
+            </p>
+
+            <div className="relative mb-3">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                <input
+                    type="text"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter models..."
+                    className="w-full pl-9 pr-3 py-2 bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg text-sm text-slate-700 dark:text-gpt-text outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                />
+            </div>
+
+            <div className="flex items-center gap-2 px-3 pb-1 text-[10px] font-bold text-slate-400 dark:text-gpt-secondary uppercase tracking-wider">
+                <span className="flex-1">Model</span>
+                <span className="w-20 text-right">Input</span>
+                <span className="w-20 text-right">Output</span>
+                <span className="w-8"></span>
+            </div>
+            <div className="max-h-80 overflow-y-auto custom-scrollbar space-y-1">
+                {models.map(model => {
+                    const isCustom = config.modelPrices?.[model] !== undefined;
+                    const isBuiltIn = DEFAULT_MODEL_PRICES[model] !== undefined;
+                    return (
+                        <div key={model} className="flex items-center gap-2 group bg-slate-50 dark:bg-gpt-input px-3 py-1.5 rounded-lg border border-slate-200 dark:border-gpt-hover">
+                            <span className="flex-1 text-xs font-medium text-slate-700 dark:text-gpt-text truncate">
+                                {model}
+                                {isCustom && isBuiltIn && <span className="ml-1.5 text-[10px] text-blue-500">edited</span>}
+                            </span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={table[model].input}
+                                onChange={(e) => handleChange(model, 'input', e.target.value)}
+                                className={inputClass}
+                            />
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={table[model].output}
+                                onChange={(e) => handleChange(model, 'output', e.target.value)}
+                                className={inputClass}
+                            />
+                            <div className="w-8 flex justify-center">
+                                {isCustom && (
+                                    <button
+                                        onClick={() => removePrice(model)}
+                                        className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                        title={isBuiltIn ? 'Reset to default price' : 'Remove price'}
+                                    >
+                                        {isBuiltIn ? <RotateCcw size={12} /> : <Trash2 size={12} />}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+                {models.length === 0 && (
+                    <div className="text-sm text-slate-400 italic p-4 text-center">No matching models.</div>
+                )}
+            </div>
+
+            {/* Add a price for a model that isn't listed */}
+            <div className="flex items-center gap-2 mt-3 px-3">
+                <input
+                    type="text"
+                    value={newModel}
+                    onChange={(e) => setNewModel(e.target.value)}
+                    placeholder="Model id"
+                    className="flex-1 min-w-0 p-1.5 bg-white dark:bg-gpt-sidebar border border-slate-200 dark:border-gpt-hover rounded-lg text-xs text-slate-700 dark:text-gpt-text outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                />
+                <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={newPrice.input}
+                    onChange={(e) => setNewPrice({ ...newPrice, input: e.target.value })}
+                    placeholder="Input"
+                    className={inputClass}
+                />
+                <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={newPrice.output}
+                    onChange={(e) => setNewPrice({ ...newPrice, output: e.target.value })}
+                    placeholder="Output"
+                    className={inputClass}
+                />
+                <div className="w-8 flex justify-center">
+                    <button
+                        onClick={handleAdd}
+                        disabled={!newModel.trim() || !newPrice.input || !newPrice.output}
+                        className="p-1.5 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:text-slate-300 dark:disabled:text-slate-600 disabled:cursor-not-allowed"
+                        title="Add price"
+                    >
+                        <Plus size={14} />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
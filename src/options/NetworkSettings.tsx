@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { Globe, Loader2, ShieldCheck, Trash2, Upload, Wifi } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { AppConfig, NetworkSettings as NetworkSettingsType, NetworkTestResult, ProxyMode } from '../lib/types';
+
+interface NetworkSettingsProps {
+    config: AppConfig;
+    saveConfig: (config: AppConfig) => void;
+    providers: Array<{ id: string; name: string }>;
+}
+
+const ProxyModes: Record<ProxyMode, string> = {
+    system: 'Use system proxy settings',
+    direct: 'No proxy',
+    manual: 'Manual proxy',
+    pac: 'Automatic configuration (PAC URL)'
+};
+
+const isProxyUrl = (value: string) => /^(https?|socks[45]?):\/\/[^\s/]+\/?$/i.test(value.trim());
+
+// Per-provider entries may also be 'direct'
+const isProxyOverride = (value: string) => !value.trim() || value.trim().toLowerCase() === 'direct' || isProxyUrl(value);
+
+const isHttpUrl = (value: string) => /^https?:\/\/\S+$/i.test(value.trim());
+
+// Proxy, per-provider proxies and extra CA certificates; desktop app only
+export function NetworkSettings({ config, saveConfig, providers }: NetworkSettingsProps) {
+    const saved = config.network || { proxyMode: 'system' };
+    // Changing the proxy drops open connections, so edits are applied together on save
+    const [draft, setDraft] = useState<NetworkSettingsType>(saved);
+    const [testing, setTesting] = useState(false);
+    const [testResults, setTestResults] = useState<NetworkTestResult[] | null>(null);
+    const [testError, setTestError] = useState('');
+    const [importError, setImportError] = useState('');
+
+    const certificates = draft.trustedCertificates || [];
+    const proxyUrlError = draft.proxyMode === 'manual' && !isProxyUrl(draft.proxyUrl || '');
+    const pacUrlError = draft.proxyMode === 'pac' && !isHttpUrl(draft.pacUrl || '');
+    const overrideErrors = Object.entries(draft.providerProxies || {}).filter(([, value]) => !isProxyOverride(value)).map(([id]) => id);
+    const isValid = !proxyUrlError && !pacUrlError && overrideErrors.length === 0;
+    const isDirty = JSON.stringify(draft) !== JSON.stringify(saved);
+
+    const setProviderProxy = (provider: string, value: string) => {
+        const providerProxies = { ...draft.providerProxies, [provider]: value };
+        if (!value) delete providerProxies[provider];
+        setDraft({ ...draft, providerProxies });
+    };
+
+    const handleImport = async () => {
+        setImportError('');
+        try {
+            const imported = await window.electronAPI!.importCertificates();
+            const fresh = imported.filter(c => !certificates.some(existing => existing.id === c.id));
+            setDraft({ ...draft, trustedCertificates: [...certificates, ...fresh] });
+        } catch (e) {
+            setImportError((e as Error).message || 'Could not read the certificate file');
+        }
+    };
+
+    const handleTest = async () => {
+        setTesting(true);
+        setTestError('');
+        setTestResults(null);
+        try {
+            setTestResults(await window.electronAPI!.testNetwork!({ ...config, network: draft }));
+        } catch (e) {
+            setTestError((e as Error).message || 'The test failed');
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+                <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-4 flex items-center gap-2">
+                    <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
+                    Proxy
+                </h3>
+                <div className="space-y-4">
+                    <div>
+                        <label className="block text-xs font-semibold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">Connection</label>
+                        <select
+                            value={draft.proxyMode}
+                            onChange={e => setDraft({ ...draft, proxyMode: e.target.value as ProxyMode })}
+                            className="w-full p-2.5 bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg text-sm text-slate-700 dark:text-gpt-text outline-none focus:ring-2 focus:ring-blue-500/20"
+                        >
+                            {(Object.keys(ProxyModes) as ProxyMode[]).map(mode => (
+                                <option key={mode} value={mode}>{ProxyModes[mode]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {draft.proxyMode === 'manual' && (
+                        <>
+                            <div>
+                                <label className="block text-xs font-semibold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">Proxy Server</label>
+                                <input
+                                    type="text"
+                                    value={draft.proxyUrl || ''}
+                                    onChange={e => setDraft({ ...draft, proxyUrl: e.target.value })}
+                                    className={clsx(
+                                        "w-full p-2.5 bg-slate-50 dark:bg-gpt-input border rounded-lg text-sm font-mono text-slate-700 dark:text-gpt-text outline-none focus:ring-2 focus:ring-blue-500/20",
+                                        proxyUrlError && draft.proxyUrl ? "border-red-300 dark:border-red-800" : "border-slate-200 dark:border-gpt-hover"
+                                    )}
+                                    placeholder="http://proxy.example.com:8080"
+                                />
+                                <p className="text-xs text-slate-400 mt-1">http://, https://, socks4:// or socks5:// followed by host and port.</p>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-semibold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">Bypass List</label>
+                                <input
+                                    type="text"
+                                    value={draft.bypass || ''}
+                                    onChange={e => setDraft({ ...draft, bypass: e.target.value })}
+                                    className="w-full p-2.5 bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg text-sm font-mono text-slate-700 dark:text-gpt-text outline-none focus:ring-2 focus:ring-blue-500/20"
+                                    placeholder="localhost, 127.0.0.1, *.corp.example.com, <local>"
+                                />
+                                <p className="text-xs text-slate-400 mt-1">Comma-separated hosts reached without the proxy.</p>
+                            </div>
+                        </>
+                    )}
+                    {draft.proxyMode === 'pac' && (
+                        <div>
+                            <label className="block text-xs font-semibold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">PAC URL</label>
+                            <input
+                                type="text"
+                                value={draft.pacUrl || ''}
+                                onChange={e => setDraft({ ...draft, pacUrl: e.target.value })}
+                                className={clsx(
+                                    "w-full p-2.5 bg-slate-50 dark:bg-gpt-input border rounded-lg text-sm font-mono text-slate-700 dark:text-gpt-text outline-none focus:ring-2 focus:ring-blue-500/20",
+                                    pacUrlError && draft.pacUrl ? "border-red-300 dark:border-red-800" : "border-slate-200 dark:border-gpt-hover"
+                                )}
+                                placeholder="http://wpad.corp.example.com/proxy.pac"
+                            />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+                <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-1 flex items-center gap-2">
+                    <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
+                    Per-Provider Proxy
+                </h3>
+                <p className="text-xs text-slate-500 dark:text-gpt-secondary mb-4">
+                    Send a provider's requests through a different proxy, or <span className="font-mono">direct</span>. Leave empty to use the setting above.
+                </p>
+                <div className="space-y-2">
+                    {providers.map(provider => (
+                        <div key={provider.id} className="flex items-center gap-3">
+                            <span className="w-40 shrink-0 text-sm text-slate-700 dark:text-gpt-text truncate">{provider.name}</span>
+                            <input
+                                type="text"
+                                value={draft.providerProxies?.[provider.id] || ''}
+                                onChange={e => setProviderProxy(provider.id, e.target.value)}
+                                className={clsx(
+                                    "flex-1 min-w-0 p-2 bg-slate-50 dark:bg-gpt-input border rounded-lg text-xs font-mono text-slate-700 dark:text-gpt-text outline-none focus:ring-2 focus:ring-blue-500/20",
+                                    overrideErrors.includes(provider.id) ? "border-red-300 dark:border-red-800" : "border-slate-200 dark:border-gpt-hover"
+                                )}
+                                placeholder="Default"
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+                <div className="flex items-center justify-between mb-1">
+                    <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text flex items-center gap-2">
+                        <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
+                        Trusted Certificates
+                    </h3>
+                    <button
+                        onClick={handleImport}
+                        className="text-xs font-semibold bg-white dark:bg-gpt-input text-blue-600 dark:text-blue-400 border border-blue-100 dark:border-gpt-hover px-3 py-1.5 rounded-lg hover:bg-blue-50 dark:hover:bg-gpt-hover transition-colors flex items-center gap-1.5 shadow-sm"
+                    >
+                        <Upload size={14} /> Import
+                    </button>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-gpt-secondary mb-4">
+                    Root certificates to trust in addition to the system's, e.g. your company's TLS inspection CA. PEM bundles and DER files are accepted.
+                </p>
+                {importError && <p className="text-xs text-red-600 dark:text-red-400 mb-3">{importError}</p>}
+                {certificates.length === 0 ? (
+                    <p className="text-sm text-slate-400 dark:text-gpt-secondary text-center py-4">No certificates imported.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {certificates.map(certificate => (
+                            <div key={certificate.id} className="flex items-center gap-3 p-3 rounded-lg border border-slate-200 dark:border-gpt-hover">
+                                <ShieldCheck size={16} className="text-green-600 dark:text-green-400 shrink-0" />
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm font-medium text-slate-700 dark:text-gpt-text truncate">{certificate.name}</p>
+                                    <p className="text-[11px] text-slate-400 dark:text-gpt-secondary font-mono truncate" title={certificate.fingerprint}>
+                                        Expires {certificate.expires} · {certificate.fingerprint.slice(0, 23)}…
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => setDraft({ ...draft, trustedCertificates: certificates.filter(c => c.id !== certificate.id) })}
+                                    className="text-slate-400 hover:text-red-500 p-1 rounded transition-colors"
+                                    title="Remove"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text flex items-center gap-2">
+                            <Globe size={16} className="text-blue-600" />
+                            Connectivity
+                        </h3>
+                        <p className="text-xs text-slate-500 dark:text-gpt-secondary mt-1">Reach each configured provider with the settings above, saved or not.</p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                        <button
+                            onClick={handleTest}
+                            disabled={testing || !isValid}
+                            className="px-3 py-2 text-xs font-semibold text-slate-600 dark:text-gpt-text border border-slate-200 dark:border-gpt-hover rounded-lg hover:bg-slate-50 dark:hover:bg-gpt-hover transition-colors flex items-center gap-1.5 disabled:opacity-50"
+                        >
+                            {testing ? <Loader2 size={14} className="animate-spin" /> : <Wifi size={14} />}
+                            Test Connection
+                        </button>
+                        <button
+                            onClick={() => saveConfig({ ...config, network: draft })}
+                            disabled={!isDirty || !isValid}
+                            className="px-4 py-2 bg-blue-600 text-white text-xs font-bold rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            Save Network Settings
+                        </button>
+                    </div>
+                </div>
+                {testError && <p className="text-xs text-red-600 dark:text-red-400 mt-4 break-words">{testError}</p>}
+                {testResults && (
+                    <div className="mt-4 space-y-1.5">
+                        {testResults.length === 0 && <p className="text-xs text-slate-400">No providers are configured yet.</p>}
+                        {testResults.map(result => (
+                            <div key={result.provider} className="flex items-start gap-2 text-xs">
+                                <span className={clsx("w-2 h-2 rounded-full mt-1 shrink-0", result.error ? "bg-red-500" : "bg-green-500")} />
+                                <div className="min-w-0">
+                                    <p className="text-slate-700 dark:text-gpt-text">
+                                        <span className="font-semibold">{providers.find(p => p.id === result.provider)?.name || result.provider}</span>
+                                        <span className="text-slate-400 font-mono"> · {result.route || '?'}</span>
+                                    </p>
+                                    <p className={clsx("break-words", result.error ? "text-red-600 dark:text-red-400" : "text-slate-500 dark:text-gpt-secondary")}>
+                                        {result.error || `Reached ${result.url} (HTTP ${result.status}, ${result.ms} ms)`}
+                                    </p>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,15 +1,26 @@
 import { useState, useEffect } from 'react';
-import { type AppConfig, DEFAULT_CONFIG, type Provider, type PromptTemplate } from '../lib/types';
+import { type AppConfig, type ContextStrategy, type CustomProvider, type CustomProviderType, DEFAULT_AZURE_API_VERSION, DEFAULT_CONFIG, type GenerationParams, type KeySelection, type ModelSettings, type Provider, type PromptTemplate } from '../lib/types';
 import { getStorage, setStorage } from '../lib/storage';
-import { fetchModels } from '../lib/api';
+import { canGenerateImages, fetchModels, getKeyHealth, isProviderConfigured, pruneKeyHealth, resetKeyHealth, type KeyHealth } from '../lib/api';
+import { isToolEnabled, listTools } from '../lib/tools';
 import { useTheme } from '../lib/theme';
 import {
-    Trash2, Plus, RotateCcw, Eye, EyeOff, Key, MessageSquareText, Settings2, CheckCircle2, RefreshCw, List, Keyboard, Cpu, X, Download, Upload, GripVertical, ChevronLeft
+    Trash2, Plus, RotateCcw, Eye, EyeOff, Key, MessageSquareText, Settings2, CheckCircle2, RefreshCw, List, Keyboard, Cpu, X, Download, Upload, GripVertical, ChevronLeft, Plug, Globe, SlidersHorizontal, UserRound
 } from 'lucide-react';
 import { SearchableSelect } from './SearchableSelect';
+import { McpServers } from './McpServers';
+import { NetworkSettings } from './NetworkSettings';
+import { ModelPrices } from './ModelPrices';
+import { Personas } from './Personas';
+import { VoiceInput } from './VoiceInput';
+import { ReadAloud } from './ReadAloud';
+import { DEFAULT_CONTEXT_LENGTHS } from '../lib/context';
+import { lookupModel } from '../lib/modelLookup';
 import { clsx } from 'clsx';
 import logoUrl from '../assets/logo.png';
 import { WindowsWindowControls } from '../components/WindowsWindowControls';
+import GenerationParamsEditor from '../components/GenerationParamsEditor';
+import { describeParams } from '../lib/generationParams';
 
 
 const Providers: Provider[] = ['openai', 'google', 'anthropic', 'openrouter', 'perplexity'];
@@ -22,6 +33,37 @@ const ProviderDisplayNames: Record<Provider, string> = {
     perplexity: 'Perplexity (Web Search)'
 };
 
+const CustomProviderTypes: Record<CustomProviderType, { label: string; placeholder: string }> = {
+    openai: { label: 'OpenAI Compatible', placeholder: 'https://api.example.com/v1' },
+    ollama: { label: 'Ollama', placeholder: 'http://localhost:11434' },
+    azure: { label: 'Azure OpenAI', placeholder: 'https://my-resource.openai.azure.com' }
+};
+
+const formatWait = (ms: number) => {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    if (seconds < 120) return `${seconds}s`;
+    const minutes = Math.round(seconds / 60);
+    return minutes < 120 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+};
+
+// One line summary of a key's health for the key list
+const describeKeyHealth = (health: KeyHealth): { label: string; color: string } => {
+    const now = Date.now();
+    switch (health.status) {
+        case 'rate_limited':
+            return { label: `Rate limited, available again in ${formatWait((health.until || now) - now)}`, color: 'bg-amber-500' };
+        case 'quota':
+            return { label: `Quota exceeded, retrying in ${formatWait((health.until || now) - now)}`, color: 'bg-orange-500' };
+        case 'invalid':
+            return { label: 'Rejected as invalid', color: 'bg-red-500' };
+        default:
+            return {
+                label: health.lastUsed ? `Healthy, last used ${formatWait(now - health.lastUsed)} ago` : 'Not used yet',
+                color: health.lastUsed ? 'bg-green-500' : 'bg-slate-300 dark:bg-slate-600'
+            };
+    }
+};
+
 interface OptionsProps {
     onBack?: () => void;
 }
@@ -29,7 +71,7 @@ interface OptionsProps {
 export default function Options({ onBack }: OptionsProps) {
     const [config, setConfig] = useState<AppConfig>(DEFAULT_CONFIG);
     const [loading, setLoading] = useState(true);
-    const [activeTab, setActiveTab] = useState<'general' | 'providers' | 'prompts' | 'hotkeys'>('general');
+    const [activeTab, setActiveTab] = useState<'general' | 'providers' | 'prompts' | 'hotkeys' | 'mcp' | 'network'>('general');
     const [showKey, setShowKey] = useState<Record<string, boolean>>({});
     const [savedToast, setSavedToast] = useState(false);
     const [fetchedModels, setFetchedModels] = useState<Record<string, string[]>>({});
@@ -39,6 +81,8 @@ export default function Options({ onBack }: OptionsProps) {
     const [showAddProvider, setShowAddProvider] = useState(false);
     const [newProviderName, setNewProviderName] = useState('');
     const [newProviderUrl, setNewProviderUrl] = useState('');
+    const [newProviderType, setNewProviderType] = useState<CustomProviderType>('openai');
+    const [newProviderApiVersion, setNewProviderApiVersion] = useState(DEFAULT_AZURE_API_VERSION);
     const [draggedPromptIdx, setDraggedPromptIdx] = useState<number | null>(null);
     const [addingBackupModel, setAddingBackupModel] = useState(false);
     const [backupModelProvider, setBackupModelProvider] = useState<string>('');
@@ -49,9 +93,13 @@ export default function Options({ onBack }: OptionsProps) {
     const [promptModelProvider, setPromptModelProvider] = useState<string>('');
     const [promptModelName, setPromptModelName] = useState<string>('');
     const [isPromptCustomModel, setIsPromptCustomModel] = useState(false);
+    const [editingPromptParams, setEditingPromptParams] = useState<number | null>(null);
+    const [keyHealth, setKeyHealth] = useState<Record<string, KeyHealth[]>>({});
 
     const allProviders = [...Providers, ...(config.customProviders || []).map(p => p.id)];
 
+    const getCustomProvider = (id: string) => config.customProviders?.find(p => p.id === id);
+
     const getProviderName = (id: string) => {
         if (id in ProviderDisplayNames) return ProviderDisplayNames[id as Provider];
         return config.customProviders?.find(p => p.id === id)?.name || id;
@@ -70,11 +118,27 @@ export default function Options({ onBack }: OptionsProps) {
         });
     }, []);
 
+    // Key health changes as requests come in, so keep it fresh while the providers tab is open
+    useEffect(() => {
+        if (activeTab !== 'providers') return;
+        const load = () => Promise.all(allProviders.map(async p => [p, await getKeyHealth(p, config.apiKeys[p] || [])] as const))
+            .then(entries => setKeyHealth(Object.fromEntries(entries)));
+        // Removed keys take their health entries with them
+        pruneKeyHealth(config.apiKeys).then(load);
+        const timer = setInterval(load, 10000);
+        return () => clearInterval(timer);
+    }, [activeTab, config.apiKeys, config.customProviders]);
+
+    const handleResetKeyHealth = async (provider: string, key: string) => {
+        await resetKeyHealth(provider, key);
+        setKeyHealth({ ...keyHealth, [provider]: await getKeyHealth(provider, config.apiKeys[provider] || []) });
+    };
+
     // Auto-fetch models when backup model provider changes
     useEffect(() => {
         if (addingBackupModel && backupModelProvider) {
             // Only fetch if models haven't been fetched yet and provider has API keys
-            if (!fetchedModels[backupModelProvider] && config.apiKeys[backupModelProvider]?.length > 0 && backupModelProvider !== 'anthropic') {
+            if (!fetchedModels[backupModelProvider] && isProviderConfigured(backupModelProvider, config) && backupModelProvider !== 'anthropic') {
                 handleFetchModels(backupModelProvider, true);
             }
         }
@@ -84,7 +148,7 @@ export default function Options({ onBack }: OptionsProps) {
     useEffect(() => {
         if (editingPromptModel !== null && promptModelProvider) {
             // Only fetch if models haven't been fetched yet and provider has API keys
-            if (!fetchedModels[promptModelProvider] && config.apiKeys[promptModelProvider]?.length > 0 && promptModelProvider !== 'anthropic') {
+            if (!fetchedModels[promptModelProvider] && isProviderConfigured(promptModelProvider, config) && promptModelProvider !== 'anthropic') {
                 handleFetchModels(promptModelProvider, true);
             }
         }
@@ -128,7 +192,8 @@ export default function Options({ onBack }: OptionsProps) {
         if (!newProviderName || !newProviderUrl) return;
 
         const id = `custom-${Date.now()}`;
-        const newProvider = { id, name: newProviderName, baseUrl: newProviderUrl };
+        const newProvider: CustomProvider = { id, name: newProviderName, baseUrl: newProviderUrl, type: newProviderType };
+        if (newProviderType === 'azure') newProvider.apiVersion = newProviderApiVersion || DEFAULT_AZURE_API_VERSION;
 
         const newConfig = {
             ...config,
@@ -142,6 +207,15 @@ export default function Options({ onBack }: OptionsProps) {
         setShowAddProvider(false);
         setNewProviderName('');
         setNewProviderUrl('');
+        setNewProviderType('openai');
+        setNewProviderApiVersion(DEFAULT_AZURE_API_VERSION);
+    };
+
+    const handleUpdateCustomProvider = (id: string, changes: Partial<CustomProvider>) => {
+        saveConfig({
+            ...config,
+            customProviders: config.customProviders.map(p => p.id === id ? { ...p, ...changes } : p)
+        });
     };
 
     const handleDeleteCustomProvider = (id: string) => {
@@ -161,18 +235,44 @@ export default function Options({ onBack }: OptionsProps) {
         });
     };
 
+    const getModelSettings = (provider: string): ModelSettings =>
+        config.modelSettings?.[`${provider}:${config.selectedModel[provider]}`] || {};
+
+    // Settings apply to the provider's currently selected model; empty fields fall back to defaults
+    const handleUpdateModelSettings = (provider: string, field: 'maxOutputTokens' | 'contextLength' | 'thinkingBudget', value: string) => {
+        const settings: ModelSettings = { ...getModelSettings(provider) };
+        const parsed = parseInt(value, 10);
+        if (parsed > 0) settings[field] = parsed;
+        else delete settings[field];
+        saveModelSettings(provider, settings);
+    };
+
+    const handleUpdateGenerationParams = (provider: string, params: GenerationParams) => {
+        const { contextLength, thinkingBudget, maxOutputTokens, generateImages } = getModelSettings(provider);
+        saveModelSettings(provider, { ...params, contextLength, thinkingBudget, maxOutputTokens, generateImages });
+    };
+
+    const saveModelSettings = (provider: string, settings: ModelSettings) => {
+        const key = `${provider}:${config.selectedModel[provider]}`;
+        const defined = Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+        const modelSettings = { ...config.modelSettings };
+        if (Object.keys(defined).length > 0) modelSettings[key] = defined;
+        else delete modelSettings[key];
+        saveConfig({ ...config, modelSettings });
+    };
+
     const handleFetchModels = async (provider: Provider, silent = false) => {
-        const keys = config.apiKeys[provider];
-        if (!keys || keys.length === 0 || !keys[0]) {
-            if (!silent) alert(`Please add a valid API key for ${ProviderDisplayNames[provider]} first.`);
+        const keys = config.apiKeys[provider] || [];
+        if (!isProviderConfigured(provider, config) || (keys.length > 0 && !keys[0])) {
+            if (!silent) alert(`Please add a valid API key for ${getProviderName(provider)} first.`);
             return;
         }
 
         setFetchingModels(prev => ({ ...prev, [provider]: true }));
         try {
-            const models = await fetchModels(provider, keys[0], config.customBaseUrls[provider]);
+            const models = await fetchModels(provider, keys[0] || '', config.customBaseUrls[provider], config);
             if (models.length > 0) {
-                setFetchedModels(prev => ({ ...prev, [provider]: models }));
+                setFetchedModels(prev => ({ ...prev, [provider]: models.map(m => m.id) }));
             } else {
                 if (!silent) alert('No models found or provider does not support listing models.');
             }
@@ -327,9 +427,9 @@ export default function Options({ onBack }: OptionsProps) {
                 <div className={clsx(
                     "max-w-5xl mx-auto px-6 py-4 flex items-center justify-between",
                     // Add left padding for macOS traffic lights if in Electron
-                    (window as any).electronAPI?.platform === 'darwin' ? "pl-24" : "",
+                    window.electronAPI?.platform === 'darwin' ? "pl-24" : "",
                     // Add right padding for Windows controls
-                    (window as any).electronAPI?.platform === 'win32' ? "pr-32" : ""
+                    window.electronAPI?.platform === 'win32' ? "pr-32" : ""
                 )}>
                     <div className="flex items-center gap-3">
                         {onBack && (
@@ -394,6 +494,34 @@ export default function Options({ onBack }: OptionsProps) {
                         >
                             <Keyboard size={14} /> Hotkeys
                         </button>
+                        {/* MCP servers are spawned by the desktop app's main process */}
+                        {window.electronAPI?.getMcpStatus && (
+                            <button
+                                onClick={() => setActiveTab('mcp')}
+                                className={clsx(
+                                    "px-3 py-2 text-xs font-semibold rounded-md transition-all duration-200 flex items-center gap-1.5",
+                                    activeTab === 'mcp'
+                                        ? "bg-white dark:bg-gpt-hover text-blue-600 dark:text-white shadow-sm ring-1 ring-slate-200 dark:ring-gpt-hover"
+                                        : "text-slate-500 dark:text-gpt-secondary hover:text-slate-700 dark:hover:text-gpt-text hover:bg-slate-200/50 dark:hover:bg-gpt-hover"
+                                )}
+                            >
+                                <Plug size={14} /> MCP
+                            </button>
+                        )}
+                        {/* Proxy and certificates apply to the desktop app's own network stack */}
+                        {window.electronAPI?.testNetwork && (
+                            <button
+                                onClick={() => setActiveTab('network')}
+                                className={clsx(
+                                    "px-3 py-2 text-xs font-semibold rounded-md transition-all duration-200 flex items-center gap-1.5",
+                                    activeTab === 'network'
+                                        ? "bg-white dark:bg-gpt-hover text-blue-600 dark:text-white shadow-sm ring-1 ring-slate-200 dark:ring-gpt-hover"
+                                        : "text-slate-500 dark:text-gpt-secondary hover:text-slate-700 dark:hover:text-gpt-text hover:bg-slate-200/50 dark:hover:bg-gpt-hover"
+                                )}
+                            >
+                                <Globe size={14} /> Network
+                            </button>
+                        )}
                     </div>
 
 
@@ -482,6 +610,60 @@ export default function Options({ onBack }: OptionsProps) {
                             </div>
                         </div>
 
+                        <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+                            <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-4 flex items-center gap-2">
+                                <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
+                                Long Conversations
+                            </h3>
+                            <div className="w-full">
+                                <label className="block text-xs font-semibold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">When a Chat Outgrows the Context Window</label>
+                                <div className="relative">
+                                    <select
+                                        value={config.contextStrategy || 'drop_oldest'}
+                                        onChange={(e) => saveConfig({ ...config, contextStrategy: e.target.value as ContextStrategy })}
+                                        className="w-full p-3 bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all font-medium text-slate-700 dark:text-gpt-text appearance-none"
+                                    >
+                                        <option value="drop_oldest">Leave out the oldest messages (Default)</option>
+                                        <option value="summarize">Summarize earlier messages</option>
+                                        <option value="truncate_context">Shorten the attached text first</option>
+                                        <option value="off">Send everything</option>
+                                    </select>
+                                    <div className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">
+                                        <Settings2 size={16} />
+                                    </div>
+                                </div>
+                                <p className="text-xs text-slate-400 dark:text-gpt-secondary mt-2">
+                                    Applied before sending when the estimated size exceeds the model's context window. Summaries are made with the selected model and reused on later turns. Context windows can be set per model under Providers.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+                            <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-4 flex items-center gap-2">
+                                <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
+                                Developer
+                            </h3>
+                            <div className="w-full">
+                                <label className="flex items-center justify-between cursor-pointer group">
+                                    <div>
+                                        <span className="text-sm font-medium text-slate-700 dark:text-gpt-text group-hover:text-slate-900 dark:group-hover:text-white transition-colors">Request inspector</span>
+                                        <p className="text-xs text-slate-400 dark:text-gpt-secondary mt-1">
+                                            Record each provider request and response (API keys redacted) and inspect, export or replay them from the reply. Logs are saved with the conversation.
+                                        </p>
+                                    </div>
+                                    <div className="relative ml-4">
+                                        <input
+                                            type="checkbox"
+                                            checked={!!config.inspectRequests}
+                                            onChange={(e) => saveConfig({ ...config, inspectRequests: e.target.checked })}
+                                            className="sr-only peer"
+                                        />
+                                        <div className="w-11 h-6 bg-slate-200 dark:bg-gpt-input peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                                    </div>
+                                </label>
+                            </div>
+                        </div>
+
                         <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
                             <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-4 flex items-center gap-2">
                                 <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
@@ -579,6 +761,37 @@ export default function Options({ onBack }: OptionsProps) {
                             </div>
                         </div>
 
+                        <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+                            <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-4 flex items-center gap-2">
+                                <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
+                                Tools
+                            </h3>
+                            <div className="w-full space-y-4">
+                                {listTools().filter(tool => !tool.hasOwnSettings).map(tool => (
+                                    <label key={tool.definition.name} className="flex items-center justify-between cursor-pointer group">
+                                        <div>
+                                            <span className="text-sm font-medium text-slate-700 dark:text-gpt-text group-hover:text-slate-900 dark:group-hover:text-white transition-colors">{tool.label}</span>
+                                            <p className="text-xs text-slate-400 dark:text-gpt-secondary mt-1">
+                                                {tool.description}
+                                            </p>
+                                        </div>
+                                        <div className="relative ml-4">
+                                            <input
+                                                type="checkbox"
+                                                checked={isToolEnabled(tool, config)}
+                                                onChange={(e) => saveConfig({ ...config, enabledTools: { ...config.enabledTools, [tool.definition.name]: e.target.checked } })}
+                                                className="sr-only peer"
+                                            />
+                                            <div className="w-11 h-6 bg-slate-200 dark:bg-gpt-input peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                                        </div>
+                                    </label>
+                                ))}
+                                <p className="text-xs text-slate-400 dark:text-gpt-secondary">
+                                    Tools are offered to models that support function calling (OpenAI-compatible providers and Anthropic).
+                                </p>
+                            </div>
+                        </div>
+
                         <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
                             <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-4 flex items-center gap-2">
                                 <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
@@ -634,6 +847,24 @@ export default function Options({ onBack }: OptionsProps) {
                                 </div>
                                 <p className="text-xs text-slate-400 dark:text-gpt-secondary mt-2">This provider will be selected by default when you open the popup.</p>
                             </div>
+                            <div className="w-full mt-6">
+                                <label className="block text-xs font-semibold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">API Key Rotation</label>
+                                <div className="relative">
+                                    <select
+                                        value={config.keySelection || 'round-robin'}
+                                        onChange={(e) => saveConfig({ ...config, keySelection: e.target.value as KeySelection })}
+                                        className="w-full p-3 bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all font-medium text-slate-700 dark:text-gpt-text appearance-none"
+                                    >
+                                        <option value="round-robin">Round robin</option>
+                                        <option value="least-recently-used">Least recently used</option>
+                                        <option value="random">Random</option>
+                                    </select>
+                                    <div className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">
+                                        <Settings2 size={16} />
+                                    </div>
+                                </div>
+                                <p className="text-xs text-slate-400 dark:text-gpt-secondary mt-2">How to spread requests over a provider's keys. Rate limited keys cool down for the time the provider asks for, keys out of quota are retried later and rejected keys are skipped until you reset them.</p>
+                            </div>
                         </div>
 
                         {/* Backup Models Card */}
@@ -646,6 +877,26 @@ export default function Options({ onBack }: OptionsProps) {
                                 Configure alternative models to try when you need a different perspective or better results. Click "Try with another model" below any response to retry with these backup models.
                             </p>
 
+                            <div className="w-full mb-4">
+                                <label className="flex items-center justify-between cursor-pointer group">
+                                    <div>
+                                        <span className="text-sm font-medium text-slate-700 dark:text-gpt-text group-hover:text-slate-900 dark:group-hover:text-white transition-colors">Automatic failover</span>
+                                        <p className="text-xs text-slate-400 dark:text-gpt-secondary mt-1">
+                                            When a request fails with an auth, quota, rate limit, server or network error, try the backup models in order.
+                                        </p>
+                                    </div>
+                                    <div className="relative ml-4">
+                                        <input
+                                            type="checkbox"
+                                            checked={config.autoFailover !== false}
+                                            onChange={(e) => saveConfig({ ...config, autoFailover: e.target.checked })}
+                                            className="sr-only peer"
+                                        />
+                                        <div className="w-11 h-6 bg-slate-200 dark:bg-gpt-input peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                                    </div>
+                                </label>
+                            </div>
+
                             <div className="space-y-3">
                                 {(() => {
                                     const backupModels = config.backupModels || {};
@@ -699,7 +950,7 @@ export default function Options({ onBack }: OptionsProps) {
                                                         setBackupModelName('');
                                                         setIsBackupCustomModel(false);
                                                         // Auto-fetch models for current provider if not already fetched
-                                                        if (!fetchedModels[config.selectedProvider] && config.apiKeys[config.selectedProvider]?.length > 0) {
+                                                        if (!fetchedModels[config.selectedProvider] && isProviderConfigured(config.selectedProvider, config)) {
                                                             handleFetchModels(config.selectedProvider, true);
                                                         }
                                                     }}
@@ -827,6 +1078,20 @@ export default function Options({ onBack }: OptionsProps) {
                             </div>
                         </div>
 
+                        <ModelPrices config={config} saveConfig={saveConfig} />
+
+                        <VoiceInput
+                            config={config}
+                            saveConfig={saveConfig}
+                            providers={allProviders.map(id => ({ id, name: getProviderName(id) }))}
+                        />
+
+                        <ReadAloud
+                            config={config}
+                            saveConfig={saveConfig}
+                            providers={allProviders.map(id => ({ id, name: getProviderName(id) }))}
+                        />
+
                         <div className="bg-blue-50 dark:bg-blue-900/10 border border-blue-100 dark:border-blue-900/50 rounded-xl p-4 flex gap-3">
                             <div className="text-blue-600 dark:text-blue-400 mt-0.5"><Cpu size={18} /></div>
                             <div className="text-sm text-blue-900 dark:text-blue-300">
@@ -854,6 +1119,18 @@ export default function Options({ onBack }: OptionsProps) {
                                                 placeholder="e.g. Local LLM"
                                             />
                                         </div>
+                                        <div>
+                                            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">API Type</label>
+                                            <select
+                                                value={newProviderType}
+                                                onChange={e => setNewProviderType(e.target.value as CustomProviderType)}
+                                                className="w-full p-2.5 rounded-lg border dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
+                                            >
+                                                {(Object.keys(CustomProviderTypes) as CustomProviderType[]).map(type => (
+                                                    <option key={type} value={type}>{CustomProviderTypes[type].label}</option>
+                                                ))}
+                                            </select>
+                                        </div>
                                         <div>
                                             <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Base URL</label>
                                             <input
@@ -861,9 +1138,22 @@ export default function Options({ onBack }: OptionsProps) {
                                                 value={newProviderUrl}
                                                 onChange={e => setNewProviderUrl(e.target.value)}
                                                 className="w-full p-2.5 rounded-lg border dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
-                                                placeholder="https://api.example.com/v1"
+                                                placeholder={CustomProviderTypes[newProviderType].placeholder}
                                             />
                                         </div>
+                                        {newProviderType === 'azure' && (
+                                            <div>
+                                                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">API Version</label>
+                                                <input
+                                                    type="text"
+                                                    value={newProviderApiVersion}
+                                                    onChange={e => setNewProviderApiVersion(e.target.value)}
+                                                    className="w-full p-2.5 rounded-lg border dark:bg-gpt-input dark:border-gpt-hover dark:text-gpt-text"
+                                                    placeholder={DEFAULT_AZURE_API_VERSION}
+                                                />
+                                                <p className="text-xs text-slate-400 mt-1">Models are picked by deployment name, listed from your Azure resource.</p>
+                                            </div>
+                                        )}
                                         <div className="flex justify-end gap-2 pt-2">
                                             <button onClick={() => setShowAddProvider(false)} className="px-4 py-2 text-sm text-slate-600">Cancel</button>
                                             <button
@@ -886,6 +1176,14 @@ export default function Options({ onBack }: OptionsProps) {
                                     <div className="px-6 py-4 border-b border-slate-100 dark:border-gpt-hover bg-slate-50/50 dark:bg-gpt-hover/20 flex items-center justify-between rounded-t-2xl">
                                         <h3 className="font-bold text-slate-800 dark:text-gpt-text flex items-center gap-2">
                                             {getProviderName(provider)}
+                                            {(() => {
+                                                const type = getCustomProvider(provider)?.type;
+                                                return type && type !== 'openai' && (
+                                                    <span className="text-[10px] font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-gpt-hover px-1.5 py-0.5 rounded">
+                                                        {CustomProviderTypes[type].label}
+                                                    </span>
+                                                );
+                                            })()}
                                         </h3>
                                         <div className="flex gap-2">
                                             {config.customProviders?.some(p => p.id === provider) && (
@@ -910,7 +1208,7 @@ export default function Options({ onBack }: OptionsProps) {
                                         <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
                                             <div>
                                                 <div className="flex items-center justify-between mb-1.5">
-                                                    <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary uppercase tracking-wider">Model ID</label>
+                                                    <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary uppercase tracking-wider">{getCustomProvider(provider)?.type === 'azure' ? 'Deployment' : 'Model ID'}</label>
                                                     {provider !== 'anthropic' && (
                                                         <button
                                                             onClick={() => handleFetchModels(provider)}
@@ -938,7 +1236,7 @@ export default function Options({ onBack }: OptionsProps) {
                                                         <div className="relative">
                                                             <input
                                                                 type="text"
-                                                                placeholder="e.g. gpt-4, gemini-pro"
+                                                                placeholder={getCustomProvider(provider)?.type === 'azure' ? 'e.g. my-gpt-4o-deployment' : 'e.g. gpt-4, gemini-pro'}
                                                                 value={config.selectedModel[provider]}
                                                                 onChange={(e) => saveConfig({
                                                                     ...config,
@@ -959,7 +1257,7 @@ export default function Options({ onBack }: OptionsProps) {
                                                 </div>
                                             </div>
                                             <div>
-                                                <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">Base URL <span className="text-slate-300 dark:text-gpt-hover font-normal lowercase">(optional)</span></label>
+                                                <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">{getCustomProvider(provider)?.type === 'azure' ? 'Endpoint' : 'Base URL'} <span className="text-slate-300 dark:text-gpt-hover font-normal lowercase">(optional)</span></label>
                                                 <input
                                                     type="text"
                                                     placeholder="Default"
@@ -971,45 +1269,153 @@ export default function Options({ onBack }: OptionsProps) {
                                                     className="w-full px-3 py-2.5 text-sm bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all placeholder:text-slate-300 dark:placeholder:text-gpt-hover dark:text-gpt-text"
                                                 />
                                             </div>
+                                            {getCustomProvider(provider)?.type === 'azure' && (
+                                                <div>
+                                                    <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">API Version</label>
+                                                    <input
+                                                        type="text"
+                                                        placeholder={DEFAULT_AZURE_API_VERSION}
+                                                        value={getCustomProvider(provider)?.apiVersion || ''}
+                                                        onChange={(e) => handleUpdateCustomProvider(provider, { apiVersion: e.target.value })}
+                                                        className="w-full px-3 py-2.5 text-sm bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all placeholder:text-slate-300 dark:placeholder:text-gpt-hover dark:text-gpt-text"
+                                                    />
+                                                </div>
+                                            )}
                                         </div>
 
+                                        {/* Output and context limits for the selected model */}
+                                        {config.selectedModel[provider] && (
+                                            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                                                <div>
+                                                    <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">Max Output Tokens <span className="text-slate-300 dark:text-gpt-hover font-normal lowercase">({config.selectedModel[provider]})</span></label>
+                                                    <input
+                                                        type="number"
+                                                        min={1}
+                                                        placeholder={provider === 'anthropic' ? '4096' : 'Default'}
+                                                        value={getModelSettings(provider).maxOutputTokens ?? ''}
+                                                        onChange={(e) => handleUpdateModelSettings(provider, 'maxOutputTokens', e.target.value)}
+                                                        className="w-full px-3 py-2.5 text-sm bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all placeholder:text-slate-300 dark:placeholder:text-gpt-hover dark:text-gpt-text"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">Context Window <span className="text-slate-300 dark:text-gpt-hover font-normal lowercase">(tokens)</span></label>
+                                                    <input
+                                                        type="number"
+                                                        min={1}
+                                                        placeholder={String(lookupModel(DEFAULT_CONTEXT_LENGTHS, config.selectedModel[provider]) ?? 'Unknown')}
+                                                        value={getModelSettings(provider).contextLength ?? ''}
+                                                        onChange={(e) => handleUpdateModelSettings(provider, 'contextLength', e.target.value)}
+                                                        className="w-full px-3 py-2.5 text-sm bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all placeholder:text-slate-300 dark:placeholder:text-gpt-hover dark:text-gpt-text"
+                                                    />
+                                                    <p className="text-[10px] text-slate-400 mt-1">Used to keep long chats within the model's limit. Leave empty for the built-in value.</p>
+                                                </div>
+                                                {provider === 'anthropic' && (
+                                                    <div>
+                                                        <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">Thinking Budget <span className="text-slate-300 dark:text-gpt-hover font-normal lowercase">(tokens, empty = off)</span></label>
+                                                        <input
+                                                            type="number"
+                                                            min={1024}
+                                                            step={1024}
+                                                            placeholder="Off"
+                                                            value={getModelSettings(provider).thinkingBudget ?? ''}
+                                                            onChange={(e) => handleUpdateModelSettings(provider, 'thinkingBudget', e.target.value)}
+                                                            className="w-full px-3 py-2.5 text-sm bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all placeholder:text-slate-300 dark:placeholder:text-gpt-hover dark:text-gpt-text"
+                                                        />
+                                                        <p className="text-[10px] text-slate-400 mt-1">Extended thinking for Claude models that support it. Minimum 1024.</p>
+                                                    </div>
+                                                )}
+                                                <div className="md:col-span-2">
+                                                    <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider">Sampling <span className="text-slate-300 dark:text-gpt-hover font-normal lowercase">(empty = provider default)</span></label>
+                                                    <GenerationParamsEditor
+                                                        params={getModelSettings(provider)}
+                                                        onChange={(params) => handleUpdateGenerationParams(provider, params)}
+                                                        omit={['maxOutputTokens']}
+                                                    />
+                                                    <p className="text-[10px] text-slate-400 mt-1">Each provider gets the parameters it supports; hover a field for details. Prompts can override these.</p>
+                                                </div>
+                                                {canGenerateImages(provider, config) && (
+                                                    <label className="md:col-span-2 flex items-center justify-between cursor-pointer group">
+                                                        <div>
+                                                            <span className="text-sm font-medium text-slate-700 dark:text-gpt-text group-hover:text-slate-900 dark:group-hover:text-white transition-colors">Generate images</span>
+                                                            <p className="text-[10px] text-slate-400 mt-1">
+                                                                For image models such as {provider === 'google' ? 'gemini-2.5-flash-image' : provider === 'openrouter' ? 'google/gemini-2.5-flash-image' : 'gpt-image-1 or dall-e-3'}: replies are generated images. Images attached to the message are edited instead.
+                                                            </p>
+                                                        </div>
+                                                        <div className="relative ml-4">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={!!getModelSettings(provider).generateImages}
+                                                                onChange={(e) => saveModelSettings(provider, { ...getModelSettings(provider), generateImages: e.target.checked || undefined })}
+                                                                className="sr-only peer"
+                                                            />
+                                                            <div className="w-11 h-6 bg-slate-200 dark:bg-gpt-input peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                                                        </div>
+                                                    </label>
+                                                )}
+                                            </div>
+                                        )}
+
                                         {/* Keys List */}
                                         <div className="space-y-3">
                                             <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary uppercase tracking-wider">API Keys</label>
                                             {config.apiKeys[provider].length === 0 && (
                                                 <div className="text-sm text-slate-400 italic bg-slate-50 dark:bg-gpt-input p-4 rounded-lg border border-slate-100 dark:border-gpt-hover text-center">
-                                                    No API keys configured for {getProviderName(provider)}.
+                                                    {isProviderConfigured(provider, config)
+                                                        ? `No API key needed for ${getProviderName(provider)}.`
+                                                        : `No API keys configured for ${getProviderName(provider)}.`}
                                                 </div>
                                             )}
                                             {config.apiKeys[provider].map((key, idx) => (
-                                                <div key={idx} className="flex items-center gap-2 group">
-                                                    <div className="relative flex-1">
-                                                        <div className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">
-                                                            <Key size={14} />
+                                                <div key={idx}>
+                                                    <div className="flex items-center gap-2 group">
+                                                        <div className="relative flex-1">
+                                                            <div className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">
+                                                                <Key size={14} />
+                                                            </div>
+                                                            <input
+                                                                type={showKey[`${provider}-${idx}`] ? "text" : "password"}
+                                                                value={key}
+                                                                onChange={(e) => handleUpdateKey(provider, idx, e.target.value)}
+                                                                onBlur={() => handleKeyBlur(provider)}
+                                                                placeholder={`Enter ${getProviderName(provider)} API Key`}
+                                                                className="w-full pl-9 pr-10 py-2.5 text-sm font-mono bg-white dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all shadow-sm group-hover:border-slate-300 dark:group-hover:border-gpt-text dark:text-gpt-text"
+                                                            />
+                                                            <button
+                                                                onClick={() => toggleShowKey(`${provider}-${idx}`)}
+                                                                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 transition-colors"
+                                                                tabIndex={-1}
+                                                            >
+                                                                {showKey[`${provider}-${idx}`] ? <EyeOff size={14} /> : <Eye size={14} />}
+                                                            </button>
                                                         </div>
-                                                        <input
-                                                            type={showKey[`${provider}-${idx}`] ? "text" : "password"}
-                                                            value={key}
-                                                            onChange={(e) => handleUpdateKey(provider, idx, e.target.value)}
-                                                            onBlur={() => handleKeyBlur(provider)}
-                                                            placeholder={`Enter ${getProviderName(provider)} API Key`}
-                                                            className="w-full pl-9 pr-10 py-2.5 text-sm font-mono bg-white dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all shadow-sm group-hover:border-slate-300 dark:group-hover:border-gpt-text dark:text-gpt-text"
-                                                        />
                                                         <button
-                                                            onClick={() => toggleShowKey(`${provider}-${idx}`)}
-                                                            className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600 transition-colors"
-                                                            tabIndex={-1}
+                                                            onClick={() => handleRemoveKey(provider, idx)}
+                                                            className="p-2.5 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all duration-200 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                                                            title="Remove key"
                                                         >
-                                                            {showKey[`${provider}-${idx}`] ? <EyeOff size={14} /> : <Eye size={14} />}
+                                                            <Trash2 size={16} />
                                                         </button>
                                                     </div>
-                                                    <button
-                                                        onClick={() => handleRemoveKey(provider, idx)}
-                                                        className="p-2.5 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all duration-200 opacity-0 group-hover:opacity-100 focus:opacity-100"
-                                                        title="Remove key"
-                                                    >
-                                                        <Trash2 size={16} />
-                                                    </button>
+                                                    {/* Key health */}
+                                                    {key && (() => {
+                                                        const health = keyHealth[provider]?.find(h => h.key === key);
+                                                        if (!health) return null;
+                                                        const { label, color } = describeKeyHealth(health);
+                                                        return (
+                                                            <div className="flex items-center gap-1.5 mt-1 ml-1 text-[10px] text-slate-400 dark:text-gpt-secondary" title={health.lastError}>
+                                                                <span className={`w-1.5 h-1.5 rounded-full ${color}`}></span>
+                                                                <span>{label}</span>
+                                                                {health.status !== 'healthy' && (
+                                                                    <button
+                                                                        onClick={() => handleResetKeyHealth(provider, key)}
+                                                                        className="ml-1 text-blue-600 dark:text-blue-400 hover:underline"
+                                                                    >
+                                                                        Reset
+                                                                    </button>
+                                                                )}
+                                                            </div>
+                                                        );
+                                                    })()}
                                                 </div>
                                             ))}
                                         </div>
@@ -1027,7 +1433,7 @@ export default function Options({ onBack }: OptionsProps) {
                                 </div>
                                 <div className="text-center">
                                     <h3 className="text-sm font-bold text-slate-900 dark:text-gpt-text">Add Custom Provider</h3>
-                                    <p className="text-xs text-slate-500 dark:text-gpt-secondary mt-1">Connect to any OpenAI-compatible API</p>
+                                    <p className="text-xs text-slate-500 dark:text-gpt-secondary mt-1">Connect to any OpenAI-compatible API or a local Ollama server</p>
                                 </div>
                             </button>
                         </div>
@@ -1036,7 +1442,13 @@ export default function Options({ onBack }: OptionsProps) {
 
                 {activeTab === 'prompts' && (
                     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
-                        <div className="flex justify-between items-end">
+                        <Personas
+                            config={config}
+                            saveConfig={saveConfig}
+                            providers={allProviders.map(id => ({ id, name: getProviderName(id) }))}
+                        />
+
+                        <div className="flex justify-between items-end pt-6 border-t border-slate-200 dark:border-gpt-hover">
                             <div>
                                 <h2 className="text-lg font-bold text-slate-900 dark:text-gpt-text">Prompt Templates</h2>
                                 <p className="text-slate-500 dark:text-gpt-secondary text-sm mt-1">Customize the quick actions available in the popup. Use <span className="bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 px-1 py-0.5 rounded border border-blue-100 dark:border-blue-800 font-mono text-xs">{`\${text}`}</span> as a placeholder for selected text.</p>
@@ -1112,6 +1524,19 @@ export default function Options({ onBack }: OptionsProps) {
                                                     </div>
                                                     <span className={clsx("text-xs font-medium transition-colors", prompt.immediate ? "text-blue-600 dark:text-blue-400" : "text-slate-400 dark:text-gray-500 group-hover/toggle:text-slate-600 dark:group-hover/toggle:text-gray-400")}>Instant</span>
                                                 </label>
+
+                                                <label className="flex items-center gap-2 cursor-pointer group/toggle" title="Generate an image instead of a text reply">
+                                                    <div className="relative inline-flex items-center">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={!!prompt.generateImages}
+                                                            onChange={(e) => handleUpdatePrompt(idx, 'generateImages', e.target.checked || undefined)}
+                                                            className="sr-only peer"
+                                                        />
+                                                        <div className="w-8 h-4.5 bg-slate-200 dark:bg-gray-700 rounded-full peer peer-checked:bg-pink-500 dark:peer-checked:bg-pink-600 peer-focus:outline-none transition-colors after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-3.5 after:w-3.5 after:transition-all peer-checked:after:translate-x-3.5 shadow-inner"></div>
+                                                    </div>
+                                                    <span className={clsx("text-xs font-medium transition-colors", prompt.generateImages ? "text-pink-600 dark:text-pink-400" : "text-slate-400 dark:text-gray-500 group-hover/toggle:text-slate-600 dark:group-hover/toggle:text-gray-400")}>Draw</span>
+                                                </label>
                                             </div>
 
                                             {/* Hotkey */}
@@ -1317,7 +1742,7 @@ export default function Options({ onBack }: OptionsProps) {
                                                         setPromptModelName('');
                                                         setIsPromptCustomModel(false);
                                                         // Auto-fetch models for current provider if not already fetched
-                                                        if (!fetchedModels[config.selectedProvider] && config.apiKeys[config.selectedProvider]?.length > 0) {
+                                                        if (!fetchedModels[config.selectedProvider] && isProviderConfigured(config.selectedProvider, config)) {
                                                             handleFetchModels(config.selectedProvider, true);
                                                         }
                                                     }}
@@ -1329,6 +1754,47 @@ export default function Options({ onBack }: OptionsProps) {
                                             )
                                         )}
                                     </div>
+
+                                    {/* Parameters (Optional), on top of the model's defaults */}
+                                    <div className="mt-3">
+                                        <button
+                                            onClick={() => setEditingPromptParams(editingPromptParams === idx ? null : idx)}
+                                            className="flex items-center gap-2 text-xs text-slate-500 dark:text-gpt-secondary hover:text-slate-700 dark:hover:text-gpt-text transition-colors"
+                                        >
+                                            <SlidersHorizontal size={14} />
+                                            <span className="font-medium">Parameters:</span>
+                                            <span className={prompt.params && describeParams(prompt.params) ? "text-green-700 dark:text-green-400" : ""}>
+                                                {describeParams(prompt.params) || "Model defaults"}
+                                            </span>
+                                        </button>
+                                        {editingPromptParams === idx && (
+                                            <div className="mt-2 p-3 bg-slate-50 dark:bg-gpt-input rounded-lg border border-slate-200 dark:border-gpt-hover">
+                                                <GenerationParamsEditor
+                                                    params={prompt.params || {}}
+                                                    onChange={(params) => handleUpdatePrompt(idx, 'params', Object.keys(params).length > 0 ? params : undefined)}
+                                                    placeholder="Model default"
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {/* Persona (Optional), which the chat switches to when the prompt is used */}
+                                    {(config.personas?.length ?? 0) > 0 && (
+                                        <div className="mt-3 flex items-center gap-2 text-xs text-slate-500 dark:text-gpt-secondary">
+                                            <UserRound size={14} />
+                                            <span className="font-medium">Persona:</span>
+                                            <select
+                                                value={prompt.personaId || ''}
+                                                onChange={(e) => handleUpdatePrompt(idx, 'personaId', e.target.value || undefined)}
+                                                className="px-2 py-1 text-xs bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 dark:text-gpt-text"
+                                            >
+                                                <option value="">The chat's persona</option>
+                                                {config.personas?.map(persona => (
+                                                    <option key={persona.id} value={persona.id}>{persona.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    )}
                                 </div>
                             ))}
                         </div>
@@ -1348,6 +1814,18 @@ export default function Options({ onBack }: OptionsProps) {
                     </div>
                 )}
 
+                {activeTab === 'mcp' && (
+                    <McpServers config={config} saveConfig={saveConfig} />
+                )}
+
+                {activeTab === 'network' && (
+                    <NetworkSettings
+                        config={config}
+                        saveConfig={saveConfig}
+                        providers={allProviders.map(id => ({ id, name: getProviderName(id) }))}
+                    />
+                )}
+
                 {activeTab === 'hotkeys' && (
                     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
                         <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
@@ -1467,6 +1945,74 @@ export default function Options({ onBack }: OptionsProps) {
                             </div>
                         </div>
 
+                        {/* Voice Input Hotkey, registered by the desktop app */}
+                        {window.electronAPI && (
+                            <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+                                <h3 className="text-lg font-bold text-slate-900 dark:text-gpt-text mb-2">Voice Input Shortcut</h3>
+                                <p className="text-sm text-slate-500 dark:text-gpt-secondary mb-6">
+                                    Press once to open the chat and start dictating, and again to stop. The transcript goes into the input box, or is sent right away if you chose so under Providers &gt; Voice Input.
+                                </p>
+
+                                <div className="w-full">
+                                    <label className="block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-2 uppercase tracking-wider">Shortcut</label>
+                                    <div
+                                        className={clsx(
+                                            "w-full h-14 flex items-center justify-center border-2 rounded-xl text-lg font-mono font-medium cursor-pointer transition-all select-none",
+                                            recordingTarget === 'voice'
+                                                ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 shadow-[0_0_0_4px_rgba(59,130,246,0.1)]"
+                                                : "border-slate-200 dark:border-gpt-hover bg-slate-50 dark:bg-gpt-input text-slate-700 dark:text-gpt-text hover:border-slate-300 dark:hover:border-gpt-text hover:bg-white dark:hover:bg-gpt-hover"
+                                        )}
+                                        onClick={() => setRecordingTarget('voice')}
+                                        onKeyDown={(e) => {
+                                            e.preventDefault();
+                                            if (recordingTarget !== 'voice') return;
+
+                                            const modifiers = [];
+                                            if (e.ctrlKey) modifiers.push('ctrl');
+                                            if (e.altKey) modifiers.push('alt');
+                                            if (e.shiftKey) modifiers.push('shift');
+                                            if (e.metaKey) modifiers.push('meta');
+
+                                            const key = e.key.toLowerCase();
+                                            if (['control', 'alt', 'shift', 'meta'].includes(key)) return;
+
+                                            saveConfig({ ...config, voiceHotkey: { key, modifiers } });
+                                            setRecordingTarget(null);
+                                        }}
+                                        tabIndex={0}
+                                        onBlur={() => setRecordingTarget(null)}
+                                    >
+                                        {recordingTarget === 'voice' ? (
+                                            <span className="animate-pulse">Press keys...</span>
+                                        ) : config.voiceHotkey ? (
+                                            <div className="flex items-center gap-2">
+                                                {config.voiceHotkey.modifiers.map(m => (
+                                                    <kbd key={m} className="px-2 py-1 bg-white dark:bg-gpt-sidebar border border-slate-300 dark:border-gpt-hover rounded-md text-sm shadow-sm uppercase">{m}</kbd>
+                                                ))}
+                                                <span className="text-slate-400">+</span>
+                                                <kbd className="px-2 py-1 bg-white dark:bg-gpt-sidebar border border-slate-300 dark:border-gpt-hover rounded-md text-sm shadow-sm uppercase">{config.voiceHotkey.key}</kbd>
+                                            </div>
+                                        ) : (
+                                            <span className="text-slate-400 italic">Click to set (e.g. Ctrl+Shift+Space)</span>
+                                        )}
+                                    </div>
+                                    {config.voiceHotkey && (
+                                        <div className="flex justify-end mt-2">
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    saveConfig({ ...config, voiceHotkey: null });
+                                                }}
+                                                className="text-xs text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 px-2 py-1 rounded transition-colors"
+                                            >
+                                                Clear Shortcut
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
                         <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800 rounded-xl p-4 flex gap-3">
                             <div className="text-amber-500 shrink-0 mt-0.5">
                                 <Keyboard size={20} />
@@ -0,0 +1,147 @@
+import { Plus, Trash2, UserRound } from 'lucide-react';
+import { clsx } from 'clsx';
+import type { AppConfig, Persona } from '../lib/types';
+
+interface PersonasProps {
+    config: AppConfig;
+    saveConfig: (config: AppConfig) => void;
+    providers: Array<{ id: string; name: string }>;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-gpt-secondary/50 dark:text-gpt-text";
+const labelClass = "block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider";
+
+// Named system prompts, picked per conversation in the chat or attached to a prompt template
+export function Personas({ config, saveConfig, providers }: PersonasProps) {
+    const personas = config.personas || [];
+
+    const handleAdd = () => {
+        const persona: Persona = { id: crypto.randomUUID(), name: 'New Persona', systemPrompt: '' };
+        saveConfig({ ...config, personas: [...personas, persona] });
+    };
+
+    const handleUpdate = (id: string, changes: Partial<Persona>) => {
+        saveConfig({ ...config, personas: personas.map(p => p.id === id ? { ...p, ...changes } : p) });
+    };
+
+    // Prompts that used it fall back to the conversation's persona
+    const handleRemove = (id: string) => {
+        saveConfig({
+            ...config,
+            personas: personas.filter(p => p.id !== id),
+            prompts: config.prompts.map(prompt => prompt.personaId === id ? { ...prompt, personaId: undefined } : prompt),
+            defaultPersonaId: config.defaultPersonaId === id ? undefined : config.defaultPersonaId
+        });
+    };
+
+    const handleProviderChange = (persona: Persona, provider: string) => {
+        handleUpdate(persona.id, {
+            model: provider
+                ? { provider, modelName: persona.model?.provider === provider ? persona.model.modelName : config.selectedModel[provider] || '' }
+                : null
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-end">
+                <div>
+                    <h2 className="text-lg font-bold text-slate-900 dark:text-gpt-text">Personas</h2>
+                    <p className="text-slate-500 dark:text-gpt-secondary text-sm mt-1">System prompts with a model and reply language to go with them. Pick one per chat from the header, or attach one to a prompt below.</p>
+                </div>
+                <button
+                    onClick={handleAdd}
+                    className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-xl hover:bg-blue-700 hover:shadow-lg hover:shadow-blue-500/30 transition-all duration-200 flex items-center gap-2 shrink-0"
+                >
+                    <Plus size={18} /> New Persona
+                </button>
+            </div>
+
+            {personas.length === 0 && (
+                <div className="text-sm text-slate-400 dark:text-gpt-secondary bg-white dark:bg-gpt-sidebar border border-dashed border-slate-200 dark:border-gpt-hover rounded-xl p-6 text-center">
+                    No personas yet. Chats use each provider's default behavior.
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-3">
+                {personas.map(persona => {
+                    const isDefault = config.defaultPersonaId === persona.id;
+                    return (
+                        <div key={persona.id} className="bg-white dark:bg-gpt-sidebar border border-slate-200 dark:border-gpt-hover rounded-xl p-4 shadow-sm space-y-3">
+                            <div className="flex items-center gap-3">
+                                <UserRound size={16} className="text-slate-400 shrink-0" />
+                                <input
+                                    type="text"
+                                    value={persona.name}
+                                    onChange={(e) => handleUpdate(persona.id, { name: e.target.value })}
+                                    className="flex-1 min-w-0 text-base font-bold text-slate-800 dark:text-gray-100 bg-transparent border-none focus:ring-0 p-0 placeholder:text-slate-300 dark:placeholder:text-gray-600 truncate"
+                                    placeholder="Untitled Persona"
+                                />
+                                <label className="flex items-center gap-2 cursor-pointer" title="New chats start with this persona">
+                                    <input
+                                        type="checkbox"
+                                        checked={isDefault}
+                                        onChange={(e) => saveConfig({ ...config, defaultPersonaId: e.target.checked ? persona.id : undefined })}
+                                        className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                    />
+                                    <span className={clsx("text-xs font-medium", isDefault ? "text-blue-600 dark:text-blue-400" : "text-slate-400 dark:text-gray-500")}>Default</span>
+                                </label>
+                                <button
+                                    onClick={() => handleRemove(persona.id)}
+                                    className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 dark:text-gray-600 dark:hover:text-red-400 dark:hover:bg-red-900/20 rounded-lg transition-all"
+                                    title="Delete Persona"
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+
+                            <textarea
+                                value={persona.systemPrompt}
+                                onChange={(e) => handleUpdate(persona.id, { systemPrompt: e.target.value })}
+                                className="w-full text-sm text-slate-700 dark:text-gray-300 bg-slate-50 dark:bg-[#1a1b1e] border-none rounded-lg p-3 pl-4 focus:ring-1 focus:ring-blue-500/50 dark:focus:ring-blue-500/30 transition-all font-mono min-h-[90px] resize-y placeholder:text-slate-400 dark:placeholder:text-gray-600 leading-relaxed"
+                                placeholder="You are a senior reviewer. Point out problems first, then suggest fixes..."
+                            />
+
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                <div>
+                                    <label className={labelClass}>Reply Language</label>
+                                    <input
+                                        type="text"
+                                        value={persona.language || ''}
+                                        onChange={(e) => handleUpdate(persona.id, { language: e.target.value || undefined })}
+                                        className={inputClass}
+                                        placeholder="Same as the question"
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Default Provider</label>
+                                    <select
+                                        value={persona.model?.provider || ''}
+                                        onChange={(e) => handleProviderChange(persona, e.target.value)}
+                                        className={inputClass}
+                                    >
+                                        <option value="">Keep the chat's model</option>
+                                        {providers.map(provider => (
+                                            <option key={provider.id} value={provider.id}>{provider.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Default Model</label>
+                                    <input
+                                        type="text"
+                                        value={persona.model?.modelName || ''}
+                                        onChange={(e) => persona.model && handleUpdate(persona.id, { model: { ...persona.model, modelName: e.target.value } })}
+                                        disabled={!persona.model}
+                                        className={clsx(inputClass, "disabled:opacity-50")}
+                                        placeholder={persona.model ? "e.g. gpt-4o" : "Pick a provider first"}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { Play, Square } from 'lucide-react';
+import { DEFAULT_SPEECH, LOCAL_SPEECH, SYSTEM_SPEECH, type AppConfig, type SpeechSettings } from '../lib/types';
+import { canSynthesizeSpeech } from '../lib/api';
+import { loadSystemVoices, SpeechPlayer } from '../lib/speech';
+
+interface ReadAloudProps {
+    config: AppConfig;
+    saveConfig: (config: AppConfig) => void;
+    providers: Array<{ id: string; name: string }>;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-gpt-secondary/50 dark:text-gpt-text";
+const labelClass = "block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider";
+
+// A model and voice that work out of the box for each kind of backend
+const SUGGESTED: Record<string, { model: string; voice: string }> = {
+    openai: { model: 'gpt-4o-mini-tts', voice: 'alloy' },
+    google: { model: 'gemini-2.5-flash-preview-tts', voice: 'Kore' },
+    [LOCAL_SPEECH]: { model: 'kokoro', voice: 'af_heart' }
+};
+
+const SAMPLE = 'Hello! This is how replies will sound when they are read aloud.';
+
+// How the speak button and auto-read voice replies
+export function ReadAloud({ config, saveConfig, providers }: ReadAloudProps) {
+    const settings = config.speech || DEFAULT_SPEECH;
+    const isSystem = settings.engine === SYSTEM_SPEECH;
+    const isLocal = settings.engine === LOCAL_SPEECH;
+    const options = providers.filter(p => canSynthesizeSpeech(p.id, config));
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+    const [sample, setSample] = useState<SpeechPlayer | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        loadSystemVoices().then(setVoices);
+    }, []);
+
+    useEffect(() => () => sample?.stop(), [sample]);
+
+    const update = (changes: Partial<SpeechSettings>) => {
+        sample?.stop();
+        saveConfig({ ...config, speech: { ...settings, ...changes } });
+    };
+
+    const handleEngineChange = (engine: string) => {
+        update({ engine, model: SUGGESTED[engine]?.model, voice: SUGGESTED[engine]?.voice });
+    };
+
+    const handleTest = () => {
+        if (sample) {
+            sample.stop();
+            return;
+        }
+        setError('');
+        const player = new SpeechPlayer(config, {
+            onStateChange: (state) => {
+                if (state === 'idle') setSample(null);
+            },
+            onError: (err) => setError(err.message)
+        });
+        setSample(player);
+        player.push(SAMPLE, true);
+    };
+
+    return (
+        <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+            <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-2 flex items-center gap-2">
+                <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
+                Read Aloud
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-gpt-secondary mb-4">
+                Replies are read with the speaker button under each answer. System voices are free and work offline; a provider's voices sound more natural and are billed to its API key.
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                    <label className={labelClass}>Voice From</label>
+                    <select
+                        value={settings.engine}
+                        onChange={(e) => handleEngineChange(e.target.value)}
+                        className={inputClass}
+                    >
+                        <option value={SYSTEM_SPEECH}>System voices</option>
+                        {options.map(provider => (
+                            <option key={provider.id} value={provider.id}>{provider.name}</option>
+                        ))}
+                        <option value={LOCAL_SPEECH}>Local speech server</option>
+                    </select>
+                </div>
+                {isSystem ? (
+                    <div className="sm:col-span-2">
+                        <label className={labelClass}>Voice</label>
+                        <select
+                            value={settings.voice || ''}
+                            onChange={(e) => update({ voice: e.target.value || undefined })}
+                            className={inputClass}
+                        >
+                            <option value="">System default</option>
+                            {voices.map(voice => (
+                                <option key={voice.voiceURI} value={voice.name}>{voice.name} ({voice.lang})</option>
+                            ))}
+                        </select>
+                    </div>
+                ) : (
+                    <>
+                        <div>
+                            <label className={labelClass}>Model</label>
+                            <input
+                                type="text"
+                                value={settings.model || ''}
+                                onChange={(e) => update({ model: e.target.value })}
+                                className={inputClass}
+                                placeholder={SUGGESTED[settings.engine]?.model || 'e.g. tts-1'}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Voice</label>
+                            <input
+                                type="text"
+                                value={settings.voice || ''}
+                                onChange={(e) => update({ voice: e.target.value || undefined })}
+                                className={inputClass}
+                                placeholder={SUGGESTED[settings.engine]?.voice || 'e.g. alloy'}
+                            />
+                        </div>
+                    </>
+                )}
+                {isLocal && (
+                    <div className="sm:col-span-3">
+                        <label className={labelClass}>Server URL</label>
+                        <input
+                            type="text"
+                            value={settings.localUrl || ''}
+                            onChange={(e) => update({ localUrl: e.target.value || undefined })}
+                            className={clsx(inputClass, "font-mono")}
+                            placeholder="http://localhost:8880/v1"
+                        />
+                        <p className="text-[10px] text-slate-400 mt-1">Any server with an OpenAI-style /audio/speech endpoint, such as Kokoro-FastAPI or openedai-speech. No key is sent.</p>
+                    </div>
+                )}
+                <div className="sm:col-span-3">
+                    <label className={labelClass}>Speed: {(settings.rate ?? 1).toFixed(1)}×</label>
+                    <div className="flex items-center gap-3">
+                        <input
+                            type="range"
+                            min={0.5}
+                            max={2}
+                            step={0.1}
+                            value={settings.rate ?? 1}
+                            onChange={(e) => update({ rate: Number(e.target.value) === 1 ? undefined : Number(e.target.value) })}
+                            className="flex-1 accent-blue-600"
+                        />
+                        <button
+                            onClick={handleTest}
+                            className="px-3 py-1.5 text-xs font-semibold text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 hover:bg-blue-100 dark:hover:bg-blue-900/40 rounded-lg transition-colors flex items-center gap-1.5 shrink-0"
+                        >
+                            {sample ? <><Square size={12} /> Stop</> : <><Play size={12} /> Try it</>}
+                        </button>
+                    </div>
+                    {settings.engine === 'google' && <p className="text-[10px] text-slate-400 mt-1">Gemini voices don't take a speed.</p>}
+                    {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+                </div>
+            </div>
+
+            <label className="flex items-center justify-between cursor-pointer group mt-4">
+                <div>
+                    <span className="text-sm font-medium text-slate-700 dark:text-gpt-text group-hover:text-slate-900 dark:group-hover:text-white transition-colors">Read replies automatically</span>
+                    <p className="text-xs text-slate-400 dark:text-gpt-secondary mt-1">
+                        Start reading each new reply as it streams in. Code blocks are skipped and formulas are read as words.
+                    </p>
+                </div>
+                <div className="relative ml-4">
+                    <input
+                        type="checkbox"
+                        checked={!!settings.autoRead}
+                        onChange={(e) => update({ autoRead: e.target.checked })}
+                        className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-slate-200 dark:bg-gpt-input peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </div>
+            </label>
+        </div>
+    );
+}
@@ -0,0 +1,113 @@
+import { clsx } from 'clsx';
+import { DEFAULT_TRANSCRIPTION, LOCAL_TRANSCRIPTION, type AppConfig, type TranscriptionSettings } from '../lib/types';
+import { canTranscribe } from '../lib/api';
+
+interface VoiceInputProps {
+    config: AppConfig;
+    saveConfig: (config: AppConfig) => void;
+    providers: Array<{ id: string; name: string }>;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm bg-slate-50 dark:bg-gpt-input border border-slate-200 dark:border-gpt-hover rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-gpt-secondary/50 dark:text-gpt-text";
+const labelClass = "block text-xs font-bold text-slate-500 dark:text-gpt-secondary mb-1.5 uppercase tracking-wider";
+
+// A model that works out of the box for each kind of backend
+const SUGGESTED_MODELS: Record<string, string> = {
+    openai: 'whisper-1',
+    google: 'gemini-2.5-flash',
+    [LOCAL_TRANSCRIPTION]: 'whisper-1'
+};
+
+// Where the mic button and the voice shortcut send recordings to be transcribed
+export function VoiceInput({ config, saveConfig, providers }: VoiceInputProps) {
+    const settings = config.transcription || DEFAULT_TRANSCRIPTION;
+    const isLocal = settings.provider === LOCAL_TRANSCRIPTION;
+    const options = providers.filter(p => canTranscribe(p.id, config));
+
+    const update = (changes: Partial<TranscriptionSettings>) => {
+        saveConfig({ ...config, transcription: { ...settings, ...changes } });
+    };
+
+    const handleProviderChange = (provider: string) => {
+        update({ provider, model: SUGGESTED_MODELS[provider] || '' });
+    };
+
+    return (
+        <div className="bg-white dark:bg-gpt-sidebar rounded-2xl shadow-sm border border-slate-200 dark:border-gpt-hover p-6">
+            <h3 className="text-base font-bold text-slate-900 dark:text-gpt-text mb-2 flex items-center gap-2">
+                <div className="w-1 h-5 bg-blue-600 rounded-full"></div>
+                Voice Input
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-gpt-secondary mb-4">
+                Dictate with the mic button in the chat, or the voice shortcut in the desktop app. Recordings are transcribed by the service below using its API key, or by a whisper-compatible server on your machine.
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                    <label className={labelClass}>Transcribe With</label>
+                    <select
+                        value={settings.provider}
+                        onChange={(e) => handleProviderChange(e.target.value)}
+                        className={inputClass}
+                    >
+                        {options.map(provider => (
+                            <option key={provider.id} value={provider.id}>{provider.name}</option>
+                        ))}
+                        <option value={LOCAL_TRANSCRIPTION}>Local whisper server</option>
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Model</label>
+                    <input
+                        type="text"
+                        value={settings.model}
+                        onChange={(e) => update({ model: e.target.value })}
+                        className={inputClass}
+                        placeholder={SUGGESTED_MODELS[settings.provider] || 'e.g. whisper-1'}
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Language</label>
+                    <input
+                        type="text"
+                        value={settings.language || ''}
+                        onChange={(e) => update({ language: e.target.value.trim() || undefined })}
+                        className={inputClass}
+                        placeholder="Detect (or e.g. en, de)"
+                    />
+                </div>
+                {isLocal && (
+                    <div className="sm:col-span-3">
+                        <label className={labelClass}>Server URL</label>
+                        <input
+                            type="text"
+                            value={settings.localUrl || ''}
+                            onChange={(e) => update({ localUrl: e.target.value || undefined })}
+                            className={clsx(inputClass, "font-mono")}
+                            placeholder="http://localhost:8000/v1"
+                        />
+                        <p className="text-[10px] text-slate-400 mt-1">Any server with an OpenAI-style /audio/transcriptions endpoint, such as faster-whisper-server, LocalAI or whisper.cpp's server. No key is sent.</p>
+                    </div>
+                )}
+            </div>
+
+            <label className="flex items-center justify-between cursor-pointer group mt-4">
+                <div>
+                    <span className="text-sm font-medium text-slate-700 dark:text-gpt-text group-hover:text-slate-900 dark:group-hover:text-white transition-colors">Send right away</span>
+                    <p className="text-xs text-slate-400 dark:text-gpt-secondary mt-1">
+                        Send the transcript as soon as it's ready instead of leaving it in the input box to edit.
+                    </p>
+                </div>
+                <div className="relative ml-4">
+                    <input
+                        type="checkbox"
+                        checked={!!settings.autoSubmit}
+                        onChange={(e) => update({ autoSubmit: e.target.checked })}
+                        className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-slate-200 dark:bg-gpt-input peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </div>
+            </label>
+        </div>
+    );
+}
@@ -1,7 +1,7 @@
 import UnifiedPopup from '../components/UnifiedPopup';
 
 // Detect if running in Electron
-const isElectron = typeof window !== 'undefined' && (window as any).electronAPI !== undefined;
+const isElectron = typeof window !== 'undefined' && window.electronAPI !== undefined;
 
 export default function Popup() {
     return <UnifiedPopup mode={isElectron ? "desktop" : "extension"} />;
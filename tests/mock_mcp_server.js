@@ -0,0 +1,129 @@
+// Minimal MCP server for trying the desktop app's MCP support without installing real servers.
+//
+//   node tests/mock_mcp_server.js               (stdio: add a server with command "node" and
+//                                                this file's absolute path as the argument)
+//   node tests/mock_mcp_server.js --http [port] (streamable HTTP on http://localhost:3333/mcp)
+//
+// Offers two tools (echo, add), one resource and one prompt. The "fail" tool returns an error result.
+
+import http from 'node:http';
+import readline from 'node:readline';
+
+const tools = [
+    {
+        name: 'echo',
+        description: 'Echo the given text back',
+        inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] }
+    },
+    {
+        name: 'add',
+        description: 'Add two numbers',
+        inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] }
+    },
+    {
+        name: 'fail',
+        description: 'Always fails',
+        inputSchema: { type: 'object', properties: {} }
+    }
+];
+
+const resources = [
+    { uri: 'memo://team-notes', name: 'Team notes', mimeType: 'text/plain' }
+];
+
+const prompts = [
+    { name: 'review', description: 'Review a piece of code', arguments: [{ name: 'language', required: true }] }
+];
+
+const handle = (method, params) => {
+    switch (method) {
+        case 'initialize':
+            return {
+                protocolVersion: params.protocolVersion,
+                capabilities: { tools: {}, resources: {}, prompts: {} },
+                serverInfo: { name: 'mock-mcp', version: '1.0.0' }
+            };
+        case 'tools/list':
+            return { tools };
+        case 'tools/call': {
+            const args = params.arguments || {};
+            if (params.name === 'echo') return { content: [{ type: 'text', text: args.text }] };
+            if (params.name === 'add') return { content: [{ type: 'text', text: String(args.a + args.b) }] };
+            if (params.name === 'fail') return { content: [{ type: 'text', text: 'Something broke' }], isError: true };
+            throw { code: -32602, message: `Unknown tool: ${params.name}` };
+        }
+        case 'resources/list':
+            return { resources };
+        case 'resources/read':
+            return { contents: [{ uri: params.uri, mimeType: 'text/plain', text: 'Standup moved to 10:30.' }] };
+        case 'prompts/list':
+            return { prompts };
+        case 'prompts/get':
+            return {
+                description: 'Code review',
+                messages: [{ role: 'user', content: { type: 'text', text: `Review this ${params.arguments?.language} code for bugs.` } }]
+            };
+        case 'ping':
+            return {};
+        default:
+            throw { code: -32601, message: `Method not found: ${method}` };
+    }
+};
+
+// Returns the response for a request, or null for notifications
+const respond = (message) => {
+    if (message.id === undefined) return null;
+    try {
+        return { jsonrpc: '2.0', id: message.id, result: handle(message.method, message.params || {}) };
+    } catch (error) {
+        return { jsonrpc: '2.0', id: message.id, error };
+    }
+};
+
+if (process.argv[2] === '--http') {
+    const port = Number(process.argv[3]) || 3333;
+    const sessionId = `session-${Date.now()}`;
+
+    http.createServer((req, res) => {
+        if (req.url !== '/mcp') {
+            res.writeHead(404);
+            res.end();
+            return;
+        }
+        if (req.method === 'DELETE') {
+            res.writeHead(200);
+            res.end();
+            return;
+        }
+
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const message = JSON.parse(body);
+            const response = respond(message);
+            if (!response) {
+                res.writeHead(202);
+                res.end();
+                return;
+            }
+            // Answer tool calls as an SSE stream and everything else as plain JSON, like real servers may
+            if (message.method === 'tools/call') {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Mcp-Session-Id': sessionId });
+                res.end(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+            } else {
+                res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': sessionId });
+                res.end(JSON.stringify(response));
+            }
+        });
+    }).listen(port, () => {
+        console.log(`Mock MCP server listening on http://localhost:${port}/mcp`);
+    });
+} else {
+    const rl = readline.createInterface({ input: process.stdin });
+    rl.on('line', line => {
+        if (!line.trim()) return;
+        const response = respond(JSON.parse(line));
+        if (response) process.stdout.write(JSON.stringify(response) + '\n');
+    });
+    console.error('Mock MCP server running on stdio');
+}
@@ -0,0 +1,87 @@
+// Minimal stand-in for an Ollama server, for trying the Ollama provider without pulling models.
+//
+//   node tests/mock_ollama_server.js [port]
+//
+// Then add a custom provider with API type "Ollama" and base URL http://localhost:11435
+// (or the port given). Implements /api/tags and /api/chat, streaming (NDJSON) and not.
+// Asking for the model "broken" returns an error line mid-stream.
+
+import http from 'node:http';
+
+const port = Number(process.argv[2]) || 11435;
+
+const models = [
+    {
+        name: 'llama3.1:8b',
+        model: 'llama3.1:8b',
+        size: 4920753328,
+        details: { family: 'llama', parameter_size: '8.0B', quantization_level: 'Q4_K_M' }
+    },
+    {
+        name: 'qwen2.5:0.5b',
+        model: 'qwen2.5:0.5b',
+        size: 397821319,
+        details: { family: 'qwen2', parameter_size: '494.03M', quantization_level: 'Q4_K_M' }
+    },
+    {
+        name: 'broken',
+        model: 'broken',
+        size: 1000,
+        details: { family: 'test', parameter_size: '1M', quantization_level: 'F16' }
+    }
+];
+
+const readBody = (req) => new Promise((resolve) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => resolve(body ? JSON.parse(body) : {}));
+});
+
+const server = http.createServer(async (req, res) => {
+    console.log(`${req.method} ${req.url}`);
+
+    if (req.method === 'GET' && req.url === '/api/tags') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ models }));
+        return;
+    }
+
+    if (req.method === 'POST' && req.url === '/api/chat') {
+        const body = await readBody(req);
+        if (!models.some(m => m.name === body.model)) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: `model "${body.model}" not found, try pulling it first` }));
+            return;
+        }
+
+        const last = body.messages?.[body.messages.length - 1];
+        const images = last?.images?.length ? ` (with ${last.images.length} image)` : '';
+        const reply = `Echo from ${body.model}${images}: ${last?.content || ''}`;
+
+        if (body.stream === false) {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ model: body.model, message: { role: 'assistant', content: reply }, done: true }));
+            return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        const words = reply.split(/(?<= )/);
+        for (const [i, word] of words.entries()) {
+            if (body.model === 'broken' && i === 2) {
+                res.end(JSON.stringify({ error: 'model runner has unexpectedly stopped' }) + '\n');
+                return;
+            }
+            res.write(JSON.stringify({ model: body.model, message: { role: 'assistant', content: word }, done: false }) + '\n');
+            await new Promise(resolve => setTimeout(resolve, 30));
+        }
+        res.end(JSON.stringify({ model: body.model, message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop' }) + '\n');
+        return;
+    }
+
+    res.writeHead(404);
+    res.end('404 page not found');
+});
+
+server.listen(port, () => {
+    console.log(`Mock Ollama server listening on http://localhost:${port}`);
+});